@@ -5,18 +5,47 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { ThemeProvider } from "@/components/theme-provider";
 import { AuthProvider } from "@/contexts/auth-context";
+import { WorkspaceProvider, useWorkspace } from "@/contexts/workspace-context";
 import ProtectedRoute from "@/components/protected-route";
 import Dashboard from "@/pages/dashboard";
+import SqlConsole from "@/pages/sql-console";
+import SharedFilePage from "@/pages/shared-file";
+import ShareLinkPage from "@/pages/share-link";
+import InvitePage from "@/pages/invite";
 import NotFound from "@/pages/not-found";
 
+// Keyed by the workspace, so switching workspaces starts the pages afresh
+function Pages() {
+  const { workspace } = useWorkspace();
+  return (
+    <Switch key={workspace?.id}>
+      <Route path="/" component={Dashboard} />
+      <Route path="/sql" component={SqlConsole} />
+      <Route component={NotFound} />
+    </Switch>
+  );
+}
+
+// Share links open without signing in; files shared with the user and invites are shown outside
+// the workspaces
 function Router() {
   return (
-    <ProtectedRoute>
-      <Switch>
-        <Route path="/" component={Dashboard} />
-        <Route component={NotFound} />
-      </Switch>
-    </ProtectedRoute>
+    <Switch>
+      <Route path="/share/:token" component={ShareLinkPage} />
+      <Route>
+        <ProtectedRoute>
+          <Switch>
+            <Route path="/shared/:fileId" component={SharedFilePage} />
+            <Route path="/invite/:token" component={InvitePage} />
+            <Route>
+              <WorkspaceProvider>
+                <Pages />
+              </WorkspaceProvider>
+            </Route>
+          </Switch>
+        </ProtectedRoute>
+      </Route>
+    </Switch>
   );
 }
 
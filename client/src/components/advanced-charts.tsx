@@ -14,8 +14,10 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useAggregate } from "@/hooks/use-aggregate";
 
 interface AdvancedChartsProps {
+  dataId: string;
   data: any[];
   headers: string[];
   statistics: any;
@@ -34,7 +36,7 @@ const GRADIENT_COLORS = [
   { start: '#8B5CF6', end: '#C4B5FD' },
 ];
 
-export default function AdvancedCharts({ data, headers, statistics }: AdvancedChartsProps) {
+export default function AdvancedCharts({ dataId, data, headers, statistics }: AdvancedChartsProps) {
   const [activeChart, setActiveChart] = useState<string>("overview");
   const [hiddenSeries, setHiddenSeries] = useState<Set<string>>(new Set());
   const [fullscreenChart, setFullscreenChart] = useState<string | null>(null);
@@ -62,47 +64,38 @@ export default function AdvancedCharts({ data, headers, statistics }: AdvancedCh
     });
   };
 
+  // Average and maximum of every numeric column over the whole sheet, computed by the server
+  const { data: columnTotals } = useAggregate(dataId, numericColumns.length >= 3 ? {
+    measures: numericColumns.flatMap(col => [
+      { fn: 'avg' as const, column: col, as: `avg:${col}` },
+      { fn: 'max' as const, column: col, as: `max:${col}` },
+    ]),
+  } : null);
+
   const prepareRadarData = () => {
-    if (numericColumns.length < 3) return [];
-    
-    const avgData = numericColumns.map(col => {
-      const values = data.map(row => parseFloat(row[col]) || 0).filter(v => !isNaN(v));
-      const avg = values.reduce((sum, val) => sum + val, 0) / values.length;
-      const max = Math.max(...values);
-      
-      return {
-        subject: col,
-        value: (avg / max) * 100, // Normalize to 0-100
-        fullMark: 100
-      };
-    });
-    
-    return avgData;
+    const totals = columnTotals?.rows[0];
+    if (numericColumns.length < 3 || !totals) return [];
+
+    return numericColumns.map(col => ({
+      subject: col,
+      value: ((Number(totals[`avg:${col}`]) || 0) / (Number(totals[`max:${col}`]) || 1)) * 100, // Normalize to 0-100
+      fullMark: 100
+    }));
   };
 
+  // Average of the first numeric column per category of the first text column
+  const heatmapCategory = categoricalColumns[0];
+  const heatmapValue = numericColumns[0];
+  const { data: heatmapGroups } = useAggregate(dataId, heatmapCategory && heatmapValue ? {
+    groupBy: [heatmapCategory],
+    measures: [{ fn: 'avg', column: heatmapValue, as: 'value' }, { fn: 'count', as: 'count' }],
+  } : null);
+
   const prepareHeatmapData = () => {
-    if (!categoricalColumns.length || !numericColumns.length) return [];
-    
-    const categoryCol = categoricalColumns[0];
-    const valueCol = numericColumns[0];
-    
-    const grouped = data.reduce((acc, row) => {
-      const category = row[categoryCol] || 'Unknown';
-      const value = parseFloat(row[valueCol]) || 0;
-      
-      if (!acc[category]) {
-        acc[category] = { category, total: 0, count: 0 };
-      }
-      acc[category].total += value;
-      acc[category].count += 1;
-      
-      return acc;
-    }, {} as Record<string, any>);
-    
-    return Object.values(grouped).map((item: any) => ({
-      category: item.category,
-      value: item.total / item.count,
-      intensity: Math.min(item.count / 10, 1) // Color intensity based on frequency
+    return (heatmapGroups?.rows ?? []).map(group => ({
+      category: group[heatmapCategory] ?? 'Unknown',
+      value: group.value ?? 0,
+      intensity: Math.min(group.count / 10, 1) // Color intensity based on frequency
     }));
   };
 
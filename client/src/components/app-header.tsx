@@ -0,0 +1,63 @@
+import type { ReactNode } from "react";
+import { Link, useLocation } from "wouter";
+import { ChartLine } from "lucide-react";
+import { ThemeToggle } from "@/components/theme-toggle";
+import UserProfile from "@/components/user-profile";
+import WorkspaceSwitcher from "@/components/workspace-switcher";
+
+interface AppHeaderProps {
+  // Page specific actions, shown before the theme toggle
+  children?: ReactNode;
+  // Pages of a shared file are outside the workspaces, so they have no navigation or switcher
+  shared?: boolean;
+}
+
+const NAV_LINKS = [
+  { href: "/", label: "Dashboard" },
+  { href: "/sql", label: "SQL Console" },
+];
+
+export default function AppHeader({ children, shared = false }: AppHeaderProps) {
+  const [location] = useLocation();
+
+  return (
+    <header className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700 sticky top-0 z-50 transition-colors duration-300">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="flex justify-between items-center h-16">
+          <div className="flex items-center space-x-6">
+            <div className="flex items-center space-x-3">
+              <div className="w-8 h-8 bg-primary-600 rounded-lg flex items-center justify-center">
+                <ChartLine className="text-white text-sm" size={16} />
+              </div>
+              <h1 className="text-xl font-semibold text-gray-900 dark:text-gray-100">Excel Analytics</h1>
+            </div>
+            {!shared && (
+              <nav className="hidden sm:flex items-center space-x-1">
+                {NAV_LINKS.map(link => (
+                  <Link
+                    key={link.href}
+                    href={link.href}
+                    className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                      location === link.href
+                        ? 'bg-gray-100 text-gray-900 dark:bg-gray-700 dark:text-gray-100'
+                        : 'text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-100'
+                    }`}
+                    data-testid={`link-nav-${link.href === '/' ? 'dashboard' : link.href.slice(1)}`}
+                  >
+                    {link.label}
+                  </Link>
+                ))}
+              </nav>
+            )}
+          </div>
+          <div className="flex items-center space-x-4">
+            {!shared && <WorkspaceSwitcher />}
+            {children}
+            <ThemeToggle />
+            <UserProfile />
+          </div>
+        </div>
+      </div>
+    </header>
+  );
+}
@@ -21,7 +21,7 @@ export default function AuthForm({ mode, onModeChange }: AuthFormProps) {
   const [loading, setLoading] = useState(false);
   const [resetMode, setResetMode] = useState(false);
   
-  const { signIn, signUp, resetPassword } = useAuth();
+  const { signIn, signUp, resetPassword, canResetPassword } = useAuth();
   const { toast } = useToast();
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -62,14 +62,14 @@ export default function AuthForm({ mode, onModeChange }: AuthFormProps) {
           });
           return;
         }
-        const { error } = await signUp(email, password, fullName);
+        const { error, confirmEmail } = await signUp(email, password, fullName);
         if (error) {
           toast({
             title: 'Sign Up Error',
             description: error.message,
             variant: 'destructive',
           });
-        } else {
+        } else if (confirmEmail) {
           toast({
             title: 'Account Created',
             description: 'Please check your email to confirm your account.',
@@ -228,14 +228,16 @@ export default function AuthForm({ mode, onModeChange }: AuthFormProps) {
             <div className="text-center space-y-2">
               {!resetMode ? (
                 <>
-                  <button
-                    type="button"
-                    onClick={() => setResetMode(true)}
-                    className="text-sm text-primary-600 hover:text-primary-700 dark:text-primary-400 dark:hover:text-primary-300 font-medium"
-                    data-testid="button-forgot-password"
-                  >
-                    Forgot your password?
-                  </button>
+                  {canResetPassword && (
+                    <button
+                      type="button"
+                      onClick={() => setResetMode(true)}
+                      className="text-sm text-primary-600 hover:text-primary-700 dark:text-primary-400 dark:hover:text-primary-300 font-medium"
+                      data-testid="button-forgot-password"
+                    >
+                      Forgot your password?
+                    </button>
+                  )}
                   <div className="text-sm text-gray-600 dark:text-gray-400">
                     {mode === 'signin' ? "Don't have an account? " : "Already have an account? "}
                     <button
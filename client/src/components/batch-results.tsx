@@ -0,0 +1,60 @@
+import { Ban, CheckCircle, X, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { formatBytes } from "@/lib/excel-utils";
+import type { BatchFileResult } from "@/hooks/use-file-upload";
+
+interface BatchResultListProps {
+  results: BatchFileResult[];
+  onDismiss: () => void;
+}
+
+export default function BatchResultList({ results, onDismiss }: BatchResultListProps) {
+  if (results.length === 0) return null;
+
+  const failed = results.some(result => result.status !== 'done');
+
+  return (
+    <div
+      className={`mt-4 p-4 border rounded-lg ${failed ? 'bg-gray-50 border-gray-200' : 'bg-green-50 border-green-200'}`}
+      data-testid="batch-results"
+    >
+      <div className="flex items-start">
+        <ul className="flex-1 space-y-2">
+          {results.map((result, index) => {
+            const sheets: any[] = result.result?.data ?? [];
+            return (
+              <li key={`${result.fileName}-${index}`} className="flex items-center" data-testid={`batch-result-${index}`}>
+                {result.status === 'done' && <CheckCircle className="text-green-600 mr-3 shrink-0" size={20} />}
+                {result.status === 'failed' && <XCircle className="text-red-600 mr-3 shrink-0" size={20} />}
+                {result.status === 'cancelled' && <Ban className="text-gray-400 mr-3 shrink-0" size={20} />}
+                <div>
+                  <p className="text-sm font-medium text-gray-800" data-testid="text-filename">
+                    {result.fileName}
+                  </p>
+                  {result.status === 'done' && (
+                    <p className="text-xs text-gray-600" data-testid="text-filestats">
+                      {sheets.reduce((total, sheet) => total + sheet.rowCount, 0).toLocaleString()} rows •{' '}
+                      {sheets.reduce((total, sheet) => total + sheet.columnCount, 0)} columns •{' '}
+                      {formatBytes(result.result.file.size)}
+                    </p>
+                  )}
+                  {result.status === 'failed' && <p className="text-xs text-red-600">{result.error}</p>}
+                  {result.status === 'cancelled' && <p className="text-xs text-gray-500">Import cancelled</p>}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onDismiss}
+          className="text-gray-500 hover:text-gray-800"
+          data-testid="button-remove-file"
+        >
+          <X size={16} />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -2,20 +2,48 @@ import { useState } from "react";
 import { RefreshCw } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { ExcelFile } from "@shared/schema";
 
 interface ChartFiltersProps {
   headers: string[];
   selectedDataId: string | null;
   onDataIdChange: (dataId: string) => void;
   fileData: any[];
+  files?: ExcelFile[];
+  selectedFileId?: string | null;
+  onFileIdChange?: (fileId: string) => void;
+}
+
+// Files uploaded together are listed under one heading per import batch
+function groupFilesByBatch(files: ExcelFile[]) {
+  const groups: { key: string; label: string | null; files: ExcelFile[] }[] = [];
+  files.forEach(file => {
+    const key = file.batchId ?? file.id;
+    let group = groups.find(g => g.key === key);
+    if (!group) {
+      group = { key, label: null, files: [] };
+      groups.push(group);
+    }
+    group.files.push(file);
+  });
+
+  groups.forEach(group => {
+    if (group.files.length > 1) {
+      group.label = `Batch of ${new Date(group.files[0].uploadedAt).toLocaleString()}`;
+    }
+  });
+  return groups;
 }
 
 export default function ChartFilters({ 
   headers, 
   selectedDataId, 
   onDataIdChange, 
-  fileData 
+  fileData,
+  files = [],
+  selectedFileId,
+  onFileIdChange,
 }: ChartFiltersProps) {
   const [selectedColumn, setSelectedColumn] = useState<string>("");
   const [selectedChartType, setSelectedChartType] = useState<string>("");
@@ -25,6 +53,11 @@ export default function ChartFilters({
     console.log("Refreshing charts...");
   };
 
+  const sourceLabels: Record<string, string> = {
+    table: "Table",
+    namedRange: "Named range",
+  };
+
   const chartTypes = [
     { value: "bar", label: "Bar Chart" },
     { value: "line", label: "Line Chart" },
@@ -38,15 +71,38 @@ export default function ChartFilters({
         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
           <h2 className="text-lg font-semibold text-gray-900">Data Visualization</h2>
           <div className="flex flex-col sm:flex-row gap-3">
+            {files.length > 1 && onFileIdChange && (
+              <Select value={selectedFileId || ""} onValueChange={onFileIdChange}>
+                <SelectTrigger className="w-full sm:w-48" data-testid="select-file">
+                  <SelectValue placeholder="Select File" />
+                </SelectTrigger>
+                <SelectContent>
+                  {groupFilesByBatch(files).map(group => (
+                    <SelectGroup key={group.key}>
+                      {group.label && <SelectLabel>{group.label}</SelectLabel>}
+                      {group.files.map(file => (
+                        <SelectItem key={file.id} value={file.id} data-testid={`option-file-${file.id}`}>
+                          {file.originalName}
+                        </SelectItem>
+                      ))}
+                    </SelectGroup>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
             {fileData.length > 1 && (
               <Select value={selectedDataId || ""} onValueChange={onDataIdChange}>
                 <SelectTrigger className="w-full sm:w-48" data-testid="select-sheet">
-                  <SelectValue placeholder="Select Sheet" />
+                  <SelectValue placeholder="Select Dataset" />
                 </SelectTrigger>
                 <SelectContent>
                   {fileData.map((sheet) => (
-                    <SelectItem key={sheet.id} value={sheet.id}>
+                    <SelectItem key={sheet.id} value={sheet.id} data-testid={`option-dataset-${sheet.id}`}>
                       {sheet.sheetName}
+                      {sourceLabels[sheet.sourceType] && (
+                        <span className="ml-2 text-xs text-gray-400">{sourceLabels[sheet.sourceType]}</span>
+                      )}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -3,8 +3,11 @@ import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContaine
 import { Download, BarChart3, TrendingUp, PieChart as PieChartIcon, Axis3d } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { useAggregate } from "@/hooks/use-aggregate";
+import { aggregateToChartData } from "@/lib/chart-utils";
 
 interface ChartsGridProps {
+  dataId: string;
   data: any[];
   headers: string[];
   statistics: any;
@@ -12,7 +15,7 @@ interface ChartsGridProps {
 
 const COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6', '#06B6D4'];
 
-export default function ChartsGrid({ data, headers, statistics }: ChartsGridProps) {
+export default function ChartsGrid({ dataId, data, headers, statistics }: ChartsGridProps) {
   const [selectedChart, setSelectedChart] = useState<string | null>(null);
 
   // Find numeric columns for charts
@@ -42,25 +45,18 @@ export default function ChartsGrid({ data, headers, statistics }: ChartsGridProp
     }));
   };
 
-  const preparePieChartData = () => {
-    if (headers.length === 0) return [];
-    
-    // Group by first text column
-    const textColumn = headers.find(h => {
-      const columnStats = statistics?.columns?.[h];
-      return columnStats && typeof columnStats.mean !== 'number';
-    }) || headers[0];
-    
-    const groups = data.reduce((acc, row) => {
-      const key = row[textColumn] || 'Unknown';
-      acc[key] = (acc[key] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
+  // Share of the most frequent values of the first text column, counted by the server
+  const pieColumn = headers.find(h => {
+    const columnStats = statistics?.columns?.[h];
+    return columnStats && typeof columnStats.mean !== 'number';
+  }) || headers[0];
 
-    return Object.entries(groups)
-      .slice(0, 6)
-      .map(([name, value]) => ({ name, value }));
-  };
+  const { data: pieGroups } = useAggregate(dataId, pieColumn ? {
+    groupBy: [pieColumn],
+    measures: [{ fn: 'count', as: 'value' }],
+    sort: [{ column: 'value', direction: 'desc' }],
+    limit: 6,
+  } : null);
 
   const prepareScatterData = () => {
     if (numericColumns.length < 2) return [];
@@ -73,7 +69,7 @@ export default function ChartsGrid({ data, headers, statistics }: ChartsGridProp
 
   const barData = prepareBarChartData();
   const lineData = prepareLineChartData();
-  const pieData = preparePieChartData();
+  const pieData = aggregateToChartData(pieGroups, pieColumn, 'value');
   const scatterData = prepareScatterData();
 
   const handleExportChart = (chartType: string) => {
@@ -1,102 +1,132 @@
-import { useState, useMemo } from "react";
-import { Search, ChevronUp, ChevronDown, ChevronsUpDown, ChevronLeft, ChevronRight } from "lucide-react";
+import { useState, useMemo, useEffect } from "react";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
+import { Search, ChevronUp, ChevronDown, ChevronsUpDown, ChevronLeft, ChevronRight, X } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import RowFilterPopover from "@/components/row-filter-popover";
+import { formatWithNumberFormat } from "@/lib/excel-utils";
+import { apiErrorMessage } from "@/lib/queryClient";
+import { describeFilter, rowsQueryKey } from "@/lib/row-query-utils";
+import type { CellDetail, ColumnDataType, RowFilter, RowPage, RowSort } from "@shared/schema";
 
 interface DataTableProps {
-  data: any[];
+  dataId: string;
   headers: string[];
+  columnTypes: Record<string, ColumnDataType | undefined>;
+  columnFormats?: Record<string, string> | null;
 }
 
-type SortDirection = 'asc' | 'desc' | null;
+// Workbook hyperlinks are only rendered as links for web and mail targets
+const SAFE_LINK_PATTERN = /^(https?:|mailto:)/i;
+const PAGE_SIZES = [10, 25, 50, 100];
+const SEARCH_DELAY_MS = 300;
 
-export default function DataTable({ data, headers }: DataTableProps) {
+export default function DataTable({ dataId, headers, columnTypes, columnFormats }: DataTableProps) {
   const [searchTerm, setSearchTerm] = useState("");
-  const [sortColumn, setSortColumn] = useState<string | null>(null);
-  const [sortDirection, setSortDirection] = useState<SortDirection>(null);
-  const [currentPage, setCurrentPage] = useState(1);
+  const [debouncedSearch, setDebouncedSearch] = useState("");
   const [selectedColumn, setSelectedColumn] = useState<string>("all");
-  
-  const itemsPerPage = 10;
+  const [sort, setSort] = useState<RowSort[]>([]);
+  const [filters, setFilters] = useState<RowFilter[]>([]);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [itemsPerPage, setItemsPerPage] = useState(10);
 
-  // Filter and sort data
-  const processedData = useMemo(() => {
-    let filtered = data.filter(row => {
-      if (!searchTerm) return true;
-      
-      if (selectedColumn === "all") {
-        return Object.values(row).some(value => 
-          String(value).toLowerCase().includes(searchTerm.toLowerCase())
-        );
-      } else {
-        return String(row[selectedColumn] || "").toLowerCase().includes(searchTerm.toLowerCase());
-      }
-    });
+  // Only ask the server once the user stops typing
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedSearch(searchTerm.trim());
+      setCurrentPage(1);
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
 
-    if (sortColumn && sortDirection) {
-      filtered.sort((a, b) => {
-        const aVal = a[sortColumn];
-        const bVal = b[sortColumn];
-        
-        // Handle null/undefined values
-        if (aVal == null && bVal == null) return 0;
-        if (aVal == null) return sortDirection === 'asc' ? -1 : 1;
-        if (bVal == null) return sortDirection === 'asc' ? 1 : -1;
+  // A newly selected sheet starts unsorted and unfiltered
+  useEffect(() => {
+    setSort([]);
+    setFilters([]);
+    setSearchTerm("");
+    setSelectedColumn("all");
+    setCurrentPage(1);
+  }, [dataId]);
 
-        // Handle numeric values
-        const aNum = parseFloat(aVal);
-        const bNum = parseFloat(bVal);
-        if (!isNaN(aNum) && !isNaN(bNum)) {
-          return sortDirection === 'asc' ? aNum - bNum : bNum - aNum;
-        }
+  // Searching a single column is a contains filter on that column
+  const queryFilters = useMemo(() => {
+    if (!debouncedSearch || selectedColumn === "all") return filters;
+    return [...filters, { column: selectedColumn, op: 'contains' as const, value: debouncedSearch }];
+  }, [filters, debouncedSearch, selectedColumn]);
 
-        // Handle string values
-        const aStr = String(aVal).toLowerCase();
-        const bStr = String(bVal).toLowerCase();
-        
-        if (sortDirection === 'asc') {
-          return aStr < bStr ? -1 : aStr > bStr ? 1 : 0;
-        } else {
-          return aStr > bStr ? -1 : aStr < bStr ? 1 : 0;
-        }
-      });
-    }
+  const { data: page, isFetching, error } = useQuery<RowPage>({
+    queryKey: rowsQueryKey(dataId, {
+      offset: (currentPage - 1) * itemsPerPage,
+      limit: itemsPerPage,
+      sort,
+      filters: queryFilters,
+      search: selectedColumn === "all" ? debouncedSearch : undefined,
+    }),
+    // Keep showing the current page while the next one loads
+    placeholderData: keepPreviousData,
+  });
 
-    return filtered;
-  }, [data, searchTerm, selectedColumn, sortColumn, sortDirection]);
+  // Formulas, hyperlinks and comments, only present when the sheet was imported with rich import
+  const { data: cellDetails } = useQuery<{ richImport: boolean; cells: CellDetail[] }>({
+    queryKey: ["/api/data", dataId, "cells"],
+  });
+
+  const cellDetailLookup = useMemo(() => {
+    const lookup = new Map<string, CellDetail>();
+    cellDetails?.cells.forEach(cell => lookup.set(`${cell.row}:${cell.column}`, cell));
+    return lookup;
+  }, [cellDetails]);
 
   // Pagination
-  const totalPages = Math.ceil(processedData.length / itemsPerPage);
+  const rows = page?.rows ?? [];
+  const total = page?.total ?? 0;
+  const totalPages = Math.max(1, Math.ceil(total / itemsPerPage));
   const startIndex = (currentPage - 1) * itemsPerPage;
-  const endIndex = startIndex + itemsPerPage;
-  const currentData = processedData.slice(startIndex, endIndex);
+  const endIndex = Math.min(startIndex + rows.length, total);
 
-  const handleSort = (column: string) => {
-    if (sortColumn === column) {
-      if (sortDirection === 'asc') {
-        setSortDirection('desc');
-      } else if (sortDirection === 'desc') {
-        setSortColumn(null);
-        setSortDirection(null);
-      } else {
-        setSortDirection('asc');
-      }
-    } else {
-      setSortColumn(column);
-      setSortDirection('asc');
-    }
+  // A click sorts by the column alone, shift-click adds it as a further sort key.
+  // Each click cycles the column through ascending, descending and unsorted.
+  const handleSort = (column: string, addKey: boolean) => {
+    setSort(current => {
+      const existing = current.find(key => key.column === column);
+      const next: RowSort | null = !existing
+        ? { column, direction: 'asc' }
+        : existing.direction === 'asc' ? { column, direction: 'desc' } : null;
+
+      if (!addKey) return next ? [next] : [];
+      if (!next) return current.filter(key => key.column !== column);
+      return existing ? current.map(key => (key.column === column ? next : key)) : [...current, next];
+    });
+    setCurrentPage(1);
+  };
+
+  const handleAddFilter = (filter: RowFilter) => {
+    setFilters(current => [...current, filter]);
+    setCurrentPage(1);
+  };
+
+  const handleRemoveFilter = (index: number) => {
+    setFilters(current => current.filter((_, i) => i !== index));
+    setCurrentPage(1);
   };
 
   const getSortIcon = (column: string) => {
-    if (sortColumn !== column) {
+    const position = sort.findIndex(key => key.column === column);
+    if (position === -1) {
       return <ChevronsUpDown className="text-gray-400" size={14} />;
     }
-    if (sortDirection === 'asc') {
-      return <ChevronUp className="text-gray-600" size={14} />;
-    }
-    return <ChevronDown className="text-gray-600" size={14} />;
+    return (
+      <>
+        {sort[position].direction === 'asc'
+          ? <ChevronUp className="text-gray-600" size={14} />
+          : <ChevronDown className="text-gray-600" size={14} />}
+        {sort.length > 1 && <span className="text-[10px] text-gray-500">{position + 1}</span>}
+      </>
+    );
   };
 
   const getCategoryBadgeColor = (value: string) => {
@@ -109,9 +139,20 @@ export default function DataTable({ data, headers }: DataTableProps) {
     return colors[value as keyof typeof colors] || 'bg-gray-100 text-gray-800';
   };
 
-  const formatCellValue = (value: any, header: string) => {
+  const formatCellValue = (value: any, header: string, formatted: Record<string, string> | null) => {
     if (value == null) return '';
-    
+
+    // Prefer the text the source spreadsheet displayed, then its number format
+    const formattedText = formatted?.[header];
+    if (formattedText !== undefined) return formattedText;
+
+    const numberFormat = columnFormats?.[header];
+    if (numberFormat && typeof value === 'number') {
+      return formatWithNumberFormat(value, numberFormat);
+    }
+
+    if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+
     // Format currency-like columns
     const headerStr = String(header).toLowerCase();
     if (headerStr.includes('amount') || headerStr.includes('price') || headerStr.includes('revenue')) {
@@ -136,6 +177,42 @@ export default function DataTable({ data, headers }: DataTableProps) {
     return String(value);
   };
 
+  const renderCell = (value: any, header: string, rowIndex: number, formatted: Record<string, string> | null) => {
+    const content = formatCellValue(value, header, formatted);
+    const detail = cellDetailLookup.get(`${rowIndex}:${header}`);
+    if (!detail) return content;
+
+    return (
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <span className="relative inline-flex items-center pr-3" data-testid={`cell-detail-${rowIndex}-${header}`}>
+            {detail.hyperlink && SAFE_LINK_PATTERN.test(detail.hyperlink) ? (
+              <a
+                href={detail.hyperlink}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-primary-600 underline"
+              >
+                {content}
+              </a>
+            ) : content}
+            {detail.formula && (
+              <span className="ml-1 text-[10px] font-semibold italic text-gray-400">fx</span>
+            )}
+            {detail.comment && (
+              <span className="absolute top-0 right-0 w-0 h-0 border-t-[6px] border-l-[6px] border-t-red-500 border-l-transparent" />
+            )}
+          </span>
+        </TooltipTrigger>
+        <TooltipContent className="max-w-xs space-y-1 text-xs">
+          {detail.formula && <p className="font-mono">{detail.formula}</p>}
+          {detail.hyperlink && <p className="break-all">{detail.hyperlink}</p>}
+          {detail.comment && <p className="whitespace-pre-wrap">{detail.comment}</p>}
+        </TooltipContent>
+      </Tooltip>
+    );
+  };
+
   return (
     <Card className="shadow-card">
       <CardContent className="p-0">
@@ -155,7 +232,7 @@ export default function DataTable({ data, headers }: DataTableProps) {
                 />
                 <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={16} />
               </div>
-              <Select value={selectedColumn} onValueChange={setSelectedColumn}>
+              <Select value={selectedColumn} onValueChange={(value) => { setSelectedColumn(value); setCurrentPage(1); }}>
                 <SelectTrigger className="w-full sm:w-48" data-testid="select-column-filter">
                   <SelectValue placeholder="All Columns" />
                 </SelectTrigger>
@@ -168,19 +245,42 @@ export default function DataTable({ data, headers }: DataTableProps) {
                   ))}
                 </SelectContent>
               </Select>
+              <RowFilterPopover headers={headers} columnTypes={columnTypes} onAdd={handleAddFilter} />
             </div>
           </div>
+
+          {filters.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 mt-4" data-testid="list-active-filters">
+              {filters.map((filter, index) => (
+                <Badge key={index} variant="secondary" className="flex items-center gap-1">
+                  {describeFilter(filter)}
+                  <button
+                    onClick={() => handleRemoveFilter(index)}
+                    className="ml-1 text-gray-500 hover:text-gray-700"
+                    aria-label={`Remove filter ${describeFilter(filter)}`}
+                    data-testid={`button-remove-filter-${index}`}
+                  >
+                    <X size={12} />
+                  </button>
+                </Badge>
+              ))}
+              <Button variant="ghost" size="sm" onClick={() => { setFilters([]); setCurrentPage(1); }} data-testid="button-clear-filters">
+                Clear all
+              </Button>
+            </div>
+          )}
         </div>
 
         {/* Table */}
-        <div className="overflow-x-auto">
+        <div className={`overflow-x-auto transition-opacity ${isFetching ? 'opacity-60' : ''}`}>
           <table className="w-full">
             <thead className="bg-gray-50 border-b border-gray-200">
               <tr>
                 {headers.map((header) => (
                   <th
                     key={header}
-                    onClick={() => handleSort(header)}
+                    onClick={(e) => handleSort(header, e.shiftKey)}
+                    title="Click to sort, shift-click to sort by several columns"
                     className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100 transition-colors duration-200"
                     data-testid={`header-${String(header).toLowerCase().replace(/\s+/g, '-')}`}
                   >
@@ -193,7 +293,21 @@ export default function DataTable({ data, headers }: DataTableProps) {
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {currentData.map((row, index) => (
+              {error && (
+                <tr>
+                  <td colSpan={headers.length} className="px-6 py-4 text-sm text-red-600" data-testid="text-rows-error">
+                    {apiErrorMessage(error, 'Failed to load rows')}
+                  </td>
+                </tr>
+              )}
+              {!error && page && rows.length === 0 && (
+                <tr>
+                  <td colSpan={headers.length} className="px-6 py-4 text-sm text-gray-500 text-center" data-testid="text-no-rows">
+                    No rows match the current search and filters
+                  </td>
+                </tr>
+              )}
+              {rows.map(({ index: rowIndex, values: row, formatted }, index) => (
                 <tr
                   key={index}
                   className="hover:bg-gray-50 transition-colors duration-150"
@@ -205,7 +319,7 @@ export default function DataTable({ data, headers }: DataTableProps) {
                       className="px-6 py-4 whitespace-nowrap text-sm text-gray-900"
                       data-testid={`cell-${String(header).toLowerCase().replace(/\s+/g, '-')}-${index}`}
                     >
-                      {formatCellValue(row[header], header)}
+                      {renderCell(row[header], header, rowIndex, formatted)}
                     </td>
                   ))}
                 </tr>
@@ -220,19 +334,32 @@ export default function DataTable({ data, headers }: DataTableProps) {
             <div className="text-sm text-gray-700">
               Showing{' '}
               <span className="font-medium" data-testid="text-pagination-start">
-                {processedData.length === 0 ? 0 : startIndex + 1}
+                {rows.length === 0 ? 0 : startIndex + 1}
               </span>{' '}
               to{' '}
               <span className="font-medium" data-testid="text-pagination-end">
-                {Math.min(endIndex, processedData.length)}
+                {endIndex}
               </span>{' '}
               of{' '}
               <span className="font-medium" data-testid="text-pagination-total">
-                {processedData.length}
+                {total}
               </span>{' '}
               results
             </div>
             <div className="flex items-center space-x-2">
+              <Select
+                value={String(itemsPerPage)}
+                onValueChange={(value) => { setItemsPerPage(Number(value)); setCurrentPage(1); }}
+              >
+                <SelectTrigger className="w-28" data-testid="select-page-size">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAGE_SIZES.map(size => (
+                    <SelectItem key={size} value={String(size)}>{size} / page</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
               <Button
                 variant="outline"
                 size="sm"
@@ -276,7 +403,7 @@ export default function DataTable({ data, headers }: DataTableProps) {
                 variant="outline"
                 size="sm"
                 onClick={() => setCurrentPage(prev => Math.min(prev + 1, totalPages))}
-                disabled={currentPage === totalPages}
+                disabled={currentPage >= totalPages}
                 data-testid="button-next-page"
               >
                 Next
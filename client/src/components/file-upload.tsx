@@ -1,98 +1,170 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect } from "react";
 import { useDropzone } from "react-dropzone";
-import { CloudUpload, CheckCircle, X } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { ClipboardPaste, CloudUpload, RotateCcw, X } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { useFileUpload, type BatchFileResult, type UploadPhase } from "@/hooks/use-file-upload";
+import { ACCEPTED_UPLOAD_TYPES, formatBytes } from "@/lib/excel-utils";
+import ImportOptionsDialog from "@/components/import-options-dialog";
+import ImportReportList from "@/components/import-report";
+import ImportProgressList from "@/components/import-progress";
+import BatchResultList from "@/components/batch-results";
+import PasteDataDialog from "@/components/paste-data-dialog";
+import ImportPreviewDialog from "@/components/import-preview-dialog";
+import { MAX_BATCH_FILES, MAX_UPLOAD_BYTES, type AppliedImportOptions, type ExcelData, type ExcelFile, type ImportCommit, type UploadOptions } from "@shared/schema";
 
 interface FileUploadProps {
   onFileUploaded: (fileId: string) => void;
   onUploadStart: () => void;
   onUploadEnd: () => void;
+  onUploadProgress?: (progress: number, phase: UploadPhase | null) => void;
 }
 
-export default function FileUpload({ onFileUploaded, onUploadStart, onUploadEnd }: FileUploadProps) {
-  const [uploadedFile, setUploadedFile] = useState<any>(null);
-  const { toast } = useToast();
+// Collect the options each sheet was imported with the last time a file with this name was uploaded
+async function loadPreviousImportOptions(files: ExcelFile[], fileName: string): Promise<UploadOptions | undefined> {
+  const previousFile = files.find(f => f.originalName === fileName);
+  if (!previousFile) return undefined;
 
-  const onDrop = useCallback(async (acceptedFiles: File[]) => {
-    const file = acceptedFiles[0];
-    if (!file) return;
+  const sheets = await queryClient.fetchQuery<ExcelData[]>({
+    queryKey: ["/api/files", previousFile.id, "data"],
+  });
+
+  const sheetOptions: NonNullable<UploadOptions['sheets']> = {};
+  sheets.forEach(sheet => {
+    const applied = sheet.importOptions as AppliedImportOptions | null;
+    if (!applied) return;
+
+    const { headerDetected, headerRow, ...rest } = applied;
+    // Detected headers are detected again, only explicit choices are re-applied
+    sheetOptions[sheet.sheetName] = headerDetected ? rest : { ...rest, headerRow };
+  });
+
+  if (Object.keys(sheetOptions).length === 0) return undefined;
+
+  return {
+    skipRows: 0,
+    headerRowCount: 1,
+    headerSeparator: " ",
+    ignoreHidden: false,
+    richImport: false,
+    sheets: sheetOptions,
+  };
+}
+
+export default function FileUpload({ onFileUploaded, onUploadStart, onUploadEnd, onUploadProgress }: FileUploadProps) {
+  const [pendingFiles, setPendingFiles] = useState<File[]>([]);
+  const [previousOptions, setPreviousOptions] = useState<UploadOptions | undefined>(undefined);
+  const [isPasteOpen, setIsPasteOpen] = useState(false);
+  const [pastedSheets, setPastedSheets] = useState<ExcelData[]>([]);
+
+  const { data: files = [] } = useQuery<ExcelFile[]>({
+    queryKey: ["/api/files"],
+  });
 
+  // Open the first file that was imported successfully
+  const handleUploadSuccess = useCallback(({ results }: { results: BatchFileResult[] }) => {
+    const imported = results.find(result => result.status === 'done');
+    if (imported) {
+      onFileUploaded(imported.result.file.id);
+    }
+  }, [onFileUploaded]);
+
+  const {
+    uploadFiles,
+    uploadProgress,
+    uploadPhase,
+    importJobs,
+    cancelImport,
+    importPreview,
+    commitPreview,
+    discardPreview,
+    batchResults,
+    clearBatchResults,
+    interruptedUploads,
+    discardInterruptedUpload,
+  } = useFileUpload({ onSuccess: handleUploadSuccess });
+
+  useEffect(() => {
+    onUploadProgress?.(uploadProgress, uploadPhase);
+  }, [uploadProgress, uploadPhase, onUploadProgress]);
+
+  const uploadWithOptions = useCallback(async (selected: File[], options: UploadOptions) => {
     onUploadStart();
 
     try {
-      const formData = new FormData();
-      formData.append('file', file);
-
-      const response = await fetch('/api/upload', {
-        method: 'POST',
-        body: formData,
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || 'Upload failed');
-      }
-
-      const result = await response.json();
-      
-      setUploadedFile({
-        name: result.file.originalName,
-        size: result.file.size,
-        rows: result.data.reduce((total: number, sheet: any) => total + sheet.rowCount, 0),
-        columns: result.data.reduce((total: number, sheet: any) => total + sheet.columnCount, 0),
-      });
-
-      // Invalidate queries to refresh data
-      queryClient.invalidateQueries({ queryKey: ["/api/files"] });
-      
-      onFileUploaded(result.file.id);
-
-      toast({
-        title: "File Uploaded Successfully",
-        description: "Your Excel file has been processed and is ready for analysis.",
-      });
+      await uploadFiles(selected, options);
     } catch (error) {
       console.error('Upload error:', error);
-      toast({
-        title: "Upload Failed",
-        description: error instanceof Error ? error.message : "Failed to upload file",
-        variant: "destructive",
-      });
     } finally {
       onUploadEnd();
     }
-  }, [onFileUploaded, onUploadStart, onUploadEnd, toast]);
+  }, [uploadFiles, onUploadStart, onUploadEnd]);
 
-  const { getRootProps, getInputProps, isDragActive } = useDropzone({
-    onDrop,
-    accept: {
-      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
-      'application/vnd.ms-excel': ['.xls'],
-    },
-    maxFiles: 1,
-    maxSize: 10 * 1024 * 1024, // 10MB
-  });
+  const handleCommitPreview = useCallback(async (commit: ImportCommit) => {
+    onUploadStart();
+
+    try {
+      await commitPreview(commit);
+    } finally {
+      onUploadEnd();
+    }
+  }, [commitPreview, onUploadStart, onUploadEnd]);
+
+  const onDrop = useCallback(async (acceptedFiles: File[]) => {
+    if (acceptedFiles.length === 0) return;
+
+    // Options of an earlier import are only offered when a single file is uploaded again
+    try {
+      setPreviousOptions(acceptedFiles.length === 1 ? await loadPreviousImportOptions(files, acceptedFiles[0].name) : undefined);
+    } catch (error) {
+      console.error('Error loading previous import options:', error);
+      setPreviousOptions(undefined);
+    }
+    setPendingFiles(acceptedFiles);
+  }, [files]);
 
-  const formatBytes = (bytes: number) => {
-    if (bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+  const handlePasteImported = ({ file, data }: { file: ExcelFile; data: ExcelData[] }) => {
+    setIsPasteOpen(false);
+    clearBatchResults();
+    setPastedSheets(data);
+    onFileUploaded(file.id);
   };
 
-  const removeFile = () => {
-    setUploadedFile(null);
+  const handleConfirmImport = (options: UploadOptions) => {
+    setPastedSheets([]);
+    const selected = pendingFiles;
+    setPendingFiles([]);
+    if (selected.length > 0) {
+      uploadWithOptions(selected, options);
+    }
   };
 
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: ACCEPTED_UPLOAD_TYPES,
+    maxFiles: MAX_BATCH_FILES,
+    maxSize: MAX_UPLOAD_BYTES,
+  });
+
   return (
     <div className="mb-8">
       <Card className="shadow-card">
         <CardContent className="p-6">
-          <h2 className="text-lg font-semibold text-gray-900 mb-4">Upload Excel File</h2>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-gray-900">Upload Excel File</h2>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsPasteOpen(true)}
+              disabled={uploadPhase !== null}
+              data-testid="button-paste-data"
+            >
+              <ClipboardPaste className="mr-2" size={16} />
+              Paste data
+            </Button>
+          </div>
           
           <div
             {...getRootProps()}
@@ -109,39 +181,70 @@ export default function FileUpload({ onFileUploaded, onUploadStart, onUploadEnd
                 <CloudUpload className="text-primary-600" size={24} />
               </div>
               <p className="text-lg font-medium text-gray-700 mb-2">
-                {isDragActive ? 'Drop the file here' : 'Drop your Excel file here'}
+                {isDragActive ? 'Drop the files here' : 'Drop your spreadsheets or data files here'}
+              </p>
+              <p className="text-sm text-gray-500 mb-4">or click to browse files, up to {MAX_BATCH_FILES} at once</p>
+              <p className="text-xs text-gray-400">
+                Supports .xlsx, .xls, .ods, .csv, .tsv, .json, .ndjson files and .zip archives of them, up to {MAX_UPLOAD_BYTES / (1024 * 1024)}MB each
               </p>
-              <p className="text-sm text-gray-500 mb-4">or click to browse files</p>
-              <p className="text-xs text-gray-400">Supports .xlsx, .xls files up to 10MB</p>
             </div>
           </div>
 
-          {uploadedFile && (
-            <div className="mt-4 p-4 bg-success-50 border border-success-200 rounded-lg">
-              <div className="flex items-center">
-                <CheckCircle className="text-success-600 mr-3" size={20} />
-                <div className="flex-1">
-                  <p className="text-sm font-medium text-success-800" data-testid="text-filename">
-                    {uploadedFile.name}
-                  </p>
-                  <p className="text-xs text-success-600" data-testid="text-filestats">
-                    {uploadedFile.rows.toLocaleString()} rows • {uploadedFile.columns} columns • {formatBytes(uploadedFile.size)}
-                  </p>
-                </div>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={removeFile}
-                  className="text-success-600 hover:text-success-800"
-                  data-testid="button-remove-file"
-                >
-                  <X size={16} />
-                </Button>
-              </div>
+          {importJobs.map(job => (
+            <ImportProgressList key={job.id} job={job} onCancel={() => cancelImport(job.id)} />
+          ))}
+
+          <BatchResultList results={batchResults} onDismiss={clearBatchResults} />
+
+          <ImportReportList
+            sheets={[...pastedSheets, ...batchResults.flatMap(result => result.status === 'done' ? result.result.data : [])]}
+          />
+
+          {!uploadPhase && interruptedUploads.map(upload => (
+            <div
+              key={upload.key}
+              className="mt-4 p-4 bg-amber-50 border border-amber-200 rounded-lg flex items-center"
+              data-testid={`interrupted-upload-${upload.uploadId}`}
+            >
+              <RotateCcw className="text-amber-600 mr-3" size={20} />
+              <p className="flex-1 text-sm text-amber-800">
+                The upload of <span className="font-medium">{upload.fileName}</span> ({formatBytes(upload.size)}) was interrupted.
+                Drop the same file again to resume it.
+              </p>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => discardInterruptedUpload(upload)}
+                className="text-amber-600 hover:text-amber-800"
+                data-testid={`button-discard-upload-${upload.uploadId}`}
+              >
+                <X size={16} />
+              </Button>
             </div>
-          )}
+          ))}
         </CardContent>
       </Card>
+
+      <ImportOptionsDialog
+        open={pendingFiles.length > 0}
+        fileName={pendingFiles.length === 1 ? pendingFiles[0].name : `${pendingFiles.length} files`}
+        previousOptions={previousOptions}
+        onConfirm={handleConfirmImport}
+        onCancel={() => setPendingFiles([])}
+      />
+
+      <ImportPreviewDialog
+        preview={importPreview}
+        isImporting={uploadPhase !== null}
+        onConfirm={handleCommitPreview}
+        onCancel={discardPreview}
+      />
+
+      <PasteDataDialog
+        open={isPasteOpen}
+        onImported={handlePasteImported}
+        onCancel={() => setIsPasteOpen(false)}
+      />
     </div>
   );
 }
@@ -0,0 +1,164 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import type { UploadOptions } from "@shared/schema";
+
+interface ImportOptionsDialogProps {
+  open: boolean;
+  fileName: string;
+  previousOptions?: UploadOptions;
+  onConfirm: (options: UploadOptions) => void;
+  onCancel: () => void;
+}
+
+export default function ImportOptionsDialog({
+  open,
+  fileName,
+  previousOptions,
+  onConfirm,
+  onCancel,
+}: ImportOptionsDialogProps) {
+  const [headerRow, setHeaderRow] = useState("");
+  const [skipRows, setSkipRows] = useState("0");
+  const [headerRowCount, setHeaderRowCount] = useState("1");
+  const [range, setRange] = useState("");
+  const [ignoreHidden, setIgnoreHidden] = useState(false);
+  const [richImport, setRichImport] = useState(false);
+  const [reusePrevious, setReusePrevious] = useState(true);
+
+  const previousSheetCount = Object.keys(previousOptions?.sheets ?? {}).length;
+
+  // Start from the options of the previous import of this file, if there was one
+  useEffect(() => {
+    if (!open) return;
+    setHeaderRow(previousOptions?.headerRow !== undefined ? String(previousOptions.headerRow + 1) : "");
+    setSkipRows(String(previousOptions?.skipRows ?? 0));
+    setHeaderRowCount(String(previousOptions?.headerRowCount ?? 1));
+    setRange(previousOptions?.range ?? "");
+    setIgnoreHidden(previousOptions?.ignoreHidden ?? false);
+    setRichImport(previousOptions?.richImport ?? false);
+    setReusePrevious(true);
+  }, [open, previousOptions]);
+
+  const handleConfirm = () => {
+    const options: UploadOptions = {
+      // The header row is shown 1-based, the server expects a 0-based index
+      headerRow: headerRow.trim() ? Math.max(parseInt(headerRow, 10) - 1, 0) : undefined,
+      skipRows: Math.max(parseInt(skipRows, 10) || 0, 0),
+      headerRowCount: Math.min(Math.max(parseInt(headerRowCount, 10) || 1, 1), 5),
+      headerSeparator: " ",
+      range: range.trim() || undefined,
+      ignoreHidden,
+      richImport,
+      sheets: reusePrevious ? previousOptions?.sheets : undefined,
+    };
+    onConfirm(options);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Import Options</DialogTitle>
+          <DialogDescription>
+            Configure how <span className="font-medium">{fileName}</span> is read. Leave the header row empty to detect it automatically.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="import-header-row">Header row</Label>
+            <Input
+              id="import-header-row"
+              type="number"
+              min={1}
+              placeholder="Auto-detect"
+              value={headerRow}
+              onChange={(e) => setHeaderRow(e.target.value)}
+              data-testid="input-header-row"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="import-skip-rows">Rows to skip</Label>
+            <Input
+              id="import-skip-rows"
+              type="number"
+              min={0}
+              value={skipRows}
+              onChange={(e) => setSkipRows(e.target.value)}
+              data-testid="input-skip-rows"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="import-header-row-count">Header rows to join</Label>
+            <Input
+              id="import-header-row-count"
+              type="number"
+              min={1}
+              max={5}
+              value={headerRowCount}
+              onChange={(e) => setHeaderRowCount(e.target.value)}
+              data-testid="input-header-row-count"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="import-range">Cell range</Label>
+            <Input
+              id="import-range"
+              placeholder="e.g. B3:K500"
+              value={range}
+              onChange={(e) => setRange(e.target.value)}
+              data-testid="input-range"
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="import-ignore-hidden">Ignore hidden rows and columns</Label>
+          <Switch
+            id="import-ignore-hidden"
+            checked={ignoreHidden}
+            onCheckedChange={setIgnoreHidden}
+            data-testid="switch-ignore-hidden"
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="import-rich">Keep formulas, hyperlinks and comments</Label>
+          <Switch
+            id="import-rich"
+            checked={richImport}
+            onCheckedChange={setRichImport}
+            data-testid="switch-rich-import"
+          />
+        </div>
+
+        {previousSheetCount > 0 && (
+          <div className="flex items-center justify-between">
+            <Label htmlFor="import-reuse-previous">
+              Re-apply per-sheet options from the previous import ({previousSheetCount} sheets)
+            </Label>
+            <Switch
+              id="import-reuse-previous"
+              checked={reusePrevious}
+              onCheckedChange={setReusePrevious}
+              data-testid="switch-reuse-previous"
+            />
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} data-testid="button-cancel-import">
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} data-testid="button-confirm-import">
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,259 @@
+import { useEffect, useState } from "react";
+import { AlertTriangle } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { formatBytes } from "@/lib/excel-utils";
+import {
+  columnDataTypes,
+  type ColumnDataType,
+  type ImportCommit,
+  type ImportPreview,
+  type SheetPreview,
+} from "@shared/schema";
+
+interface ImportPreviewDialogProps {
+  preview: ImportPreview | null;
+  isImporting: boolean;
+  onConfirm: (commit: ImportCommit) => void;
+  onCancel: () => void;
+}
+
+// What the user changed for one sheet; column names and types are keyed by the previewed column name
+interface SheetChoice {
+  include: boolean;
+  names: Record<string, string>;
+  types: Record<string, ColumnDataType | 'auto'>;
+}
+
+const TYPE_LABELS: Record<ColumnDataType, string> = {
+  number: 'Number',
+  text: 'Text',
+  date: 'Date',
+  boolean: 'Boolean',
+};
+
+function initialChoices(preview: ImportPreview): Record<string, SheetChoice> {
+  const choices: Record<string, SheetChoice> = {};
+  preview.sheets.forEach(sheet => {
+    choices[sheet.sheetName] = {
+      include: sheet.columns.length > 0,
+      names: Object.fromEntries(sheet.columns.map(column => [column.name, column.name])),
+      types: Object.fromEntries(sheet.columns.map(column => [column.name, 'auto' as const])),
+    };
+  });
+  return choices;
+}
+
+function formatPreviewValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  return String(value);
+}
+
+// Only send what differs from the preview
+function buildCommit(preview: ImportPreview, choices: Record<string, SheetChoice>): ImportCommit {
+  const commit: ImportCommit = { sheets: {} };
+  preview.sheets.forEach(sheet => {
+    const choice = choices[sheet.sheetName];
+    const columns: ImportCommit['sheets'][string]['columns'] = {};
+    sheet.columns.forEach(column => {
+      const name = choice.names[column.name].trim();
+      const type = choice.types[column.name];
+      if (name === column.name && type === 'auto') return;
+      columns[column.name] = {
+        ...(name !== column.name ? { name } : {}),
+        ...(type !== 'auto' ? { type } : {}),
+      };
+    });
+    commit.sheets[sheet.sheetName] = { include: choice.include, columns };
+  });
+  return commit;
+}
+
+// Problems that would make the server reject the selection
+function selectionError(preview: ImportPreview, choices: Record<string, SheetChoice>): string | null {
+  const included = preview.sheets.filter(sheet => choices[sheet.sheetName]?.include);
+  if (included.length === 0) return 'Select at least one sheet to import.';
+
+  for (const sheet of included) {
+    const names = sheet.columns.map(column => choices[sheet.sheetName].names[column.name].trim());
+    if (names.some(name => name === '')) return `Column names cannot be empty (${sheet.sheetName}).`;
+    const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+    if (duplicate) return `Column ${duplicate} appears more than once in ${sheet.sheetName}.`;
+  }
+  return null;
+}
+
+export default function ImportPreviewDialog({ preview, isImporting, onConfirm, onCancel }: ImportPreviewDialogProps) {
+  const [choices, setChoices] = useState<Record<string, SheetChoice>>({});
+
+  useEffect(() => {
+    if (preview) setChoices(initialChoices(preview));
+  }, [preview]);
+
+  if (!preview || Object.keys(choices).length !== preview.sheets.length) {
+    return null;
+  }
+
+  const updateSheet = (sheetName: string, update: (choice: SheetChoice) => SheetChoice) => {
+    setChoices(current => ({ ...current, [sheetName]: update(current[sheetName]) }));
+  };
+
+  const error = selectionError(preview, choices);
+
+  const renderSheet = (sheet: SheetPreview) => {
+    const choice = choices[sheet.sheetName];
+
+    return (
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="text-xs text-gray-500" data-testid={`text-preview-info-${sheet.sheetName}`}>
+            {sheet.headerRow !== undefined && (
+              <span>
+                Header on row {sheet.headerRow + 1}{sheet.headerDetected ? ' (detected)' : ''} ·{' '}
+              </span>
+            )}
+            {sheet.rowCount !== undefined
+              ? `${sheet.rowCount} rows, showing the first ${Math.min(sheet.rows.length, sheet.rowCount)}`
+              : `Showing the first ${sheet.rows.length} rows`}
+          </div>
+          <div className="flex items-center gap-2">
+            <Label htmlFor={`preview-include-${sheet.sheetName}`}>Import this sheet</Label>
+            <Switch
+              id={`preview-include-${sheet.sheetName}`}
+              checked={choice.include}
+              disabled={sheet.columns.length === 0}
+              onCheckedChange={(include) => updateSheet(sheet.sheetName, c => ({ ...c, include }))}
+              data-testid={`switch-preview-include-${sheet.sheetName}`}
+            />
+          </div>
+        </div>
+
+        {sheet.warnings.length > 0 && (
+          <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg flex">
+            <AlertTriangle className="text-amber-600 mr-2 flex-shrink-0" size={16} />
+            <ul className="text-xs text-amber-700 space-y-0.5">
+              {sheet.warnings.map(warning => <li key={warning}>{warning}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {sheet.columns.length > 0 && (
+          <div className={`max-h-80 overflow-auto border border-gray-200 rounded-md ${choice.include ? '' : 'opacity-50'}`}>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {sheet.columns.map(column => (
+                    <TableHead key={column.name} className="p-2 align-top min-w-[160px]">
+                      <Input
+                        value={choice.names[column.name]}
+                        onChange={(e) => updateSheet(sheet.sheetName, c => ({
+                          ...c,
+                          names: { ...c.names, [column.name]: e.target.value },
+                        }))}
+                        disabled={!choice.include}
+                        className="h-8 text-xs mb-1"
+                        aria-label={`Name of column ${column.name}`}
+                        data-testid={`input-preview-column-${column.name}`}
+                      />
+                      <Select
+                        value={choice.types[column.name]}
+                        onValueChange={(type) => updateSheet(sheet.sheetName, c => ({
+                          ...c,
+                          types: { ...c.types, [column.name]: type as ColumnDataType | 'auto' },
+                        }))}
+                        disabled={!choice.include}
+                      >
+                        <SelectTrigger className="h-8 text-xs" data-testid={`select-preview-type-${column.name}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="auto">Auto ({TYPE_LABELS[column.inferredType]})</SelectItem>
+                          {columnDataTypes.map(type => (
+                            <SelectItem key={type} value={type}>{TYPE_LABELS[type]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sheet.rows.map((row, rowIndex) => (
+                  <TableRow key={rowIndex}>
+                    {sheet.columns.map((column, columnIndex) => (
+                      <TableCell key={column.name} className="py-1 px-2 text-xs whitespace-nowrap">
+                        {formatPreviewValue(row[columnIndex])}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open onOpenChange={(isOpen) => !isOpen && !isImporting && onCancel()}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Import Preview</DialogTitle>
+          <DialogDescription>
+            Check how <span className="font-medium">{preview.fileName}</span> ({formatBytes(preview.size)}) was read.
+            Rename columns, change their types or leave out sheets before importing.
+          </DialogDescription>
+        </DialogHeader>
+
+        {preview.sheets.length === 1 ? (
+          renderSheet(preview.sheets[0])
+        ) : (
+          <Tabs defaultValue={preview.sheets[0]?.sheetName}>
+            <TabsList className="flex-wrap h-auto">
+              {preview.sheets.map(sheet => (
+                <TabsTrigger
+                  key={sheet.sheetName}
+                  value={sheet.sheetName}
+                  className={choices[sheet.sheetName].include ? '' : 'line-through text-gray-400'}
+                  data-testid={`tab-preview-sheet-${sheet.sheetName}`}
+                >
+                  {sheet.sheetName}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+            {preview.sheets.map(sheet => (
+              <TabsContent key={sheet.sheetName} value={sheet.sheetName}>
+                {renderSheet(sheet)}
+              </TabsContent>
+            ))}
+          </Tabs>
+        )}
+
+        {error && (
+          <p className="text-sm text-red-600" data-testid="text-preview-error">{error}</p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={isImporting} data-testid="button-cancel-preview">
+            Cancel
+          </Button>
+          <Button
+            onClick={() => onConfirm(buildCommit(preview, choices))}
+            disabled={error !== null || isImporting}
+            data-testid="button-commit-preview"
+          >
+            {isImporting ? 'Importing...' : 'Import'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
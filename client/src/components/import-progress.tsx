@@ -0,0 +1,53 @@
+import { CheckCircle, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { ImportJob } from "@shared/schema";
+
+interface ImportProgressListProps {
+  job: ImportJob;
+  onCancel: () => void;
+}
+
+export default function ImportProgressList({ job, onCancel }: ImportProgressListProps) {
+  return (
+    <div className="mt-4 p-4 bg-gray-50 border border-gray-200 rounded-lg" data-testid="import-progress">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-sm font-medium text-gray-800">
+          Importing <span className="font-semibold">{job.fileName}</span>
+        </p>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onCancel}
+          disabled={job.status !== 'running'}
+          data-testid="button-cancel-import-job"
+        >
+          Cancel
+        </Button>
+      </div>
+
+      {job.sheets.length === 0 ? (
+        <p className="text-xs text-gray-500 flex items-center">
+          <Loader2 className="animate-spin mr-2" size={14} />
+          Reading file...
+        </p>
+      ) : (
+        <ul className="space-y-1">
+          {job.sheets.map(sheet => (
+            <li key={sheet.sheetName} className="text-xs text-gray-700" data-testid={`import-progress-${sheet.sheetName}`}>
+              <div className="flex items-center">
+                {sheet.status === 'done'
+                  ? <CheckCircle className="text-green-600 mr-2" size={14} />
+                  : <Loader2 className="animate-spin text-primary-600 mr-2" size={14} />}
+                <span className="font-medium flex-1">{sheet.sheetName}</span>
+                <span className="text-gray-500">{sheet.rowsProcessed.toLocaleString()} rows</span>
+              </div>
+              {sheet.warnings.map(warning => (
+                <p key={warning} className="ml-6 text-amber-700">{warning}</p>
+              ))}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
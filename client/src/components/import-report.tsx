@@ -0,0 +1,43 @@
+import { AlertTriangle } from "lucide-react";
+import type { ImportReport } from "@shared/schema";
+
+interface ImportReportListProps {
+  sheets: { sheetName: string; importReport: ImportReport | null }[];
+}
+
+export default function ImportReportList({ sheets }: ImportReportListProps) {
+  const sheetsWithChanges = sheets.filter(sheet =>
+    (sheet.importReport?.renamedColumns.length ?? 0) > 0 || (sheet.importReport?.warnings?.length ?? 0) > 0
+  );
+
+  if (sheetsWithChanges.length === 0) return null;
+
+  return (
+    <div className="mt-4 p-4 bg-amber-50 border border-amber-200 rounded-lg" data-testid="import-report">
+      <div className="flex items-center mb-2">
+        <AlertTriangle className="text-amber-600 mr-2" size={16} />
+        <p className="text-sm font-medium text-amber-800">Some columns were renamed or options skipped during import</p>
+      </div>
+      {sheetsWithChanges.map(sheet => (
+        <div key={sheet.sheetName} className="mt-2">
+          {sheets.length > 1 && (
+            <p className="text-xs font-semibold text-amber-800">{sheet.sheetName}</p>
+          )}
+          <ul className="text-xs text-amber-700 space-y-0.5">
+            {sheet.importReport!.renamedColumns.map(rename => (
+              <li key={rename.index} data-testid={`text-renamed-column-${rename.index}`}>
+                Column {rename.index + 1}:{' '}
+                {rename.reason === 'blank'
+                  ? <>blank header named <span className="font-medium">{rename.renamed}</span></>
+                  : <>duplicate <span className="font-medium">{rename.original}</span> renamed to <span className="font-medium">{rename.renamed}</span></>}
+              </li>
+            ))}
+            {sheet.importReport!.warnings?.map(warning => (
+              <li key={warning}>{warning}</li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
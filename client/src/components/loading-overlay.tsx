@@ -1,6 +1,15 @@
 import { Card, CardContent } from "@/components/ui/card";
+import type { UploadPhase } from "@/hooks/use-file-upload";
+
+interface LoadingOverlayProps {
+  progress?: number;
+  phase?: UploadPhase | null;
+}
+
+export default function LoadingOverlay({ progress = 0, phase = null }: LoadingOverlayProps) {
+  const isUploading = phase === 'uploading';
+  const isPreviewing = phase === 'previewing';
 
-export default function LoadingOverlay() {
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
       <Card className="shadow-2xl max-w-sm mx-4">
@@ -10,19 +19,29 @@ export default function LoadingOverlay() {
               <div className="animate-spin w-8 h-8 border-2 border-primary-600 border-t-transparent rounded-full"></div>
             </div>
             <h3 className="text-lg font-semibold text-gray-900 mb-2" data-testid="text-loading-title">
-              Processing Excel File
+              {isUploading ? 'Uploading File' : isPreviewing ? 'Preparing Preview' : 'Processing Excel File'}
             </h3>
             <p className="text-sm text-gray-600 mb-4" data-testid="text-loading-description">
-              Analyzing data and generating visualizations...
+              {isUploading
+                ? 'Sending your file in chunks, interrupted uploads can be resumed...'
+                : isPreviewing
+                  ? 'Reading sheets, headers and the first rows...'
+                  : 'Analyzing data and generating visualizations...'}
             </p>
-            <div className="w-full bg-gray-200 rounded-full h-2">
-              <div 
-                className="bg-primary-600 h-2 rounded-full transition-all duration-300" 
-                style={{ width: '65%' }}
-              ></div>
-            </div>
+            {isUploading ? (
+              <div className="w-full bg-gray-200 rounded-full h-2">
+                <div
+                  className="bg-primary-600 h-2 rounded-full transition-all duration-300"
+                  style={{ width: `${progress}%` }}
+                ></div>
+              </div>
+            ) : (
+              <div className="w-full bg-gray-200 rounded-full h-2 overflow-hidden">
+                <div className="bg-primary-600 h-2 w-full rounded-full animate-pulse"></div>
+              </div>
+            )}
             <p className="text-xs text-gray-500 mt-2" data-testid="text-loading-progress">
-              Processing your data...
+              {isUploading ? `${progress}% uploaded` : 'Processing your data...'}
             </p>
           </div>
         </CardContent>
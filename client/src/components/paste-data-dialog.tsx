@@ -0,0 +1,173 @@
+import { useEffect, useMemo, useState, type ClipboardEvent } from "react";
+import { ClipboardPaste } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { parseTabSeparatedText, readClipboardTable } from "@/lib/clipboard-utils";
+import { MAX_PASTE_BYTES, type ExcelData, type ExcelFile } from "@shared/schema";
+
+interface PasteDataDialogProps {
+  open: boolean;
+  onImported: (result: { file: ExcelFile; data: ExcelData[] }) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 8;
+
+export default function PasteDataDialog({ open, onImported, onCancel }: PasteDataDialogProps) {
+  const [text, setText] = useState("");
+  // Cells of a pasted HTML table; typing in the text box falls back to reading it as tab separated text
+  const [htmlRows, setHtmlRows] = useState<string[][] | null>(null);
+  const [name, setName] = useState("");
+  const [detectHeader, setDetectHeader] = useState(true);
+  const [isImporting, setIsImporting] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setText("");
+    setHtmlRows(null);
+    setName(`Pasted data ${new Date().toLocaleString()}`);
+    setDetectHeader(true);
+  }, [open]);
+
+  const rows = useMemo(() => htmlRows ?? parseTabSeparatedText(text), [htmlRows, text]);
+  const columnCount = rows.reduce((count, row) => Math.max(count, row.length), 0);
+
+  const handlePaste = (event: ClipboardEvent<HTMLTextAreaElement>) => {
+    const pasted = readClipboardTable(event.clipboardData);
+    if (pasted.length === 0) return;
+
+    // Show the table as tab separated text so it can still be checked and edited
+    event.preventDefault();
+    setHtmlRows(pasted);
+    setText(pasted.map(row => row.join('\t')).join('\n'));
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      const response = await apiRequest('POST', '/api/paste', {
+        name: name.trim(),
+        rows,
+        // The first row is the header unless it should be detected like for uploaded files
+        options: detectHeader ? undefined : { headerRow: 0 },
+      });
+      const result = await response.json();
+
+      queryClient.invalidateQueries({ queryKey: ["/api/files"] });
+      toast({
+        title: "Data Imported Successfully",
+        description: `${result.data[0]?.rowCount ?? 0} rows are ready for analysis.`,
+      });
+      onImported(result);
+    } catch (error) {
+      console.error('Paste import error:', error);
+      toast({
+        title: "Import Failed",
+        description: apiErrorMessage(error, 'Failed to import pasted data'),
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const tooLarge = text.length > MAX_PASTE_BYTES;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Paste Data</DialogTitle>
+          <DialogDescription>
+            Copy a range from a spreadsheet or a table from a web page and paste it below.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Textarea
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            setHtmlRows(null);
+          }}
+          onPaste={handlePaste}
+          placeholder="Paste here (Ctrl+V / ⌘V)"
+          className="h-28 font-mono text-xs whitespace-pre"
+          autoFocus
+          data-testid="textarea-paste-data"
+        />
+
+        {rows.length > 0 && (
+          <div>
+            <p className="text-xs text-gray-500 mb-2" data-testid="text-paste-size">
+              {rows.length} rows × {columnCount} columns
+              {rows.length > PREVIEW_ROWS && `, showing the first ${PREVIEW_ROWS}`}
+            </p>
+            <div className="max-h-56 overflow-auto border border-gray-200 rounded-md">
+              <Table>
+                <TableBody>
+                  {rows.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+                    <TableRow key={rowIndex} className={rowIndex === 0 && !detectHeader ? 'bg-gray-50 font-medium' : ''}>
+                      {Array.from({ length: columnCount }, (_, columnIndex) => (
+                        <TableCell key={columnIndex} className="py-1 px-2 text-xs whitespace-nowrap">
+                          {row[columnIndex] ?? ''}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="paste-name">Dataset name</Label>
+          <Input
+            id="paste-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            data-testid="input-paste-name"
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="paste-detect-header">Detect the header row automatically</Label>
+          <Switch
+            id="paste-detect-header"
+            checked={detectHeader}
+            onCheckedChange={setDetectHeader}
+            data-testid="switch-paste-detect-header"
+          />
+        </div>
+
+        {tooLarge && (
+          <p className="text-sm text-red-600">
+            Pasted data must be less than {MAX_PASTE_BYTES / (1024 * 1024)}MB. Save it as a file and upload it instead.
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} data-testid="button-cancel-paste">
+            Cancel
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={rows.length === 0 || !name.trim() || tooLarge || isImporting}
+            data-testid="button-confirm-paste"
+          >
+            <ClipboardPaste className="mr-2" size={16} />
+            {isImporting ? 'Importing...' : 'Import'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,89 @@
+import { useState } from "react";
+import { ChevronDown, X } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useAggregate } from "@/hooks/use-aggregate";
+import { formatPivotKey } from "@/lib/pivot-utils";
+import type { CellValue } from "@shared/schema";
+
+interface PivotFilterChipProps {
+  dataId: string;
+  field: string;
+  // The values to keep, or undefined to keep every row
+  selected: CellValue[] | undefined;
+  onChange: (selected: CellValue[] | undefined) => void;
+  onRemove: () => void;
+}
+
+// Distinct values listed in the popover; fields with more are better filtered in rows or columns
+const MAX_FILTER_VALUES = 200;
+
+export default function PivotFilterChip({ dataId, field, selected, onChange, onRemove }: PivotFilterChipProps) {
+  const [open, setOpen] = useState(false);
+
+  // Only load the distinct values once the popover is opened
+  const { data, isLoading } = useAggregate(dataId, open ? {
+    groupBy: [field],
+    measures: [{ fn: 'count' }],
+    limit: MAX_FILTER_VALUES,
+  } : null);
+
+  // Blank values cannot be picked with an "in" filter, so they are left out of the list
+  const values = (data?.rows ?? [])
+    .map(row => row[field] as CellValue | null)
+    .filter((value): value is CellValue => value !== null);
+
+  const isChecked = (value: CellValue) => !selected || selected.includes(value);
+
+  const toggle = (value: CellValue, checked: boolean) => {
+    const current = selected ?? values;
+    const next = checked ? [...current, value] : current.filter(item => item !== value);
+    onChange(next.length === values.length ? undefined : next);
+  };
+
+  return (
+    <Badge variant="secondary" className="flex items-center gap-1" data-testid={`chip-filter-${field}`}>
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <button className="flex items-center gap-1" data-testid={`button-filter-values-${field}`}>
+            {field}
+            {selected && <span className="text-gray-500">({selected.length})</span>}
+            <ChevronDown size={12} />
+          </button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-64 space-y-2">
+          <div className="flex justify-between">
+            <Button variant="ghost" size="sm" onClick={() => onChange(undefined)} data-testid="button-filter-select-all">
+              Select all
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => onChange([])} data-testid="button-filter-select-none">
+              Select none
+            </Button>
+          </div>
+          <div className="max-h-64 overflow-y-auto space-y-1">
+            {isLoading && <p className="text-xs text-gray-500">Loading values…</p>}
+            {values.map(value => (
+              <label key={`${typeof value}:${value}`} className="flex items-center gap-2 text-sm cursor-pointer">
+                <Checkbox checked={isChecked(value)} onCheckedChange={(checked) => toggle(value, checked === true)} />
+                {formatPivotKey(value)}
+              </label>
+            ))}
+          </div>
+          {data?.truncated && (
+            <p className="text-xs text-gray-500">Showing the first {MAX_FILTER_VALUES} of {data.groupCount} values</p>
+          )}
+        </PopoverContent>
+      </Popover>
+      <button
+        onClick={onRemove}
+        className="ml-1 text-gray-500 hover:text-gray-700"
+        aria-label={`Remove filter field ${field}`}
+        data-testid={`button-remove-filter-field-${field}`}
+      >
+        <X size={12} />
+      </button>
+    </Badge>
+  );
+}
@@ -0,0 +1,454 @@
+import { useState, useMemo, useEffect, type DragEvent, type ReactNode } from "react";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
+import { ChevronDown, ChevronRight, Download, GripVertical, Plus, X } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import PivotFilterChip from "@/components/pivot-filter-chip";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import {
+  PIVOT_FUNCTIONS,
+  formatPivotValue,
+  measureLabel,
+  pivotBodyRows,
+  pivotCellLookup,
+  pivotColumnSlots,
+  pivotGroupIds,
+  pivotKeyId,
+  pivotToCsv,
+} from "@/lib/pivot-utils";
+import type {
+  AggregateFunction,
+  AggregateMeasure,
+  CellValue,
+  ColumnDataType,
+  PivotRequest,
+  PivotResult,
+  RowFilter,
+} from "@shared/schema";
+
+interface PivotTableProps {
+  dataId: string;
+  sheetName: string;
+  headers: string[];
+  columnTypes: Record<string, ColumnDataType | undefined>;
+}
+
+type Zone = 'fields' | 'filters' | 'columns' | 'rows' | 'values';
+type FieldZone = 'filters' | 'columns' | 'rows';
+
+interface DraggedField {
+  field: string;
+  from: Zone;
+  index: number;
+}
+
+// How many fields each zone takes, matching the limits of the pivot endpoint
+const ZONE_LIMITS: Record<Exclude<Zone, 'fields'>, number> = { filters: 20, columns: 3, rows: 4, values: 10 };
+const ZONE_LABELS: Record<Exclude<Zone, 'fields'>, string> = { filters: 'Filters', columns: 'Columns', rows: 'Rows', values: 'Values' };
+const DRAG_TYPE = 'application/x-pivot-field';
+
+// Numbers are summed by default, anything else is counted
+function defaultMeasure(field: string, type: ColumnDataType | undefined): AggregateMeasure {
+  return { fn: type === 'number' ? 'sum' : 'count', column: field };
+}
+
+export default function PivotTable({ dataId, sheetName, headers, columnTypes }: PivotTableProps) {
+  const [rowFields, setRowFields] = useState<string[]>([]);
+  const [columnFields, setColumnFields] = useState<string[]>([]);
+  const [filterFields, setFilterFields] = useState<string[]>([]);
+  const [filterValues, setFilterValues] = useState<Record<string, CellValue[] | undefined>>({});
+  const [values, setValues] = useState<AggregateMeasure[]>([]);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [dropTarget, setDropTarget] = useState<Zone | null>(null);
+
+  // A newly selected sheet starts with an empty layout
+  useEffect(() => {
+    setRowFields([]);
+    setColumnFields([]);
+    setFilterFields([]);
+    setFilterValues({});
+    setValues([]);
+    setCollapsed(new Set());
+  }, [dataId]);
+
+  const fieldLists: Record<FieldZone, [string[], (update: (fields: string[]) => string[]) => void]> = {
+    rows: [rowFields, setRowFields],
+    columns: [columnFields, setColumnFields],
+    filters: [filterFields, setFilterFields],
+  };
+
+  // Move a field between zones. Rows, columns and filters hold a field at most once, values may
+  // summarize the same field several times. Dropping on the field list removes it from its zone.
+  const moveField = ({ field, from, index }: DraggedField, to: Zone, toIndex?: number) => {
+    if (to !== 'fields' && to !== from) {
+      const size = to === 'values' ? values.length : fieldLists[to][0].length;
+      if (size >= ZONE_LIMITS[to]) return;
+    }
+
+    const moved = from === 'values' ? values[index] : undefined;
+    if (from === 'values') setValues(current => current.filter((_, i) => i !== index));
+    if (from !== 'fields' && from !== 'values') fieldLists[from][1](current => current.filter(item => item !== field));
+    if (from === 'filters' && to !== 'filters') setFilterValues(current => ({ ...current, [field]: undefined }));
+    if (to === 'fields') return;
+
+    const insert = <T,>(list: T[], item: T) => {
+      // Indexes past the removed item shift by one when reordering within a zone
+      const position = toIndex === undefined ? list.length : from === to && index < toIndex ? toIndex - 1 : toIndex;
+      return [...list.slice(0, position), item, ...list.slice(position)];
+    };
+
+    if (to === 'values') {
+      const measure = moved ?? defaultMeasure(field, columnTypes[field]);
+      setValues(current => insert(current, measure));
+      return;
+    }
+
+    // A field moved in from another zone leaves the others, as it can only group one way
+    (Object.keys(fieldLists) as FieldZone[]).forEach(zone => {
+      if (zone !== to && zone !== from) fieldLists[zone][1](current => current.filter(item => item !== field));
+    });
+    fieldLists[to][1](current => insert(current.filter(item => item !== field), field));
+  };
+
+  const handleDragStart = (event: DragEvent, dragged: DraggedField) => {
+    event.dataTransfer.setData(DRAG_TYPE, JSON.stringify(dragged));
+    event.dataTransfer.effectAllowed = 'move';
+  };
+
+  const handleDrop = (event: DragEvent, zone: Zone, index?: number) => {
+    event.preventDefault();
+    event.stopPropagation();
+    setDropTarget(null);
+    const data = event.dataTransfer.getData(DRAG_TYPE);
+    if (data) moveField(JSON.parse(data) as DraggedField, zone, index);
+  };
+
+  const dropZoneProps = (zone: Zone) => ({
+    onDragOver: (event: DragEvent) => {
+      if (!event.dataTransfer.types.includes(DRAG_TYPE)) return;
+      event.preventDefault();
+      setDropTarget(zone);
+    },
+    onDragLeave: () => setDropTarget(current => (current === zone ? null : current)),
+    onDrop: (event: DragEvent) => handleDrop(event, zone),
+  });
+
+  const updateMeasure = (index: number, update: Partial<AggregateMeasure>) => {
+    setValues(current => current.map((measure, i) => (i === index ? { ...measure, ...update } : measure)));
+  };
+
+  // Filter fields with nothing selected match no rows, so the pivot waits for a selection
+  const emptyFilter = filterFields.find(field => filterValues[field]?.length === 0);
+
+  const request = useMemo<PivotRequest | null>(() => {
+    if (values.length === 0 || emptyFilter) return null;
+    const filters: RowFilter[] = filterFields.flatMap(field => {
+      const selected = filterValues[field];
+      return selected ? [{ column: field, op: 'in' as const, values: selected }] : [];
+    });
+    return { rows: rowFields, columns: columnFields, values, filters };
+  }, [rowFields, columnFields, values, filterFields, filterValues, emptyFilter]);
+
+  const { data: result, isFetching, error } = useQuery<PivotResult>({
+    queryKey: ["/api/data", dataId, "pivot", request],
+    queryFn: async () => {
+      const res = await apiRequest("POST", `/api/data/${dataId}/pivot`, request);
+      return res.json();
+    },
+    enabled: request !== null,
+    // Keep showing the current pivot while the next layout loads
+    placeholderData: keepPreviousData,
+  });
+
+  const layout = useMemo(() => {
+    if (!result) return null;
+    return {
+      lookup: pivotCellLookup(result),
+      slots: pivotColumnSlots(result),
+      bodyRows: pivotBodyRows(result, collapsed),
+    };
+  }, [result, collapsed]);
+
+  const toggleGroup = (key: any[]) => {
+    const id = pivotKeyId(key);
+    setCollapsed(current => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleExport = () => {
+    if (!result || !layout) return;
+    const csv = pivotToCsv(result, layout.bodyRows, layout.slots);
+    const blob = new Blob([csv], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${sheetName} pivot.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const renderChip = (field: string, zone: Zone, index: number, content: ReactNode) => (
+    <div
+      key={`${zone}-${index}-${field}`}
+      draggable
+      onDragStart={(event) => handleDragStart(event, { field, from: zone, index })}
+      onDragOver={(event) => event.dataTransfer.types.includes(DRAG_TYPE) && event.preventDefault()}
+      onDrop={(event) => handleDrop(event, zone, index)}
+      className="flex items-center cursor-grab"
+    >
+      <GripVertical className="text-gray-400" size={14} />
+      {content}
+    </div>
+  );
+
+  const renderRemoveButton = (field: string, zone: Zone, index: number) => (
+    <button
+      onClick={() => moveField({ field, from: zone, index }, 'fields')}
+      className="ml-1 text-gray-500 hover:text-gray-700"
+      aria-label={`Remove ${field} from ${zone}`}
+      data-testid={`button-remove-${zone}-${index}`}
+    >
+      <X size={12} />
+    </button>
+  );
+
+  const renderZone = (zone: Exclude<Zone, 'fields'>, children: ReactNode, empty: boolean) => (
+    <div
+      {...dropZoneProps(zone)}
+      className={`min-h-[4.5rem] rounded-md border-2 border-dashed p-2 transition-colors ${
+        dropTarget === zone ? 'border-primary-500 bg-primary-50' : 'border-gray-200'
+      }`}
+      data-testid={`zone-${zone}`}
+    >
+      <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">{ZONE_LABELS[zone]}</p>
+      <div className="flex flex-wrap gap-2">
+        {children}
+        {empty && <span className="text-xs text-gray-400">Drop fields here</span>}
+      </div>
+    </div>
+  );
+
+  const multipleValues = (result?.values.length ?? 0) > 1;
+
+  return (
+    <Card className="shadow-card">
+      <CardContent className="p-0">
+        {/* Header */}
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between gap-4">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Pivot Table</h2>
+          <div className="flex gap-2">
+            {result && pivotGroupIds(result).length > 0 && (
+              <>
+                <Button variant="ghost" size="sm" onClick={() => setCollapsed(new Set())} data-testid="button-expand-all">
+                  Expand all
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setCollapsed(new Set(pivotGroupIds(result)))} data-testid="button-collapse-all">
+                  Collapse all
+                </Button>
+              </>
+            )}
+            <Button variant="outline" onClick={handleExport} disabled={!result || !request} data-testid="button-export-pivot">
+              <Download className="mr-2" size={16} />
+              Export CSV
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-[14rem_1fr]">
+          {/* Field list */}
+          <div
+            {...dropZoneProps('fields')}
+            className={`p-4 border-b lg:border-b-0 lg:border-r border-gray-200 space-y-1 ${dropTarget === 'fields' ? 'bg-gray-50' : ''}`}
+            data-testid="list-pivot-fields"
+          >
+            <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">Fields</p>
+            {headers.map(field => (
+              <div key={field} className="flex items-center justify-between gap-1 text-sm">
+                {renderChip(field, 'fields', -1, <span className="truncate" title={field}>{field}</span>)}
+                {/* Menu for adding a field without dragging it */}
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="sm" className="h-6 w-6 p-0" aria-label={`Add ${field}`} data-testid={`button-add-field-${field}`}>
+                      <Plus size={14} />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    {(['rows', 'columns', 'values', 'filters'] as const).map(zone => (
+                      <DropdownMenuItem key={zone} onSelect={() => moveField({ field, from: 'fields', index: -1 }, zone)}>
+                        Add to {ZONE_LABELS[zone]}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </div>
+            ))}
+          </div>
+
+          <div className="p-4 space-y-4 min-w-0">
+            {/* Layout */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {renderZone('filters', filterFields.map((field, index) => renderChip(field, 'filters', index, (
+                <PivotFilterChip
+                  dataId={dataId}
+                  field={field}
+                  selected={filterValues[field]}
+                  onChange={(selected) => setFilterValues(current => ({ ...current, [field]: selected }))}
+                  onRemove={() => moveField({ field, from: 'filters', index }, 'fields')}
+                />
+              ))), filterFields.length === 0)}
+              {renderZone('columns', columnFields.map((field, index) => renderChip(field, 'columns', index, (
+                <Badge variant="secondary" className="flex items-center gap-1">
+                  {field}
+                  {renderRemoveButton(field, 'columns', index)}
+                </Badge>
+              ))), columnFields.length === 0)}
+              {renderZone('rows', rowFields.map((field, index) => renderChip(field, 'rows', index, (
+                <Badge variant="secondary" className="flex items-center gap-1">
+                  {field}
+                  {renderRemoveButton(field, 'rows', index)}
+                </Badge>
+              ))), rowFields.length === 0)}
+              {renderZone('values', values.map((measure, index) => renderChip(measure.column ?? '', 'values', index, (
+                <Badge variant="secondary" className="flex items-center gap-1">
+                  <Select
+                    value={measure.fn}
+                    onValueChange={(fn) => updateMeasure(index, {
+                      fn: fn as AggregateFunction,
+                      percentile: fn === 'percentile' ? measure.percentile ?? 90 : undefined,
+                    })}
+                  >
+                    <SelectTrigger className="h-6 w-auto gap-1 border-0 bg-transparent px-1 text-xs" data-testid={`select-value-function-${index}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PIVOT_FUNCTIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {measure.fn === 'percentile' && (
+                    <Input
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={measure.percentile ?? 90}
+                      onChange={(e) => {
+                        const percentile = Number(e.target.value);
+                        if (e.target.value !== '' && percentile >= 0 && percentile <= 100) updateMeasure(index, { percentile });
+                      }}
+                      className="h-6 w-14 px-1 text-xs"
+                      aria-label="Percentile"
+                      data-testid={`input-value-percentile-${index}`}
+                    />
+                  )}
+                  <span>of {measure.column}</span>
+                  {renderRemoveButton(measure.column ?? '', 'values', index)}
+                </Badge>
+              ))), values.length === 0)}
+            </div>
+
+            {/* Result */}
+            {values.length === 0 && (
+              <p className="text-sm text-gray-500 text-center py-8" data-testid="text-pivot-empty">
+                Drag fields to Rows, Columns and Values to build a pivot table
+              </p>
+            )}
+            {emptyFilter && (
+              <p className="text-sm text-gray-500 text-center py-8" data-testid="text-pivot-empty-filter">
+                Select at least one value of {emptyFilter}
+              </p>
+            )}
+            {request && error && (
+              <p className="text-sm text-red-600" data-testid="text-pivot-error">{apiErrorMessage(error, 'Failed to compute the pivot')}</p>
+            )}
+
+            {request && result && layout && !error && (
+              <div className={`overflow-x-auto transition-opacity ${isFetching ? 'opacity-60' : ''}`}>
+                <table className="w-full text-sm" data-testid="table-pivot">
+                  <thead className="bg-gray-50 border-b border-gray-200">
+                    <tr>
+                      <th
+                        rowSpan={multipleValues ? 2 : 1}
+                        className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                      >
+                        {result.rows.join(' / ')}
+                      </th>
+                      {layout.slots.map(slot => (
+                        <th
+                          key={pivotKeyId(slot.key)}
+                          colSpan={result.values.length}
+                          className={`px-4 py-2 text-right text-xs font-medium text-gray-500 ${slot.total ? 'bg-gray-100' : ''}`}
+                        >
+                          {multipleValues || result.columns.length > 0 ? slot.label : measureLabel(values[0])}
+                        </th>
+                      ))}
+                    </tr>
+                    {multipleValues && (
+                      <tr>
+                        {layout.slots.flatMap(slot => result.values.map((value, index) => (
+                          <th
+                            key={`${pivotKeyId(slot.key)}-${index}`}
+                            className={`px-4 py-2 text-right text-xs font-normal text-gray-500 ${slot.total ? 'bg-gray-100' : ''}`}
+                          >
+                            {values[index] ? measureLabel(values[index]) : value.name}
+                          </th>
+                        )))}
+                      </tr>
+                    )}
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {layout.bodyRows.map(row => (
+                      <tr
+                        key={row.total ? 'grand-total' : pivotKeyId(row.key)}
+                        className={row.total || row.group ? 'bg-gray-50 font-medium' : 'hover:bg-gray-50'}
+                        data-testid={row.total ? 'row-pivot-total' : `row-pivot-${pivotKeyId(row.key)}`}
+                      >
+                        <td className="px-4 py-2 whitespace-nowrap text-gray-900" style={{ paddingLeft: `${1 + row.depth * 1.25}rem` }}>
+                          {row.group ? (
+                            <button
+                              onClick={() => toggleGroup(row.key)}
+                              className="flex items-center gap-1"
+                              aria-expanded={row.expanded}
+                              data-testid={`button-toggle-group-${pivotKeyId(row.key)}`}
+                            >
+                              {row.expanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                              {row.label}
+                            </button>
+                          ) : row.label}
+                        </td>
+                        {layout.slots.flatMap(slot => {
+                          const cell = layout.lookup.get(pivotKeyId([row.key, slot.key]));
+                          return result.values.map((_, index) => (
+                            <td
+                              key={`${pivotKeyId(slot.key)}-${index}`}
+                              className={`px-4 py-2 whitespace-nowrap text-right tabular-nums text-gray-900 ${slot.total ? 'bg-gray-50 font-medium' : ''}`}
+                            >
+                              {formatPivotValue(cell?.[index])}
+                            </td>
+                          ));
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { Filter } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FILTER_OPERATORS, parseFilterValue, type FilterOperator } from "@/lib/row-query-utils";
+import type { CellValue, ColumnDataType, RowFilter } from "@shared/schema";
+
+interface RowFilterPopoverProps {
+  headers: string[];
+  columnTypes: Record<string, ColumnDataType | undefined>;
+  onAdd: (filter: RowFilter) => void;
+}
+
+// Helper function to build a filter from the form, or explain why it cannot be built
+function buildFilter(
+  column: string,
+  op: FilterOperator,
+  inputs: { value: string; min: string; max: string },
+  type: ColumnDataType | undefined,
+): RowFilter | string {
+  switch (op) {
+    case 'equals': {
+      const value = parseFilterValue(inputs.value, type);
+      return value === undefined ? `Enter a ${type ?? 'text'} value` : { column, op, value };
+    }
+    case 'contains':
+      return inputs.value.trim() ? { column, op, value: inputs.value.trim() } : 'Enter the text to look for';
+    case 'range': {
+      // Dates are compared as text, like they are stored
+      const boundType = type === 'number' ? 'number' : 'text';
+      const min = parseFilterValue(inputs.min, boundType) as number | string | undefined;
+      const max = parseFilterValue(inputs.max, boundType) as number | string | undefined;
+      if (min === undefined && max === undefined) return 'Enter a minimum, a maximum or both';
+      return { column, op, ...(min !== undefined ? { min } : {}), ...(max !== undefined ? { max } : {}) };
+    }
+    case 'in': {
+      const values = inputs.value.split(',').map(part => parseFilterValue(part, type));
+      if (values.length === 0 || values.some(value => value === undefined)) {
+        return `Enter ${type ?? 'text'} values separated by commas`;
+      }
+      return { column, op, values: values as CellValue[] };
+    }
+    case 'isNull':
+    case 'notNull':
+      return { column, op };
+  }
+}
+
+export default function RowFilterPopover({ headers, columnTypes, onAdd }: RowFilterPopoverProps) {
+  const [open, setOpen] = useState(false);
+  const [column, setColumn] = useState<string>('');
+  const [op, setOp] = useState<FilterOperator>('equals');
+  const [inputs, setInputs] = useState({ value: '', min: '', max: '' });
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedColumn = column || headers[0];
+  const type = columnTypes[selectedColumn];
+
+  const handleAdd = () => {
+    const filter = buildFilter(selectedColumn, op, inputs, type);
+    if (typeof filter === 'string') {
+      setError(filter);
+      return;
+    }
+    onAdd(filter);
+    setInputs({ value: '', min: '', max: '' });
+    setError(null);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" data-testid="button-add-filter">
+          <Filter className="mr-2" size={16} />
+          Filter
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-3">
+        <div className="space-y-1">
+          <Label>Column</Label>
+          <Select value={selectedColumn} onValueChange={(value) => { setColumn(value); setError(null); }}>
+            <SelectTrigger data-testid="select-filter-column">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {headers.map(header => (
+                <SelectItem key={header} value={header}>{header}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label>Condition</Label>
+          <Select value={op} onValueChange={(value) => { setOp(value as FilterOperator); setError(null); }}>
+            <SelectTrigger data-testid="select-filter-operator">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {FILTER_OPERATORS.map(operator => (
+                <SelectItem key={operator.value} value={operator.value}>{operator.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {op === 'range' ? (
+          <div className="grid grid-cols-2 gap-2">
+            <Input
+              placeholder="Minimum"
+              value={inputs.min}
+              onChange={(e) => setInputs(current => ({ ...current, min: e.target.value }))}
+              data-testid="input-filter-min"
+            />
+            <Input
+              placeholder="Maximum"
+              value={inputs.max}
+              onChange={(e) => setInputs(current => ({ ...current, max: e.target.value }))}
+              data-testid="input-filter-max"
+            />
+          </div>
+        ) : op !== 'isNull' && op !== 'notNull' && (
+          <Input
+            placeholder={op === 'in' ? 'Values separated by commas' : 'Value'}
+            value={inputs.value}
+            onChange={(e) => setInputs(current => ({ ...current, value: e.target.value }))}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            data-testid="input-filter-value"
+          />
+        )}
+
+        {error && <p className="text-xs text-red-600" data-testid="text-filter-error">{error}</p>}
+
+        <div className="flex justify-end">
+          <Button size="sm" onClick={handleAdd} data-testid="button-apply-filter">
+            Add filter
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
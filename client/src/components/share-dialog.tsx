@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Copy, Link2, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import type { ExcelFile, FileShareWithInvite, ShareLinkWithToken } from "@shared/schema";
+
+interface ShareDialogProps {
+  file: ExcelFile;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const LINK_DAYS = [1, 7, 30, 90];
+
+// Helper function to build the address of a share link's read-only dashboard
+function shareLinkUrl(link: ShareLinkWithToken): string {
+  return `${window.location.origin}/share/${link.token}`;
+}
+
+function linkStatus(link: ShareLinkWithToken): string {
+  if (link.revokedAt) return `Revoked ${new Date(link.revokedAt).toLocaleDateString()}`;
+  if (new Date(link.expiresAt) <= new Date()) return 'Expired';
+  return `Expires ${new Date(link.expiresAt).toLocaleString()}`;
+}
+
+export default function ShareDialog({ file, open, onOpenChange }: ShareDialogProps) {
+  const [email, setEmail] = useState("");
+  const [linkDays, setLinkDays] = useState(7);
+  const { toast } = useToast();
+
+  const sharesKey = ["/api/files", file.id, "shares"];
+  const linksKey = ["/api/files", file.id, "share-links"];
+  const { data: shares = [] } = useQuery<FileShareWithInvite[]>({ queryKey: sharesKey, enabled: open });
+  const { data: links = [] } = useQuery<ShareLinkWithToken[]>({ queryKey: linksKey, enabled: open });
+
+  const change = async (title: string, queryKey: unknown[], request: () => Promise<Response>) => {
+    try {
+      await request();
+      queryClient.invalidateQueries({ queryKey });
+      return true;
+    } catch (error) {
+      toast({
+        title,
+        description: apiErrorMessage(error, 'Failed to change the sharing'),
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const shareWithUser = async () => {
+    const shared = await change("Could Not Share", sharesKey, () =>
+      apiRequest("POST", `/api/files/${file.id}/shares`, { email: email.trim() }));
+    if (shared) setEmail("");
+  };
+
+  const copyLink = async (link: ShareLinkWithToken) => {
+    await navigator.clipboard.writeText(shareLinkUrl(link));
+    toast({ title: "Link Copied", description: "Anyone with the link can view this file until it expires." });
+  };
+
+  // People whose sign-in does not verify their email get in through the invite link of their share
+  const copyInvite = async (token: string) => {
+    await navigator.clipboard.writeText(`${window.location.origin}/invite/${token}`);
+    toast({ title: "Invite Link Copied", description: "Send it to the person; whoever opens it first gets the access." });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share {file.originalName}</DialogTitle>
+          <DialogDescription>
+            Let people view this file's dashboard, or create a read-only link for anyone.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">People</h3>
+          {shares.length === 0 && (
+            <p className="text-xs text-gray-500" data-testid="text-no-shares">Not shared with anyone yet</p>
+          )}
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700" data-testid="list-file-shares">
+            {shares.map(share => (
+              <li key={share.id} className="flex items-center justify-between gap-2 py-2">
+                <span className="text-sm text-gray-900 dark:text-gray-100 truncate">{share.email ?? share.userId}</span>
+                <div className="flex items-center gap-2">
+                  {share.inviteToken && (new Date(share.inviteExpiresAt!) > new Date() ? (
+                    <Button variant="ghost" size="sm" onClick={() => copyInvite(share.inviteToken!)} data-testid={`button-copy-invite-${share.id}`}>
+                      <Copy className="mr-1" size={14} />
+                      Invite link
+                    </Button>
+                  ) : (
+                    <span className="text-xs text-gray-500">Invite expired</span>
+                  ))}
+                  <button
+                    onClick={() => change("Could Not Remove Access", sharesKey, () =>
+                      apiRequest("DELETE", `/api/files/${file.id}/shares/${share.id}`))}
+                    className="text-gray-400 hover:text-red-600"
+                    aria-label={`Stop sharing with ${share.email ?? share.userId}`}
+                    data-testid={`button-remove-share-${share.id}`}
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+          <div className="flex items-end gap-2">
+            <div className="flex-1 space-y-1">
+              <Label htmlFor="share-email">Share by email</Label>
+              <Input
+                id="share-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && email.trim() && shareWithUser()}
+                placeholder="name@example.com"
+                data-testid="input-share-email"
+              />
+            </div>
+            <Button onClick={shareWithUser} disabled={!email.trim()} data-testid="button-share-file">Share</Button>
+          </div>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-3">
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">Read-only links</h3>
+          <ul className="space-y-2" data-testid="list-share-links">
+            {links.map(link => {
+              const active = !link.revokedAt && new Date(link.expiresAt) > new Date();
+              return (
+                <li key={link.id} className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Link2 size={14} className="text-gray-400 shrink-0" />
+                    <span className="text-xs text-gray-600 dark:text-gray-400 truncate">{linkStatus(link)}</span>
+                    {!active && <Badge variant="secondary">Inactive</Badge>}
+                  </div>
+                  {active && (
+                    <div className="flex items-center gap-1">
+                      <Button variant="ghost" size="sm" onClick={() => copyLink(link)} data-testid={`button-copy-link-${link.id}`}>
+                        <Copy className="mr-1" size={14} />
+                        Copy
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-600 hover:text-red-700"
+                        onClick={() => change("Could Not Revoke Link", linksKey, () =>
+                          apiRequest("DELETE", `/api/files/${file.id}/share-links/${link.id}`))}
+                        data-testid={`button-revoke-link-${link.id}`}
+                      >
+                        Revoke
+                      </Button>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+          <div className="flex items-center gap-2">
+            <Select value={String(linkDays)} onValueChange={(value) => setLinkDays(Number(value))}>
+              <SelectTrigger className="w-40" data-testid="select-link-expiry">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LINK_DAYS.map(days => (
+                  <SelectItem key={days} value={String(days)}>
+                    Expires in {days} {days === 1 ? 'day' : 'days'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              onClick={() => change("Could Not Create Link", linksKey, () =>
+                apiRequest("POST", `/api/files/${file.id}/share-links`, { expiresInDays: linkDays }))}
+              data-testid="button-create-link"
+            >
+              Create link
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
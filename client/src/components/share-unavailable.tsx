@@ -0,0 +1,31 @@
+import { Link } from "wouter";
+import { AlertCircle } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+
+interface ShareUnavailableProps {
+  message: string;
+  // Signed-in users get a way back to their own workspaces
+  showDashboardLink?: boolean;
+}
+
+export default function ShareUnavailable({ message, showDashboardLink = false }: ShareUnavailableProps) {
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50 dark:bg-gray-900">
+      <Card className="w-full max-w-md mx-4">
+        <CardContent className="pt-6">
+          <div className="flex mb-4 gap-2">
+            <AlertCircle className="h-8 w-8 text-red-500" />
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">Not Available</h1>
+          </div>
+
+          <p className="mt-4 text-sm text-gray-600 dark:text-gray-400" data-testid="text-share-unavailable">{message}</p>
+          {showDashboardLink && (
+            <Link href="/" className="mt-4 inline-block text-sm text-primary-600 hover:underline">
+              Back to your dashboard
+            </Link>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
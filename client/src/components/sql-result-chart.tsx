@@ -0,0 +1,164 @@
+import { useState, useEffect, useMemo } from "react";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line, PieChart, Pie, Cell, ScatterChart, Scatter } from "recharts";
+import { Card, CardContent } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  CHART_COLORS,
+  prepareBarChartData,
+  prepareLineChartData,
+  prepareScatterData,
+  type ChartConfig,
+} from "@/lib/chart-utils";
+import { sqlNumericColumns, sqlResultToRecords } from "@/lib/sql-console-utils";
+import type { SqlResult } from "@shared/schema";
+
+interface SqlResultChartProps {
+  result: SqlResult;
+}
+
+type ChartType = ChartConfig['type'];
+
+const CHART_TYPES: { value: ChartType; label: string }[] = [
+  { value: 'bar', label: 'Bar' },
+  { value: 'line', label: 'Line' },
+  { value: 'pie', label: 'Pie' },
+  { value: 'scatter', label: 'Scatter' },
+];
+
+// Points drawn per chart type; a query result can hold thousands of rows
+const POINT_LIMITS: Record<ChartType, number> = { bar: 50, line: 500, pie: 12, scatter: 1000 };
+
+export default function SqlResultChart({ result }: SqlResultChartProps) {
+  const numericColumns = useMemo(() => sqlNumericColumns(result), [result]);
+  const records = useMemo(() => sqlResultToRecords(result), [result]);
+
+  const [type, setType] = useState<ChartType>('bar');
+  const [xColumn, setXColumn] = useState('');
+  const [yColumn, setYColumn] = useState('');
+
+  // Start from the first text column against the first number column of each new result
+  useEffect(() => {
+    const y = numericColumns[0] ?? '';
+    setYColumn(y);
+    setXColumn(result.columns.find(column => !numericColumns.includes(column)) ?? result.columns.find(column => column !== y) ?? '');
+  }, [result, numericColumns]);
+
+  if (numericColumns.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 text-center py-8" data-testid="text-chart-no-numbers">
+        The result has no numeric column to chart
+      </p>
+    );
+  }
+
+  const limit = POINT_LIMITS[type];
+  const points = type === 'scatter'
+    ? prepareScatterData(records, xColumn, yColumn, limit)
+    : type === 'line'
+      ? prepareLineChartData(records, xColumn, yColumn, limit)
+      : prepareBarChartData(records, xColumn, yColumn, limit);
+
+  const renderChart = () => {
+    switch (type) {
+      case 'bar':
+        return (
+          <BarChart data={points}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="name" />
+            <YAxis />
+            <Tooltip />
+            <Bar dataKey="value" name={yColumn} fill={CHART_COLORS[0]} />
+          </BarChart>
+        );
+      case 'line':
+        return (
+          <LineChart data={points}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="name" />
+            <YAxis />
+            <Tooltip />
+            <Line type="monotone" dataKey="value" name={yColumn} stroke={CHART_COLORS[1]} strokeWidth={2} dot={false} />
+          </LineChart>
+        );
+      case 'pie':
+        return (
+          <PieChart>
+            <Pie data={points} cx="50%" cy="50%" outerRadius={110} dataKey="value" label={({ name }) => name}>
+              {points.map((_, index) => (
+                <Cell key={`cell-${index}`} fill={CHART_COLORS[index % CHART_COLORS.length]} />
+              ))}
+            </Pie>
+            <Tooltip />
+          </PieChart>
+        );
+      case 'scatter':
+        return (
+          <ScatterChart>
+            <CartesianGrid />
+            <XAxis dataKey="x" name={xColumn} type="number" />
+            <YAxis dataKey="y" name={yColumn} type="number" />
+            <Tooltip cursor={{ strokeDasharray: '3 3' }} />
+            <Scatter data={points} fill={CHART_COLORS[4]} />
+          </ScatterChart>
+        );
+    }
+  };
+
+  return (
+    <Card className="shadow-card">
+      <CardContent className="p-6 space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <div className="space-y-1">
+            <Label>Chart</Label>
+            <Select value={type} onValueChange={(value) => setType(value as ChartType)}>
+              <SelectTrigger data-testid="select-chart-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CHART_TYPES.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>{type === 'scatter' ? 'X values' : 'Labels'}</Label>
+            <Select value={xColumn} onValueChange={setXColumn}>
+              <SelectTrigger data-testid="select-chart-x">
+                <SelectValue placeholder="Column" />
+              </SelectTrigger>
+              <SelectContent>
+                {(type === 'scatter' ? numericColumns : result.columns).map(column => (
+                  <SelectItem key={column} value={column}>{column}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Values</Label>
+            <Select value={yColumn} onValueChange={setYColumn}>
+              <SelectTrigger data-testid="select-chart-y">
+                <SelectValue placeholder="Column" />
+              </SelectTrigger>
+              <SelectContent>
+                {numericColumns.map(column => (
+                  <SelectItem key={column} value={column}>{column}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="h-80" data-testid="chart-sql-result">
+          <ResponsiveContainer width="100%" height="100%">
+            {renderChart()}
+          </ResponsiveContainer>
+        </div>
+        {result.rows.length > limit && (
+          <p className="text-xs text-gray-500">Showing the first {limit} of {result.rows.length} rows</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
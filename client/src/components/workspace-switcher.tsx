@@ -0,0 +1,276 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Copy, Plus, Trash2, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/contexts/workspace-context";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  workspaceRoles,
+  type SharedFile,
+  type WorkspaceMemberWithInvite,
+  type WorkspaceRole,
+  type WorkspaceWithRole,
+} from "@shared/schema";
+
+// Select value of the "New workspace" entry, which opens the create dialog instead of switching
+const NEW_WORKSPACE = "__new__";
+// Select values of files shared with the user, which open the file's own page
+const SHARED_FILE_PREFIX = "shared:";
+
+const ROLE_LABELS: Record<WorkspaceRole, string> = {
+  viewer: "Viewer",
+  editor: "Editor",
+  admin: "Admin",
+};
+
+function MembersDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const { workspace, isAdmin } = useWorkspace();
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<WorkspaceRole>("viewer");
+  const { toast } = useToast();
+
+  const membersKey = ["/api/workspaces", workspace?.id, "members"];
+  const { data: members = [] } = useQuery<WorkspaceMemberWithInvite[]>({
+    queryKey: membersKey,
+    enabled: open && !!workspace,
+  });
+
+  const changeMembers = async (title: string, request: () => Promise<Response>) => {
+    try {
+      await request();
+      queryClient.invalidateQueries({ queryKey: membersKey });
+      return true;
+    } catch (error) {
+      toast({
+        title,
+        description: apiErrorMessage(error, 'Failed to change the members'),
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const addMember = async () => {
+    const added = await changeMembers("Could Not Add Member", () =>
+      apiRequest("POST", `/api/workspaces/${workspace!.id}/members`, { email: email.trim(), role }));
+    if (added) setEmail("");
+  };
+
+  // People whose sign-in does not verify their email join through the invite link of their entry
+  const copyInvite = async (token: string) => {
+    await navigator.clipboard.writeText(`${window.location.origin}/invite/${token}`);
+    toast({ title: "Invite Link Copied", description: "Send it to the new member; whoever opens it first joins the workspace." });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Members of {workspace?.name}</DialogTitle>
+          <DialogDescription>
+            Viewers see the dashboards, editors also upload and delete files and save queries, admins also manage members.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700" data-testid="list-workspace-members">
+          {members.map(member => (
+            <li key={member.id} className="flex items-center justify-between gap-2 py-2">
+              <span className="text-sm text-gray-900 dark:text-gray-100 truncate">{member.email ?? member.userId}</span>
+              {isAdmin ? (
+                <div className="flex items-center gap-2">
+                  {member.inviteToken && (new Date(member.inviteExpiresAt!) > new Date() ? (
+                    <Button variant="ghost" size="sm" onClick={() => copyInvite(member.inviteToken!)} data-testid={`button-copy-invite-${member.id}`}>
+                      <Copy className="mr-1" size={14} />
+                      Invite link
+                    </Button>
+                  ) : (
+                    <span className="text-xs text-gray-500">Invite expired</span>
+                  ))}
+                  <Select
+                    value={member.role}
+                    onValueChange={(value) => changeMembers("Could Not Change Role", () =>
+                      apiRequest("PATCH", `/api/workspaces/${workspace!.id}/members/${member.id}`, { role: value }))}
+                  >
+                    <SelectTrigger className="w-28" data-testid={`select-member-role-${member.id}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {workspaceRoles.map(option => (
+                        <SelectItem key={option} value={option}>{ROLE_LABELS[option]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <button
+                    onClick={() => changeMembers("Could Not Remove Member", () =>
+                      apiRequest("DELETE", `/api/workspaces/${workspace!.id}/members/${member.id}`))}
+                    className="text-gray-400 hover:text-red-600"
+                    aria-label={`Remove ${member.email ?? member.userId}`}
+                    data-testid={`button-remove-member-${member.id}`}
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ) : (
+                <span className="text-xs text-gray-500">{ROLE_LABELS[member.role]}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        {isAdmin && (
+          <div className="flex items-end gap-2">
+            <div className="flex-1 space-y-1">
+              <Label htmlFor="member-email">Add by email</Label>
+              <Input
+                id="member-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && email.trim() && addMember()}
+                placeholder="name@example.com"
+                data-testid="input-member-email"
+              />
+            </div>
+            <Select value={role} onValueChange={(value) => setRole(value as WorkspaceRole)}>
+              <SelectTrigger className="w-28" data-testid="select-new-member-role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {workspaceRoles.map(option => (
+                  <SelectItem key={option} value={option}>{ROLE_LABELS[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={addMember} disabled={!email.trim()} data-testid="button-add-member">Add</Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function WorkspaceSwitcher() {
+  const { workspace, workspaces, switchWorkspace } = useWorkspace();
+  const [createOpen, setCreateOpen] = useState(false);
+  const [membersOpen, setMembersOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const { data: sharedFiles = [] } = useQuery<SharedFile[]>({ queryKey: ["/api/shared-files"] });
+
+  if (!workspace) return null;
+
+  const handleSelect = (value: string) => {
+    if (value === NEW_WORKSPACE) {
+      setCreateOpen(true);
+    } else if (value.startsWith(SHARED_FILE_PREFIX)) {
+      setLocation(`/shared/${value.slice(SHARED_FILE_PREFIX.length)}`);
+    } else {
+      switchWorkspace(value);
+    }
+  };
+
+  const createWorkspace = async () => {
+    try {
+      const res = await apiRequest("POST", "/api/workspaces", { name: name.trim() });
+      const created: WorkspaceWithRole = await res.json();
+      queryClient.setQueryData<WorkspaceWithRole[]>(["/api/workspaces"], (current = []) => [...current, created]);
+      switchWorkspace(created.id);
+      setCreateOpen(false);
+      setName("");
+    } catch (error) {
+      toast({
+        title: "Could Not Create Workspace",
+        description: apiErrorMessage(error, 'Failed to create the workspace'),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <Select value={workspace.id} onValueChange={handleSelect}>
+        <SelectTrigger className="w-48" data-testid="select-workspace">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {workspaces.map(item => (
+            <SelectItem key={item.id} value={item.id}>
+              {item.name} <span className="text-xs text-gray-500">· {ROLE_LABELS[item.role]}</span>
+            </SelectItem>
+          ))}
+          {sharedFiles.length > 0 && (
+            <>
+              <SelectSeparator />
+              <SelectGroup>
+                <SelectLabel>Shared with me</SelectLabel>
+                {sharedFiles.map(file => (
+                  <SelectItem key={file.id} value={`${SHARED_FILE_PREFIX}${file.id}`} data-testid={`option-shared-file-${file.id}`}>
+                    {file.originalName}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            </>
+          )}
+          <SelectSeparator />
+          <SelectItem value={NEW_WORKSPACE} data-testid="option-new-workspace">
+            <span className="flex items-center"><Plus className="mr-2" size={14} />New workspace</span>
+          </SelectItem>
+        </SelectContent>
+      </Select>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setMembersOpen(true)}
+        aria-label="Workspace members"
+        data-testid="button-workspace-members"
+        className="text-gray-400 hover:text-gray-600 dark:text-gray-500 dark:hover:text-gray-300"
+      >
+        <Users size={16} />
+      </Button>
+
+      <MembersDialog open={membersOpen} onOpenChange={setMembersOpen} />
+
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Workspace</DialogTitle>
+            <DialogDescription>You become the workspace's admin and can add members afterwards.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="workspace-name">Name</Label>
+            <Input
+              id="workspace-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && name.trim() && createWorkspace()}
+              maxLength={100}
+              data-testid="input-workspace-name"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateOpen(false)}>Cancel</Button>
+            <Button onClick={createWorkspace} disabled={!name.trim()} data-testid="button-create-workspace">
+              Create
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,12 +1,13 @@
 import { createContext, useContext, useEffect, useState } from 'react';
-import { User } from '@supabase/supabase-js';
-import { supabase } from '@/lib/supabase';
+import { authClient, type AuthUser } from '@/lib/auth-client';
 
 interface AuthContextType {
-  user: User | null;
+  user: AuthUser | null;
   loading: boolean;
+  // Whether resetPassword can email a reset link; local accounts cannot
+  canResetPassword: boolean;
   signIn: (email: string, password: string) => Promise<{ error: any }>;
-  signUp: (email: string, password: string, fullName: string) => Promise<{ error: any }>;
+  signUp: (email: string, password: string, fullName: string) => Promise<{ error: any; confirmEmail: boolean }>;
   signOut: () => Promise<void>;
   resetPassword: (email: string) => Promise<{ error: any }>;
 }
@@ -21,67 +22,33 @@ export const useAuth = () => {
   return context;
 };
 
+// Signs in with Supabase or with local accounts, whichever the install uses (see lib/auth-client.ts)
 export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
-  const [user, setUser] = useState<User | null>(null);
+  const [user, setUser] = useState<AuthUser | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     // Get initial session
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      setUser(session?.user ?? null);
+    authClient.getUser().then((current) => {
+      setUser(current);
       setLoading(false);
     });
 
     // Listen for auth changes
-    const { data: { subscription } } = supabase.auth.onAuthStateChange(
-      (_event, session) => {
-        setUser(session?.user ?? null);
-        setLoading(false);
-      }
-    );
-
-    return () => subscription.unsubscribe();
-  }, []);
-
-  const signIn = async (email: string, password: string) => {
-    const { error } = await supabase.auth.signInWithPassword({
-      email,
-      password,
-    });
-    return { error };
-  };
-
-  const signUp = async (email: string, password: string, fullName: string) => {
-    const { error } = await supabase.auth.signUp({
-      email,
-      password,
-      options: {
-        data: {
-          full_name: fullName,
-        },
-      },
-    });
-    return { error };
-  };
-
-  const signOut = async () => {
-    await supabase.auth.signOut();
-  };
-
-  const resetPassword = async (email: string) => {
-    const { error } = await supabase.auth.resetPasswordForEmail(email, {
-      redirectTo: `${window.location.origin}/reset-password`,
+    return authClient.onUserChange((current) => {
+      setUser(current);
+      setLoading(false);
     });
-    return { error };
-  };
+  }, []);
 
   const value = {
     user,
     loading,
-    signIn,
-    signUp,
-    signOut,
-    resetPassword,
+    canResetPassword: authClient.canResetPassword,
+    signIn: (email: string, password: string) => authClient.signIn(email, password),
+    signUp: (email: string, password: string, fullName: string) => authClient.signUp(email, password, fullName),
+    signOut: () => authClient.signOut(),
+    resetPassword: (email: string) => authClient.resetPassword(email),
   };
 
   return (
@@ -89,4 +56,4 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
       {children}
     </AuthContext.Provider>
   );
-};
\ No newline at end of file
+};
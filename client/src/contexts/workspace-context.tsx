@@ -0,0 +1,76 @@
+import { createContext, useContext, useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import type { WorkspaceWithRole } from '@shared/schema';
+import { queryClient, setCurrentWorkspace } from '@/lib/queryClient';
+
+interface WorkspaceContextType {
+  workspace: WorkspaceWithRole | null;
+  workspaces: WorkspaceWithRole[];
+  // Editors and admins upload, delete files and save queries; viewers only look
+  canEdit: boolean;
+  isAdmin: boolean;
+  switchWorkspace: (workspaceId: string) => void;
+}
+
+const WorkspaceContext = createContext<WorkspaceContextType | undefined>(undefined);
+
+const STORAGE_KEY = 'excel-dashboard-workspace';
+
+// Open this workspace the next time the workspaces load, e.g. after accepting an invite to it
+export const rememberWorkspace = (workspaceId: string) => localStorage.setItem(STORAGE_KEY, workspaceId);
+
+export const useWorkspace = () => {
+  const context = useContext(WorkspaceContext);
+  if (!context) {
+    throw new Error('useWorkspace must be used within a WorkspaceProvider');
+  }
+  return context;
+};
+
+export const WorkspaceProvider = ({ children }: { children: React.ReactNode }) => {
+  const [selectedId, setSelectedId] = useState(() => localStorage.getItem(STORAGE_KEY));
+  const { data: workspaces, isLoading } = useQuery<WorkspaceWithRole[]>({
+    queryKey: ['/api/workspaces'],
+  });
+
+  // Fall back to the first workspace when the stored one was deleted or the user was removed from it
+  const workspace = workspaces?.find(item => item.id === selectedId) ?? workspaces?.[0] ?? null;
+  setCurrentWorkspace(workspace?.id);
+
+  useEffect(() => {
+    if (workspace) rememberWorkspace(workspace.id);
+  }, [workspace?.id]);
+
+  const switchWorkspace = (workspaceId: string) => {
+    if (workspaceId === workspace?.id) return;
+    setCurrentWorkspace(workspaceId);
+    // Cached files, datasets and queries belong to the workspace being left
+    queryClient.removeQueries({ predicate: query => query.queryKey[0] !== '/api/workspaces' });
+    setSelectedId(workspaceId);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
+        <div className="text-center space-y-4">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 mx-auto"></div>
+          <p className="text-gray-600 dark:text-gray-400">Loading workspaces...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const value = {
+    workspace,
+    workspaces: workspaces ?? [],
+    canEdit: workspace?.role === 'editor' || workspace?.role === 'admin',
+    isAdmin: workspace?.role === 'admin',
+    switchWorkspace,
+  };
+
+  return (
+    <WorkspaceContext.Provider value={value}>
+      {children}
+    </WorkspaceContext.Provider>
+  );
+};
@@ -0,0 +1,19 @@
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { AggregateRequest, AggregateResult } from "@shared/schema";
+
+// An aggregation as sent by a chart; the server fills in defaults for the rest
+export type AggregateQuery = Partial<AggregateRequest> & Pick<AggregateRequest, 'measures'>;
+
+// Grouped measures of a dataset computed by the server, cached per dataset and request.
+// Pass null as the request while a chart has nothing to aggregate.
+export function useAggregate(dataId: string | null | undefined, request: AggregateQuery | null) {
+  return useQuery<AggregateResult>({
+    queryKey: ["/api/data", dataId, "aggregate", request],
+    queryFn: async () => {
+      const res = await apiRequest("POST", `/api/data/${dataId}/aggregate`, request);
+      return res.json();
+    },
+    enabled: !!dataId && request !== null,
+  });
+}
@@ -1,92 +1,439 @@
 import { useState, useCallback } from "react";
 import { useToast } from "@/hooks/use-toast";
-import { queryClient } from "@/lib/queryClient";
+import { accessToken, apiRequest, authHeaders, queryClient } from "@/lib/queryClient";
+import { isSupportedUploadFile, isZipFile } from "@/lib/excel-utils";
+import {
+  MAX_UPLOAD_BYTES,
+  type BatchImportItem,
+  type ImportCommit,
+  type ImportJob,
+  type ImportPreview,
+  type UploadOptions,
+  type UploadSession,
+} from "@shared/schema";
 
 interface UseFileUploadProps {
   onSuccess?: (result: any) => void;
   onError?: (error: Error) => void;
 }
 
-export function useFileUpload({ onSuccess, onError }: UseFileUploadProps = {}) {
-  const [isUploading, setIsUploading] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState(0);
-  const { toast } = useToast();
+export type UploadPhase = 'uploading' | 'previewing' | 'processing';
 
-  const uploadFile = useCallback(async (file: File) => {
-    setIsUploading(true);
-    setUploadProgress(0);
+// Outcome of one file of a batch; a .zip archive yields one result per file inside it
+export interface BatchFileResult {
+  fileName: string;
+  status: 'done' | 'failed' | 'cancelled';
+  error?: string;
+  result?: any; // The imported file and its sheets
+}
+
+// An upload that was started but not completed, remembered across page reloads
+export interface InterruptedUpload {
+  key: string;
+  uploadId: string;
+  fileName: string;
+  size: number;
+}
+
+const STORAGE_PREFIX = 'chunked-upload:';
+const UNSUPPORTED_FILE_MESSAGE = 'Only spreadsheet (.xlsx, .xls, .ods), delimited text (.csv, .tsv), JSON (.json, .ndjson) and .zip files are allowed';
+const CHUNK_ATTEMPTS = 3;
+
+// The same file picked again after a reload has the same name, size and modification time
+function uploadKey(file: File): string {
+  return `${STORAGE_PREFIX}${file.name}:${file.size}:${file.lastModified}`;
+}
 
+function readInterruptedUploads(): InterruptedUpload[] {
+  const uploads: InterruptedUpload[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key?.startsWith(STORAGE_PREFIX)) continue;
     try {
-      // Validate file type
-      const allowedTypes = [
-        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-        'application/vnd.ms-excel',
-      ];
-
-      if (!allowedTypes.includes(file.type)) {
-        throw new Error('Only Excel files (.xlsx, .xls) are allowed');
+      uploads.push({ key, ...JSON.parse(localStorage.getItem(key) ?? '') });
+    } catch {
+      localStorage.removeItem(key);
+    }
+  }
+  return uploads;
+}
+
+async function sha256Hex(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// XMLHttpRequest instead of fetch, because only it reports upload progress
+async function sendChunk(url: string, data: ArrayBuffer, checksum: string, onProgress: (loaded: number) => void): Promise<void> {
+  const headers = await authHeaders();
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('PUT', url);
+    xhr.withCredentials = true;
+    Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+    xhr.setRequestHeader('Content-Type', 'application/octet-stream');
+    xhr.setRequestHeader('X-Chunk-Checksum', checksum);
+    xhr.upload.onprogress = (event) => onProgress(event.loaded);
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve();
+      } else {
+        let message = xhr.statusText || 'Chunk upload failed';
+        try {
+          message = JSON.parse(xhr.responseText).message || message;
+        } catch {}
+        reject(new Error(message));
       }
+    };
+    xhr.onerror = () => reject(new Error('Network error while uploading'));
+    xhr.send(data);
+  });
+}
 
-      // Validate file size (10MB limit)
-      if (file.size > 10 * 1024 * 1024) {
-        throw new Error('File size must be less than 10MB');
+// Follow an import job over Server-Sent Events. Resolves with the imported file and sheets,
+// or with null when the job was cancelled. EventSource cannot send headers, so the access token
+// goes in the query string.
+async function watchImportJob(jobId: string, onProgress: (job: ImportJob) => void): Promise<any> {
+  const token = await accessToken();
+  const query = token ? `?access_token=${encodeURIComponent(token)}` : '';
+  return new Promise((resolve, reject) => {
+    const source = new EventSource(`/api/import-jobs/${jobId}/events${query}`, { withCredentials: true });
+    const read = (event: Event) => {
+      const { job, result } = JSON.parse((event as MessageEvent).data);
+      onProgress(job);
+      return { job: job as ImportJob, result };
+    };
+
+    source.addEventListener('progress', read);
+    source.addEventListener('completed', (event) => {
+      source.close();
+      resolve(read(event).result);
+    });
+    source.addEventListener('failed', (event) => {
+      source.close();
+      reject(new Error(read(event).job.error || 'Import failed'));
+    });
+    source.addEventListener('cancelled', (event) => {
+      source.close();
+      read(event);
+      resolve(null);
+    });
+    // EventSource reconnects by itself after a network blip; only give up once it stops trying
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        reject(new Error('Lost connection to the import'));
       }
+    };
+  });
+}
 
-      const formData = new FormData();
-      formData.append('file', file);
+// Reuse the server session of an earlier attempt at this file, or start a new one
+async function openUploadSession(file: File): Promise<UploadSession> {
+  const stored = localStorage.getItem(uploadKey(file));
+  if (stored) {
+    try {
+      const { uploadId } = JSON.parse(stored);
+      const res = await fetch(`/api/uploads/${uploadId}`, { headers: await authHeaders(), credentials: "include" });
+      if (res.ok) return await res.json();
+    } catch {}
+    localStorage.removeItem(uploadKey(file));
+  }
 
-      // Simulate progress
-      const progressInterval = setInterval(() => {
-        setUploadProgress(prev => Math.min(prev + 10, 90));
-      }, 200);
+  const res = await apiRequest('POST', '/api/uploads', {
+    fileName: file.name,
+    size: file.size,
+    mimeType: file.type,
+  });
+  const session: UploadSession = await res.json();
+  localStorage.setItem(uploadKey(file), JSON.stringify({
+    uploadId: session.id,
+    fileName: file.name,
+    size: file.size,
+  }));
+  return session;
+}
 
-      const response = await fetch('/api/upload', {
-        method: 'POST',
-        body: formData,
-      });
+// Send a file chunk by chunk, skipping chunks stored by an earlier attempt
+async function sendFileInChunks(file: File, onProgress: (uploadedBytes: number) => void): Promise<UploadSession> {
+  const session = await openUploadSession(file);
+  const received = new Set(session.receivedChunks);
 
-      clearInterval(progressInterval);
-      setUploadProgress(100);
+  // Chunks stored by an earlier attempt count as already uploaded
+  let uploadedBytes = 0;
+  received.forEach(index => {
+    uploadedBytes += Math.min(session.chunkSize, file.size - index * session.chunkSize);
+  });
+  onProgress(uploadedBytes);
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || 'Upload failed');
+  for (let index = 0; index < session.totalChunks; index++) {
+    if (received.has(index)) continue;
+
+    const data = await file.slice(index * session.chunkSize, (index + 1) * session.chunkSize).arrayBuffer();
+    const checksum = await sha256Hex(data);
+    const url = `/api/uploads/${session.id}/chunks/${index}`;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await sendChunk(url, data, checksum, loaded => onProgress(uploadedBytes + loaded));
+        break;
+      } catch (error) {
+        if (attempt >= CHUNK_ATTEMPTS) throw error;
+        await new Promise(resolve => setTimeout(resolve, attempt * 1000));
       }
+    }
+
+    uploadedBytes += data.byteLength;
+    onProgress(uploadedBytes);
+  }
+
+  // The chunks are removed on the server once it imports or previews the file, so a failure from here on cannot be resumed
+  localStorage.removeItem(uploadKey(file));
+  return session;
+}
+
+// Upload a file and start its import right away
+async function uploadAndImport(
+  file: File,
+  options: UploadOptions | undefined,
+  batchId: string | undefined,
+  onProgress: (uploadedBytes: number) => void,
+): Promise<{ batchId: string; imports: BatchImportItem[] }> {
+  const session = await sendFileInChunks(file, onProgress);
+  const response = await apiRequest('POST', `/api/uploads/${session.id}/complete`, { options, batchId });
+  return response.json();
+}
+
+function upsertJob(jobs: ImportJob[], job: ImportJob): ImportJob[] {
+  return jobs.some(existing => existing.id === job.id)
+    ? jobs.map(existing => existing.id === job.id ? job : existing)
+    : [...jobs, job];
+}
+
+export function useFileUpload({ onSuccess, onError }: UseFileUploadProps = {}) {
+  const [isUploading, setIsUploading] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState(0);
+  const [uploadPhase, setUploadPhase] = useState<UploadPhase | null>(null);
+  const [importJobs, setImportJobs] = useState<ImportJob[]>([]);
+  const [batchResults, setBatchResults] = useState<BatchFileResult[]>([]);
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+  const [interruptedUploads, setInterruptedUploads] = useState<InterruptedUpload[]>(readInterruptedUploads);
+  const { toast } = useToast();
+
+  const startUpload = useCallback(() => {
+    setIsUploading(true);
+    setUploadProgress(0);
+    setUploadPhase('uploading');
+    setImportJobs([]);
+    setBatchResults([]);
+  }, []);
+
+  const endUpload = useCallback(() => {
+    setIsUploading(false);
+    setUploadProgress(0);
+    setUploadPhase(null);
+    setImportJobs([]);
+  }, []);
+
+  // Follow the import jobs started for a batch, then report how every file of it went
+  const finishImports = useCallback(async (
+    batchId: string | undefined,
+    items: BatchImportItem[],
+    results: BatchFileResult[],
+  ) => {
+    setUploadPhase('processing');
+
+    const watchers = items.map((item): Promise<BatchFileResult> => {
+      if (!item.jobId) return Promise.resolve({ fileName: item.fileName, status: 'failed', error: item.error });
+
+      return watchImportJob(item.jobId, job => setImportJobs(jobs => upsertJob(jobs, job)))
+        .then((result): BatchFileResult => result
+          ? { fileName: item.fileName, status: 'done', result }
+          : { fileName: item.fileName, status: 'cancelled' })
+        .catch((error): BatchFileResult => ({ fileName: item.fileName, status: 'failed', error: error.message }));
+    });
+    results.push(...await Promise.all(watchers));
+    setBatchResults(results);
 
-      const result = await response.json();
+    // Invalidate relevant queries
+    queryClient.invalidateQueries({ queryKey: ["/api/files"] });
 
-      // Invalidate relevant queries
-      queryClient.invalidateQueries({ queryKey: ["/api/files"] });
+    const imported = results.filter(result => result.status === 'done').length;
+    const failed = results.filter(result => result.status === 'failed').length;
 
+    if (failed === 0 && imported > 0) {
       toast({
         title: "File Uploaded Successfully",
-        description: "Your Excel file has been processed and is ready for analysis.",
+        description: imported === 1
+          ? "Your Excel file has been processed and is ready for analysis."
+          : `${imported} files have been processed and are ready for analysis.`,
       });
+    } else if (failed > 0) {
+      toast({
+        title: imported > 0 ? "Some Files Failed" : "Upload Failed",
+        description: results.length === 1 ? results[0].error : `${imported} of ${results.length} files were imported.`,
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: "Import Cancelled",
+        description: "No files were imported.",
+      });
+    }
 
-      onSuccess?.(result);
-      return result;
+    onSuccess?.({ batchId, results });
+    if (failed > 0 && imported === 0) {
+      onError?.(new Error(results[0]?.error || 'Failed to upload files'));
+    }
+    return { batchId, results };
+  }, [onSuccess, onError, toast]);
+
+  // A single file is uploaded and parsed for a preview; it is only imported once the preview is committed
+  const previewFile = useCallback(async (file: File, options?: UploadOptions) => {
+    startUpload();
+    try {
+      if (!isSupportedUploadFile(file)) throw new Error(UNSUPPORTED_FILE_MESSAGE);
+      if (file.size > MAX_UPLOAD_BYTES) throw new Error(`File size must be less than ${MAX_UPLOAD_BYTES / (1024 * 1024)}MB`);
+
+      const session = await sendFileInChunks(file, uploaded => {
+        setUploadProgress(Math.round((uploaded / file.size) * 100));
+      });
+      setInterruptedUploads(readInterruptedUploads());
+      setUploadPhase('previewing');
+
+      const response = await apiRequest('POST', `/api/uploads/${session.id}/preview`, { options });
+      setImportPreview(await response.json());
     } catch (error) {
       console.error('Upload error:', error);
-      
-      const errorMessage = error instanceof Error ? error.message : 'Failed to upload file';
-      
+      setInterruptedUploads(readInterruptedUploads());
+      const message = error instanceof Error ? error.message : 'Failed to upload file';
+      setBatchResults([{ fileName: file.name, status: 'failed', error: message }]);
+      toast({ title: "Upload Failed", description: message, variant: "destructive" });
+      onError?.(error instanceof Error ? error : new Error(message));
+    } finally {
+      endUpload();
+    }
+  }, [startUpload, endUpload, toast, onError]);
+
+  // Upload several files as one batch. Files are sent one after another while the server
+  // already imports the earlier ones; each file succeeds or fails on its own.
+  const uploadFiles = useCallback(async (files: File[], options?: UploadOptions) => {
+    if (files.length === 1 && !isZipFile(files[0])) {
+      return previewFile(files[0], options);
+    }
+
+    startUpload();
+    const results: BatchFileResult[] = [];
+    const items: BatchImportItem[] = [];
+    let batchId: string | undefined;
+
+    try {
+      const accepted = files.filter(file => {
+        // Validate file type and size
+        if (!isSupportedUploadFile(file)) {
+          results.push({ fileName: file.name, status: 'failed', error: UNSUPPORTED_FILE_MESSAGE });
+          return false;
+        }
+        if (file.size > MAX_UPLOAD_BYTES) {
+          results.push({ fileName: file.name, status: 'failed', error: `File size must be less than ${MAX_UPLOAD_BYTES / (1024 * 1024)}MB` });
+          return false;
+        }
+        return true;
+      });
+
+      const totalBytes = accepted.reduce((total, file) => total + file.size, 0);
+      let sentBytes = 0;
+
+      for (const file of accepted) {
+        try {
+          const response = await uploadAndImport(file, options, batchId, uploaded => {
+            setUploadProgress(Math.round(((sentBytes + uploaded) / totalBytes) * 100));
+          });
+          batchId = response.batchId;
+          items.push(...response.imports);
+        } catch (error) {
+          console.error('Upload error:', error);
+          results.push({ fileName: file.name, status: 'failed', error: error instanceof Error ? error.message : 'Failed to upload file' });
+        }
+        sentBytes += file.size;
+        setInterruptedUploads(readInterruptedUploads());
+      }
+
+      return await finishImports(batchId, items, results);
+    } finally {
+      endUpload();
+    }
+  }, [previewFile, startUpload, endUpload, finishImports]);
+
+  // Import the previewed file with the sheets, column names and types the user chose
+  const commitPreview = useCallback(async (commit: ImportCommit) => {
+    if (!importPreview) return;
+
+    startUpload();
+    setUploadPhase('processing');
+    try {
+      const response = await apiRequest('POST', `/api/import-previews/${importPreview.id}/commit`, commit);
+      const { batchId, imports }: { batchId: string; imports: BatchImportItem[] } = await response.json();
+      setImportPreview(null);
+      return await finishImports(batchId, imports, []);
+    } catch (error) {
+      // The preview stays open so the selection can be corrected
+      console.error('Import error:', error);
       toast({
-        title: "Upload Failed",
-        description: errorMessage,
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : 'Failed to import file',
         variant: "destructive",
       });
-
-      onError?.(error instanceof Error ? error : new Error(errorMessage));
-      throw error;
     } finally {
-      setIsUploading(false);
-      setUploadProgress(0);
+      endUpload();
     }
-  }, [onSuccess, onError, toast]);
+  }, [importPreview, startUpload, endUpload, finishImports, toast]);
+
+  // Close the preview and remove the uploaded file from the server
+  const discardPreview = useCallback(async () => {
+    if (!importPreview) return;
+    setImportPreview(null);
+    try {
+      await apiRequest('DELETE', `/api/import-previews/${importPreview.id}`);
+    } catch (error) {
+      console.error('Error discarding preview:', error);
+    }
+  }, [importPreview]);
+
+  // Ask the server to stop a running import job
+  const cancelImport = useCallback(async (jobId: string) => {
+    try {
+      await apiRequest('POST', `/api/import-jobs/${jobId}/cancel`);
+    } catch (error) {
+      console.error('Error cancelling import:', error);
+    }
+  }, []);
+
+  const clearBatchResults = useCallback(() => setBatchResults([]), []);
+
+  // Forget an interrupted upload and free its chunks on the server
+  const discardInterruptedUpload = useCallback(async (upload: InterruptedUpload) => {
+    localStorage.removeItem(upload.key);
+    setInterruptedUploads(readInterruptedUploads());
+    try {
+      await apiRequest('DELETE', `/api/uploads/${upload.uploadId}`);
+    } catch (error) {
+      console.error('Error discarding upload:', error);
+    }
+  }, []);
 
   return {
-    uploadFile,
+    uploadFiles,
     isUploading,
     uploadProgress,
+    uploadPhase,
+    importJobs,
+    cancelImport,
+    importPreview,
+    commitPreview,
+    discardPreview,
+    batchResults,
+    clearBatchResults,
+    interruptedUploads,
+    discardInterruptedUpload,
   };
 }
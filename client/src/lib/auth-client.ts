@@ -0,0 +1,40 @@
+import { createSupabaseAuth, supabaseConfigured } from '@/lib/supabase';
+import { createLocalAuth } from '@/lib/local-auth';
+
+// The signed-in user as AuthProvider hands it out, whichever way they signed in
+export type AuthUser = {
+  id: string;
+  email?: string;
+  user_metadata?: {
+    full_name?: string;
+    avatar_url?: string;
+  };
+};
+
+export type AuthResult = { error: Error | null };
+
+// How the browser signs users in. Supabase keeps the session itself and the API gets its access
+// token; local accounts keep it in a cookie the server set, so they have no token to send.
+export interface AuthClient {
+  // Whether a forgotten password can be reset by email
+  canResetPassword: boolean;
+  getUser(): Promise<AuthUser | null>;
+  // Calls the listener whenever the user signs in or out; returns the function unsubscribing it
+  onUserChange(listener: (user: AuthUser | null) => void): () => void;
+  signIn(email: string, password: string): Promise<AuthResult>;
+  // confirmEmail is set when the account needs its email confirmed before the first sign-in
+  signUp(email: string, password: string, fullName: string): Promise<AuthResult & { confirmEmail: boolean }>;
+  signOut(): Promise<void>;
+  resetPassword(email: string): Promise<AuthResult>;
+  accessToken(): Promise<string | undefined>;
+}
+
+export type AuthMode = 'supabase' | 'local';
+
+// VITE_AUTH_MODE selects the client; without it Supabase is used when its settings are present,
+// and local accounts otherwise. It must match the server's AUTH_MODE.
+export const authMode: AuthMode = import.meta.env.VITE_AUTH_MODE === 'local' || (!import.meta.env.VITE_AUTH_MODE && !supabaseConfigured)
+  ? 'local'
+  : 'supabase';
+
+export const authClient: AuthClient = authMode === 'local' ? createLocalAuth() : createSupabaseAuth();
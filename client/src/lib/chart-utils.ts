@@ -1,3 +1,5 @@
+import type { AggregateResult } from "@shared/schema";
+
 export interface ChartDataPoint {
   name: string;
   value: number;
@@ -56,21 +58,16 @@ export function prepareLineChartData(
     .filter(item => !isNaN(item.value));
 }
 
-export function preparePieChartData(
-  data: Record<string, any>[],
-  column: string,
-  limit: number = 8
+// Turn the rows of an aggregation result into chart points, one per group
+export function aggregateToChartData(
+  result: AggregateResult | undefined,
+  nameColumn: string,
+  valueColumn: string
 ): ChartDataPoint[] {
-  const groups = data.reduce((acc, row) => {
-    const key = String(row[column] || 'Unknown');
-    acc[key] = (acc[key] || 0) + 1;
-    return acc;
-  }, {} as Record<string, number>);
-
-  return Object.entries(groups)
-    .sort(([,a], [,b]) => b - a)
-    .slice(0, limit)
-    .map(([name, value]) => ({ name, value }));
+  return (result?.rows ?? []).map(row => ({
+    name: String(row[nameColumn] ?? 'Unknown'),
+    value: Number(row[valueColumn]) || 0,
+  }));
 }
 
 export function prepareScatterData(
@@ -0,0 +1,95 @@
+// Turn clipboard content into a grid of cell text. Spreadsheets put both an HTML table and
+// tab separated text on the clipboard, web pages usually only an HTML table.
+
+// Split tab separated text the way Excel writes it: cells containing tabs, line breaks
+// or quotes are wrapped in double quotes, with embedded quotes doubled
+export function parseTabSeparatedText(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let atCellStart = true;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && atCellStart) {
+      quoted = true;
+      atCellStart = false;
+    } else if (char === '\t') {
+      row.push(cell);
+      cell = '';
+      atCellStart = true;
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+      atCellStart = true;
+    } else {
+      cell += char;
+      atCellStart = false;
+    }
+  }
+
+  // The copied text usually ends with a line break, which must not add an empty row
+  if (!atCellStart || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+// Read the first <table> of an HTML fragment, repeating merged cells across the rows and
+// columns they span like the spreadsheet importer does
+export function parseHtmlTable(html: string): string[][] | null {
+  const table = new DOMParser().parseFromString(html, 'text/html').querySelector('table');
+  if (!table) return null;
+
+  const rows: string[][] = [];
+  Array.from(table.rows).forEach((tableRow, rowIndex) => {
+    rows[rowIndex] = rows[rowIndex] ?? [];
+    let column = 0;
+
+    Array.from(tableRow.cells).forEach(cell => {
+      // Skip positions already filled by a cell spanning down from an earlier row
+      while (rows[rowIndex][column] !== undefined) column++;
+
+      const text = (cell.textContent ?? '').replace(/\u00a0/g, ' ').trim();
+      const rowSpan = Math.max(cell.rowSpan, 1);
+      const colSpan = Math.max(cell.colSpan, 1);
+      for (let r = 0; r < rowSpan; r++) {
+        rows[rowIndex + r] = rows[rowIndex + r] ?? [];
+        for (let c = 0; c < colSpan; c++) {
+          rows[rowIndex + r][column + c] = text;
+        }
+      }
+      column += colSpan;
+    });
+  });
+
+  return rows.map(row => Array.from(row, cell => cell ?? ''));
+}
+
+// Prefer the HTML table, which keeps cell boundaries even when cells contain tabs or line breaks
+export function readClipboardTable(clipboard: DataTransfer): string[][] {
+  const html = clipboard.getData('text/html');
+  const htmlRows = html ? parseHtmlTable(html) : null;
+  if (htmlRows && htmlRows.length > 0) return htmlRows;
+
+  return parseTabSeparatedText(clipboard.getData('text/plain'));
+}
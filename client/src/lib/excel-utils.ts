@@ -18,6 +18,89 @@ export interface ExcelFile {
   totalColumns: number;
 }
 
+// File types accepted by /api/upload, keyed by MIME type as react-dropzone expects
+export const ACCEPTED_UPLOAD_TYPES: Record<string, string[]> = {
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
+  'application/vnd.ms-excel': ['.xls'],
+  'application/vnd.oasis.opendocument.spreadsheet': ['.ods'],
+  'text/csv': ['.csv'],
+  'text/tab-separated-values': ['.tsv', '.tab'],
+  'text/plain': ['.txt'],
+  'application/json': ['.json'],
+  'application/x-ndjson': ['.ndjson', '.jsonl'],
+  // Archives are unpacked on the server and every file inside is imported
+  'application/zip': ['.zip'],
+  'application/x-zip-compressed': ['.zip'],
+};
+
+export function isSupportedUploadFile(file: File): boolean {
+  const extension = file.name.slice(file.name.lastIndexOf('.')).toLowerCase();
+  const extensions = Object.values(ACCEPTED_UPLOAD_TYPES).flat();
+
+  // Browsers disagree on MIME types for CSV files, so the extension decides first
+  return extensions.includes(extension) || file.type in ACCEPTED_UPLOAD_TYPES;
+}
+
+// Archives are unpacked on the server, so they are imported without a preview
+export function isZipFile(file: File): boolean {
+  const extension = file.name.slice(file.name.lastIndexOf('.')).toLowerCase();
+  if (extension === '.zip') return true;
+
+  const dataExtensions = Object.values(ACCEPTED_UPLOAD_TYPES).flat().filter(ext => ext !== '.zip');
+  return !dataExtensions.includes(extension) && ACCEPTED_UPLOAD_TYPES[file.type]?.includes('.zip') === true;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+}
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '$': 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY',
+  '₺': 'TRY',
+};
+
+// Display a number the way an Excel number format such as "$#,##0.00" or "0.0%" would
+export function formatWithNumberFormat(value: number, format: string): string {
+  // Only the positive section of formats like "#,##0;[Red]-#,##0" matters here
+  const section = format.split(';')[0].replace(/"[^"]*"/g, '');
+  const decimals = (section.split('.')[1]?.match(/0/g) || []).length;
+
+  if (section.includes('%')) {
+    return new Intl.NumberFormat(undefined, {
+      style: 'percent',
+      minimumFractionDigits: decimals,
+      maximumFractionDigits: decimals,
+    }).format(value);
+  }
+
+  const symbol = Object.keys(CURRENCY_SYMBOLS).find(s => section.includes(s));
+  if (symbol) {
+    return new Intl.NumberFormat(undefined, {
+      style: 'currency',
+      currency: CURRENCY_SYMBOLS[symbol],
+      minimumFractionDigits: decimals,
+      maximumFractionDigits: decimals,
+    }).format(value);
+  }
+
+  if (/[0#]/.test(section)) {
+    return new Intl.NumberFormat(undefined, {
+      useGrouping: section.includes(','),
+      minimumFractionDigits: decimals,
+      maximumFractionDigits: decimals,
+    }).format(value);
+  }
+
+  return String(value);
+}
+
 export function detectColumnType(values: any[]): 'text' | 'number' | 'date' | 'boolean' {
   const nonNullValues = values.filter(v => v !== null && v !== undefined && v !== '');
   
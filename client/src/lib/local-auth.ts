@@ -0,0 +1,80 @@
+import type { PublicUser } from '@shared/schema';
+import type { AuthClient, AuthUser } from '@/lib/auth-client';
+
+// Helper function to present a local account like a Supabase user, so components need not care
+function toAuthUser(user: PublicUser): AuthUser {
+  return {
+    id: user.id,
+    email: user.email,
+    user_metadata: { full_name: user.fullName ?? undefined },
+  };
+}
+
+// Helper function to call one of the server's /api/auth routes. Errors carry the server's message.
+async function authRequest(method: string, url: string, data?: unknown): Promise<{ user: AuthUser | null; error: Error | null }> {
+  try {
+    const res = await fetch(url, {
+      method,
+      headers: data ? { "Content-Type": "application/json" } : {},
+      body: data ? JSON.stringify(data) : undefined,
+      credentials: "include",
+    });
+    const body = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      return { user: null, error: new Error(body.message || res.statusText) };
+    }
+    return { user: body.user ? toAuthUser(body.user) : null, error: null };
+  } catch (error) {
+    return { user: null, error: error instanceof Error ? error : new Error('Network error') };
+  }
+}
+
+// Sign-in with accounts kept by the server itself (AUTH_MODE=local, see server/local-auth.ts).
+// The server keeps the session in a cookie, which every API request already sends.
+export function createLocalAuth(): AuthClient {
+  const listeners = new Set<(user: AuthUser | null) => void>();
+  const notify = (user: AuthUser | null) => listeners.forEach(listener => listener(user));
+
+  return {
+    // There is no email to send a reset link with
+    canResetPassword: false,
+
+    // Shows the sign-in form, rather than an error, while the server cannot be reached
+    async getUser() {
+      const { user } = await authRequest("GET", "/api/auth/session");
+      return user;
+    },
+
+    onUserChange(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    async signIn(email, password) {
+      const { user, error } = await authRequest("POST", "/api/auth/signin", { email, password });
+      if (!error) notify(user);
+      return { error };
+    },
+
+    async signUp(email, password, fullName) {
+      const { user, error } = await authRequest("POST", "/api/auth/signup", { email, password, fullName });
+      if (!error) notify(user);
+      return { error, confirmEmail: false };
+    },
+
+    async signOut() {
+      await authRequest("POST", "/api/auth/signout");
+      notify(null);
+    },
+
+    async resetPassword() {
+      return { error: new Error('Password reset is not available for local accounts') };
+    },
+
+    async accessToken() {
+      return undefined;
+    },
+  };
+}
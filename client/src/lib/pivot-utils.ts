@@ -0,0 +1,156 @@
+import type { AggregateFunction, AggregateMeasure, PivotResult } from "@shared/schema";
+
+export const PIVOT_FUNCTIONS: { value: AggregateFunction; label: string }[] = [
+  { value: 'sum', label: 'Sum' },
+  { value: 'avg', label: 'Average' },
+  { value: 'count', label: 'Count' },
+  { value: 'countDistinct', label: 'Count distinct' },
+  { value: 'min', label: 'Min' },
+  { value: 'max', label: 'Max' },
+  { value: 'median', label: 'Median' },
+  { value: 'percentile', label: 'Percentile' },
+];
+
+// A column of the pivot: a combination of column field values, a subtotal of a shorter
+// combination, or the grand total
+export interface PivotColumnSlot {
+  key: any[];
+  label: string;
+  total: boolean;
+}
+
+// A visible row: a leaf, a group showing its subtotal, or the grand total
+export interface PivotBodyRow {
+  key: any[];
+  label: string;
+  depth: number;
+  group: boolean;
+  expanded: boolean;
+  total: boolean;
+}
+
+export function pivotKeyId(key: any[]): string {
+  return JSON.stringify(key);
+}
+
+export function formatPivotKey(value: any): string {
+  if (value === null || value === undefined) return '(blank)';
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  return String(value);
+}
+
+export function formatPivotValue(value: number | string | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number') return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+  return value;
+}
+
+export function measureLabel(measure: AggregateMeasure): string {
+  const fn = measure.fn === 'percentile'
+    ? `P${measure.percentile}`
+    : PIVOT_FUNCTIONS.find(option => option.value === measure.fn)?.label ?? measure.fn;
+  return measure.column ? `${fn} of ${measure.column}` : fn;
+}
+
+// Values of every cell, looked up by row key and column key
+export function pivotCellLookup(result: PivotResult): Map<string, (number | string | null)[]> {
+  const lookup = new Map<string, (number | string | null)[]>();
+  result.cells.forEach(cell => lookup.set(pivotKeyId([cell.row, cell.column]), cell.values));
+  return lookup;
+}
+
+// Leaf combinations in order, with a subtotal after each group when there are several column fields
+export function pivotColumnSlots(result: PivotResult): PivotColumnSlot[] {
+  const depth = result.columns.length;
+  if (depth === 0) return [{ key: [], label: 'Total', total: true }];
+
+  const slots: PivotColumnSlot[] = [];
+  result.columnKeys.forEach((key, index) => {
+    slots.push({ key, label: key.map(formatPivotKey).join(' / '), total: false });
+
+    // Close every group that ends with this key, innermost first
+    const next = result.columnKeys[index + 1];
+    for (let level = depth - 1; level >= 1; level--) {
+      const prefix = key.slice(0, level);
+      if (next && pivotKeyId(next.slice(0, level)) === pivotKeyId(prefix)) break;
+      slots.push({ key: prefix, label: `${prefix.map(formatPivotKey).join(' / ')} Total`, total: true });
+    }
+  });
+  slots.push({ key: [], label: 'Grand Total', total: true });
+  return slots;
+}
+
+// Rows in display order; children of collapsed groups are left out
+export function pivotBodyRows(result: PivotResult, collapsed: Set<string>): PivotBodyRow[] {
+  const depth = result.rows.length;
+  const rows: PivotBodyRow[] = [];
+  const seen = new Set<string>();
+
+  result.rowKeys.forEach(key => {
+    for (let level = 1; level <= depth; level++) {
+      const prefix = key.slice(0, level);
+      const id = pivotKeyId(prefix);
+      if (seen.has(id)) continue;
+      seen.add(id);
+
+      // Skip everything below a collapsed ancestor
+      const hidden = Array.from({ length: level - 1 }, (_, i) => key.slice(0, i + 1))
+        .some(ancestor => collapsed.has(pivotKeyId(ancestor)));
+      if (hidden) break;
+
+      const group = level < depth;
+      rows.push({
+        key: prefix,
+        label: formatPivotKey(prefix[level - 1]),
+        depth: level - 1,
+        group,
+        expanded: group && !collapsed.has(id),
+        total: false,
+      });
+    }
+  });
+
+  rows.push({ key: [], label: depth === 0 ? 'Total' : 'Grand Total', depth: 0, group: false, expanded: false, total: true });
+  return rows;
+}
+
+// Every group key of the rows, used to collapse all groups at once
+export function pivotGroupIds(result: PivotResult): string[] {
+  const ids = new Set<string>();
+  result.rowKeys.forEach(key => {
+    for (let level = 1; level < result.rows.length; level++) ids.add(pivotKeyId(key.slice(0, level)));
+  });
+  return Array.from(ids);
+}
+
+function csvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// The pivot as shown, one CSV column per row field followed by the value columns
+export function pivotToCsv(result: PivotResult, rows: PivotBodyRow[], slots: PivotColumnSlot[]): string {
+  const lookup = pivotCellLookup(result);
+  const multipleValues = result.values.length > 1;
+  const valueHeaders = slots.flatMap(slot => result.values.map(value => (multipleValues ? `${slot.label} - ${value.name}` : slot.label)));
+  const rowHeaders = result.rows.length > 0 ? result.rows : [''];
+
+  const lines = [[...rowHeaders, ...valueHeaders]];
+  rows.forEach(row => {
+    const labels = rowHeaders.map((_, index) => {
+      if (row.total) return index === 0 ? row.label : '';
+      if (index < row.key.length - 1) return formatPivotKey(row.key[index]);
+      if (index === row.key.length - 1) return row.group ? `${row.label} Total` : row.label;
+      return '';
+    });
+    const values = slots.flatMap(slot => {
+      const cell = lookup.get(pivotKeyId([row.key, slot.key]));
+      return result.values.map((_, index) => {
+        const value = cell?.[index];
+        return value === null || value === undefined ? '' : String(value);
+      });
+    });
+    lines.push([...labels, ...values]);
+  });
+
+  return lines.map(line => line.map(csvField).join(',')).join('\n');
+}
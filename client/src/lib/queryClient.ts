@@ -1,4 +1,37 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { authClient } from "@/lib/auth-client";
+
+// The API checks the Supabase access token of the signed-in user on every request. Local accounts
+// have no token; their session cookie goes with every request instead.
+export async function accessToken(): Promise<string | undefined> {
+  return authClient.accessToken();
+}
+
+export async function authHeaders(): Promise<Record<string, string>> {
+  const token = await accessToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+// The workspace the API requests work in, chosen in the header's workspace switcher.
+// Requests without it work in the user's first workspace.
+let currentWorkspaceId: string | undefined;
+
+export function setCurrentWorkspace(workspaceId: string | undefined) {
+  currentWorkspaceId = workspaceId;
+}
+
+// The token of the share link a page was opened with. It gives read access to one file, in place
+// of the signed-in user's workspaces.
+let currentShareToken: string | undefined;
+
+export function setShareToken(token: string | undefined) {
+  currentShareToken = token;
+}
+
+function scopeHeaders(): Record<string, string> {
+  if (currentShareToken) return { "X-Share-Token": currentShareToken };
+  return currentWorkspaceId ? { "X-Workspace-Id": currentWorkspaceId } : {};
+}
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -14,7 +47,11 @@ export async function apiRequest(
 ): Promise<Response> {
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers: {
+      ...(data ? { "Content-Type": "application/json" } : {}),
+      ...(await authHeaders()),
+      ...scopeHeaders(),
+    },
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
@@ -23,6 +60,16 @@ export async function apiRequest(
   return res;
 }
 
+// The server's message from an error thrown by apiRequest or a query, rather than the raw "400: {...}"
+export function apiErrorMessage(error: unknown, fallback: string): string {
+  const message = error instanceof Error ? error.message : '';
+  try {
+    return JSON.parse(message.replace(/^\d+: /, '')).message || message;
+  } catch {
+    return message || fallback;
+  }
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
@@ -30,6 +77,7 @@ export const getQueryFn: <T>(options: {
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
     const res = await fetch(queryKey.join("/") as string, {
+      headers: { ...(await authHeaders()), ...scopeHeaders() },
       credentials: "include",
     });
 
@@ -0,0 +1,68 @@
+import type { CellValue, ColumnDataType, RowFilter, RowQuery } from "@shared/schema";
+
+export type FilterOperator = RowFilter['op'];
+
+export const FILTER_OPERATORS: { value: FilterOperator; label: string }[] = [
+  { value: 'equals', label: 'Equals' },
+  { value: 'contains', label: 'Contains' },
+  { value: 'range', label: 'Between' },
+  { value: 'in', label: 'Is one of' },
+  { value: 'isNull', label: 'Is empty' },
+  { value: 'notNull', label: 'Is not empty' },
+];
+
+// Query key for a page of rows; the default query function joins the parts into the request URL
+export function rowsQueryKey(dataId: string, query: Partial<RowQuery>) {
+  const params = new URLSearchParams();
+  if (query.offset) params.set('offset', String(query.offset));
+  if (query.limit) params.set('limit', String(query.limit));
+  if (query.sort?.length) params.set('sort', JSON.stringify(query.sort));
+  if (query.filters?.length) params.set('filters', JSON.stringify(query.filters));
+  if (query.search) params.set('search', query.search);
+  return ["/api/data", dataId, `rows?${params.toString()}`];
+}
+
+// Filters compare typed values, so text typed by the user is converted to the column's type.
+// Returns undefined when the text is not a value of that type.
+export function parseFilterValue(text: string, type: ColumnDataType | undefined): CellValue | undefined {
+  const trimmed = text.trim();
+  if (trimmed === '') return undefined;
+
+  switch (type) {
+    case 'number': {
+      const parsed = Number(trimmed);
+      return isNaN(parsed) ? undefined : parsed;
+    }
+    case 'boolean': {
+      const word = trimmed.toLowerCase();
+      if (word === 'true') return true;
+      if (word === 'false') return false;
+      return undefined;
+    }
+    default:
+      return trimmed;
+  }
+}
+
+function formatFilterValue(value: CellValue): string {
+  return typeof value === 'string' ? `"${value}"` : String(value);
+}
+
+export function describeFilter(filter: RowFilter): string {
+  switch (filter.op) {
+    case 'equals':
+      return `${filter.column} = ${formatFilterValue(filter.value)}`;
+    case 'contains':
+      return `${filter.column} contains ${formatFilterValue(filter.value)}`;
+    case 'range':
+      if (filter.min === undefined) return `${filter.column} ≤ ${formatFilterValue(filter.max!)}`;
+      if (filter.max === undefined) return `${filter.column} ≥ ${formatFilterValue(filter.min)}`;
+      return `${filter.column} between ${formatFilterValue(filter.min)} and ${formatFilterValue(filter.max)}`;
+    case 'in':
+      return `${filter.column} in (${filter.values.map(formatFilterValue).join(', ')})`;
+    case 'isNull':
+      return `${filter.column} is empty`;
+    case 'notNull':
+      return `${filter.column} is not empty`;
+  }
+}
@@ -0,0 +1,23 @@
+import type { SqlResult } from "@shared/schema";
+
+export const DEFAULT_SQL_LIMIT = 1000;
+
+// Result rows as objects keyed by column name, the shape the chart helpers expect.
+// When several result columns share a name the last one wins.
+export function sqlResultToRecords(result: SqlResult): Record<string, any>[] {
+  return result.rows.map(row => Object.fromEntries(result.columns.map((column, index) => [column, row[index]])));
+}
+
+// Columns whose non-null values are all numbers, which can be plotted as values
+export function sqlNumericColumns(result: SqlResult): string[] {
+  return result.columns.filter((_, index) => {
+    const values = result.rows.map(row => row[index]).filter(value => value !== null);
+    return values.length > 0 && values.every(value => typeof value === 'number');
+  });
+}
+
+export function formatSqlValue(value: number | string | null): string {
+  if (value === null) return 'NULL';
+  if (typeof value === 'number') return value.toLocaleString(undefined, { maximumFractionDigits: 6 });
+  return value;
+}
@@ -1,19 +1,71 @@
 import { createClient } from '@supabase/supabase-js';
+import type { AuthClient } from '@/lib/auth-client';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
-if (!supabaseUrl || !supabaseAnonKey) {
-  throw new Error('Missing Supabase environment variables');
-}
+export const supabaseConfigured = !!supabaseUrl && !!supabaseAnonKey;
+
+// Sign-in through Supabase Auth. The client is only created when Supabase is the chosen mode, so
+// installs without it never need its settings.
+export function createSupabaseAuth(): AuthClient {
+  if (!supabaseConfigured) {
+    throw new Error('Missing Supabase environment variables; set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY, or VITE_AUTH_MODE=local');
+  }
+  const supabase = createClient(supabaseUrl, supabaseAnonKey);
+
+  return {
+    canResetPassword: true,
+
+    async getUser() {
+      const { data: { session } } = await supabase.auth.getSession();
+      return session?.user ?? null;
+    },
+
+    onUserChange(listener) {
+      const { data: { subscription } } = supabase.auth.onAuthStateChange(
+        (_event, session) => listener(session?.user ?? null)
+      );
+      return () => subscription.unsubscribe();
+    },
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+    async signIn(email, password) {
+      const { error } = await supabase.auth.signInWithPassword({
+        email,
+        password,
+      });
+      return { error };
+    },
 
-export type AuthUser = {
-  id: string;
-  email?: string;
-  user_metadata?: {
-    full_name?: string;
-    avatar_url?: string;
+    async signUp(email, password, fullName) {
+      const { data, error } = await supabase.auth.signUp({
+        email,
+        password,
+        options: {
+          data: {
+            full_name: fullName,
+          },
+        },
+      });
+      // Without a session the project asks new users to confirm their email first
+      return { error, confirmEmail: !error && !data.session };
+    },
+
+    async signOut() {
+      await supabase.auth.signOut();
+    },
+
+    async resetPassword(email) {
+      const { error } = await supabase.auth.resetPasswordForEmail(email, {
+        redirectTo: `${window.location.origin}/reset-password`,
+      });
+      return { error };
+    },
+
+    // getSession refreshes the token first when it is about to expire
+    async accessToken() {
+      const { data: { session } } = await supabase.auth.getSession();
+      return session?.access_token;
+    },
   };
-};
\ No newline at end of file
+}
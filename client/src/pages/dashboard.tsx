@@ -1,9 +1,9 @@
-import { useState } from "react";
+import { useState, useCallback } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { ChartLine, Settings, Download } from "lucide-react";
+import { ChartLine, Settings, Download, Share2, Trash2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { ThemeToggle } from "@/components/theme-toggle";
-import UserProfile from "@/components/user-profile";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import AppHeader from "@/components/app-header";
 import FileUpload from "@/components/file-upload";
 import DataSummary from "@/components/data-summary";
 import ChartFilters from "@/components/chart-filters";
@@ -12,25 +12,50 @@ import AdvancedCharts from "@/components/advanced-charts";
 import DataInsights from "@/components/data-insights";
 import StatisticsPanel from "@/components/statistics-panel";
 import DataTable from "@/components/data-table";
+import PivotTable from "@/components/pivot-table";
 import LoadingOverlay from "@/components/loading-overlay";
-import { ExcelData, ExcelFile } from "@shared/schema";
+import ShareDialog from "@/components/share-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import type { UploadPhase } from "@/hooks/use-file-upload";
+import { useWorkspace } from "@/contexts/workspace-context";
+import { ColumnDataType, ExcelData, ExcelDataWithRows, ExcelFile, Statistics } from "@shared/schema";
 
-export default function Dashboard() {
+// Helper function to read the type detected for each column from the sheet's statistics
+function columnTypes(sheet: ExcelData): Record<string, ColumnDataType | undefined> {
+  const columns = (sheet.statistics as { columns?: Record<string, Statistics> } | null)?.columns ?? {};
+  return Object.fromEntries((sheet.headers as string[]).map(header => [header, columns[header]?.dataType]));
+}
+
+interface DashboardViewProps {
+  // Hides uploading, deleting, sharing and settings, for workspace viewers and share links
+  readOnly: boolean;
+  // Shows only this file, for a file shared with the user or opened through a share link. Deleting
+  // and sharing it again are left to the editors of its workspace.
+  sharedFile?: ExcelFile;
+}
+
+export function DashboardView({ readOnly, sharedFile }: DashboardViewProps) {
   const [selectedFileId, setSelectedFileId] = useState<string | null>(null);
   const [selectedDataId, setSelectedDataId] = useState<string | null>(null);
   const [isUploading, setIsUploading] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<{ progress: number; phase: UploadPhase | null }>({ progress: 0, phase: null });
+  const [shareOpen, setShareOpen] = useState(false);
+  const { toast } = useToast();
 
-  const { data: files = [] } = useQuery<ExcelFile[]>({
+  const { data: workspaceFiles = [] } = useQuery<ExcelFile[]>({
     queryKey: ["/api/files"],
-    enabled: true,
+    enabled: !sharedFile,
   });
+  const files = sharedFile ? [sharedFile] : workspaceFiles;
+  const selectedFile = files.find(file => file.id === selectedFileId);
 
   const { data: fileData = [] } = useQuery<ExcelData[]>({
     queryKey: ["/api/files", selectedFileId, "data"],
     enabled: !!selectedFileId,
   });
 
-  const { data: sheetData } = useQuery<ExcelData>({
+  const { data: sheetData } = useQuery<ExcelDataWithRows>({
     queryKey: ["/api/data", selectedDataId],
     enabled: !!selectedDataId,
   });
@@ -49,6 +74,26 @@ export default function Dashboard() {
     setSelectedDataId(null);
   };
 
+  const handleUploadProgress = useCallback((progress: number, phase: UploadPhase | null) => {
+    setUploadProgress({ progress, phase });
+  }, []);
+
+  const handleDelete = async () => {
+    if (!selectedFile || !window.confirm(`Delete ${selectedFile.originalName} and all of its sheets?`)) return;
+    try {
+      await apiRequest('DELETE', `/api/files/${selectedFile.id}`);
+      setSelectedFileId(null);
+      setSelectedDataId(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/files"] });
+    } catch (deleteError) {
+      toast({
+        title: "Delete Failed",
+        description: apiErrorMessage(deleteError, 'Failed to delete the file'),
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleExport = () => {
     if (sheetData) {
       const csv = convertToCSV(sheetData.data as any[]);
@@ -61,7 +106,7 @@ export default function Dashboard() {
     
     const headers = Object.keys(data[0]);
     const rows = data.map(row => 
-      headers.map(header => `"${row[header] || ""}"`).join(",")
+      headers.map(header => `"${row[header] ?? ""}"`).join(",")
     );
     
     return [headers.join(","), ...rows].join("\n");
@@ -80,49 +125,65 @@ export default function Dashboard() {
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors duration-300">
       {/* Header */}
-      <header className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700 sticky top-0 z-50 transition-colors duration-300">
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-          <div className="flex justify-between items-center h-16">
-            <div className="flex items-center space-x-3">
-              <div className="w-8 h-8 bg-primary-600 rounded-lg flex items-center justify-center">
-                <ChartLine className="text-white text-sm" size={16} />
-              </div>
-              <h1 className="text-xl font-semibold text-gray-900 dark:text-gray-100">Excel Analytics</h1>
-            </div>
-            <div className="flex items-center space-x-4">
-              <Button
-                onClick={handleExport}
-                variant="outline"
-                size="sm"
-                disabled={!sheetData}
-                data-testid="button-export"
-                className="text-primary-600 border-primary-200 hover:bg-primary-50 dark:text-primary-400 dark:border-primary-800 dark:hover:bg-primary-950"
-              >
-                <Download className="mr-2" size={16} />
-                Export
-              </Button>
-              <ThemeToggle />
-              <Button
-                variant="ghost"
-                size="sm"
-                data-testid="button-settings"
-                className="text-gray-400 hover:text-gray-600 dark:text-gray-500 dark:hover:text-gray-300"
-              >
-                <Settings size={16} />
-              </Button>
-              <UserProfile />
-            </div>
-          </div>
-        </div>
-      </header>
+      <AppHeader shared={!!sharedFile}>
+        <Button
+          onClick={handleExport}
+          variant="outline"
+          size="sm"
+          disabled={!sheetData}
+          data-testid="button-export"
+          className="text-primary-600 border-primary-200 hover:bg-primary-50 dark:text-primary-400 dark:border-primary-800 dark:hover:bg-primary-950"
+        >
+          <Download className="mr-2" size={16} />
+          Export
+        </Button>
+        {!readOnly && !sharedFile && (
+          <>
+            <Button
+              onClick={() => setShareOpen(true)}
+              variant="outline"
+              size="sm"
+              disabled={!selectedFile}
+              data-testid="button-share"
+            >
+              <Share2 className="mr-2" size={16} />
+              Share
+            </Button>
+            <Button
+              onClick={handleDelete}
+              variant="ghost"
+              size="sm"
+              disabled={!selectedFile}
+              aria-label="Delete file"
+              data-testid="button-delete-file"
+              className="text-gray-400 hover:text-red-600 dark:text-gray-500 dark:hover:text-red-400"
+            >
+              <Trash2 size={16} />
+            </Button>
+          </>
+        )}
+        {!readOnly && (
+          <Button
+            variant="ghost"
+            size="sm"
+            data-testid="button-settings"
+            className="text-gray-400 hover:text-gray-600 dark:text-gray-500 dark:hover:text-gray-300"
+          >
+            <Settings size={16} />
+          </Button>
+        )}
+      </AppHeader>
 
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {/* File Upload */}
-        <FileUpload 
-          onFileUploaded={handleFileUploaded}
-          onUploadStart={() => setIsUploading(true)}
-          onUploadEnd={() => setIsUploading(false)}
-        />
+        {/* File Upload, for editors and admins of the workspace */}
+        {!readOnly && !sharedFile && (
+          <FileUpload 
+            onFileUploaded={handleFileUploaded}
+            onUploadStart={() => setIsUploading(true)}
+            onUploadEnd={() => setIsUploading(false)}
+            onUploadProgress={handleUploadProgress}
+          />
+        )}
 
         {sheetData && (
           <>
@@ -135,10 +196,14 @@ export default function Dashboard() {
               selectedDataId={selectedDataId}
               onDataIdChange={setSelectedDataId}
               fileData={fileData}
+              files={files}
+              selectedFileId={selectedFileId}
+              onFileIdChange={handleFileUploaded}
             />
 
             {/* Charts Grid */}
             <ChartsGrid 
+              dataId={sheetData.id}
               data={sheetData.data as any[]}
               headers={sheetData.headers as string[]}
               statistics={sheetData.statistics}
@@ -146,6 +211,7 @@ export default function Dashboard() {
 
             {/* Advanced Charts */}
             <AdvancedCharts 
+              dataId={sheetData.id}
               data={sheetData.data as any[]}
               headers={sheetData.headers as string[]}
               statistics={sheetData.statistics}
@@ -161,11 +227,30 @@ export default function Dashboard() {
             {/* Statistics Panel */}
             <StatisticsPanel statistics={sheetData.statistics} />
 
-            {/* Data Table */}
-            <DataTable
-              data={sheetData.data as any[]}
-              headers={sheetData.headers as string[]}
-            />
+            {/* Data Table and Pivot Table */}
+            <Tabs defaultValue="table">
+              <TabsList>
+                <TabsTrigger value="table" data-testid="tab-table">Table</TabsTrigger>
+                <TabsTrigger value="pivot" data-testid="tab-pivot">Pivot</TabsTrigger>
+              </TabsList>
+              <TabsContent value="table">
+                <DataTable
+                  dataId={sheetData.id}
+                  headers={sheetData.headers as string[]}
+                  columnTypes={columnTypes(sheetData)}
+                  columnFormats={sheetData.columnFormats as Record<string, string> | null}
+                />
+              </TabsContent>
+              {/* Stays mounted so the pivot layout survives switching tabs */}
+              <TabsContent value="pivot" forceMount className="data-[state=inactive]:hidden">
+                <PivotTable
+                  dataId={sheetData.id}
+                  sheetName={sheetData.sheetName}
+                  headers={sheetData.headers as string[]}
+                  columnTypes={columnTypes(sheetData)}
+                />
+              </TabsContent>
+            </Tabs>
           </>
         )}
 
@@ -175,12 +260,26 @@ export default function Dashboard() {
               <ChartLine className="text-gray-400" size={24} />
             </div>
             <h3 className="text-lg font-medium text-gray-900 mb-2">No Data Available</h3>
-            <p className="text-gray-500">Upload an Excel file to get started with data analysis.</p>
+            <p className="text-gray-500">
+              {readOnly
+                ? 'Nothing has been uploaded to this workspace yet.'
+                : 'Upload an Excel file to get started with data analysis.'}
+            </p>
           </div>
         )}
       </main>
 
-      {isUploading && <LoadingOverlay />}
+      {/* While the server parses, progress and cancel are shown inline by FileUpload */}
+      {isUploading && uploadProgress.phase !== 'processing' && <LoadingOverlay progress={uploadProgress.progress} phase={uploadProgress.phase} />}
+
+      {selectedFile && !readOnly && !sharedFile && (
+        <ShareDialog file={selectedFile} open={shareOpen} onOpenChange={setShareOpen} />
+      )}
     </div>
   );
 }
+
+export default function Dashboard() {
+  const { canEdit } = useWorkspace();
+  return <DashboardView readOnly={!canEdit} />;
+}
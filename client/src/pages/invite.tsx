@@ -0,0 +1,42 @@
+import { useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import ShareUnavailable from "@/components/share-unavailable";
+import { rememberWorkspace } from "@/contexts/workspace-context";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { AcceptedInvite } from "@shared/schema";
+
+// Opened from an invite link: accepts the invite for the signed-in user, then shows the workspace
+// or the shared file it was for
+export default function InvitePage({ params }: { params: { token: string } }) {
+  const [, setLocation] = useLocation();
+
+  const accept = useMutation({
+    mutationFn: async (): Promise<AcceptedInvite> =>
+      (await apiRequest("POST", "/api/invites/accept", { token: params.token })).json(),
+    onSuccess: (invite) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/workspaces"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/shared-files"] });
+      if (invite.fileId) {
+        setLocation(`/shared/${invite.fileId}`);
+      } else {
+        rememberWorkspace(invite.workspaceId);
+        setLocation("/");
+      }
+    },
+  });
+
+  useEffect(() => {
+    accept.mutate();
+  }, [params.token]);
+
+  if (accept.isError) {
+    return <ShareUnavailable message="This invite was accepted already or is no longer valid. Ask the person who sent it for a new one." showDashboardLink />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
+      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import { useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import ShareUnavailable from "@/components/share-unavailable";
+import { DashboardView } from "@/pages/dashboard";
+import { apiRequest, setShareToken } from "@/lib/queryClient";
+import type { ExcelFile } from "@shared/schema";
+
+// The read-only dashboard opened by a share link, for anyone holding the link
+export default function ShareLinkPage({ params }: { params: { token: string } }) {
+  // Set before the first request, and dropped again when leaving the page
+  setShareToken(params.token);
+  useEffect(() => () => setShareToken(undefined), [params.token]);
+
+  const { data, isLoading, isError } = useQuery<{ file: ExcelFile; expiresAt: string }>({
+    queryKey: ["/api/shared-link", params.token],
+    queryFn: async () => (await apiRequest("GET", "/api/shared-link")).json(),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  if (isError || !data) {
+    return <ShareUnavailable message="This share link has expired or was revoked. Ask the person who sent it for a new one." />;
+  }
+
+  return <DashboardView key={data.file.id} sharedFile={data.file} readOnly />;
+}
@@ -0,0 +1,29 @@
+import { useQuery } from "@tanstack/react-query";
+import ShareUnavailable from "@/components/share-unavailable";
+import { DashboardView } from "@/pages/dashboard";
+import { setCurrentWorkspace } from "@/lib/queryClient";
+import type { SharedFile } from "@shared/schema";
+
+// The dashboard of a file from another workspace that was shared with the signed-in user
+export default function SharedFilePage({ params }: { params: { fileId: string } }) {
+  const { data: sharedFiles, isLoading } = useQuery<SharedFile[]>({ queryKey: ["/api/shared-files"] });
+  const file = sharedFiles?.find(shared => shared.id === params.fileId);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  if (!file) {
+    return <ShareUnavailable message="This file is not shared with you, or it was deleted." showDashboardLink />;
+  }
+
+  // Requests for the file's data work in the file's workspace
+  setCurrentWorkspace(file.workspaceId);
+  return (
+    <DashboardView key={file.id} sharedFile={file} readOnly />
+  );
+}
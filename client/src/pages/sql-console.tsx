@@ -0,0 +1,359 @@
+import { useState, useRef, type KeyboardEvent } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ChevronDown, ChevronRight, Database, Play, Save, Trash2 } from "lucide-react";
+import AppHeader from "@/components/app-header";
+import SqlResultChart from "@/components/sql-result-chart";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/contexts/workspace-context";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { DEFAULT_SQL_LIMIT, formatSqlValue } from "@/lib/sql-console-utils";
+import type { SavedQuery, SqlResult, SqlTable } from "@shared/schema";
+
+const LIMITS = [100, DEFAULT_SQL_LIMIT, 10000];
+
+export default function SqlConsole() {
+  const [sql, setSql] = useState("");
+  const [limit, setLimit] = useState(DEFAULT_SQL_LIMIT);
+  const [result, setResult] = useState<SqlResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [expandedTable, setExpandedTable] = useState<string | null>(null);
+  // The saved query being edited, which Save updates in place
+  const [currentQuery, setCurrentQuery] = useState<SavedQuery | null>(null);
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false);
+  const [saveName, setSaveName] = useState("");
+  const editorRef = useRef<HTMLTextAreaElement>(null);
+  const { toast } = useToast();
+  const { canEdit } = useWorkspace();
+
+  const { data: tables = [] } = useQuery<SqlTable[]>({ queryKey: ["/api/sql/tables"] });
+  const { data: savedQueries = [] } = useQuery<SavedQuery[]>({ queryKey: ["/api/saved-queries"] });
+
+  const handleRun = async () => {
+    if (!sql.trim() || isRunning) return;
+    setIsRunning(true);
+    setError(null);
+    try {
+      const res = await apiRequest("POST", "/api/sql/query", { sql, limit });
+      setResult(await res.json());
+    } catch (runError) {
+      setResult(null);
+      setError(apiErrorMessage(runError, 'Failed to run the query'));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  // Ctrl+Enter or Cmd+Enter runs the query
+  const handleEditorKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) {
+      event.preventDefault();
+      handleRun();
+    }
+  };
+
+  // Put a table or column name at the cursor
+  const insertText = (text: string) => {
+    const editor = editorRef.current;
+    const start = editor?.selectionStart ?? sql.length;
+    const end = editor?.selectionEnd ?? sql.length;
+    setSql(sql.slice(0, start) + text + sql.slice(end));
+    requestAnimationFrame(() => {
+      editor?.focus();
+      editor?.setSelectionRange(start + text.length, start + text.length);
+    });
+  };
+
+  const saveQuery = async (name: string, asNew: boolean) => {
+    try {
+      const res = currentQuery && !asNew
+        ? await apiRequest("PATCH", `/api/saved-queries/${currentQuery.id}`, { name, sql })
+        : await apiRequest("POST", "/api/saved-queries", { name, sql });
+      const saved: SavedQuery = await res.json();
+      setCurrentQuery(saved);
+      setSaveDialogOpen(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-queries"] });
+      toast({ title: "Query Saved", description: `Saved as "${saved.name}".` });
+    } catch (saveError) {
+      toast({
+        title: "Save Failed",
+        description: apiErrorMessage(saveError, 'Failed to save the query'),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const deleteQuery = async (query: SavedQuery) => {
+    try {
+      await apiRequest("DELETE", `/api/saved-queries/${query.id}`);
+      if (currentQuery?.id === query.id) setCurrentQuery(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-queries"] });
+    } catch (deleteError) {
+      toast({
+        title: "Delete Failed",
+        description: apiErrorMessage(deleteError, 'Failed to delete the query'),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openSaveDialog = () => {
+    setSaveName(currentQuery ? `${currentQuery.name} (copy)` : '');
+    setSaveDialogOpen(true);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors duration-300">
+      <AppHeader />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 grid grid-cols-1 lg:grid-cols-[16rem_1fr] gap-6">
+        {/* Tables and saved queries */}
+        <div className="space-y-6">
+          <Card className="shadow-card">
+            <CardContent className="p-4">
+              <h2 className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-3">Tables</h2>
+              {tables.length === 0 && (
+                <p className="text-xs text-gray-500" data-testid="text-no-tables">Upload a file to query its sheets</p>
+              )}
+              <ul className="space-y-1">
+                {tables.map(table => (
+                  <li key={table.dataId}>
+                    <div className="flex items-center gap-1">
+                      <button
+                        onClick={() => setExpandedTable(current => (current === table.name ? null : table.name))}
+                        className="text-gray-400 hover:text-gray-600"
+                        aria-label={`Show columns of ${table.name}`}
+                      >
+                        {expandedTable === table.name ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                      </button>
+                      <button
+                        onClick={() => insertText(table.name)}
+                        className="font-mono text-sm text-primary-600 hover:underline truncate"
+                        title={`${table.fileName} › ${table.sheetName} (${table.rowCount} rows)`}
+                        data-testid={`button-table-${table.name}`}
+                      >
+                        {table.name}
+                      </button>
+                    </div>
+                    {expandedTable === table.name && (
+                      <ul className="ml-5 mt-1 space-y-0.5">
+                        {table.columns.map(column => (
+                          <li key={column.name} className="flex justify-between gap-2 text-xs">
+                            <button
+                              onClick={() => insertText(/^[A-Za-z_][A-Za-z0-9_]*$/.test(column.name) ? column.name : `"${column.name.replace(/"/g, '""')}"`)}
+                              className="font-mono text-gray-700 dark:text-gray-300 hover:underline truncate text-left"
+                            >
+                              {column.name}
+                            </button>
+                            <span className="text-gray-400">{column.type ?? ''}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+
+          <Card className="shadow-card">
+            <CardContent className="p-4">
+              <h2 className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-3">Saved Queries</h2>
+              {savedQueries.length === 0 && (
+                <p className="text-xs text-gray-500" data-testid="text-no-saved-queries">Saved queries appear here</p>
+              )}
+              <ul className="space-y-1">
+                {savedQueries.map(query => (
+                  <li key={query.id} className="flex items-center justify-between gap-2">
+                    <button
+                      onClick={() => { setSql(query.sql); setCurrentQuery(query); }}
+                      className={`text-sm truncate text-left hover:underline ${currentQuery?.id === query.id ? 'font-semibold text-gray-900 dark:text-gray-100' : 'text-gray-700 dark:text-gray-300'}`}
+                      title={query.sql}
+                      data-testid={`button-saved-query-${query.id}`}
+                    >
+                      {query.name}
+                    </button>
+                    {canEdit && (
+                      <button
+                        onClick={() => deleteQuery(query)}
+                        className="text-gray-400 hover:text-red-600"
+                        aria-label={`Delete ${query.name}`}
+                        data-testid={`button-delete-saved-query-${query.id}`}
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="space-y-6 min-w-0">
+          {/* Editor */}
+          <Card className="shadow-card">
+            <CardContent className="p-4 space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100 truncate">
+                  {currentQuery ? currentQuery.name : 'New Query'}
+                </h2>
+                <div className="flex items-center gap-2">
+                  <Select value={String(limit)} onValueChange={(value) => setLimit(Number(value))}>
+                    <SelectTrigger className="w-32" data-testid="select-sql-limit">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {LIMITS.map(option => (
+                        <SelectItem key={option} value={String(option)}>{option} rows</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {/* Viewers can run queries but not save them */}
+                  {canEdit && currentQuery && (
+                    <Button variant="outline" onClick={() => saveQuery(currentQuery.name, false)} disabled={!sql.trim()} data-testid="button-save-query">
+                      <Save className="mr-2" size={16} />
+                      Save
+                    </Button>
+                  )}
+                  {canEdit && (
+                    <Button variant="outline" onClick={openSaveDialog} disabled={!sql.trim()} data-testid="button-save-query-as">
+                      {currentQuery ? 'Save as…' : (<><Save className="mr-2" size={16} />Save</>)}
+                    </Button>
+                  )}
+                  <Button onClick={handleRun} disabled={!sql.trim() || isRunning} data-testid="button-run-query">
+                    <Play className="mr-2" size={16} />
+                    {isRunning ? 'Running…' : 'Run'}
+                  </Button>
+                </div>
+              </div>
+              <Textarea
+                ref={editorRef}
+                value={sql}
+                onChange={(e) => setSql(e.target.value)}
+                onKeyDown={handleEditorKeyDown}
+                placeholder={tables[0] ? `SELECT * FROM ${tables[0].name}` : 'SELECT ...'}
+                className="h-48 font-mono text-sm"
+                spellCheck={false}
+                data-testid="textarea-sql"
+              />
+              <p className="text-xs text-gray-500">
+                Read-only SQLite syntax. Every sheet is a table named as listed on the left. Press Ctrl+Enter to run.
+              </p>
+            </CardContent>
+          </Card>
+
+          {error && (
+            <Card className="shadow-card border-red-200">
+              <CardContent className="p-4">
+                <p className="text-sm text-red-600 font-mono whitespace-pre-wrap" data-testid="text-sql-error">{error}</p>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Result */}
+          {result && (
+            <Tabs defaultValue="results">
+              <div className="flex items-center justify-between gap-4">
+                <TabsList>
+                  <TabsTrigger value="results" data-testid="tab-sql-results">Results</TabsTrigger>
+                  <TabsTrigger value="chart" data-testid="tab-sql-chart">Chart this result</TabsTrigger>
+                </TabsList>
+                <p className="text-xs text-gray-500" data-testid="text-sql-summary">
+                  {result.rows.length} {result.rows.length === 1 ? 'row' : 'rows'}
+                  {result.truncated && `, limited to the first ${limit}`} in {result.durationMs} ms
+                </p>
+              </div>
+              <TabsContent value="results">
+                <Card className="shadow-card">
+                  <CardContent className="p-0">
+                    {result.columns.length === 0 ? (
+                      <p className="p-6 text-sm text-gray-500 text-center">The query returned no columns</p>
+                    ) : (
+                      <div className="max-h-[32rem] overflow-auto">
+                        <table className="w-full text-sm" data-testid="table-sql-result">
+                          <thead className="bg-gray-50 border-b border-gray-200 sticky top-0">
+                            <tr>
+                              {result.columns.map((column, index) => (
+                                <th key={index} className="px-4 py-2 text-left text-xs font-medium text-gray-500 whitespace-nowrap">
+                                  {column}
+                                </th>
+                              ))}
+                            </tr>
+                          </thead>
+                          <tbody className="bg-white divide-y divide-gray-200">
+                            {result.rows.map((row, rowIndex) => (
+                              <tr key={rowIndex} className="hover:bg-gray-50">
+                                {row.map((value, index) => (
+                                  <td
+                                    key={index}
+                                    className={`px-4 py-2 whitespace-nowrap ${typeof value === 'number' ? 'text-right tabular-nums' : ''} ${value === null ? 'text-gray-400 italic' : 'text-gray-900'}`}
+                                  >
+                                    {formatSqlValue(value)}
+                                  </td>
+                                ))}
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                        {result.rows.length === 0 && (
+                          <p className="p-6 text-sm text-gray-500 text-center" data-testid="text-sql-no-rows">No rows</p>
+                        )}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              </TabsContent>
+              <TabsContent value="chart">
+                <SqlResultChart result={result} />
+              </TabsContent>
+            </Tabs>
+          )}
+
+          {!result && !error && (
+            <div className="text-center py-12">
+              <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+                <Database className="text-gray-400" size={24} />
+              </div>
+              <p className="text-gray-500">Write a query and press Run to see its result.</p>
+            </div>
+          )}
+        </div>
+      </main>
+
+      <Dialog open={saveDialogOpen} onOpenChange={setSaveDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Save Query</DialogTitle>
+            <DialogDescription>Saved queries are listed next to the editor.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-1">
+            <Label htmlFor="saved-query-name">Name</Label>
+            <Input
+              id="saved-query-name"
+              value={saveName}
+              onChange={(e) => setSaveName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && saveName.trim() && saveQuery(saveName.trim(), true)}
+              autoFocus
+              data-testid="input-saved-query-name"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSaveDialogOpen(false)}>Cancel</Button>
+            <Button onClick={() => saveQuery(saveName.trim(), true)} disabled={!saveName.trim()} data-testid="button-confirm-save-query">
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,11 @@
+import { defineConfig } from "drizzle-kit";
+
+// Migrations for the embedded SQLite storage (STORAGE=sqlite), kept apart from the Postgres ones
+export default defineConfig({
+  out: "./migrations/sqlite",
+  schema: "./server/sqlite-schema.ts",
+  dialect: "sqlite",
+  dbCredentials: {
+    url: process.env.SQLITE_PATH ?? "data/excel-analysis.db",
+  },
+});
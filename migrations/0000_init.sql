@@ -0,0 +1,30 @@
+CREATE TABLE "excel_data" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"file_id" varchar NOT NULL,
+	"sheet_name" text NOT NULL,
+	"source_type" text DEFAULT 'sheet' NOT NULL,
+	"source_ref" text,
+	"headers" jsonb NOT NULL,
+	"data" jsonb NOT NULL,
+	"row_count" integer NOT NULL,
+	"column_count" integer NOT NULL,
+	"statistics" jsonb,
+	"import_options" jsonb,
+	"import_report" jsonb,
+	"formatted_data" jsonb,
+	"column_formats" jsonb,
+	"cell_details" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "excel_files" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"filename" text NOT NULL,
+	"original_name" text NOT NULL,
+	"size" integer NOT NULL,
+	"mime_type" text NOT NULL,
+	"batch_id" varchar,
+	"uploaded_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "excel_data" ADD CONSTRAINT "excel_data_file_id_excel_files_id_fk" FOREIGN KEY ("file_id") REFERENCES "public"."excel_files"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE "excel_rows" (
+	"data_id" varchar NOT NULL,
+	"row_index" integer NOT NULL,
+	"data" jsonb NOT NULL,
+	"formatted" jsonb,
+	CONSTRAINT "excel_rows_data_id_row_index_pk" PRIMARY KEY("data_id","row_index")
+);
+--> statement-breakpoint
+ALTER TABLE "excel_rows" ADD CONSTRAINT "excel_rows_data_id_excel_data_id_fk" FOREIGN KEY ("data_id") REFERENCES "public"."excel_data"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+-- Move the rows of existing datasets into excel_rows before the array columns are dropped
+INSERT INTO "excel_rows" ("data_id", "row_index", "data", "formatted")
+SELECT d."id", r.ordinality - 1, r.value, d."formatted_data" -> (r.ordinality - 1)::int
+FROM "excel_data" d
+CROSS JOIN LATERAL jsonb_array_elements(d."data") WITH ORDINALITY AS r(value, ordinality);--> statement-breakpoint
+ALTER TABLE "excel_data" DROP COLUMN "data";--> statement-breakpoint
+ALTER TABLE "excel_data" DROP COLUMN "formatted_data";
\ No newline at end of file
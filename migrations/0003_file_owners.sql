@@ -0,0 +1,9 @@
+-- Uploads from before owners existed go to the user of AUTH_DISABLED=true installs ("local")
+ALTER TABLE "excel_data" ADD COLUMN "owner_id" varchar NOT NULL DEFAULT 'local';--> statement-breakpoint
+ALTER TABLE "excel_data" ALTER COLUMN "owner_id" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "excel_files" ADD COLUMN "owner_id" varchar NOT NULL DEFAULT 'local';--> statement-breakpoint
+ALTER TABLE "excel_files" ALTER COLUMN "owner_id" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "saved_queries" ADD COLUMN "owner_id" varchar NOT NULL DEFAULT 'local';--> statement-breakpoint
+ALTER TABLE "saved_queries" ALTER COLUMN "owner_id" DROP DEFAULT;--> statement-breakpoint
+CREATE INDEX "excel_files_owner_id_idx" ON "excel_files" USING btree ("owner_id");--> statement-breakpoint
+CREATE INDEX "saved_queries_owner_id_idx" ON "saved_queries" USING btree ("owner_id");
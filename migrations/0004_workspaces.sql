@@ -0,0 +1,42 @@
+CREATE TABLE "workspace_members" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"workspace_id" varchar NOT NULL,
+	"user_id" varchar,
+	"email" text,
+	"role" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "workspaces" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"created_by" varchar NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+-- Every user who owns data gets a personal workspace holding it, with them as its admin
+INSERT INTO "workspaces" ("name", "created_by")
+SELECT 'Personal workspace', "owner_id" FROM (SELECT "owner_id" FROM "excel_files" UNION SELECT "owner_id" FROM "saved_queries") AS owners;--> statement-breakpoint
+INSERT INTO "workspace_members" ("workspace_id", "user_id", "role")
+SELECT "id", "created_by", 'admin' FROM "workspaces";--> statement-breakpoint
+DROP INDEX "excel_files_owner_id_idx";--> statement-breakpoint
+DROP INDEX "saved_queries_owner_id_idx";--> statement-breakpoint
+ALTER TABLE "excel_data" ADD COLUMN "workspace_id" varchar;--> statement-breakpoint
+ALTER TABLE "excel_files" ADD COLUMN "workspace_id" varchar;--> statement-breakpoint
+ALTER TABLE "saved_queries" ADD COLUMN "workspace_id" varchar;--> statement-breakpoint
+UPDATE "excel_data" SET "workspace_id" = w."id" FROM "workspaces" w WHERE w."created_by" = "excel_data"."owner_id";--> statement-breakpoint
+UPDATE "excel_files" SET "workspace_id" = w."id" FROM "workspaces" w WHERE w."created_by" = "excel_files"."owner_id";--> statement-breakpoint
+UPDATE "saved_queries" SET "workspace_id" = w."id" FROM "workspaces" w WHERE w."created_by" = "saved_queries"."owner_id";--> statement-breakpoint
+ALTER TABLE "excel_data" ALTER COLUMN "workspace_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "excel_files" ALTER COLUMN "workspace_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "saved_queries" ALTER COLUMN "workspace_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "workspace_members" ADD CONSTRAINT "workspace_members_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "workspace_members_user_idx" ON "workspace_members" USING btree ("workspace_id","user_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "workspace_members_email_idx" ON "workspace_members" USING btree ("workspace_id","email");--> statement-breakpoint
+ALTER TABLE "excel_files" ADD CONSTRAINT "excel_files_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "saved_queries" ADD CONSTRAINT "saved_queries_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "excel_files_workspace_id_idx" ON "excel_files" USING btree ("workspace_id");--> statement-breakpoint
+CREATE INDEX "saved_queries_workspace_id_idx" ON "saved_queries" USING btree ("workspace_id");--> statement-breakpoint
+ALTER TABLE "excel_data" DROP COLUMN "owner_id";--> statement-breakpoint
+ALTER TABLE "excel_files" DROP COLUMN "owner_id";--> statement-breakpoint
+ALTER TABLE "saved_queries" DROP COLUMN "owner_id";
@@ -0,0 +1,26 @@
+CREATE TABLE "file_shares" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"file_id" varchar NOT NULL,
+	"workspace_id" varchar NOT NULL,
+	"user_id" varchar,
+	"email" text,
+	"access" text NOT NULL,
+	"created_by" varchar NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "share_links" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"file_id" varchar NOT NULL,
+	"workspace_id" varchar NOT NULL,
+	"created_by" varchar NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"revoked_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "file_shares" ADD CONSTRAINT "file_shares_file_id_excel_files_id_fk" FOREIGN KEY ("file_id") REFERENCES "public"."excel_files"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "share_links" ADD CONSTRAINT "share_links_file_id_excel_files_id_fk" FOREIGN KEY ("file_id") REFERENCES "public"."excel_files"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "file_shares_user_idx" ON "file_shares" USING btree ("file_id","user_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "file_shares_email_idx" ON "file_shares" USING btree ("file_id","email");--> statement-breakpoint
+CREATE INDEX "share_links_file_id_idx" ON "share_links" USING btree ("file_id");
\ No newline at end of file
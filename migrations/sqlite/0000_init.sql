@@ -0,0 +1,29 @@
+CREATE TABLE `excel_data` (
+	`id` text PRIMARY KEY NOT NULL,
+	`file_id` text NOT NULL,
+	`sheet_name` text NOT NULL,
+	`source_type` text DEFAULT 'sheet' NOT NULL,
+	`source_ref` text,
+	`headers` text NOT NULL,
+	`data` text NOT NULL,
+	`row_count` integer NOT NULL,
+	`column_count` integer NOT NULL,
+	`statistics` text,
+	`import_options` text,
+	`import_report` text,
+	`formatted_data` text,
+	`column_formats` text,
+	`cell_details` text,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`file_id`) REFERENCES `excel_files`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE TABLE `excel_files` (
+	`id` text PRIMARY KEY NOT NULL,
+	`filename` text NOT NULL,
+	`original_name` text NOT NULL,
+	`size` integer NOT NULL,
+	`mime_type` text NOT NULL,
+	`batch_id` text,
+	`uploaded_at` integer NOT NULL
+);
@@ -0,0 +1,15 @@
+CREATE TABLE `excel_rows` (
+	`data_id` text NOT NULL,
+	`row_index` integer NOT NULL,
+	`data` text NOT NULL,
+	`formatted` text,
+	PRIMARY KEY(`data_id`, `row_index`),
+	FOREIGN KEY (`data_id`) REFERENCES `excel_data`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+-- Move the rows of existing datasets into excel_rows before the array columns are dropped
+INSERT INTO `excel_rows` (`data_id`, `row_index`, `data`, `formatted`)
+SELECT d.`id`, r.`key`, r.`value`, json_extract(d.`formatted_data`, '$[' || r.`key` || ']')
+FROM `excel_data` d, json_each(d.`data`) r;--> statement-breakpoint
+ALTER TABLE `excel_data` DROP COLUMN `data`;--> statement-breakpoint
+ALTER TABLE `excel_data` DROP COLUMN `formatted_data`;
\ No newline at end of file
@@ -0,0 +1,7 @@
+CREATE TABLE `saved_queries` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`sql` text NOT NULL,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL
+);
@@ -0,0 +1,7 @@
+-- Uploads from before owners existed go to the user of AUTH_DISABLED=true installs ("local").
+-- SQLite cannot drop a column default, but the storage always sets the owner.
+ALTER TABLE `excel_data` ADD `owner_id` text NOT NULL DEFAULT 'local';--> statement-breakpoint
+ALTER TABLE `excel_files` ADD `owner_id` text NOT NULL DEFAULT 'local';--> statement-breakpoint
+CREATE INDEX `excel_files_owner_id_idx` ON `excel_files` (`owner_id`);--> statement-breakpoint
+ALTER TABLE `saved_queries` ADD `owner_id` text NOT NULL DEFAULT 'local';--> statement-breakpoint
+CREATE INDEX `saved_queries_owner_id_idx` ON `saved_queries` (`owner_id`);
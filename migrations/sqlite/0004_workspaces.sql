@@ -0,0 +1,66 @@
+CREATE TABLE `workspaces` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`created_by` text NOT NULL,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `workspace_members` (
+	`id` text PRIMARY KEY NOT NULL,
+	`workspace_id` text NOT NULL,
+	`user_id` text,
+	`email` text,
+	`role` text NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`workspace_id`) REFERENCES `workspaces`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `workspace_members_user_idx` ON `workspace_members` (`workspace_id`,`user_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `workspace_members_email_idx` ON `workspace_members` (`workspace_id`,`email`);--> statement-breakpoint
+-- Every user who owns data gets a personal workspace holding it, with them as its admin
+INSERT INTO `workspaces` (`id`, `name`, `created_by`, `created_at`)
+SELECT lower(substr(h, 1, 8) || '-' || substr(h, 9, 4) || '-' || substr(h, 13, 4) || '-' || substr(h, 17, 4) || '-' || substr(h, 21)),
+	'Personal workspace', `owner_id`, strftime('%s', 'now') * 1000
+FROM (SELECT hex(randomblob(16)) AS h, `owner_id` FROM (SELECT `owner_id` FROM `excel_files` UNION SELECT `owner_id` FROM `saved_queries`));--> statement-breakpoint
+INSERT INTO `workspace_members` (`id`, `workspace_id`, `user_id`, `role`, `created_at`)
+SELECT lower(substr(h, 1, 8) || '-' || substr(h, 9, 4) || '-' || substr(h, 13, 4) || '-' || substr(h, 17, 4) || '-' || substr(h, 21)),
+	`id`, `created_by`, 'admin', `created_at`
+FROM (SELECT hex(randomblob(16)) AS h, `id`, `created_by`, `created_at` FROM `workspaces`);--> statement-breakpoint
+-- A NOT NULL column with a foreign key cannot be added to a table, so the tables are rebuilt
+CREATE TABLE `__new_excel_files` (
+	`id` text PRIMARY KEY NOT NULL,
+	`workspace_id` text NOT NULL,
+	`filename` text NOT NULL,
+	`original_name` text NOT NULL,
+	`size` integer NOT NULL,
+	`mime_type` text NOT NULL,
+	`batch_id` text,
+	`uploaded_at` integer NOT NULL,
+	FOREIGN KEY (`workspace_id`) REFERENCES `workspaces`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+INSERT INTO `__new_excel_files` (`id`, `workspace_id`, `filename`, `original_name`, `size`, `mime_type`, `batch_id`, `uploaded_at`)
+SELECT f.`id`, w.`id`, f.`filename`, f.`original_name`, f.`size`, f.`mime_type`, f.`batch_id`, f.`uploaded_at`
+FROM `excel_files` f JOIN `workspaces` w ON w.`created_by` = f.`owner_id`;--> statement-breakpoint
+DROP TABLE `excel_files`;--> statement-breakpoint
+ALTER TABLE `__new_excel_files` RENAME TO `excel_files`;--> statement-breakpoint
+CREATE INDEX `excel_files_workspace_id_idx` ON `excel_files` (`workspace_id`);--> statement-breakpoint
+CREATE TABLE `__new_saved_queries` (
+	`id` text PRIMARY KEY NOT NULL,
+	`workspace_id` text NOT NULL,
+	`name` text NOT NULL,
+	`sql` text NOT NULL,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`workspace_id`) REFERENCES `workspaces`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+INSERT INTO `__new_saved_queries` (`id`, `workspace_id`, `name`, `sql`, `created_at`, `updated_at`)
+SELECT q.`id`, w.`id`, q.`name`, q.`sql`, q.`created_at`, q.`updated_at`
+FROM `saved_queries` q JOIN `workspaces` w ON w.`created_by` = q.`owner_id`;--> statement-breakpoint
+DROP TABLE `saved_queries`;--> statement-breakpoint
+ALTER TABLE `__new_saved_queries` RENAME TO `saved_queries`;--> statement-breakpoint
+CREATE INDEX `saved_queries_workspace_id_idx` ON `saved_queries` (`workspace_id`);--> statement-breakpoint
+ALTER TABLE `excel_data` ADD `workspace_id` text NOT NULL DEFAULT '';--> statement-breakpoint
+UPDATE `excel_data` SET `workspace_id` = (SELECT w.`id` FROM `workspaces` w WHERE w.`created_by` = `excel_data`.`owner_id`);--> statement-breakpoint
+ALTER TABLE `excel_data` DROP COLUMN `owner_id`;
@@ -0,0 +1,26 @@
+CREATE TABLE `file_shares` (
+	`id` text PRIMARY KEY NOT NULL,
+	`file_id` text NOT NULL,
+	`workspace_id` text NOT NULL,
+	`user_id` text,
+	`email` text,
+	`access` text NOT NULL,
+	`created_by` text NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`file_id`) REFERENCES `excel_files`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `file_shares_user_idx` ON `file_shares` (`file_id`,`user_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `file_shares_email_idx` ON `file_shares` (`file_id`,`email`);--> statement-breakpoint
+CREATE TABLE `share_links` (
+	`id` text PRIMARY KEY NOT NULL,
+	`file_id` text NOT NULL,
+	`workspace_id` text NOT NULL,
+	`created_by` text NOT NULL,
+	`expires_at` integer NOT NULL,
+	`revoked_at` integer,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`file_id`) REFERENCES `excel_files`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `share_links_file_id_idx` ON `share_links` (`file_id`);
\ No newline at end of file
@@ -0,0 +1,46 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import XLSX from "xlsx";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ArchiveTooLargeError, extractArchive } from "../archive-import";
+
+// Helper function to write a deflated .zip archive holding the given files
+function writeZip(filePath: string, entries: Record<string, string>) {
+  const archive = XLSX.CFB.utils.cfb_new();
+  Object.entries(entries).forEach(([name, content]) => XLSX.CFB.utils.cfb_add(archive, `/${name}`, Buffer.from(content)));
+  fs.writeFileSync(filePath, XLSX.CFB.write(archive, { fileType: 'zip', type: 'buffer', compression: true }));
+}
+
+describe('extractArchive', () => {
+  let dir: string;
+  let targetDir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'archive-import-test-'));
+    targetDir = path.join(dir, 'extracted');
+    fs.mkdirSync(targetDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('extracts the data files of an archive', async () => {
+    const zipPath = path.join(dir, 'data.zip');
+    writeZip(zipPath, { 'north.csv': 'a,b\n1,2\n', 'notes.pdf': 'hello' });
+
+    const { files, skipped } = await extractArchive(zipPath, targetDir, 1000);
+    expect(files).toEqual([expect.objectContaining({ originalName: 'north.csv', size: 8 })]);
+    expect(skipped).toEqual([{ fileName: 'notes.pdf', error: 'Unsupported file type' }]);
+  });
+
+  it('rejects an archive whose files are too large together and removes what was extracted', async () => {
+    const zipPath = path.join(dir, 'bomb.zip');
+    const rows = 'a,b\n'.repeat(150);
+    writeZip(zipPath, { 'one.csv': rows, 'two.csv': rows });
+
+    await expect(extractArchive(zipPath, targetDir, 1000)).rejects.toThrow(ArchiveTooLargeError);
+    expect(fs.readdirSync(targetDir)).toEqual([]);
+  });
+});
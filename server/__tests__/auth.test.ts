@@ -0,0 +1,116 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Request } from "express";
+import { SignJWT, exportJWK, generateKeyPair, type JSONWebKeySet, type KeyLike } from "jose";
+import { createTokenVerifier, requireAuth, type AuthOptions } from "../auth";
+import { runMiddleware } from "./run-middleware";
+
+const SECRET = 'test-secret-with-enough-length-for-hs256';
+const ISSUER = 'https://project.supabase.co/auth/v1';
+
+// Helper function to sign a token like Supabase does, with claims overridable per test
+function token(
+  key: KeyLike | Uint8Array,
+  alg: string,
+  claims: { sub?: string; aud?: string; exp?: number; iss?: string; kid?: string; user_metadata?: object } = {},
+) {
+  const now = Math.floor(Date.now() / 1000);
+  const userMetadata = claims.user_metadata ?? { email_verified: true };
+  const jwt = new SignJWT({ email: 'ann@example.com', role: 'authenticated', user_metadata: userMetadata })
+    .setProtectedHeader({ alg, ...(claims.kid ? { kid: claims.kid } : {}) })
+    .setIssuedAt(now)
+    .setIssuer(claims.iss ?? ISSUER)
+    .setAudience(claims.aud ?? 'authenticated')
+    .setExpirationTime(claims.exp ?? now + 3600);
+  if (claims.sub !== '') jwt.setSubject(claims.sub ?? 'user-ann');
+  return jwt.sign(key);
+}
+
+// Helper function to run the middleware on a request with the given headers and query
+async function authenticate(options: AuthOptions, headers: Record<string, string>, query: Record<string, string> = {}) {
+  const req = { headers, query } as unknown as Request;
+  const result = await runMiddleware(requireAuth(createTokenVerifier(options)), req);
+  return { ...result, user: req.user };
+}
+
+const bearer = (value: string) => ({ authorization: `Bearer ${value}` });
+
+describe('requireAuth with HS256 tokens', () => {
+  const options: AuthOptions = { secret: SECRET, issuer: ISSUER };
+  const key = new TextEncoder().encode(SECRET);
+
+  it('accepts a valid token and attaches the user', async () => {
+    const result = await authenticate(options, bearer(await token(key, 'HS256')));
+    expect(result.nextCalled).toBe(true);
+    expect(result.user).toEqual({ id: 'user-ann', email: 'ann@example.com', role: 'authenticated', emailVerified: true });
+  });
+
+  it('treats the email as unverified without the email_verified claim', async () => {
+    for (const user_metadata of [{}, { email_verified: false }]) {
+      const result = await authenticate(options, bearer(await token(key, 'HS256', { user_metadata })));
+      expect(result.user).toMatchObject({ email: 'ann@example.com', emailVerified: false });
+    }
+  });
+
+  it('rejects requests without a token', async () => {
+    const result = await authenticate(options, {});
+    expect(result).toMatchObject({ status: 401, nextCalled: false, body: { message: "Authentication required" } });
+  });
+
+  it('rejects expired tokens', async () => {
+    const expired = await token(key, 'HS256', { exp: Math.floor(Date.now() / 1000) - 60 });
+    expect(await authenticate(options, bearer(expired))).toMatchObject({ status: 401, nextCalled: false });
+  });
+
+  it('rejects tokens signed with another secret', async () => {
+    const forged = await token(new TextEncoder().encode('another-secret-of-the-same-length-abcdef'), 'HS256');
+    expect(await authenticate(options, bearer(forged))).toMatchObject({ status: 401, nextCalled: false });
+  });
+
+  it('rejects tokens for another issuer or audience, or without a subject', async () => {
+    for (const claims of [{ iss: 'https://other.supabase.co/auth/v1' }, { aud: 'anon' }, { sub: '' }]) {
+      const result = await authenticate(options, bearer(await token(key, 'HS256', claims)));
+      expect(result).toMatchObject({ status: 401, nextCalled: false });
+    }
+  });
+
+  it('rejects malformed tokens', async () => {
+    expect(await authenticate(options, bearer('not-a-token'))).toMatchObject({ status: 401, nextCalled: false });
+  });
+
+  it('reads the token from the query string of event streams only', async () => {
+    const valid = await token(key, 'HS256');
+    const stream = await authenticate(options, { accept: 'text/event-stream' }, { access_token: valid });
+    expect(stream.nextCalled).toBe(true);
+
+    const plain = await authenticate(options, {}, { access_token: valid });
+    expect(plain).toMatchObject({ status: 401, nextCalled: false });
+  });
+});
+
+describe('requireAuth with asymmetric tokens', () => {
+  let privateKey: KeyLike;
+  let jwks: JSONWebKeySet;
+
+  beforeAll(async () => {
+    const pair = await generateKeyPair('ES256');
+    privateKey = pair.privateKey;
+    jwks = { keys: [{ ...(await exportJWK(pair.publicKey)), kid: 'key-1', alg: 'ES256', use: 'sig' }] };
+  });
+
+  it('accepts tokens signed with a published key', async () => {
+    const result = await authenticate({ jwks, issuer: ISSUER }, bearer(await token(privateKey, 'ES256', { kid: 'key-1' })));
+    expect(result.nextCalled).toBe(true);
+    expect(result.user?.id).toBe('user-ann');
+  });
+
+  it('rejects tokens signed with an unknown key', async () => {
+    const other = await generateKeyPair('ES256');
+    const result = await authenticate({ jwks, issuer: ISSUER }, bearer(await token(other.privateKey, 'ES256', { kid: 'key-1' })));
+    expect(result).toMatchObject({ status: 401, nextCalled: false });
+  });
+
+  it('rejects HS256 tokens when only keys are configured', async () => {
+    const hs256 = await token(new TextEncoder().encode(SECRET), 'HS256');
+    expect(await authenticate({ jwks, issuer: ISSUER }, bearer(hs256))).toMatchObject({ status: 401, nextCalled: false });
+  });
+});
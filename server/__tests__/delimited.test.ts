@@ -0,0 +1,44 @@
+import { afterAll, describe, expect, it } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { streamDelimitedRows } from "../delimited";
+
+describe('streamDelimitedRows', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'delimited-test-'));
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  // Helper function to write a file whose first 64 KB are plain ASCII, followed by the given bytes
+  const writeLateBytes = (name: string, tail: Buffer) => {
+    const filePath = path.join(dir, name);
+    const head = 'name,city\n' + 'ascii,plain\n'.repeat(8000);
+    fs.writeFileSync(filePath, Buffer.concat([Buffer.from(head), tail]));
+    return filePath;
+  };
+
+  const readAll = async (filePath: string) => {
+    const rows: string[][] = [];
+    for await (const row of streamDelimitedRows(filePath)) rows.push(row);
+    return rows;
+  };
+
+  it('decodes Windows-1252 text that starts after the sampled bytes', async () => {
+    const rows = await readAll(writeLateBytes('1252.csv', Buffer.from([0x63, 0x61, 0x66, 0xe9, 0x2c, 0x4e, 0x69, 0x63, 0x65, 0x0a])));
+    expect(rows).toHaveLength(8002);
+    expect(rows[8000]).toEqual(['ascii', 'plain']);
+    expect(rows[8001]).toEqual(['café', 'Nice']);
+  });
+
+  it('decodes Windows-1254 text that starts after the sampled bytes', async () => {
+    const rows = await readAll(writeLateBytes('1254.csv', Buffer.from([0x4b, 0x61, 0x72, 0x31, 0x2c, 0xdd, 0x7a, 0x6d, 0x69, 0x72, 0x0a])));
+    expect(rows[8001]).toEqual(['Kar1', 'İzmir']);
+  });
+
+  it('keeps reading UTF-8 files as UTF-8', async () => {
+    const rows = await readAll(writeLateBytes('utf8.csv', Buffer.from('café,Nice\n')));
+    expect(rows[8001]).toEqual(['café', 'Nice']);
+  });
+});
@@ -0,0 +1,77 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import XLSX from "xlsx";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { sheetSelectionSchema, uploadOptionsSchema } from "@shared/schema";
+import { ImportOptionsError, parseUploadedFile } from "../importer";
+import { applyColumnOverrides } from "../column-types";
+import { streamPreviewFile } from "../stream-import";
+
+const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const withRange = (range: string) => uploadOptionsSchema.parse({ range });
+
+describe('cell ranges of spreadsheet imports', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'importer-test-'));
+  const filePath = path.join(dir, 'sales.xlsx');
+
+  beforeAll(() => {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['name', 'amount'], ['pear', 3], ['apple', 10]]), 'Sales');
+    XLSX.writeFile(workbook, filePath);
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reads only the used cells of a range covering the whole sheet', () => {
+    const [sheet] = parseUploadedFile(filePath, 'sales.xlsx', XLSX_MIME, withRange('A1:XFD1048576'));
+    expect(sheet.headers).toEqual(['name', 'amount']);
+    expect(sheet.rows).toEqual([['pear', 3], ['apple', 10]]);
+  });
+
+  it('stops a range at the last used row and column', () => {
+    const [sheet] = parseUploadedFile(filePath, 'sales.xlsx', XLSX_MIME, withRange('B2:C9'));
+    expect(sheet.headers).toEqual(['3']);
+    expect(sheet.rows).toEqual([[10]]);
+  });
+
+  it('rejects a range outside the cells of the sheet', () => {
+    expect(() => parseUploadedFile(filePath, 'sales.xlsx', XLSX_MIME, withRange('D10:F20')))
+      .toThrow(ImportOptionsError);
+  });
+});
+
+describe('workbooks with the 1904 date system', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'importer-1904-test-'));
+  const filePath = path.join(dir, 'mac.xlsx');
+
+  beforeAll(() => {
+    const worksheet = XLSX.utils.aoa_to_sheet([['day', 'serial'], [0, 1]]);
+    worksheet.A2 = { t: 'n', v: 0, z: 'yyyy-mm-dd' };
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, worksheet, 'Days');
+    workbook.Workbook = { ...workbook.Workbook, WBProps: { date1904: true } };
+    XLSX.writeFile(workbook, filePath);
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reads date cells from 1904 in memory, as the streaming reader does', async () => {
+    const [sheet] = parseUploadedFile(filePath, 'mac.xlsx', XLSX_MIME);
+    expect(sheet.rows[0][0]).toBe('1904-01-01');
+
+    const [streamed] = await streamPreviewFile(filePath, 'mac.xlsx', XLSX_MIME);
+    expect(streamed.rows[0][0]).toBe('1904-01-01');
+  });
+
+  it('converts numbers to dates from 1904', () => {
+    const [sheet] = parseUploadedFile(filePath, 'mac.xlsx', XLSX_MIME);
+    const converted = applyColumnOverrides(sheet, sheetSelectionSchema.parse({ columns: { serial: { type: 'date' } } }));
+    expect(converted.rows[0][1]).toBe('1904-01-02');
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import type { FileShare, ShareLink, WorkspaceMember } from "@shared/schema";
+import { INVITE_DAYS, verifyInviteToken, withMemberInvite, withShareInvite } from "../invites";
+import { withShareToken } from "../sharing";
+
+const member: WorkspaceMember = {
+  id: 'member-1',
+  workspaceId: 'workspace-1',
+  userId: null,
+  email: 'bob@example.com',
+  role: 'editor',
+  createdAt: new Date(),
+};
+
+const share: FileShare = {
+  id: 'share-1',
+  fileId: 'file-1',
+  workspaceId: 'workspace-1',
+  userId: null,
+  email: 'bob@example.com',
+  access: 'view',
+  createdBy: 'user-ann',
+  createdAt: new Date(),
+};
+
+describe('invites', () => {
+  it('names the member or share a token was signed for', async () => {
+    const { inviteToken } = await withMemberInvite(member);
+    expect(await verifyInviteToken(inviteToken!)).toEqual({ kind: 'member', id: 'member-1' });
+
+    const shared = await withShareInvite(share);
+    expect(await verifyInviteToken(shared.inviteToken!)).toEqual({ kind: 'share', id: 'share-1' });
+  });
+
+  it('gives the same token each time an entry is listed', async () => {
+    expect((await withMemberInvite(member)).inviteToken).toBe((await withMemberInvite(member)).inviteToken);
+  });
+
+  it('rejects invites older than INVITE_DAYS', async () => {
+    const addedAt = new Date(Date.now() - (INVITE_DAYS * 24 + 1) * 60 * 60 * 1000);
+    const expired = await withMemberInvite({ ...member, createdAt: addedAt });
+    expect(expired.inviteExpiresAt!.getTime()).toBeLessThan(Date.now());
+    expect(await verifyInviteToken(expired.inviteToken!)).toBeUndefined();
+  });
+
+  it('has no invite for entries bound to a user', async () => {
+    expect(await withMemberInvite({ ...member, userId: 'user-bob' })).not.toHaveProperty('inviteToken');
+    expect(await withShareInvite({ ...share, userId: 'user-bob' })).not.toHaveProperty('inviteToken');
+  });
+
+  it('rejects share link tokens and malformed tokens', async () => {
+    const link: ShareLink = {
+      id: 'link-1',
+      fileId: 'file-1',
+      workspaceId: 'workspace-1',
+      createdBy: 'user-ann',
+      expiresAt: new Date(Date.now() + 60000),
+      revokedAt: null,
+      createdAt: new Date(),
+    };
+    expect(await verifyInviteToken((await withShareToken(link)).token)).toBeUndefined();
+    expect(await verifyInviteToken('not-a-token')).toBeUndefined();
+  });
+});
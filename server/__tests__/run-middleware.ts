@@ -0,0 +1,24 @@
+import type { Request, RequestHandler, Response } from "express";
+
+// Helper function to run a middleware on a fake request, recording the status and JSON body it
+// answers with and whether it passed the request on
+export async function runMiddleware(middleware: RequestHandler, req: Partial<Request>) {
+  let status = 200;
+  let body: any;
+  const res = {
+    status(code: number) {
+      status = code;
+      return this;
+    },
+    json(value: any) {
+      body = value;
+      return this;
+    },
+  } as unknown as Response;
+  let nextCalled = false;
+
+  await middleware(req as Request, res, () => {
+    nextCalled = true;
+  });
+  return { status, body, nextCalled };
+}
@@ -0,0 +1,49 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Request, RequestHandler } from "express";
+import type { ExcelFile, Workspace } from "@shared/schema";
+import { MemStorage } from "../storage";
+import { requireFileAccess } from "../sharing";
+import { requireWorkspaceRole, WORKSPACE_HEADER } from "../workspaces";
+import type { AuthUser } from "../auth";
+import { runMiddleware } from "./run-middleware";
+
+const owner: AuthUser = { id: 'user-ann', email: 'ann@example.com' };
+const recipient: AuthUser = { id: 'user-bob', email: 'bob@example.com' };
+
+// Helper function to run a middleware for the user on a request for the file
+async function run(middleware: RequestHandler, user: AuthUser, workspace: Workspace, file: ExcelFile) {
+  const headers: Record<string, string> = { [WORKSPACE_HEADER.toLowerCase()]: workspace.id };
+  const { status, nextCalled } = await runMiddleware(middleware, {
+    user,
+    params: { fileId: file.id },
+    body: {},
+    get: ((name: string) => headers[name.toLowerCase()]) as Request['get'],
+  });
+  return { status, nextCalled };
+}
+
+describe('access of users a file is shared with', () => {
+  const store = new MemStorage();
+  let workspace: Workspace;
+  let file: ExcelFile;
+
+  beforeAll(async () => {
+    workspace = await store.createWorkspace({ name: 'Team' }, owner);
+    file = await store.createExcelFile(workspace.id, { filename: 'sales.xlsx', originalName: 'sales.xlsx', size: 100, mimeType: 'application/vnd.ms-excel' });
+    await store.addFileShare(workspace.id, file.id, { userId: recipient.id, access: 'view' }, owner.id);
+  });
+
+  it('lets the user read the file', async () => {
+    expect(await run(requireFileAccess(store, 'viewer'), recipient, workspace, file)).toEqual({ status: 200, nextCalled: true });
+  });
+
+  it('keeps the user from changing the file', async () => {
+    expect(await run(requireFileAccess(store, 'editor'), recipient, workspace, file)).toEqual({ status: 403, nextCalled: false });
+  });
+
+  // Deleting a file and managing its shares and links need the editor role in the workspace
+  it('keeps the user from deleting or sharing the file', async () => {
+    expect(await run(requireWorkspaceRole(store, 'editor'), recipient, workspace, file)).toEqual({ status: 404, nextCalled: false });
+    expect(await run(requireWorkspaceRole(store, 'editor'), owner, workspace, file)).toEqual({ status: 200, nextCalled: true });
+  });
+});
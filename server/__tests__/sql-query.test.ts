@@ -0,0 +1,43 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { MemStorage } from "../storage";
+
+const ROW_COUNT = 12_000;
+
+// The timeout is read when the module loads, so each test imports it afresh
+async function sqlQuery(timeoutMs?: number) {
+  vi.resetModules();
+  if (timeoutMs !== undefined) vi.stubEnv('SQL_QUERY_TIMEOUT_MS', String(timeoutMs));
+  return import("../sql-query");
+}
+
+describe('runSqlQuery', () => {
+  const store = new MemStorage();
+  let workspaceId: string;
+
+  beforeAll(async () => {
+    const workspace = await store.createWorkspace({ name: 'Team' }, { id: 'user-ann' });
+    workspaceId = workspace.id;
+    const file = await store.createExcelFile(workspaceId, { filename: 'sales.csv', originalName: 'sales.csv', size: 100, mimeType: 'text/csv' });
+    const rows = Array.from({ length: ROW_COUNT }, (_, index) => ({ id: index, amount: index % 10 }));
+    await store.createExcelData(workspaceId, { fileId: file.id, sheetName: 'Sales', headers: ['id', 'amount'], rowCount: ROW_COUNT, columnCount: 2, data: rows });
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('copies every page of a dataset into the query', async () => {
+    const { runSqlQuery } = await sqlQuery();
+    const result = await runSqlQuery(store, workspaceId, { sql: 'SELECT count(*), max(id) FROM sales', limit: 10 });
+    expect(result).toMatchObject({ success: true, data: { rows: [[ROW_COUNT, ROW_COUNT - 1]] } });
+  });
+
+  it('stops copying a dataset once the deadline passed', async () => {
+    const { runSqlQuery } = await sqlQuery(0);
+    const pages = vi.spyOn(store, 'getExcelDataRows');
+    const result = await runSqlQuery(store, workspaceId, { sql: 'SELECT count(*) FROM sales', limit: 10 });
+    expect(result).toEqual({ success: false, message: 'The query ran for more than 0 seconds and was stopped' });
+    expect(pages).toHaveBeenCalledTimes(1);
+    pages.mockRestore();
+  });
+});
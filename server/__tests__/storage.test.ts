@@ -0,0 +1,347 @@
+// Contract tests of IStorage, run against every backend: MemStorage, DbStorage on an embedded
+// Postgres (PGlite) and SqliteStorage on a temporary file. A backend passes when it behaves
+// exactly like the others, so these only test what the interface promises.
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import * as schema from "@shared/schema";
+import type { InsertExcelData, RowQuery } from "@shared/schema";
+import { MemStorage, scanExcelDataRows, type IStorage } from "../storage";
+import { DbStorage } from "../db-storage";
+import { SqliteStorage } from "../sqlite-storage";
+import type { Database } from "../db";
+import type { AuthUser } from "../auth";
+
+interface Backend {
+  name: string;
+  create(): Promise<IStorage>;
+  cleanup?(): Promise<void>;
+}
+
+const sqliteDir = fs.mkdtempSync(path.join(os.tmpdir(), 'storage-test-'));
+
+const backends: Backend[] = [
+  { name: 'MemStorage', create: async () => new MemStorage() },
+  {
+    name: 'DbStorage',
+    // PGlite speaks the same SQL as the Neon driver, so DbStorage runs on it unchanged
+    create: async () => new DbStorage(drizzle({ client: new PGlite(), schema }) as unknown as Database),
+  },
+  {
+    name: 'SqliteStorage',
+    create: async () => new SqliteStorage(path.join(sqliteDir, 'test.db')),
+    cleanup: async () => fs.rmSync(sqliteDir, { recursive: true, force: true }),
+  },
+];
+
+const ann: AuthUser = { id: 'user-ann', email: 'ann@example.com', emailVerified: true };
+const bob: AuthUser = { id: 'user-bob', email: 'Bob@Example.com', emailVerified: true };
+// An account claiming Bob's email, which nobody verified
+const mallory: AuthUser = { id: 'user-mallory', email: 'bob@example.com', emailVerified: false };
+
+const sheet = (fileId: string, rows: Record<string, any>[]): InsertExcelData => ({
+  fileId,
+  sheetName: 'Sheet1',
+  headers: ['name', 'amount'],
+  rowCount: rows.length,
+  columnCount: 2,
+  data: rows,
+});
+
+const query = (overrides: Partial<RowQuery>): RowQuery => ({ offset: 0, limit: 100, sort: [], filters: [], ...overrides });
+
+describe.each(backends)('$name', (backend) => {
+  let store: IStorage;
+
+  beforeAll(async () => {
+    store = await backend.create();
+    await store.initialize();
+  }, 60000);
+
+  afterAll(async () => {
+    await backend.cleanup?.();
+  });
+
+  // Helper function to give each test a workspace of its own
+  const workspaceOf = (user: AuthUser = ann) => store.createWorkspace({ name: 'Team' }, user);
+  const fileIn = (workspaceId: string, name = 'sales.xlsx') =>
+    store.createExcelFile(workspaceId, { filename: name, originalName: name, size: 100, mimeType: 'application/vnd.ms-excel' });
+
+  describe('workspaces', () => {
+    it('makes the creator an admin', async () => {
+      const workspace = await workspaceOf();
+      expect(await store.getWorkspaceRole(workspace.id, ann)).toBe('admin');
+      expect(await store.getWorkspaceRole(workspace.id, bob)).toBeUndefined();
+      expect((await store.getWorkspacesForUser(ann)).map(item => item.id)).toContain(workspace.id);
+    });
+
+    it('matches members by user id or lower case email, with the strongest role', async () => {
+      const workspace = await workspaceOf();
+      await store.addWorkspaceMember(workspace.id, { email: 'bob@example.com', role: 'viewer' });
+      expect(await store.getWorkspaceRole(workspace.id, bob)).toBe('viewer');
+
+      await store.addWorkspaceMember(workspace.id, { userId: bob.id, role: 'editor' });
+      expect(await store.getWorkspaceRole(workspace.id, bob)).toBe('editor');
+      const listed = (await store.getWorkspacesForUser(bob)).filter(item => item.id === workspace.id);
+      expect(listed).toEqual([expect.objectContaining({ id: workspace.id, role: 'editor' })]);
+    });
+
+    it('matches unverified emails only through an accepted invite', async () => {
+      const workspace = await workspaceOf();
+      const member = await store.addWorkspaceMember(workspace.id, { email: 'bob@example.com', role: 'editor' });
+      expect(await store.getWorkspaceRole(workspace.id, mallory)).toBeUndefined();
+      expect(await store.getWorkspaceRole(workspace.id, { id: mallory.id, email: mallory.email })).toBeUndefined();
+      expect(await store.getWorkspacesForUser(mallory)).toEqual([]);
+
+      expect(await store.acceptWorkspaceInvite(member.id, 'user-carl')).toMatchObject({ id: member.id, userId: 'user-carl' });
+      expect(await store.getWorkspaceRole(workspace.id, { id: 'user-carl', emailVerified: false })).toBe('editor');
+      expect(await store.acceptWorkspaceInvite(member.id, mallory.id)).toBeUndefined();
+      expect(await store.getWorkspaceRole(workspace.id, mallory)).toBeUndefined();
+    });
+
+    it('updates and removes members only within their workspace', async () => {
+      const workspace = await workspaceOf();
+      const other = await workspaceOf();
+      const member = await store.addWorkspaceMember(workspace.id, { userId: bob.id, role: 'viewer' });
+
+      expect(await store.updateWorkspaceMember(other.id, member.id, 'admin')).toBeUndefined();
+      expect(await store.updateWorkspaceMember(workspace.id, member.id, 'admin')).toMatchObject({ role: 'admin' });
+      expect(await store.removeWorkspaceMember(other.id, member.id)).toBe(false);
+      expect(await store.removeWorkspaceMember(workspace.id, member.id)).toBe(true);
+      expect(await store.getWorkspaceRole(workspace.id, bob)).toBeUndefined();
+    });
+
+    it('renames and deletes a workspace with its files and queries', async () => {
+      const workspace = await workspaceOf();
+      const file = await fileIn(workspace.id);
+      await store.createSavedQuery(workspace.id, { name: 'All', sql: 'SELECT 1' });
+
+      expect(await store.updateWorkspace(workspace.id, { name: 'Renamed' })).toMatchObject({ name: 'Renamed' });
+      expect(await store.deleteWorkspace(workspace.id)).toBe(true);
+      expect(await store.getExcelFile(workspace.id, file.id)).toBeUndefined();
+      expect(await store.getSavedQueries(workspace.id)).toEqual([]);
+      expect(await store.getWorkspaceRole(workspace.id, ann)).toBeUndefined();
+      expect(await store.deleteWorkspace(workspace.id)).toBe(false);
+    });
+  });
+
+  describe('files and datasets', () => {
+    it('keeps files apart per workspace', async () => {
+      const workspace = await workspaceOf();
+      const other = await workspaceOf();
+      const file = await fileIn(workspace.id);
+
+      expect(file).toMatchObject({ workspaceId: workspace.id, originalName: 'sales.xlsx', batchId: null });
+      expect(await store.getExcelFile(workspace.id, file.id)).toMatchObject({ id: file.id });
+      expect(await store.getExcelFile(other.id, file.id)).toBeUndefined();
+      expect((await store.getAllExcelFiles(workspace.id)).map(item => item.id)).toEqual([file.id]);
+      expect(await store.getAllExcelFiles(other.id)).toEqual([]);
+      expect(await store.deleteExcelFile(other.id, file.id)).toBe(false);
+    });
+
+    it('refuses a dataset for a file of another workspace', async () => {
+      const workspace = await workspaceOf();
+      const other = await workspaceOf();
+      const file = await fileIn(workspace.id);
+      await expect(store.createExcelData(other.id, sheet(file.id, []))).rejects.toThrow();
+    });
+
+    it('stores a dataset with its rows and defaults', async () => {
+      const workspace = await workspaceOf();
+      const file = await fileIn(workspace.id);
+      const data = await store.createExcelData(workspace.id, sheet(file.id, [{ name: 'a', amount: 1 }]));
+
+      expect(data).toMatchObject({ fileId: file.id, workspaceId: workspace.id, sourceType: 'sheet', sourceRef: null, statistics: null });
+      expect(await store.getExcelDataById(workspace.id, data.id)).toMatchObject({ id: data.id, headers: ['name', 'amount'] });
+      expect((await store.getExcelData(workspace.id, file.id)).map(item => item.id)).toEqual([data.id]);
+    });
+
+    it('updates statistics and dataset fields', async () => {
+      const workspace = await workspaceOf();
+      const other = await workspaceOf();
+      const file = await fileIn(workspace.id);
+      const data = await store.createExcelData(workspace.id, sheet(file.id, []));
+
+      expect(await store.updateExcelDataStatistics(workspace.id, data.id, { amount: { mean: 2 } }))
+        .toMatchObject({ statistics: { amount: { mean: 2 } } });
+      expect(await store.updateExcelData(workspace.id, data.id, { rowCount: 7, sheetName: 'Renamed' }))
+        .toMatchObject({ rowCount: 7, sheetName: 'Renamed' });
+      expect(await store.updateExcelData(other.id, data.id, { rowCount: 1 })).toBeUndefined();
+    });
+
+    it('deletes a file together with its datasets and rows', async () => {
+      const workspace = await workspaceOf();
+      const file = await fileIn(workspace.id);
+      const data = await store.createExcelData(workspace.id, sheet(file.id, [{ name: 'a', amount: 1 }]));
+
+      expect(await store.deleteExcelFile(workspace.id, file.id)).toBe(true);
+      expect(await store.getExcelFile(workspace.id, file.id)).toBeUndefined();
+      expect(await store.getExcelDataById(workspace.id, data.id)).toBeUndefined();
+      expect(await store.getExcelDataRows(workspace.id, data.id)).toEqual([]);
+    });
+  });
+
+  describe('rows', () => {
+    const rows = [
+      { name: 'pear', amount: 3 },
+      { name: 'apple', amount: 10 },
+      { name: 'Banana', amount: null },
+      { name: 'cherry', amount: 7 },
+    ];
+
+    const datasetWithRows = async () => {
+      const workspace = await workspaceOf();
+      const file = await fileIn(workspace.id);
+      const data = await store.createExcelData(workspace.id, sheet(file.id, rows));
+      return { workspace, data };
+    };
+
+    it('pages rows by index and appends after the last one', async () => {
+      const { workspace, data } = await datasetWithRows();
+      await store.appendExcelDataRows(workspace.id, data.id, [{ name: 'plum', amount: 1 }], [{ amount: '1.00' }]);
+
+      const page = await store.getExcelDataRows(workspace.id, data.id, 3, 2);
+      expect(page).toEqual([
+        { dataId: data.id, rowIndex: 3, data: { name: 'cherry', amount: 7 }, formatted: null },
+        { dataId: data.id, rowIndex: 4, data: { name: 'plum', amount: 1 }, formatted: { amount: '1.00' } },
+      ]);
+      expect(await store.getExcelDataRows(workspace.id, data.id)).toHaveLength(5);
+    });
+
+    it('hides rows from other workspaces and refuses appending to them', async () => {
+      const { data } = await datasetWithRows();
+      const other = await workspaceOf();
+      expect(await store.getExcelDataRows(other.id, data.id)).toEqual([]);
+      expect(await store.countExcelDataRows(other.id, data.id, { filters: [] })).toBe(0);
+      await expect(store.appendExcelDataRows(other.id, data.id, [{ name: 'x' }])).rejects.toThrow();
+    });
+
+    it('filters, searches and counts rows', async () => {
+      const { workspace, data } = await datasetWithRows();
+      const names = async (q: Partial<RowQuery>) =>
+        (await store.queryExcelDataRows(workspace.id, data.id, query(q))).map(row => (row.data as any).name);
+
+      expect(await names({ filters: [{ column: 'amount', op: 'range', min: 5 }] })).toEqual(['apple', 'cherry']);
+      expect(await names({ filters: [{ column: 'amount', op: 'isNull' }] })).toEqual(['Banana']);
+      expect(await names({ filters: [{ column: 'name', op: 'in', values: ['pear', 'cherry'] }] })).toEqual(['pear', 'cherry']);
+      expect(await names({ search: 'AN' })).toEqual(['Banana']);
+      expect(await store.countExcelDataRows(workspace.id, data.id, { filters: [{ column: 'amount', op: 'notNull' }] })).toBe(3);
+      expect(await store.countExcelDataRows(workspace.id, data.id, { filters: [] })).toBe(4);
+    });
+
+    it('sorts rows with missing values last and pages the result', async () => {
+      const { workspace, data } = await datasetWithRows();
+      const sorted = await store.queryExcelDataRows(workspace.id, data.id, query({ sort: [{ column: 'amount', direction: 'desc' }] }));
+      expect(sorted.map(row => (row.data as any).name)).toEqual(['apple', 'cherry', 'pear', 'Banana']);
+
+      const page = await store.queryExcelDataRows(workspace.id, data.id, query({ sort: [{ column: 'amount', direction: 'asc' }], offset: 1, limit: 2 }));
+      expect(page.map(row => row.rowIndex)).toEqual([3, 1]);
+    });
+
+    it('scans all rows page by page', async () => {
+      const { workspace, data } = await datasetWithRows();
+      const scanned = [];
+      for await (const row of scanExcelDataRows(store, workspace.id, data.id, undefined, 3)) scanned.push(row.rowIndex);
+      expect(scanned).toEqual([0, 1, 2, 3]);
+    });
+  });
+
+  describe('saved queries', () => {
+    it('lists queries by name and updates them within their workspace', async () => {
+      const workspace = await workspaceOf();
+      const other = await workspaceOf();
+      const second = await store.createSavedQuery(workspace.id, { name: 'Totals', sql: 'SELECT 2' });
+      const first = await store.createSavedQuery(workspace.id, { name: 'Averages', sql: 'SELECT 1' });
+
+      expect((await store.getSavedQueries(workspace.id)).map(item => item.id)).toEqual([first.id, second.id]);
+      expect(await store.getSavedQuery(other.id, first.id)).toBeUndefined();
+      expect(await store.updateSavedQuery(other.id, first.id, { sql: 'SELECT 3' })).toBeUndefined();
+
+      const updated = await store.updateSavedQuery(workspace.id, first.id, { sql: 'SELECT 3' });
+      expect(updated).toMatchObject({ name: 'Averages', sql: 'SELECT 3' });
+      expect(updated!.updatedAt.getTime()).toBeGreaterThanOrEqual(first.updatedAt.getTime());
+
+      expect(await store.deleteSavedQuery(other.id, first.id)).toBe(false);
+      expect(await store.deleteSavedQuery(workspace.id, first.id)).toBe(true);
+      expect(await store.getSavedQuery(workspace.id, first.id)).toBeUndefined();
+    });
+  });
+
+  describe('sharing', () => {
+    it('gives the access shared by user id or email', async () => {
+      const workspace = await workspaceOf();
+      const file = await fileIn(workspace.id);
+      await store.addFileShare(workspace.id, file.id, { email: 'bob@example.com', access: 'view' }, ann.id);
+      expect(await store.getFileShareAccess(workspace.id, file.id, bob)).toBe('view');
+
+      await store.addFileShare(workspace.id, file.id, { userId: bob.id, access: 'view' }, ann.id);
+      expect(await store.getFileShareAccess(workspace.id, file.id, bob)).toBe('view');
+      expect(await store.getFilesSharedWith(bob)).toEqual([expect.objectContaining({ id: file.id, access: 'view' })]);
+      expect(await store.getFileShareAccess(workspace.id, file.id, { id: 'user-carl' })).toBeUndefined();
+    });
+
+    it('matches unverified emails of shares only through an accepted invite', async () => {
+      const workspace = await workspaceOf();
+      const file = await fileIn(workspace.id);
+      const share = await store.addFileShare(workspace.id, file.id, { email: 'bob@example.com', access: 'view' }, ann.id);
+      expect(await store.getFileShareAccess(workspace.id, file.id, mallory)).toBeUndefined();
+      expect(await store.getFilesSharedWith(mallory)).toEqual([]);
+
+      expect(await store.acceptFileShareInvite(share.id, 'user-carl')).toMatchObject({ id: share.id, userId: 'user-carl' });
+      expect(await store.getFileShareAccess(workspace.id, file.id, { id: 'user-carl' })).toBe('view');
+      expect(await store.acceptFileShareInvite(share.id, mallory.id)).toBeUndefined();
+    });
+
+    it('removes shares within their workspace and with their file', async () => {
+      const workspace = await workspaceOf();
+      const other = await workspaceOf();
+      const file = await fileIn(workspace.id);
+      const share = await store.addFileShare(workspace.id, file.id, { userId: 'user-dana', access: 'view' }, ann.id);
+
+      expect(await store.getFileShares(workspace.id, file.id)).toEqual([expect.objectContaining({ id: share.id, access: 'view' })]);
+      expect(await store.removeFileShare(other.id, share.id)).toBe(false);
+      await store.deleteExcelFile(workspace.id, file.id);
+      expect(await store.getFilesSharedWith({ id: 'user-dana' })).toEqual([]);
+    });
+
+    it('refuses shares and links of files in other workspaces', async () => {
+      const workspace = await workspaceOf();
+      const other = await workspaceOf();
+      const file = await fileIn(workspace.id);
+      await expect(store.addFileShare(other.id, file.id, { userId: bob.id, access: 'view' }, ann.id)).rejects.toThrow();
+      await expect(store.createShareLink(other.id, file.id, new Date(Date.now() + 60000), ann.id)).rejects.toThrow();
+    });
+
+    it('creates, finds and revokes share links, keeping the first revocation', async () => {
+      const workspace = await workspaceOf();
+      const other = await workspaceOf();
+      const file = await fileIn(workspace.id);
+      const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
+      const link = await store.createShareLink(workspace.id, file.id, expiresAt, ann.id);
+
+      expect(link).toMatchObject({ fileId: file.id, workspaceId: workspace.id, revokedAt: null });
+      expect(link.expiresAt.getTime()).toBe(expiresAt.getTime());
+      expect(await store.getShareLink(link.id)).toMatchObject({ id: link.id });
+      expect((await store.getShareLinks(workspace.id, file.id)).map(item => item.id)).toEqual([link.id]);
+      expect(await store.revokeShareLink(other.id, link.id)).toBeUndefined();
+
+      const revoked = await store.revokeShareLink(workspace.id, link.id);
+      expect(revoked?.revokedAt).toBeInstanceOf(Date);
+      const again = await store.revokeShareLink(workspace.id, link.id);
+      expect(again?.revokedAt?.getTime()).toBe(revoked!.revokedAt!.getTime());
+    });
+  });
+
+  describe('local accounts', () => {
+    it('finds accounts by id and email', async () => {
+      const user = await store.createUser({ email: 'erin@example.com', fullName: 'Erin', passwordHash: 'scrypt:00:00' });
+      expect(user).toMatchObject({ email: 'erin@example.com', fullName: 'Erin' });
+      expect(await store.getUser(user.id)).toMatchObject({ id: user.id });
+      expect(await store.getUserByEmail('erin@example.com')).toMatchObject({ id: user.id });
+      expect(await store.getUserByEmail('nobody@example.com')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import XLSX from "xlsx";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { ExcelFile } from "@shared/schema";
+import { storage } from "../storage";
+import { streamImportFile, streamPreviewFile } from "../stream-import";
+
+describe('streamed delimited files', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'stream-import-test-'));
+  const filePath = path.join(dir, 'ragged.csv');
+  let file: ExcelFile;
+
+  beforeAll(async () => {
+    // The second data row is one cell short of the header
+    fs.writeFileSync(filePath, 'a,b,c\n1,2,3\n4,5\n');
+    const workspace = await storage.createWorkspace({ name: 'Test' }, { id: 'user-test' });
+    file = await storage.createExcelFile(workspace.id, { filename: 'ragged.csv', originalName: 'ragged.csv', size: 17, mimeType: 'text/csv' });
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('previews rows shorter than the header with empty cells', async () => {
+    const [sheet] = await streamPreviewFile(filePath, 'ragged.csv', 'text/csv');
+    expect(sheet.headers).toEqual(['a', 'b', 'c']);
+    expect(sheet.rows).toEqual([[1, 2, 3], [4, 5, null]]);
+  });
+
+  it('imports rows shorter than the header with empty cells', async () => {
+    const [data] = await streamImportFile(file, filePath, 'ragged.csv', 'text/csv');
+    const rows = await storage.getExcelDataRows(file.workspaceId, data.id);
+    expect(rows.map(row => row.data)).toEqual([{ a: 1, b: 2, c: 3 }, { a: 4, b: 5, c: null }]);
+  });
+});
+
+describe('streamed workbooks', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'stream-import-xlsx-test-'));
+  const filePath = path.join(dir, 'budget.xlsx');
+  const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+  beforeAll(() => {
+    const worksheet = XLSX.utils.aoa_to_sheet([['Budget', null], ['item', 'amount'], ['rent', 900]]);
+    worksheet['!merges'] = [XLSX.utils.decode_range('A1:B1')];
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, worksheet, 'Plan');
+    workbook.Workbook = { ...workbook.Workbook, Names: [{ Name: 'Items', Ref: 'Plan!$A$2:$B$3' }] };
+    XLSX.writeFile(workbook, filePath);
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('warns about the named ranges and merged cells it leaves out', async () => {
+    const [sheet] = await streamPreviewFile(filePath, 'budget.xlsx', XLSX_MIME);
+    expect(sheet.importReport?.warnings).toEqual([
+      'Named ranges Items were not imported because the file was streamed',
+      'Merged cells were not filled in because the file was streamed',
+    ]);
+  });
+});
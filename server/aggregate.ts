@@ -0,0 +1,241 @@
+// Group-by aggregation over the rows of a dataset. Rows are streamed from storage and folded into
+// one accumulator per group and measure, so only median, percentile and count distinct keep the
+// values of a group in memory.
+import { isMissingValue, toNumericValue } from "./statistics";
+import { compareSortValues, validateRowQuery } from "./row-query";
+import type {
+  AggregateColumn,
+  AggregateMeasure,
+  AggregateRequest,
+  AggregateResult,
+  ExcelRow,
+} from "@shared/schema";
+
+// Beyond this many distinct groups the request fails instead of exhausting memory
+const MAX_GROUPS_IN_MEMORY = 100_000;
+
+// Helper function to name a measure in the result, e.g. "sum(Revenue)", "p90(Revenue)" or "count(*)"
+export function measureName(measure: AggregateMeasure): string {
+  if (measure.as) return measure.as;
+  const fn = measure.fn === 'percentile' ? `p${measure.percentile}` : measure.fn;
+  return `${fn}(${measure.column ?? '*'})`;
+}
+
+export function aggregateColumns(request: Pick<AggregateRequest, 'groupBy' | 'measures'>): AggregateColumn[] {
+  return [
+    ...request.groupBy.map(column => ({ name: column, role: 'dimension' as const, column })),
+    ...request.measures.map(measure => ({
+      name: measureName(measure),
+      role: 'measure' as const,
+      fn: measure.fn,
+      ...(measure.column !== undefined ? { column: measure.column } : {}),
+    })),
+  ];
+}
+
+// Check the request against the dataset's columns and that result columns have distinct names.
+// Returns an error message, or undefined when the request can be run.
+export function validateAggregateRequest(request: AggregateRequest, headers: string[]): string | undefined {
+  const sourceColumns = [...request.groupBy, ...request.measures.flatMap(measure => measure.column ?? [])];
+  const unknown = sourceColumns.find(column => !headers.includes(column));
+  if (unknown !== undefined) return `Unknown column: ${unknown}`;
+
+  const invalidFilter = validateRowQuery({ filters: request.filters, sort: [] }, headers);
+  if (invalidFilter) return invalidFilter;
+
+  const names = aggregateColumns(request).map(column => column.name);
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+  if (duplicate !== undefined) return `Result column ${duplicate} appears more than once`;
+
+  const unknownSort = request.sort.find(key => !names.includes(key.column));
+  if (unknownSort) return `Cannot sort by ${unknownSort.column}, it is not a result column`;
+
+  return undefined;
+}
+
+// Linear interpolation between the closest ranks, like percentile_cont in SQL
+function percentileOf(sorted: number[], percentile: number): number | null {
+  if (sorted.length === 0) return null;
+  const position = (percentile / 100) * (sorted.length - 1);
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+// Folds the values of one measure within one group
+class MeasureAccumulator {
+  private count = 0;
+  private sum = 0;
+  private numericCount = 0;
+  private minNumber: number | null = null;
+  private maxNumber: number | null = null;
+  private minText: string | null = null;
+  private maxText: string | null = null;
+  private numbers: number[] = [];
+  private distinct = new Set<string>();
+
+  constructor(private measure: AggregateMeasure) {}
+
+  add(values: Record<string, any>) {
+    const { fn, column } = this.measure;
+    if (column === undefined) {
+      this.count++;
+      return;
+    }
+
+    const value = values[column];
+    if (isMissingValue(value)) return;
+    this.count++;
+
+    switch (fn) {
+      case 'countDistinct':
+        this.distinct.add(`${typeof value}:${value}`);
+        return;
+      case 'min':
+      case 'max': {
+        // Numbers are compared as numbers; columns without any use text order, which suits ISO dates
+        const number = toNumericValue(value);
+        if (number !== null) {
+          if (this.minNumber === null || number < this.minNumber) this.minNumber = number;
+          if (this.maxNumber === null || number > this.maxNumber) this.maxNumber = number;
+        } else if (typeof value === 'string') {
+          if (this.minText === null || value < this.minText) this.minText = value;
+          if (this.maxText === null || value > this.maxText) this.maxText = value;
+        }
+        return;
+      }
+      case 'sum':
+      case 'avg':
+      case 'median':
+      case 'percentile': {
+        const number = toNumericValue(value);
+        if (number === null) return;
+        this.numericCount++;
+        this.sum += number;
+        if (fn === 'median' || fn === 'percentile') this.numbers.push(number);
+        return;
+      }
+    }
+  }
+
+  result(): number | string | null {
+    switch (this.measure.fn) {
+      case 'count':
+        return this.count;
+      case 'countDistinct':
+        return this.distinct.size;
+      case 'sum':
+        return this.numericCount > 0 ? this.sum : null;
+      case 'avg':
+        return this.numericCount > 0 ? this.sum / this.numericCount : null;
+      case 'min':
+        return this.minNumber ?? this.minText;
+      case 'max':
+        return this.maxNumber ?? this.maxText;
+      case 'median':
+      case 'percentile': {
+        const sorted = this.numbers.sort((a, b) => a - b);
+        return percentileOf(sorted, this.measure.fn === 'median' ? 50 : this.measure.percentile!);
+      }
+    }
+  }
+}
+
+interface Group {
+  keys: any[];
+  measures: MeasureAccumulator[];
+}
+
+// Helper function to read a group-by value; missing values form one group, shown as null
+export function groupValue(values: Record<string, any>, column: string): any {
+  return isMissingValue(values[column]) ? null : values[column];
+}
+
+// The measures of every group seen so far, keyed by the values of the group-by columns
+export class GroupedMeasures {
+  private groups = new Map<string, Group>();
+
+  constructor(private measures: AggregateMeasure[]) {}
+
+  get size(): number {
+    return this.groups.size;
+  }
+
+  // Returns false when the row would start a group beyond the memory limit
+  add(keys: any[], values: Record<string, any>): boolean {
+    const key = JSON.stringify(keys);
+    let group = this.groups.get(key);
+    if (!group) {
+      if (this.groups.size >= MAX_GROUPS_IN_MEMORY) return false;
+      group = { keys, measures: this.measures.map(measure => new MeasureAccumulator(measure)) };
+      this.groups.set(key, group);
+    }
+    group.measures.forEach(measure => measure.add(values));
+    return true;
+  }
+
+  // Make sure a group exists even when no row falls into it
+  ensure(keys: any[]) {
+    const key = JSON.stringify(keys);
+    if (!this.groups.has(key)) {
+      this.groups.set(key, { keys, measures: this.measures.map(measure => new MeasureAccumulator(measure)) });
+    }
+  }
+
+  *results(): Generator<{ keys: any[]; values: (number | string | null)[] }> {
+    for (const group of Array.from(this.groups.values())) {
+      yield { keys: group.keys, values: group.measures.map(measure => measure.result()) };
+    }
+  }
+}
+
+export const TOO_MANY_GROUPS_MESSAGE = `More than ${MAX_GROUPS_IN_MEMORY} groups; group by fewer or coarser columns`;
+
+// Group the rows and compute the measures, then sort the groups and apply the limit.
+// Rows should already be narrowed by the request's filters, see scanExcelDataRows.
+export async function aggregateRows(
+  dataId: string,
+  rows: AsyncIterable<ExcelRow>,
+  request: AggregateRequest,
+): Promise<{ success: true; data: AggregateResult } | { success: false; message: string }> {
+  const groups = new GroupedMeasures(request.measures);
+  // Without group-by columns there is exactly one group, even when no rows match
+  if (request.groupBy.length === 0) groups.ensure([]);
+
+  for await (const row of rows) {
+    const values = row.data as Record<string, any>;
+    if (!groups.add(request.groupBy.map(column => groupValue(values, column)), values)) {
+      return { success: false, message: TOO_MANY_GROUPS_MESSAGE };
+    }
+  }
+
+  const columns = aggregateColumns(request);
+  const resultRows = Array.from(groups.results(), group => {
+    const row: Record<string, any> = {};
+    group.keys.forEach((value, index) => { row[columns[index].name] = value; });
+    group.values.forEach((value, index) => { row[columns[request.groupBy.length + index].name] = value; });
+    return row;
+  });
+
+  const sort = request.sort.length > 0
+    ? request.sort
+    : request.groupBy.map(column => ({ column, direction: 'asc' as const }));
+  resultRows.sort((a, b) => {
+    for (const { column, direction } of sort) {
+      const order = compareSortValues(a[column], b[column], direction);
+      if (order !== 0) return order;
+    }
+    return 0;
+  });
+
+  return {
+    success: true,
+    data: {
+      dataId,
+      columns,
+      rows: resultRows.slice(0, request.limit),
+      groupCount: resultRows.length,
+      truncated: resultRows.length > request.limit,
+    },
+  };
+}
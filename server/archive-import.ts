@@ -0,0 +1,123 @@
+// Unpacks an uploaded .zip archive so each spreadsheet or data file inside it is imported on its own
+import path from "path";
+import fs from "fs";
+import { randomUUID } from "crypto";
+import { Transform } from "stream";
+import { pipeline } from "stream/promises";
+import { ZipArchive } from "./zip";
+import { detectUploadFormat } from "./importer";
+import { MAX_BATCH_FILES, MAX_UPLOAD_BYTES } from "@shared/schema";
+
+const ZIP_MIME_TYPES = ['application/zip', 'application/x-zip-compressed'];
+// All files of an archive together may not take more disk space than one upload, so a small
+// archive of highly compressed entries cannot fill the disk
+export const MAX_EXTRACTED_BYTES = MAX_UPLOAD_BYTES;
+
+// Thrown when an archive inflates beyond MAX_EXTRACTED_BYTES; nothing of it is imported then
+export class ArchiveTooLargeError extends Error {
+  constructor() {
+    super('The files in the archive are too large together');
+  }
+}
+
+export interface ExtractedFile {
+  path: string;
+  filename: string;
+  originalName: string;
+  size: number;
+}
+
+export interface SkippedEntry {
+  fileName: string;
+  error: string;
+}
+
+// Workbooks are zip files too, so a known data file extension wins over a zip MIME type
+export function isZipArchive(originalName: string, mimeType: string): boolean {
+  if (path.extname(originalName).toLowerCase() === '.zip') return true;
+  return !detectUploadFormat(originalName, '') && ZIP_MIME_TYPES.includes(mimeType);
+}
+
+// Folders, macOS resource forks and hidden files are not meant to be imported
+function isIgnoredEntry(name: string): boolean {
+  return name.endsWith('/') || name.startsWith('__MACOSX/') || path.posix.basename(name).startsWith('.');
+}
+
+// Stop extracting once an entry inflates beyond the upload limit, or the archive beyond what is
+// left of its limit, whatever the entry's header claims
+function sizeLimit(maxBytes: number, remainingBytes: number) {
+  let total = 0;
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      total += chunk.length;
+      if (total > remainingBytes) return callback(new ArchiveTooLargeError());
+      callback(total > maxBytes ? new Error('File is too large') : null, chunk);
+    },
+  });
+}
+
+function removeExtractedFiles(files: ExtractedFile[]): Promise<void[]> {
+  return Promise.all(files.map(file => fs.promises.rm(file.path, { force: true })));
+}
+
+// Extract the archive's data files into targetDir. Entries that cannot be imported are skipped;
+// an archive inflating beyond maxTotalBytes is rejected with ArchiveTooLargeError, after removing
+// the files extracted so far.
+export async function extractArchive(
+  filePath: string,
+  targetDir: string,
+  maxTotalBytes = MAX_EXTRACTED_BYTES,
+): Promise<{ files: ExtractedFile[]; skipped: SkippedEntry[] }> {
+  const archive = await ZipArchive.open(filePath);
+  const files: ExtractedFile[] = [];
+  const skipped: SkippedEntry[] = [];
+  let extractedBytes = 0;
+
+  for (const entry of archive.entries()) {
+    if (isIgnoredEntry(entry.name)) continue;
+
+    // The path inside the archive (e.g. "north/sales.csv") tells same-named files apart.
+    // It is only used as a display name, never as a path on disk.
+    const originalName = entry.name;
+
+    if (!detectUploadFormat(originalName, '')) {
+      skipped.push({ fileName: originalName, error: 'Unsupported file type' });
+      continue;
+    }
+    if (files.length >= MAX_BATCH_FILES) {
+      skipped.push({ fileName: originalName, error: `Only ${MAX_BATCH_FILES} files can be imported at once` });
+      continue;
+    }
+    if (entry.uncompressedSize > MAX_UPLOAD_BYTES) {
+      skipped.push({ fileName: originalName, error: 'File is too large' });
+      continue;
+    }
+    if (extractedBytes + entry.uncompressedSize > maxTotalBytes) {
+      await removeExtractedFiles(files);
+      throw new ArchiveTooLargeError();
+    }
+
+    const filename = `${randomUUID()}.upload`;
+    const extractedPath = path.join(targetDir, filename);
+    try {
+      const stream = await archive.openEntry(entry.name);
+      if (!stream) {
+        skipped.push({ fileName: originalName, error: 'File is empty' });
+        continue;
+      }
+      await pipeline(stream, sizeLimit(MAX_UPLOAD_BYTES, maxTotalBytes - extractedBytes), fs.createWriteStream(extractedPath));
+      const size = (await fs.promises.stat(extractedPath)).size;
+      extractedBytes += size;
+      files.push({ path: extractedPath, filename, originalName, size });
+    } catch (error) {
+      await fs.promises.rm(extractedPath, { force: true });
+      if (error instanceof ArchiveTooLargeError) {
+        await removeExtractedFiles(files);
+        throw error;
+      }
+      skipped.push({ fileName: originalName, error: error instanceof Error ? error.message : 'Could not extract file' });
+    }
+  }
+
+  return { files, skipped };
+}
@@ -0,0 +1,200 @@
+// Authentication of API requests. The browser signs in with Supabase and sends the access token
+// as a bearer token; the server verifies its signature, expiry, issuer and audience before any
+// route runs. Tokens are checked either with the project's JWT secret (HS256) or with its public
+// signing keys (JWKS), so tests and local setups can sign their own tokens with either.
+// Installs without Supabase use local accounts with session cookies instead (server/local-auth.ts).
+import type { NextFunction, Request, RequestHandler, Response } from "express";
+import {
+  createLocalJWKSet,
+  createRemoteJWKSet,
+  decodeProtectedHeader,
+  errors as joseErrors,
+  jwtVerify,
+  type JSONWebKeySet,
+  type JWTPayload,
+  type JWTVerifyGetKey,
+} from "jose";
+
+// The signed-in user, available to routes as req.user
+export interface AuthUser {
+  id: string;
+  email?: string;
+  role?: string;
+  // Whether the sign-in confirmed the email belongs to the user; only then do members and shares
+  // added by email match the user. Unknown counts as unverified.
+  emailVerified?: boolean;
+}
+
+declare global {
+  namespace Express {
+    // Declared the same way as by @types/passport, so both can be loaded together
+    interface User extends AuthUser {}
+    interface Request {
+      user?: User;
+    }
+  }
+}
+
+export interface AuthOptions {
+  // Shared secret of HS256 tokens, Supabase's "JWT secret"
+  secret?: string;
+  // Where the public keys of asymmetric tokens are published
+  jwksUrl?: string;
+  // Public keys given directly, e.g. by tests that sign their own tokens
+  jwks?: JSONWebKeySet;
+  issuer?: string;
+  audience?: string;
+}
+
+export type TokenVerifier = (token: string) => Promise<AuthUser>;
+
+// Supabase gives signed-in users the "authenticated" audience
+const DEFAULT_AUDIENCE = 'authenticated';
+
+// Helper function to read the authentication settings. The project URL alone is enough for projects
+// with asymmetric signing keys; older projects set SUPABASE_JWT_SECRET instead. The client's
+// VITE_SUPABASE_URL is used when SUPABASE_URL is not set.
+export function authOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): AuthOptions | null {
+  const projectUrl = (env.SUPABASE_URL || env.VITE_SUPABASE_URL)?.replace(/\/+$/, '');
+  const options: AuthOptions = {
+    secret: env.SUPABASE_JWT_SECRET || undefined,
+    jwksUrl: env.SUPABASE_JWKS_URL || (projectUrl ? `${projectUrl}/auth/v1/.well-known/jwks.json` : undefined),
+    jwks: env.SUPABASE_JWKS ? JSON.parse(env.SUPABASE_JWKS) : undefined,
+    issuer: env.SUPABASE_JWT_ISSUER || (projectUrl ? `${projectUrl}/auth/v1` : undefined),
+    audience: env.SUPABASE_JWT_AUDIENCE || DEFAULT_AUDIENCE,
+  };
+  return options.secret || options.jwksUrl || options.jwks ? options : null;
+}
+
+// Supabase keeps whether the user confirmed their email in the token's user_metadata. Projects
+// with "Confirm email" turned off sign users in without it, so a missing claim is unverified.
+function userFromClaims(payload: JWTPayload): AuthUser {
+  if (!payload.sub) {
+    throw new joseErrors.JWTClaimValidationFailed('Token has no subject', payload, 'sub', 'missing');
+  }
+  const metadata = payload.user_metadata as { email_verified?: unknown } | undefined;
+  return {
+    id: payload.sub,
+    ...(typeof payload.email === 'string' ? { email: payload.email } : {}),
+    ...(typeof payload.role === 'string' ? { role: payload.role } : {}),
+    emailVerified: metadata?.email_verified === true,
+  };
+}
+
+export function createTokenVerifier(options: AuthOptions): TokenVerifier {
+  const secret = options.secret ? new TextEncoder().encode(options.secret) : undefined;
+  const keySet: JWTVerifyGetKey | undefined = options.jwks
+    ? createLocalJWKSet(options.jwks)
+    : options.jwksUrl ? createRemoteJWKSet(new URL(options.jwksUrl)) : undefined;
+  if (!secret && !keySet) {
+    throw new Error('Token verification needs a JWT secret or signing keys');
+  }
+
+  const claims = {
+    ...(options.issuer ? { issuer: options.issuer } : {}),
+    audience: options.audience ?? DEFAULT_AUDIENCE,
+  };
+
+  return async (token) => {
+    // HS256 tokens are checked with the secret, anything else with the published keys
+    let alg: string | undefined;
+    try {
+      alg = decodeProtectedHeader(token).alg;
+    } catch {
+      throw new joseErrors.JWSInvalid('Malformed token');
+    }
+    if (alg === 'HS256' && secret) {
+      const { payload } = await jwtVerify(token, secret, { ...claims, algorithms: ['HS256'] });
+      return userFromClaims(payload);
+    }
+    if (!keySet) {
+      throw new joseErrors.JOSEAlgNotAllowed(`Tokens signed with ${alg} are not accepted`);
+    }
+    const { payload } = await jwtVerify(token, keySet, { ...claims, algorithms: ['RS256', 'ES256', 'EdDSA'] });
+    return userFromClaims(payload);
+  };
+}
+
+// Helper function to read the access token. EventSource cannot send headers, so event streams
+// may pass it as the access_token query parameter instead.
+function readAccessToken(req: Request): string | undefined {
+  const header = req.headers.authorization;
+  if (header?.startsWith('Bearer ')) return header.slice('Bearer '.length).trim();
+
+  const token = req.query.access_token;
+  if (typeof token === 'string' && req.headers.accept?.includes('text/event-stream')) {
+    return token;
+  }
+  return undefined;
+}
+
+// Middleware rejecting requests without a valid access token and attaching the user otherwise
+export function requireAuth(verify: TokenVerifier): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const token = readAccessToken(req);
+    if (!token) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    try {
+      req.user = await verify(token);
+      next();
+    } catch (error) {
+      // Anything but a rejected token, such as the key server timing out, is a server error
+      if (error instanceof joseErrors.JOSEError && !(error instanceof joseErrors.JWKSTimeout)) {
+        return res.status(401).json({ message: "Invalid or expired access token" });
+      }
+      console.error('Error verifying access token:', error);
+      res.status(500).json({ message: "Error verifying access token" });
+    }
+  };
+}
+
+// Stands in for the signed-in user when AUTH_DISABLED=true, for single-user installs on a trusted network
+export const LOCAL_USER: AuthUser = { id: 'local', role: 'authenticated' };
+
+export const authModes = ['supabase', 'local', 'disabled'] as const;
+export type AuthMode = typeof authModes[number];
+
+// AUTH_MODE selects how users sign in; without it Supabase is used when its settings are present,
+// and local accounts otherwise. AUTH_DISABLED=true is the same as AUTH_MODE=disabled.
+export function authModeFromEnv(env: NodeJS.ProcessEnv = process.env): AuthMode {
+  if (env.AUTH_DISABLED === 'true') return 'disabled';
+  if (env.AUTH_MODE) {
+    if (!(authModes as readonly string[]).includes(env.AUTH_MODE)) {
+      throw new Error(`Unknown AUTH_MODE ${env.AUTH_MODE}; use ${authModes.join(', ')}`);
+    }
+    return env.AUTH_MODE as AuthMode;
+  }
+  return authOptionsFromEnv(env) ? 'supabase' : 'local';
+}
+
+// Middleware rejecting requests without a signed-in session. The session middleware installed by
+// setupLocalAuth has attached its user by then.
+export function requireSession(req: Request, res: Response, next: NextFunction) {
+  if (!req.user) {
+    return res.status(401).json({ message: "Authentication required" });
+  }
+  next();
+}
+
+// The middleware for the configured authentication. Refuses to start in Supabase mode without a
+// way to verify tokens, so a missing setting cannot leave the API open by accident.
+export function createAuthMiddleware(env: NodeJS.ProcessEnv = process.env): RequestHandler {
+  const mode = authModeFromEnv(env);
+  if (mode === 'disabled') {
+    return (req, _res, next) => {
+      req.user = LOCAL_USER;
+      next();
+    };
+  }
+  if (mode === 'local') {
+    return requireSession;
+  }
+
+  const options = authOptionsFromEnv(env);
+  if (!options) {
+    throw new Error("Set SUPABASE_URL, SUPABASE_JWT_SECRET or SUPABASE_JWKS_URL to verify access tokens, AUTH_MODE=local for local accounts, or AUTH_DISABLED=true to run without authentication");
+  }
+  return requireAuth(createTokenVerifier(options));
+}
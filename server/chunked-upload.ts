@@ -0,0 +1,129 @@
+// Resumable chunked uploads. Each session lives in its own folder under uploads/sessions,
+// so an interrupted upload can continue where it stopped, even after a server restart.
+import path from "path";
+import fs from "fs";
+import { createHash, randomUUID } from "crypto";
+import { pipeline } from "stream/promises";
+import { UPLOAD_CHUNK_BYTES, type UploadInit, type UploadSession } from "@shared/schema";
+
+const sessionsDir = path.join(process.cwd(), 'uploads', 'sessions');
+const SESSION_ID_PATTERN = /^[0-9a-f-]{36}$/;
+// Sessions that were never completed are removed after a day
+const SESSION_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+// The owner is kept on disk but not sent to the client; other users cannot see the session
+type StoredSession = Omit<UploadSession, 'receivedChunks'> & { ownerId: string };
+
+function sessionDir(id: string): string {
+  return path.join(sessionsDir, id);
+}
+
+function chunkPath(id: string, index: number): string {
+  return path.join(sessionDir(id), `${index}.part`);
+}
+
+export function chunkChecksum(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+// Byte length a chunk must have; only the last one may be shorter
+export function expectedChunkSize(session: UploadSession, index: number): number {
+  return index < session.totalChunks - 1
+    ? session.chunkSize
+    : session.size - session.chunkSize * (session.totalChunks - 1);
+}
+
+async function removeStaleSessions() {
+  let ids: string[];
+  try {
+    ids = await fs.promises.readdir(sessionsDir);
+  } catch {
+    return;
+  }
+
+  const cutoff = Date.now() - SESSION_MAX_AGE_MS;
+  for (const id of ids) {
+    const session = await readUploadSession(id);
+    if (!session || Date.parse(session.createdAt) < cutoff) {
+      await discardUploadSession(id);
+    }
+  }
+}
+
+export async function createUploadSession(ownerId: string, init: UploadInit): Promise<UploadSession> {
+  await removeStaleSessions();
+
+  const session: StoredSession = {
+    id: randomUUID(),
+    ownerId,
+    fileName: init.fileName,
+    size: init.size,
+    mimeType: init.mimeType,
+    chunkSize: UPLOAD_CHUNK_BYTES,
+    totalChunks: Math.ceil(init.size / UPLOAD_CHUNK_BYTES),
+    createdAt: new Date().toISOString(),
+  };
+
+  await fs.promises.mkdir(sessionDir(session.id), { recursive: true });
+  await fs.promises.writeFile(path.join(sessionDir(session.id), 'session.json'), JSON.stringify(session));
+  const { ownerId: _, ...created } = session;
+  return { ...created, receivedChunks: [] };
+}
+
+// The chunk files on disk are the source of truth for which chunks were received
+async function readUploadSession(id: string): Promise<(StoredSession & { receivedChunks: number[] }) | undefined> {
+  if (!SESSION_ID_PATTERN.test(id)) return undefined;
+
+  let session: StoredSession;
+  let files: string[];
+  try {
+    session = JSON.parse(await fs.promises.readFile(path.join(sessionDir(id), 'session.json'), 'utf-8'));
+    files = await fs.promises.readdir(sessionDir(id));
+  } catch {
+    return undefined;
+  }
+
+  const receivedChunks = files
+    .map(file => file.match(/^(\d+)\.part$/)?.[1])
+    .filter((index): index is string => index !== undefined)
+    .map(index => parseInt(index, 10))
+    .sort((a, b) => a - b);
+
+  return { ...session, receivedChunks };
+}
+
+export async function getUploadSession(id: string, ownerId: string): Promise<UploadSession | undefined> {
+  const stored = await readUploadSession(id);
+  if (stored?.ownerId !== ownerId) return undefined;
+  const { ownerId: _, ...session } = stored;
+  return session;
+}
+
+export async function writeUploadChunk(session: UploadSession, index: number, data: Buffer) {
+  // Write to a temporary file first so a half-written chunk is never counted as received
+  const target = chunkPath(session.id, index);
+  await fs.promises.writeFile(`${target}.tmp`, data);
+  await fs.promises.rename(`${target}.tmp`, target);
+}
+
+// Join all chunks into one file in the uploads folder and remove the session
+export async function assembleUpload(session: UploadSession): Promise<string> {
+  const assembledPath = path.join(process.cwd(), 'uploads', `${session.id}.upload`);
+  const output = fs.createWriteStream(assembledPath);
+
+  try {
+    for (let index = 0; index < session.totalChunks; index++) {
+      await pipeline(fs.createReadStream(chunkPath(session.id, index)), output, { end: false });
+    }
+  } finally {
+    await new Promise<void>(resolve => output.end(resolve));
+  }
+
+  await discardUploadSession(session.id);
+  return assembledPath;
+}
+
+export async function discardUploadSession(id: string) {
+  if (!SESSION_ID_PATTERN.test(id)) return;
+  await fs.promises.rm(sessionDir(id), { recursive: true, force: true });
+}
@@ -0,0 +1,116 @@
+// Column renames and type overrides chosen in the import preview, applied while a dataset is imported
+import { excelSerialToIso, type ParsedSheet } from "./importer";
+import { isIsoDateString, isMissingValue } from "./statistics";
+import type { ColumnDataType, ColumnOverride, SheetSelection } from "@shared/schema";
+
+// Excel's date serials run from 1900-01-01 to 9999-12-31
+const MAX_DATE_SERIAL = 2958465;
+const TRUE_WORDS = ['true', 'yes', 'y', '1'];
+const FALSE_WORDS = ['false', 'no', 'n', '0'];
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+// Format a parsed date like the importer stores dates: a plain day unless it has a time of day
+function localDateToIso(date: Date): string {
+  const day = `${pad(date.getFullYear(), 4)}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  if (date.getHours() === 0 && date.getMinutes() === 0 && date.getSeconds() === 0) return day;
+  return `${day}T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+// Convert one cell to the requested type. Returns undefined when the value cannot be read as that type.
+// Numbers become dates as date serials of the workbook, which count from 1904 in some workbooks.
+export function convertCellValue(value: unknown, type: ColumnDataType, date1904 = false): string | number | boolean | undefined {
+  switch (type) {
+    case 'text':
+      return String(value);
+    case 'number': {
+      if (typeof value === 'number') return value;
+      if (typeof value === 'boolean') return value ? 1 : 0;
+      // Allow thousands separators and currency symbols, e.g. "$1,250.00"
+      const text = String(value).replace(/[\s,$€£¥]/g, '');
+      if (text === '' || isIsoDateString(text)) return undefined;
+      const parsed = Number(text);
+      return isNaN(parsed) ? undefined : parsed;
+    }
+    case 'date': {
+      if (isIsoDateString(value)) return value;
+      if (typeof value === 'number') {
+        return value > 0 && value <= MAX_DATE_SERIAL ? excelSerialToIso(value, date1904) : undefined;
+      }
+      if (typeof value !== 'string') return undefined;
+      const parsed = new Date(value);
+      return isNaN(parsed.getTime()) ? undefined : localDateToIso(parsed);
+    }
+    case 'boolean': {
+      if (typeof value === 'boolean') return value;
+      const word = String(value).trim().toLowerCase();
+      if (TRUE_WORDS.includes(word)) return true;
+      if (FALSE_WORDS.includes(word)) return false;
+      return undefined;
+    }
+  }
+}
+
+// Applies the overrides of one sheet, counting values that could not be converted
+export class ColumnOverrides {
+  private failures = new Map<string, number>();
+
+  constructor(private columns: Record<string, ColumnOverride> = {}, private date1904 = false) {}
+
+  static forSheet(selection: SheetSelection | undefined, date1904 = false): ColumnOverrides {
+    return new ColumnOverrides(selection?.columns, date1904);
+  }
+
+  get isEmpty(): boolean {
+    return Object.keys(this.columns).length === 0;
+  }
+
+  header(original: string): string {
+    return this.columns[original]?.name ?? original;
+  }
+
+  // Values that cannot be converted become missing values rather than failing the import
+  value(original: string, value: any): any {
+    const type = this.columns[original]?.type;
+    if (!type || isMissingValue(value)) return value;
+
+    const converted = convertCellValue(value, type, this.date1904);
+    if (converted === undefined) {
+      this.failures.set(original, (this.failures.get(original) || 0) + 1);
+      return null;
+    }
+    return converted;
+  }
+
+  warnings(): string[] {
+    return Array.from(this.failures, ([original, count]) =>
+      `${count} value${count === 1 ? '' : 's'} in ${this.header(original)} could not be read as ${this.columns[original].type} and ${count === 1 ? 'was' : 'were'} left empty`
+    );
+  }
+}
+
+// Sheets are imported unless the preview deselected them
+export function isSheetIncluded(sheets: Record<string, SheetSelection> | undefined, sheetName: string): boolean {
+  return sheets?.[sheetName]?.include ?? true;
+}
+
+// Rename and convert the columns of a sheet that was parsed in memory
+export function applyColumnOverrides(sheet: ParsedSheet, selection: SheetSelection | undefined): ParsedSheet {
+  const overrides = ColumnOverrides.forSheet(selection, sheet.date1904);
+  if (overrides.isEmpty) return sheet;
+
+  const rows = sheet.rows.map(row => sheet.headers.map((header, index) => overrides.value(header, row[index])));
+  const warnings = [...(sheet.importReport?.warnings ?? []), ...overrides.warnings()];
+
+  return {
+    ...sheet,
+    headers: sheet.headers.map(header => overrides.header(header)),
+    rows,
+    importReport: {
+      renamedColumns: sheet.importReport?.renamedColumns ?? [],
+      ...(warnings.length > 0 ? { warnings } : {}),
+    },
+  };
+}
@@ -0,0 +1,485 @@
+import { and, asc, desc, eq, gte, isNull, not, or, sql, type SQL } from "drizzle-orm";
+import {
+  excelData,
+  excelFiles,
+  excelRows,
+  fileShares,
+  savedQueries,
+  shareLinks,
+  users,
+  workspaceMembers,
+  workspaces,
+  type ExcelData,
+  type ExcelDataUpdate,
+  type ExcelFile,
+  type ExcelRow,
+  type FileShare,
+  type InsertExcelData,
+  type InsertExcelFile,
+  type InsertFileShare,
+  type InsertUser,
+  type InsertSavedQuery,
+  type RowFilter,
+  type RowQuery,
+  type RowSort,
+  type SavedQuery,
+  type ShareAccess,
+  type SharedFile,
+  type ShareLink,
+  type User,
+  type InsertWorkspace,
+  type InsertWorkspaceMember,
+  type Workspace,
+  type WorkspaceMember,
+  type WorkspaceRole,
+  type WorkspaceWithRole,
+} from "@shared/schema";
+import { migrateDatabase, type Database } from "./db";
+import {
+  creatorMember,
+  filesWithAccess,
+  strongestAccess,
+  strongestRole,
+  toExcelRows,
+  verifiedEmail,
+  workspacesWithRoles,
+  type IStorage,
+} from "./storage";
+import type { AuthUser } from "./auth";
+import { containsPattern, type RowConditions } from "./row-query";
+
+// Rows are inserted in batches to stay well below Postgres' limit of 65535 parameters per statement
+const ROW_INSERT_BATCH = 1000;
+
+// The row query rules of server/row-query.ts, written against the jsonb row values
+function cellValue(column: string): SQL {
+  return sql`(${excelRows.data} -> ${column}::text)`;
+}
+
+function cellText(column: string): SQL {
+  return sql`(${excelRows.data} ->> ${column}::text)`;
+}
+
+function cellType(column: string): SQL {
+  return sql`jsonb_typeof(${cellValue(column)})`;
+}
+
+function isMissing(column: string): SQL {
+  const value = cellValue(column);
+  return sql`(${value} IS NULL OR ${value} = 'null'::jsonb OR ${value} = '""'::jsonb)`;
+}
+
+function filterCondition(filter: RowFilter): SQL {
+  const { column } = filter;
+  switch (filter.op) {
+    case 'equals':
+      return sql`${cellValue(column)} = ${JSON.stringify(filter.value)}::jsonb`;
+    case 'contains':
+      return sql`(${cellType(column)} IN ('string', 'number') AND ${cellText(column)} ILIKE ${containsPattern(filter.value)})`;
+    case 'range': {
+      // Number bounds compare numbers, text bounds compare non-empty text byte by byte
+      const numeric = typeof (filter.min ?? filter.max) === 'number';
+      const comparable = numeric
+        ? sql`(CASE WHEN ${cellType(column)} = 'number' THEN ${cellText(column)}::numeric END)`
+        : sql`(CASE WHEN ${cellType(column)} = 'string' AND ${cellText(column)} <> '' THEN ${cellText(column)} END) COLLATE "C"`;
+      const bounds: SQL[] = [];
+      if (filter.min !== undefined) bounds.push(sql`${comparable} >= ${filter.min}`);
+      if (filter.max !== undefined) bounds.push(sql`${comparable} <= ${filter.max}`);
+      return and(...bounds)!;
+    }
+    case 'in':
+      return sql`${cellValue(column)} IN (${sql.join(filter.values.map(value => sql`${JSON.stringify(value)}::jsonb`), sql`, `)})`;
+    case 'isNull':
+      return isMissing(column);
+    case 'notNull':
+      return not(isMissing(column));
+  }
+}
+
+// Rows of the dataset, provided it belongs to the workspace
+function datasetRows(workspaceId: string, id: string): SQL {
+  return and(
+    eq(excelRows.dataId, id),
+    sql`EXISTS (SELECT 1 FROM ${excelData} WHERE ${excelData.id} = ${id} AND ${excelData.workspaceId} = ${workspaceId})`,
+  )!;
+}
+
+function rowConditions(workspaceId: string, id: string, conditions: RowConditions): SQL {
+  const where = [datasetRows(workspaceId, id), ...conditions.filters.map(filterCondition)];
+  if (conditions.search) {
+    where.push(sql`EXISTS (
+      SELECT 1 FROM jsonb_each(${excelRows.data}) AS cell
+      WHERE jsonb_typeof(cell.value) IN ('string', 'number') AND cell.value #>> '{}' ILIKE ${containsPattern(conditions.search)}
+    )`);
+  }
+  return and(...where)!;
+}
+
+// Members matching the user by id, or by verified email for members added by email
+function memberMatches(user: AuthUser): SQL {
+  const byId = eq(workspaceMembers.userId, user.id);
+  const email = verifiedEmail(user);
+  return email ? or(byId, eq(workspaceMembers.email, email))! : byId;
+}
+
+// Shares matching the user by id, or by verified email for shares made by email
+function shareMatches(user: AuthUser): SQL {
+  const byId = eq(fileShares.userId, user.id);
+  const email = verifiedEmail(user);
+  return email ? or(byId, eq(fileShares.email, email))! : byId;
+}
+
+// Missing values last, then by type (numbers, text, booleans, anything else), then by value
+function sortExpressions({ column, direction }: RowSort): SQL[] {
+  const order = direction === 'asc' ? sql`ASC` : sql`DESC`;
+  const type = cellType(column);
+  return [
+    sql`${isMissing(column)} ASC`,
+    sql`(CASE ${type} WHEN 'number' THEN 0 WHEN 'string' THEN 1 WHEN 'boolean' THEN 2 ELSE 3 END) ${order}`,
+    sql`(CASE WHEN ${type} = 'number' THEN ${cellText(column)}::numeric END) ${order}`,
+    sql`(CASE WHEN ${type} IN ('string', 'boolean') THEN lower(${cellText(column)}) END) COLLATE "C" ${order}`,
+  ];
+}
+
+// Stores files and their sheets in Postgres through the Drizzle schema, so uploads survive restarts
+export class DbStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async initialize(): Promise<void> {
+    await migrateDatabase(this.db);
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.email, email));
+    return user;
+  }
+
+  async createWorkspace(insertWorkspace: InsertWorkspace, creator: AuthUser): Promise<Workspace> {
+    return this.db.transaction(async tx => {
+      const [workspace] = await tx.insert(workspaces).values({ ...insertWorkspace, createdBy: creator.id }).returning();
+      const { userId, email, role } = creatorMember(creator);
+      await tx.insert(workspaceMembers).values({ workspaceId: workspace.id, userId, email, role });
+      return workspace;
+    });
+  }
+
+  async getWorkspacesForUser(user: AuthUser): Promise<WorkspaceWithRole[]> {
+    const memberships = await this.db
+      .select({ workspace: workspaces, role: workspaceMembers.role })
+      .from(workspaceMembers)
+      .innerJoin(workspaces, eq(workspaces.id, workspaceMembers.workspaceId))
+      .where(memberMatches(user))
+      .orderBy(asc(workspaces.createdAt));
+    return workspacesWithRoles(memberships);
+  }
+
+  async getWorkspaceRole(workspaceId: string, user: AuthUser): Promise<WorkspaceRole | undefined> {
+    const memberships = await this.db
+      .select({ role: workspaceMembers.role })
+      .from(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), memberMatches(user)));
+    return strongestRole(memberships.map(member => member.role));
+  }
+
+  async updateWorkspace(id: string, updates: InsertWorkspace): Promise<Workspace | undefined> {
+    const [workspace] = await this.db.update(workspaces).set(updates).where(eq(workspaces.id, id)).returning();
+    return workspace;
+  }
+
+  // Members, files and saved queries are removed by the foreign keys' cascade
+  async deleteWorkspace(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(workspaces).where(eq(workspaces.id, id)).returning({ id: workspaces.id });
+    return deleted.length > 0;
+  }
+
+  async getWorkspaceMembers(workspaceId: string): Promise<WorkspaceMember[]> {
+    return this.db
+      .select()
+      .from(workspaceMembers)
+      .where(eq(workspaceMembers.workspaceId, workspaceId))
+      .orderBy(asc(workspaceMembers.createdAt));
+  }
+
+  async addWorkspaceMember(workspaceId: string, { userId, email, role }: InsertWorkspaceMember): Promise<WorkspaceMember> {
+    const [member] = await this.db.insert(workspaceMembers).values({ workspaceId, userId, email, role }).returning();
+    return member;
+  }
+
+  async updateWorkspaceMember(workspaceId: string, id: string, role: WorkspaceRole): Promise<WorkspaceMember | undefined> {
+    const [member] = await this.db
+      .update(workspaceMembers)
+      .set({ role })
+      .where(and(eq(workspaceMembers.id, id), eq(workspaceMembers.workspaceId, workspaceId)))
+      .returning();
+    return member;
+  }
+
+  async removeWorkspaceMember(workspaceId: string, id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(workspaceMembers)
+      .where(and(eq(workspaceMembers.id, id), eq(workspaceMembers.workspaceId, workspaceId)))
+      .returning({ id: workspaceMembers.id });
+    return deleted.length > 0;
+  }
+
+  async acceptWorkspaceInvite(id: string, userId: string): Promise<WorkspaceMember | undefined> {
+    const [member] = await this.db
+      .update(workspaceMembers)
+      .set({ userId })
+      .where(and(eq(workspaceMembers.id, id), isNull(workspaceMembers.userId)))
+      .returning();
+    return member;
+  }
+
+  async createExcelFile(workspaceId: string, insertFile: InsertExcelFile): Promise<ExcelFile> {
+    const [file] = await this.db.insert(excelFiles).values({ ...insertFile, workspaceId }).returning();
+    return file;
+  }
+
+  async getExcelFile(workspaceId: string, id: string): Promise<ExcelFile | undefined> {
+    const [file] = await this.db.select().from(excelFiles).where(and(eq(excelFiles.id, id), eq(excelFiles.workspaceId, workspaceId)));
+    return file;
+  }
+
+  async getAllExcelFiles(workspaceId: string): Promise<ExcelFile[]> {
+    return this.db.select().from(excelFiles).where(eq(excelFiles.workspaceId, workspaceId)).orderBy(desc(excelFiles.uploadedAt));
+  }
+
+  // The sheets of the file are removed by the foreign key's cascade
+  async deleteExcelFile(workspaceId: string, id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(excelFiles)
+      .where(and(eq(excelFiles.id, id), eq(excelFiles.workspaceId, workspaceId)))
+      .returning({ id: excelFiles.id });
+    return deleted.length > 0;
+  }
+
+  async createExcelData(workspaceId: string, { data: rows = [], formattedData, ...insertData }: InsertExcelData): Promise<ExcelData> {
+    return this.db.transaction(async tx => {
+      const [file] = await tx
+        .select({ id: excelFiles.id })
+        .from(excelFiles)
+        .where(and(eq(excelFiles.id, insertData.fileId), eq(excelFiles.workspaceId, workspaceId)));
+      if (!file) {
+        throw new Error(`Excel file ${insertData.fileId} not found`);
+      }
+
+      const [data] = await tx.insert(excelData).values({ ...insertData, workspaceId }).returning();
+      const stored = toExcelRows(data.id, 0, rows, formattedData);
+      for (let start = 0; start < stored.length; start += ROW_INSERT_BATCH) {
+        await tx.insert(excelRows).values(stored.slice(start, start + ROW_INSERT_BATCH));
+      }
+      return data;
+    });
+  }
+
+  async getExcelData(workspaceId: string, fileId: string): Promise<ExcelData[]> {
+    return this.db.select().from(excelData).where(and(eq(excelData.fileId, fileId), eq(excelData.workspaceId, workspaceId))).orderBy(excelData.createdAt);
+  }
+
+  async getExcelDataById(workspaceId: string, id: string): Promise<ExcelData | undefined> {
+    const [data] = await this.db.select().from(excelData).where(and(eq(excelData.id, id), eq(excelData.workspaceId, workspaceId)));
+    return data;
+  }
+
+  async deleteExcelData(workspaceId: string, fileId: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(excelData)
+      .where(and(eq(excelData.fileId, fileId), eq(excelData.workspaceId, workspaceId)))
+      .returning({ id: excelData.id });
+    return deleted.length > 0;
+  }
+
+  async updateExcelDataStatistics(workspaceId: string, id: string, statistics: any): Promise<ExcelData | undefined> {
+    return this.updateExcelData(workspaceId, id, { statistics });
+  }
+
+  async updateExcelData(workspaceId: string, id: string, updates: ExcelDataUpdate): Promise<ExcelData | undefined> {
+    if (Object.keys(updates).length === 0) return this.getExcelDataById(workspaceId, id);
+    const [data] = await this.db
+      .update(excelData)
+      .set(updates)
+      .where(and(eq(excelData.id, id), eq(excelData.workspaceId, workspaceId)))
+      .returning();
+    return data;
+  }
+
+  // New rows continue after the highest stored row index
+  async appendExcelDataRows(workspaceId: string, id: string, rows: Record<string, any>[], formatted?: (Record<string, string> | null)[]): Promise<void> {
+    await this.db.transaction(async tx => {
+      const [dataset] = await tx
+        .select({ nextIndex: sql<number>`coalesce((select max(${excelRows.rowIndex}) + 1 from ${excelRows} where ${excelRows.dataId} = ${id}), 0)` })
+        .from(excelData)
+        .where(and(eq(excelData.id, id), eq(excelData.workspaceId, workspaceId)));
+      if (!dataset) {
+        throw new Error(`Excel data ${id} not found`);
+      }
+
+      const stored = toExcelRows(id, Number(dataset.nextIndex), rows, formatted);
+      for (let start = 0; start < stored.length; start += ROW_INSERT_BATCH) {
+        await tx.insert(excelRows).values(stored.slice(start, start + ROW_INSERT_BATCH));
+      }
+    });
+  }
+
+  // Rows are numbered without gaps, so a page is looked up by its first index rather than by
+  // skipping rows with OFFSET, and late pages of a large dataset read as fast as the first
+  async getExcelDataRows(workspaceId: string, id: string, offset = 0, limit?: number): Promise<ExcelRow[]> {
+    const query = this.db
+      .select()
+      .from(excelRows)
+      .where(and(datasetRows(workspaceId, id), gte(excelRows.rowIndex, offset)))
+      .orderBy(asc(excelRows.rowIndex));
+    return limit === undefined ? query : query.limit(limit);
+  }
+
+  async queryExcelDataRows(workspaceId: string, id: string, query: RowQuery): Promise<ExcelRow[]> {
+    return this.db
+      .select()
+      .from(excelRows)
+      .where(rowConditions(workspaceId, id, query))
+      .orderBy(...query.sort.flatMap(sortExpressions), asc(excelRows.rowIndex))
+      .offset(query.offset)
+      .limit(query.limit);
+  }
+
+  async countExcelDataRows(workspaceId: string, id: string, conditions: RowConditions): Promise<number> {
+    const [result] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(excelRows)
+      .where(rowConditions(workspaceId, id, conditions));
+    return result.count;
+  }
+
+  async createSavedQuery(workspaceId: string, insertQuery: InsertSavedQuery): Promise<SavedQuery> {
+    const [query] = await this.db.insert(savedQueries).values({ ...insertQuery, workspaceId }).returning();
+    return query;
+  }
+
+  async getSavedQueries(workspaceId: string): Promise<SavedQuery[]> {
+    return this.db.select().from(savedQueries).where(eq(savedQueries.workspaceId, workspaceId)).orderBy(asc(savedQueries.name));
+  }
+
+  async getSavedQuery(workspaceId: string, id: string): Promise<SavedQuery | undefined> {
+    const [query] = await this.db.select().from(savedQueries).where(and(eq(savedQueries.id, id), eq(savedQueries.workspaceId, workspaceId)));
+    return query;
+  }
+
+  async updateSavedQuery(workspaceId: string, id: string, updates: Partial<InsertSavedQuery>): Promise<SavedQuery | undefined> {
+    const [query] = await this.db
+      .update(savedQueries)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(savedQueries.id, id), eq(savedQueries.workspaceId, workspaceId)))
+      .returning();
+    return query;
+  }
+
+  async deleteSavedQuery(workspaceId: string, id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(savedQueries)
+      .where(and(eq(savedQueries.id, id), eq(savedQueries.workspaceId, workspaceId)))
+      .returning({ id: savedQueries.id });
+    return deleted.length > 0;
+  }
+
+  // Helper function to check that a file belongs to the workspace before linking to it
+  private async requireFile(workspaceId: string, fileId: string): Promise<void> {
+    const [file] = await this.db
+      .select({ id: excelFiles.id })
+      .from(excelFiles)
+      .where(and(eq(excelFiles.id, fileId), eq(excelFiles.workspaceId, workspaceId)));
+    if (!file) {
+      throw new Error(`Excel file ${fileId} not found`);
+    }
+  }
+
+  async getFileShares(workspaceId: string, fileId: string): Promise<FileShare[]> {
+    return this.db
+      .select()
+      .from(fileShares)
+      .where(and(eq(fileShares.fileId, fileId), eq(fileShares.workspaceId, workspaceId)))
+      .orderBy(asc(fileShares.createdAt));
+  }
+
+  async addFileShare(workspaceId: string, fileId: string, insertShare: InsertFileShare, createdBy: string): Promise<FileShare> {
+    await this.requireFile(workspaceId, fileId);
+    const [share] = await this.db.insert(fileShares).values({ ...insertShare, fileId, workspaceId, createdBy }).returning();
+    return share;
+  }
+
+  async removeFileShare(workspaceId: string, id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(fileShares)
+      .where(and(eq(fileShares.id, id), eq(fileShares.workspaceId, workspaceId)))
+      .returning({ id: fileShares.id });
+    return deleted.length > 0;
+  }
+
+  async getFileShareAccess(workspaceId: string, fileId: string, user: AuthUser): Promise<ShareAccess | undefined> {
+    const shares = await this.db
+      .select({ access: fileShares.access })
+      .from(fileShares)
+      .where(and(eq(fileShares.fileId, fileId), eq(fileShares.workspaceId, workspaceId), shareMatches(user)));
+    return strongestAccess(shares.map(share => share.access));
+  }
+
+  async acceptFileShareInvite(id: string, userId: string): Promise<FileShare | undefined> {
+    const [share] = await this.db
+      .update(fileShares)
+      .set({ userId })
+      .where(and(eq(fileShares.id, id), isNull(fileShares.userId)))
+      .returning();
+    return share;
+  }
+
+  async getFilesSharedWith(user: AuthUser): Promise<SharedFile[]> {
+    const shares = await this.db
+      .select({ file: excelFiles, access: fileShares.access })
+      .from(fileShares)
+      .innerJoin(excelFiles, eq(excelFiles.id, fileShares.fileId))
+      .where(shareMatches(user))
+      .orderBy(desc(excelFiles.uploadedAt));
+    return filesWithAccess(shares);
+  }
+
+  async createShareLink(workspaceId: string, fileId: string, expiresAt: Date, createdBy: string): Promise<ShareLink> {
+    await this.requireFile(workspaceId, fileId);
+    const [link] = await this.db.insert(shareLinks).values({ fileId, workspaceId, createdBy, expiresAt }).returning();
+    return link;
+  }
+
+  async getShareLinks(workspaceId: string, fileId: string): Promise<ShareLink[]> {
+    return this.db
+      .select()
+      .from(shareLinks)
+      .where(and(eq(shareLinks.fileId, fileId), eq(shareLinks.workspaceId, workspaceId)))
+      .orderBy(desc(shareLinks.createdAt));
+  }
+
+  async getShareLink(id: string): Promise<ShareLink | undefined> {
+    const [link] = await this.db.select().from(shareLinks).where(eq(shareLinks.id, id));
+    return link;
+  }
+
+  async revokeShareLink(workspaceId: string, id: string): Promise<ShareLink | undefined> {
+    // Revoking again keeps the time of the first revocation
+    const [revoked] = await this.db
+      .update(shareLinks)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(shareLinks.id, id), eq(shareLinks.workspaceId, workspaceId), isNull(shareLinks.revokedAt)))
+      .returning();
+    if (revoked) return revoked;
+    const [link] = await this.db.select().from(shareLinks).where(and(eq(shareLinks.id, id), eq(shareLinks.workspaceId, workspaceId)));
+    return link;
+  }
+}
@@ -0,0 +1,25 @@
+// Postgres connection used by DbStorage. The Neon serverless driver talks to the database over
+// WebSockets, which Node needs the ws package for.
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import { migrate } from "drizzle-orm/neon-serverless/migrator";
+import ws from "ws";
+import path from "path";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+// SQL migrations generated by `npm run db:generate` from shared/schema.ts
+const migrationsFolder = path.join(process.cwd(), 'migrations');
+
+export function createDatabase(connectionString: string) {
+  const pool = new Pool({ connectionString });
+  return drizzle({ client: pool, schema });
+}
+
+export type Database = ReturnType<typeof createDatabase>;
+
+// Apply the migrations that have not run yet; drizzle records applied ones in its own table
+export async function migrateDatabase(db: Database) {
+  await migrate(db, { migrationsFolder });
+}
@@ -0,0 +1,294 @@
+// Parser for delimited text exports (CSV, TSV and friends)
+import fs from "fs";
+
+export type TextEncoding = 'utf-8' | 'windows-1252' | 'windows-1254';
+
+export interface DelimitedParseResult {
+  rows: string[][];
+  delimiter: string;
+  encoding: TextEncoding;
+}
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+const SNIFF_LINE_LIMIT = 20;
+const SAMPLE_SIZE = 64 * 1024;
+
+// Bytes that decode to Turkish letters (Ğ İ Ş ğ ı ş) in Windows-1254 but to
+// rarely used Icelandic letters (Ð Ý Þ ð ý þ) in Windows-1252
+const WINDOWS_1254_MARKERS = new Set([0xd0, 0xdd, 0xde, 0xf0, 0xfd, 0xfe]);
+
+// A partial buffer (the start of a file) may end in the middle of a multi-byte character
+function isValidUtf8(buffer: Buffer, partial: boolean): boolean {
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(buffer, { stream: partial });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function detectEncoding(buffer: Buffer, partial = false): { encoding: TextEncoding; bomLength: number } {
+  if (buffer.length >= 3 && buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+    return { encoding: 'utf-8', bomLength: 3 };
+  }
+
+  if (isValidUtf8(buffer, partial)) {
+    return { encoding: 'utf-8', bomLength: 0 };
+  }
+
+  return { encoding: legacyEncoding(buffer), bomLength: 0 };
+}
+
+// The Windows code page of text that is not UTF-8
+function legacyEncoding(buffer: Buffer): TextEncoding {
+  for (let i = 0; i < buffer.length; i++) {
+    if (WINDOWS_1254_MARKERS.has(buffer[i])) return 'windows-1254';
+  }
+  return 'windows-1252';
+}
+
+// Like legacyEncoding, for a whole file read chunk by chunk
+async function detectFileLegacyEncoding(filePath: string): Promise<TextEncoding> {
+  for await (const chunk of fs.createReadStream(filePath)) {
+    if (legacyEncoding(chunk as Buffer) === 'windows-1254') return 'windows-1254';
+  }
+  return 'windows-1252';
+}
+
+export function decodeText(buffer: Buffer): { text: string; encoding: TextEncoding } {
+  const { encoding, bomLength } = detectEncoding(buffer);
+  const text = new TextDecoder(encoding).decode(buffer.subarray(bomLength));
+  return { text, encoding };
+}
+
+// Count delimiter occurrences per line, ignoring anything inside quotes
+function countDelimiters(text: string, delimiter: string): number[] {
+  const counts: number[] = [];
+  let current = 0;
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length && counts.length < SNIFF_LINE_LIMIT; i++) {
+    const char = text[i];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && char === delimiter) {
+      current++;
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      counts.push(current);
+      current = 0;
+    }
+  }
+
+  if (current > 0 || counts.length === 0) {
+    counts.push(current);
+  }
+
+  return counts;
+}
+
+export function sniffDelimiter(text: string, fallback = ','): string {
+  let best = fallback;
+  let bestScore = 0;
+
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    const counts = countDelimiters(text, delimiter).filter((_, index, all) =>
+      // A trailing empty line should not count against consistency
+      !(index === all.length - 1 && all[index] === 0 && index > 0)
+    );
+    if (counts.length === 0 || counts[0] === 0) continue;
+
+    // Reward delimiters that appear often and the same number of times on every line
+    const consistentLines = counts.filter(count => count === counts[0]).length;
+    const score = (consistentLines / counts.length) * counts[0];
+
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+// Incremental RFC 4180 style parser: text can be pushed in arbitrary chunks,
+// quoted fields may contain delimiters, doubled quotes and line breaks
+export class DelimitedRowParser {
+  private row: string[] = [];
+  private field = '';
+  private inQuotes = false;
+  private fieldStarted = false;
+  private pendingQuote = false;
+  private pendingCarriageReturn = false;
+
+  constructor(private readonly delimiter: string) {}
+
+  private endField() {
+    this.row.push(this.field);
+    this.field = '';
+    this.fieldStarted = false;
+  }
+
+  private endRow(rows: string[][]) {
+    this.endField();
+    // Skip completely empty lines
+    if (!(this.row.length === 1 && this.row[0] === '')) {
+      rows.push(this.row);
+    }
+    this.row = [];
+  }
+
+  push(text: string): string[][] {
+    const rows: string[][] = [];
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      // A \r\n pair may be split across chunks
+      if (this.pendingCarriageReturn) {
+        this.pendingCarriageReturn = false;
+        if (char === '\n') continue;
+      }
+
+      // A quote inside quotes is either an escaped quote or the end of the field,
+      // which is only known once the next character arrives
+      if (this.pendingQuote) {
+        this.pendingQuote = false;
+        if (char === '"') {
+          this.field += '"';
+          continue;
+        }
+        this.inQuotes = false;
+      }
+
+      if (this.inQuotes) {
+        if (char === '"') {
+          this.pendingQuote = true;
+        } else {
+          this.field += char;
+        }
+        continue;
+      }
+
+      if (char === '"' && !this.fieldStarted) {
+        this.inQuotes = true;
+        this.fieldStarted = true;
+      } else if (char === this.delimiter) {
+        this.endField();
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r') this.pendingCarriageReturn = true;
+        this.endRow(rows);
+      } else {
+        this.field += char;
+        this.fieldStarted = true;
+      }
+    }
+
+    return rows;
+  }
+
+  end(): string[][] {
+    const rows: string[][] = [];
+    if (this.pendingQuote) {
+      this.pendingQuote = false;
+      this.inQuotes = false;
+    }
+    if (this.field !== '' || this.row.length > 0) {
+      this.endRow(rows);
+    }
+    return rows;
+  }
+}
+
+export function parseDelimitedText(text: string, delimiter: string): string[][] {
+  const parser = new DelimitedRowParser(delimiter);
+  return [...parser.push(text), ...parser.end()];
+}
+
+const NUMBER_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+
+// Mirror what Excel does when opening a CSV: numbers and booleans become typed
+// values, empty fields become missing cells and everything else stays text
+export function coerceDelimitedValue(value: string): string | number | boolean | undefined {
+  const trimmed = value.trim();
+  if (trimmed === '') return undefined;
+
+  // Keep identifiers such as zip codes or account numbers with leading zeros as text
+  if (NUMBER_PATTERN.test(trimmed) && !/^[-+]?0\d/.test(trimmed)) {
+    return Number(trimmed);
+  }
+
+  const upper = trimmed.toUpperCase();
+  if (upper === 'TRUE') return true;
+  if (upper === 'FALSE') return false;
+
+  return value;
+}
+
+export function parseDelimitedBuffer(buffer: Buffer, delimiter?: string): DelimitedParseResult {
+  const { text, encoding } = decodeText(buffer);
+  const resolvedDelimiter = delimiter ?? sniffDelimiter(text);
+
+  return {
+    rows: parseDelimitedText(text, resolvedDelimiter),
+    delimiter: resolvedDelimiter,
+    encoding,
+  };
+}
+
+// Decode and parse a file from the given byte on. A fatal decoder throws at the first byte
+// sequence that is not valid in the encoding, with the code ERR_ENCODING_INVALID_ENCODED_DATA.
+async function* readDelimitedRows(filePath: string, start: number, encoding: TextEncoding, delimiter: string, fatal: boolean): AsyncGenerator<string[]> {
+  const decoder = new TextDecoder(encoding, { fatal });
+  const parser = new DelimitedRowParser(delimiter);
+
+  for await (const chunk of fs.createReadStream(filePath, { start })) {
+    for (const row of parser.push(decoder.decode(chunk as Buffer, { stream: true }))) {
+      yield row;
+    }
+  }
+
+  for (const row of [...parser.push(decoder.decode()), ...parser.end()]) {
+    yield row;
+  }
+}
+
+// Read a delimited file chunk by chunk, detecting encoding and delimiter from its first 64 KB
+export async function* streamDelimitedRows(filePath: string, delimiter?: string): AsyncGenerator<string[]> {
+  const handle = await fs.promises.open(filePath, 'r');
+  let sample: Buffer;
+  try {
+    const buffer = Buffer.alloc(SAMPLE_SIZE);
+    const { bytesRead } = await handle.read(buffer, 0, SAMPLE_SIZE, 0);
+    sample = buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+
+  const { encoding, bomLength } = detectEncoding(sample, true);
+  const resolvedDelimiter = delimiter ?? sniffDelimiter(new TextDecoder(encoding).decode(sample.subarray(bomLength)));
+  // Only the start of the file was checked, so UTF-8 without a byte order mark may still turn out to be legacy text
+  const verifyUtf8 = encoding === 'utf-8' && bomLength === 0;
+
+  let yielded = 0;
+  try {
+    for await (const row of readDelimitedRows(filePath, bomLength, encoding, resolvedDelimiter, verifyUtf8)) {
+      yield row;
+      yielded++;
+    }
+  } catch (error) {
+    if (!verifyUtf8 || (error as NodeJS.ErrnoException).code !== 'ERR_ENCODING_INVALID_ENCODED_DATA') throw error;
+
+    // Read the file again in its Windows code page and continue after the rows already returned.
+    // Delimiters, quotes and line breaks are ASCII, so rows end at the same places in either encoding.
+    const legacy = await detectFileLegacyEncoding(filePath);
+    let skipped = 0;
+    for await (const row of readDelimitedRows(filePath, 0, legacy, resolvedDelimiter, false)) {
+      if (skipped < yielded) {
+        skipped++;
+        continue;
+      }
+      yield row;
+    }
+  }
+}
@@ -0,0 +1,139 @@
+// Background import jobs. An upload returns a job id straight away; parsing then runs here and
+// reports per-sheet progress to subscribers (the Server-Sent Events endpoint) until it ends.
+import { EventEmitter } from "events";
+import { randomUUID } from "crypto";
+import type { ImportJob, ImportReport } from "@shared/schema";
+
+// Handed to the importers so they can report progress and stop when the job is cancelled
+export interface ImportProgress {
+  signal: AbortSignal;
+  sheetStarted(sheetName: string): void;
+  rowsProcessed(sheetName: string, rows: number): void;
+  sheetFinished(sheetName: string, rows: number, warnings?: string[]): void;
+}
+
+export type ImportJobListener = (job: ImportJob, result?: unknown) => void;
+
+interface JobRecord {
+  ownerId: string; // The user who started the import; other users cannot see the job
+  job: ImportJob;
+  result?: unknown;
+  controller: AbortController;
+  events: EventEmitter;
+  lastNotified: number;
+}
+
+const jobs = new Map<string, JobRecord>();
+// Finished jobs stay available for a while so a client that reconnects still gets the outcome
+const FINISHED_JOB_TTL_MS = 10 * 60 * 1000;
+// Row counts are reported at most this often, sheet changes are always reported
+const PROGRESS_INTERVAL_MS = 250;
+
+// Jobs of other users are treated as missing
+function ownedJob(id: string, ownerId: string): JobRecord | undefined {
+  const record = jobs.get(id);
+  return record?.ownerId === ownerId ? record : undefined;
+}
+
+function notify(record: JobRecord) {
+  record.lastNotified = Date.now();
+  record.events.emit('update', record.job, record.result);
+}
+
+function sheetProgress(record: JobRecord, sheetName: string) {
+  let sheet = record.job.sheets.find(s => s.sheetName === sheetName);
+  if (!sheet) {
+    sheet = { sheetName, status: 'parsing', rowsProcessed: 0, warnings: [] };
+    record.job.sheets.push(sheet);
+  }
+  return sheet;
+}
+
+export function startImportJob(ownerId: string, fileName: string, run: (progress: ImportProgress) => Promise<unknown>): ImportJob {
+  const record: JobRecord = {
+    ownerId,
+    job: {
+      id: randomUUID(),
+      fileName,
+      status: 'running',
+      sheets: [],
+      createdAt: new Date().toISOString(),
+    },
+    controller: new AbortController(),
+    events: new EventEmitter(),
+    lastNotified: 0,
+  };
+  jobs.set(record.job.id, record);
+
+  const progress: ImportProgress = {
+    signal: record.controller.signal,
+    sheetStarted(sheetName) {
+      sheetProgress(record, sheetName);
+      notify(record);
+    },
+    rowsProcessed(sheetName, rows) {
+      sheetProgress(record, sheetName).rowsProcessed = rows;
+      if (Date.now() - record.lastNotified >= PROGRESS_INTERVAL_MS) notify(record);
+    },
+    sheetFinished(sheetName, rows, warnings = []) {
+      Object.assign(sheetProgress(record, sheetName), { status: 'done', rowsProcessed: rows, warnings });
+      notify(record);
+    },
+  };
+
+  const finish = (status: ImportJob['status'], result?: unknown, error?: string) => {
+    record.job = { ...record.job, status, ...(error ? { error } : {}) };
+    record.result = result;
+    notify(record);
+    record.events.removeAllListeners();
+    setTimeout(() => jobs.delete(record.job.id), FINISHED_JOB_TTL_MS).unref();
+  };
+
+  // Run on the next tick so the caller can answer the upload request first
+  setImmediate(() => {
+    run(progress)
+      .then(result => finish('completed', result))
+      .catch(error => {
+        if (record.controller.signal.aborted) {
+          finish('cancelled');
+        } else {
+          console.error('Import job error:', error);
+          finish('failed', undefined, error instanceof Error ? error.message : 'Error processing file');
+        }
+      });
+  });
+
+  return record.job;
+}
+
+export function getImportJob(id: string, ownerId: string): ImportJob | undefined {
+  return ownedJob(id, ownerId)?.job;
+}
+
+// Calls the listener with the current state right away, then on every change until the job ends
+export function subscribeToImportJob(id: string, ownerId: string, listener: ImportJobListener): () => void {
+  const record = ownedJob(id, ownerId);
+  if (!record) return () => {};
+
+  listener(record.job, record.result);
+  if (record.job.status !== 'running') return () => {};
+
+  record.events.on('update', listener);
+  return () => record.events.off('update', listener);
+}
+
+export function cancelImportJob(id: string, ownerId: string): ImportJob | undefined {
+  const record = ownedJob(id, ownerId);
+  if (record?.job.status === 'running') record.controller.abort();
+  return record?.job;
+}
+
+// Short notes about what the importer changed or skipped, shown next to each sheet's progress
+export function importReportWarnings(report: ImportReport | null | undefined): string[] {
+  if (!report) return [];
+  const warnings = [...(report.warnings ?? [])];
+  if (report.renamedColumns.length > 0) {
+    warnings.push(`${report.renamedColumns.length} column${report.renamedColumns.length === 1 ? '' : 's'} renamed`);
+  }
+  return warnings;
+}
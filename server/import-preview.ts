@@ -0,0 +1,154 @@
+// Import previews. A single uploaded file is parsed only as far as needed to show its sheets,
+// columns and first rows; the file itself waits in the uploads folder until the user commits
+// the import or the preview expires.
+import fs from "fs";
+import { randomUUID } from "crypto";
+import { parseUploadedFile, type ParsedSheet } from "./importer";
+import { canStreamImport, streamPreviewFile } from "./stream-import";
+import { calculateColumnStatistics } from "./statistics";
+import { importReportWarnings } from "./import-jobs";
+import {
+  PREVIEW_ROW_COUNT,
+  STREAMING_THRESHOLD_BYTES,
+  type ImportCommit,
+  type ImportPreview,
+  type SheetPreview,
+  type UploadOptions,
+} from "@shared/schema";
+
+// Who an upload belongs to: the user who sent it and the workspace it is imported into
+export interface UploadScope {
+  ownerId: string;
+  workspaceId: string;
+}
+
+// An uploaded file waiting to be imported
+export interface StoredUpload extends UploadScope {
+  path: string;
+  filename: string;
+  originalName: string;
+  size: number;
+  mimeType: string;
+  batchId: string;
+}
+
+interface StagedImport {
+  preview: ImportPreview;
+  upload: StoredUpload;
+  options?: UploadOptions;
+  timer: NodeJS.Timeout;
+}
+
+const stagedImports = new Map<string, StagedImport>();
+// Uploads whose preview is never committed are removed after this long
+const PREVIEW_TTL_MS = 60 * 60 * 1000;
+
+function removeUpload(upload: StoredUpload) {
+  fs.promises.unlink(upload.path).catch(cleanupError => {
+    console.error('Error cleaning up file:', cleanupError);
+  });
+}
+
+// Types are inferred from every parsed row when the whole sheet was read, otherwise from the preview rows
+function sheetPreview(sheet: ParsedSheet, complete: boolean): SheetPreview {
+  const rows = sheet.rows.slice(0, PREVIEW_ROW_COUNT).map(row => sheet.headers.map((_, index) => row[index] ?? null));
+  const sampleRows = complete ? sheet.rows : rows;
+  const warnings = importReportWarnings(sheet.importReport);
+  if (sheet.headers.length === 0) warnings.push('No columns found');
+
+  return {
+    sheetName: sheet.sheetName,
+    sourceType: sheet.sourceType ?? 'sheet',
+    columns: sheet.headers.map((name, index) => ({
+      name,
+      inferredType: calculateColumnStatistics(sampleRows.map(row => row[index]), name).dataType,
+    })),
+    rows,
+    ...(complete ? { rowCount: sheet.rows.length } : {}),
+    ...(sheet.importOptions ? {
+      headerRow: sheet.importOptions.headerRow,
+      headerDetected: sheet.importOptions.headerDetected,
+    } : {}),
+    warnings,
+  };
+}
+
+// Parse the upload for a preview and keep it until it is committed or discarded
+export async function createImportPreview(upload: StoredUpload, options?: UploadOptions): Promise<ImportPreview> {
+  // Large files are only read as far as the preview rows, everything else is parsed as it will be imported
+  const streamed = upload.size >= STREAMING_THRESHOLD_BYTES && canStreamImport(upload.originalName, upload.mimeType);
+  const sheets = streamed
+    ? await streamPreviewFile(upload.path, upload.originalName, upload.mimeType, options)
+    : parseUploadedFile(upload.path, upload.originalName, upload.mimeType, options);
+
+  const preview: ImportPreview = {
+    id: randomUUID(),
+    fileName: upload.originalName,
+    size: upload.size,
+    sheets: sheets.map(sheet => sheetPreview(sheet, !streamed)),
+    expiresAt: new Date(Date.now() + PREVIEW_TTL_MS).toISOString(),
+  };
+
+  const timer = setTimeout(() => discardImportPreview(preview.id, upload), PREVIEW_TTL_MS);
+  timer.unref();
+  stagedImports.set(preview.id, { preview, upload, options, timer });
+  return preview;
+}
+
+// Previews of other users, or made in another workspace, are treated as missing
+function scopedStagedImport(id: string, scope: UploadScope): StagedImport | undefined {
+  const staged = stagedImports.get(id);
+  return staged?.upload.ownerId === scope.ownerId && staged.upload.workspaceId === scope.workspaceId ? staged : undefined;
+}
+
+export function getImportPreview(id: string, scope: UploadScope): ImportPreview | undefined {
+  return scopedStagedImport(id, scope)?.preview;
+}
+
+// Hand the staged upload over to be imported; the preview can only be committed once
+export function takeStagedImport(id: string, scope: UploadScope): { upload: StoredUpload; options?: UploadOptions } | undefined {
+  const staged = scopedStagedImport(id, scope);
+  if (!staged) return undefined;
+
+  clearTimeout(staged.timer);
+  stagedImports.delete(id);
+  return { upload: staged.upload, options: staged.options };
+}
+
+export function discardImportPreview(id: string, scope: UploadScope): boolean {
+  const staged = takeStagedImport(id, scope);
+  if (staged) removeUpload(staged.upload);
+  return staged !== undefined;
+}
+
+// Check the user's choices against the preview, e.g. that renamed columns stay unique.
+// Returns an error message, or undefined when the selection can be imported.
+export function validateImportCommit(preview: ImportPreview, commit: ImportCommit): string | undefined {
+  for (const sheetName of Object.keys(commit.sheets)) {
+    if (!preview.sheets.some(sheet => sheet.sheetName === sheetName)) {
+      return `Unknown sheet: ${sheetName}`;
+    }
+  }
+
+  const included = preview.sheets.filter(sheet => commit.sheets[sheet.sheetName]?.include ?? true);
+  if (!included.some(sheet => sheet.columns.length > 0)) {
+    return 'Select at least one sheet to import';
+  }
+
+  for (const sheet of included) {
+    const columns = commit.sheets[sheet.sheetName]?.columns ?? {};
+    for (const column of Object.keys(columns)) {
+      if (!sheet.columns.some(c => c.name === column)) {
+        return `Unknown column ${column} in ${sheet.sheetName}`;
+      }
+    }
+
+    const names = sheet.columns.map(column => columns[column.name]?.name ?? column.name);
+    const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+    if (duplicate) {
+      return `Column ${duplicate} appears more than once in ${sheet.sheetName}`;
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,409 @@
+import XLSX from "xlsx";
+import path from "path";
+import fs from "fs";
+import { parseDelimitedBuffer, coerceDelimitedValue } from "./delimited";
+import { parseJsonBuffer } from "./json-import";
+import { applyImportOptions, normalizeHeaders, sliceGridRange } from "./sheet-layout";
+import { readNamedRanges, readTableDefinitions, type TableDefinition } from "./workbook-tables";
+import {
+  importOptionsSchema,
+  type DataSourceType,
+  type AppliedImportOptions,
+  type ImportOptions,
+  type ImportReport,
+  type UploadOptions,
+} from "@shared/schema";
+
+export type UploadFormat = 'spreadsheet' | 'delimited' | 'json';
+
+// A single table with its header resolved, ready to be turned into an excelData entry
+export interface ParsedSheet {
+  sheetName: string;
+  headers: string[];
+  rows: any[][];
+  importOptions?: AppliedImportOptions;
+  importReport?: ImportReport;
+  cellText?: (string | undefined)[][]; // Displayed text per cell, set only where it differs from the value
+  columnFormats?: (string | undefined)[]; // Number format per column, e.g. "0.00%"
+  cellDetails?: PositionalCellDetail[]; // Only filled by a rich import
+  sourceType?: DataSourceType;
+  sourceRef?: string; // Where the dataset came from, e.g. "Sheet1!A1:F40"
+  date1904?: boolean; // Date serials of the workbook count from 1904, as in older Mac workbooks
+}
+
+// A formula, hyperlink or comment addressed by data row and column position
+export interface PositionalCellDetail {
+  row: number;
+  column: number;
+  formula?: string;
+  hyperlink?: string;
+  comment?: string;
+}
+
+const SPREADSHEET_EXTENSIONS = ['.xlsx', '.xls', '.ods'];
+const DELIMITED_EXTENSIONS = ['.csv', '.tsv', '.tab', '.txt'];
+const JSON_EXTENSIONS = ['.json', '.ndjson', '.jsonl'];
+const NDJSON_EXTENSIONS = ['.ndjson', '.jsonl'];
+
+const SPREADSHEET_MIME_TYPES = [
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', // .xlsx
+  'application/vnd.ms-excel', // .xls (browsers on Windows also report .csv this way)
+  'application/vnd.oasis.opendocument.spreadsheet', // .ods
+];
+
+const DELIMITED_MIME_TYPES = [
+  'text/csv',
+  'text/tab-separated-values',
+  'text/plain',
+  'application/csv',
+];
+
+const JSON_MIME_TYPES = [
+  'application/json',
+  'application/x-ndjson',
+  'application/jsonl',
+];
+
+export function detectUploadFormat(originalName: string, mimeType: string): UploadFormat | null {
+  const extension = path.extname(originalName).toLowerCase();
+
+  // The extension is more reliable than the MIME type, which differs between browsers and OSes
+  if (SPREADSHEET_EXTENSIONS.includes(extension)) return 'spreadsheet';
+  if (DELIMITED_EXTENSIONS.includes(extension)) return 'delimited';
+  if (JSON_EXTENSIONS.includes(extension)) return 'json';
+
+  if (SPREADSHEET_MIME_TYPES.includes(mimeType)) return 'spreadsheet';
+  if (DELIMITED_MIME_TYPES.includes(mimeType)) return 'delimited';
+  if (JSON_MIME_TYPES.includes(mimeType)) return 'json';
+
+  return null;
+}
+
+export function baseSheetName(originalName: string): string {
+  return path.basename(originalName, path.extname(originalName)) || 'Sheet1';
+}
+
+// Merge the upload-wide defaults with the overrides for one sheet
+export function resolveSheetOptions(options: UploadOptions | undefined, sheetName: string): ImportOptions {
+  const { sheets, ...defaults } = options ?? {};
+  return importOptionsSchema.parse({ ...defaults, ...sheets?.[sheetName] });
+}
+
+// Copy the value of every merged cell into the whole merged area so merged
+// header labels and grouped values are not lost to empty cells
+function fillMergedCells(worksheet: XLSX.WorkSheet) {
+  (worksheet['!merges'] ?? []).forEach(merge => {
+    const source = worksheet[XLSX.utils.encode_cell(merge.s)];
+    if (!source) return;
+
+    for (let r = merge.s.r; r <= merge.e.r; r++) {
+      for (let c = merge.s.c; c <= merge.e.c; c++) {
+        const address = XLSX.utils.encode_cell({ r, c });
+        if (!worksheet[address]) worksheet[address] = { ...source };
+      }
+    }
+  });
+}
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+// Convert an Excel date serial to an ISO string without going through the local time zone
+export function excelSerialToIso(serial: number, date1904 = false): string {
+  const date = XLSX.SSF.parse_date_code(serial, { date1904 });
+  const day = `${pad(date.y, 4)}-${pad(date.m)}-${pad(date.d)}`;
+  if (date.H === 0 && date.M === 0 && date.S === 0) return day;
+  return `${day}T${pad(date.H)}:${pad(date.M)}:${pad(date.S)}`;
+}
+
+function isDateCell(cell: XLSX.CellObject): boolean {
+  return cell.t === 'n' && typeof cell.z === 'string' && XLSX.SSF.is_date(cell.z);
+}
+
+// Typed value of a cell: numbers, booleans, text, and dates as ISO strings
+function cellValue(cell: XLSX.CellObject | undefined, date1904: boolean): any {
+  if (!cell) return undefined;
+
+  switch (cell.t) {
+    case 'n':
+      return isDateCell(cell) ? excelSerialToIso(cell.v as number, date1904) : cell.v;
+    case 'd':
+      return (cell.v as Date).toISOString();
+    case 'b':
+    case 's':
+      return cell.v;
+    case 'e':
+      // Keep error codes such as #DIV/0! visible as text
+      return cell.w ?? null;
+    default:
+      return undefined;
+  }
+}
+
+// Import options that do not fit the file, such as a range outside the cells of its sheet.
+// Routes answer these with a 400 rather than a server error.
+export class ImportOptionsError extends Error {}
+
+interface WorksheetGrid {
+  values: any[][];
+  cells: (XLSX.CellObject | undefined)[][];
+}
+
+// Helper function to limit a range to the cells a worksheet uses. Only the end is clamped, so rows
+// and columns keep their place within the range; undefined when the two do not overlap.
+function clampToUsedRange(worksheet: XLSX.WorkSheet, range: string): XLSX.Range | undefined {
+  const used = worksheet['!ref'];
+  if (!used) return undefined;
+
+  const { s, e } = XLSX.utils.decode_range(range.toUpperCase());
+  const bounds = XLSX.utils.decode_range(used);
+  if (s.r > bounds.e.r || s.c > bounds.e.c || e.r < bounds.s.r || e.c < bounds.s.c) return undefined;
+  return { s, e: { r: Math.min(e.r, bounds.e.r), c: Math.min(e.c, bounds.e.c) } };
+}
+
+// Read the cells of a worksheet row by row, optionally limited to a range and skipping hidden rows/columns.
+// A range is clamped to the used cells first, so one such as A1:XFD1048576 does not walk billions of empty cells.
+function readWorksheetGrid(worksheet: XLSX.WorkSheet, options: ImportOptions, date1904: boolean): WorksheetGrid {
+  const ref = worksheet['!ref'];
+  const range = options.range ? clampToUsedRange(worksheet, options.range) : ref && XLSX.utils.decode_range(ref);
+  if (!range) return { values: [], cells: [] };
+
+  const { s, e } = range;
+  const hiddenRows = worksheet['!rows'] ?? [];
+  const hiddenCols = worksheet['!cols'] ?? [];
+
+  const columns: number[] = [];
+  for (let c = s.c; c <= e.c; c++) {
+    if (!(options.ignoreHidden && hiddenCols[c]?.hidden)) columns.push(c);
+  }
+
+  const values: any[][] = [];
+  const cells: (XLSX.CellObject | undefined)[][] = [];
+  for (let r = s.r; r <= e.r; r++) {
+    if (options.ignoreHidden && hiddenRows[r]?.hidden) continue;
+
+    const rowCells = columns.map(c => worksheet[XLSX.utils.encode_cell({ r, c })] as XLSX.CellObject | undefined);
+    cells.push(rowCells);
+    values.push(rowCells.map(cell => cellValue(cell, date1904)));
+  }
+
+  return { values, cells };
+}
+
+// The displayed text of a cell when it tells more than the value itself, e.g. "$1,200.00" or "15%"
+function cellDisplayText(cell: XLSX.CellObject | undefined, value: any): string | undefined {
+  if (!cell || cell.w === undefined || cell.t === 's' || cell.t === 'b' || cell.t === 'e') return undefined;
+  return cell.w !== String(value) ? cell.w : undefined;
+}
+
+function extractCellDetails(dataCells: (XLSX.CellObject | undefined)[][]): PositionalCellDetail[] {
+  const details: PositionalCellDetail[] = [];
+
+  dataCells.forEach((rowCells, row) => {
+    rowCells.forEach((cell, column) => {
+      if (!cell) return;
+
+      const detail: PositionalCellDetail = { row, column };
+      if (cell.f) detail.formula = `=${cell.f}`;
+      if (cell.l?.Target) detail.hyperlink = cell.l.Target;
+      if (cell.c?.length) {
+        detail.comment = cell.c.map(comment => comment.a ? `${comment.a}: ${comment.t}` : comment.t).join('\n');
+      }
+
+      if (detail.formula || detail.hyperlink || detail.comment) details.push(detail);
+    });
+  });
+
+  return details;
+}
+
+// The most common non-General number format among a column's data cells
+function dominantFormat(cells: (XLSX.CellObject | undefined)[]): string | undefined {
+  const counts: Record<string, number> = {};
+  cells.forEach(cell => {
+    const format = cell?.z;
+    if (typeof format === 'string' && format !== 'General') {
+      counts[format] = (counts[format] || 0) + 1;
+    }
+  });
+
+  let best: string | undefined;
+  Object.keys(counts).forEach(format => {
+    if (best === undefined || counts[format] > counts[best]) best = format;
+  });
+  return best;
+}
+
+// Turn one block of a worksheet (the used range, a table or a named range) into a dataset
+function parseWorksheetBlock(
+  worksheet: XLSX.WorkSheet,
+  datasetName: string,
+  blockOptions: ImportOptions,
+  date1904: boolean,
+  table?: TableDefinition,
+): ParsedSheet {
+  const grid = readWorksheetGrid(worksheet, blockOptions, date1904);
+  const totalsRowCount = table?.totalsRowCount ?? 0;
+  const values = grid.values.slice(0, grid.values.length - totalsRowCount);
+  const cells = grid.cells.slice(0, grid.cells.length - totalsRowCount);
+
+  // Tables without a header row get an empty one, which is then named Column_1, Column_2, ...
+  if (table && table.headerRowCount === 0) {
+    values.unshift([]);
+    cells.unshift([]);
+  }
+
+  const layout = applyImportOptions(values, blockOptions);
+  const dataCells = layout.rowIndices.map(i => cells[i]);
+
+  return {
+    sheetName: datasetName,
+    ...layout,
+    cellText: dataCells.map((rowCells, rowIndex) =>
+      rowCells.map((cell, column) => cellDisplayText(cell, layout.rows[rowIndex][column]))
+    ),
+    columnFormats: layout.headers.map((_, column) => dominantFormat(dataCells.map(rowCells => rowCells[column]))),
+    cellDetails: blockOptions.richImport ? extractCellDetails(dataCells) : undefined,
+    date1904,
+  };
+}
+
+// A table's header and range are fixed by Excel, only the reading preferences carry over
+function tableOptions(options: UploadOptions | undefined, table: TableDefinition): ImportOptions {
+  const { ignoreHidden, richImport } = resolveSheetOptions(options, table.name);
+  return importOptionsSchema.parse({ headerRow: 0, range: table.ref, ignoreHidden, richImport });
+}
+
+// Handles .xlsx, .xls and OpenDocument .ods workbooks. Sheets holding Excel tables are split into
+// one dataset per table, and every named range becomes an additional dataset.
+function parseSpreadsheetFile(filePath: string, options?: UploadOptions): ParsedSheet[] {
+  const fileBuffer = fs.readFileSync(filePath);
+  // Row and column visibility is only read with cell styles, number formats only with cellNF
+  const workbook = XLSX.read(fileBuffer, { type: 'buffer', cellStyles: true, cellNF: true, cellFormula: true });
+  const tables = readTableDefinitions(fileBuffer);
+  const namedRanges = readNamedRanges(workbook);
+  const date1904 = !!workbook.Workbook?.WBProps?.date1904;
+  const datasets: ParsedSheet[] = [];
+
+  workbook.SheetNames.forEach(sheetName => {
+    const worksheet = workbook.Sheets[sheetName];
+    fillMergedCells(worksheet);
+
+    const sheetTables = tables.filter(table => table.sheetName === sheetName);
+    if (sheetTables.length === 0) {
+      const sheetOptions = resolveSheetOptions(options, sheetName);
+      if (sheetOptions.range && worksheet['!ref'] && !clampToUsedRange(worksheet, sheetOptions.range)) {
+        throw new ImportOptionsError(`Range ${sheetOptions.range} is outside the cells of sheet ${sheetName} (${worksheet['!ref']})`);
+      }
+      datasets.push({
+        ...parseWorksheetBlock(worksheet, sheetName, sheetOptions, date1904),
+        sourceType: 'sheet',
+        sourceRef: sheetName,
+      });
+      return;
+    }
+
+    sheetTables.forEach(table => {
+      datasets.push({
+        ...parseWorksheetBlock(worksheet, table.name, tableOptions(options, table), date1904, table),
+        sourceType: 'table',
+        sourceRef: `${sheetName}!${table.ref}`,
+      });
+    });
+  });
+
+  namedRanges.forEach(namedRange => {
+    const rangeOptions = {
+      ...resolveSheetOptions(options, namedRange.name),
+      range: namedRange.ref,
+    };
+    datasets.push({
+      ...parseWorksheetBlock(workbook.Sheets[namedRange.sheetName], namedRange.name, rangeOptions, date1904),
+      sourceType: 'namedRange',
+      sourceRef: `${namedRange.sheetName}!${namedRange.ref}`,
+    });
+  });
+
+  return datasets;
+}
+
+// Tab separated extensions fix the delimiter, everything else is sniffed from the content
+export function delimiterForFile(originalName: string): string | undefined {
+  const extension = path.extname(originalName).toLowerCase();
+  return extension === '.tsv' || extension === '.tab' ? '\t' : undefined;
+}
+
+export function isNewlineDelimitedJson(originalName: string, mimeType: string): boolean {
+  const extension = path.extname(originalName).toLowerCase();
+  return NDJSON_EXTENSIONS.includes(extension) || mimeType === 'application/x-ndjson';
+}
+
+// Resolve the header of a grid of cell text, as read from a delimited file or pasted from the clipboard
+function parseTextGrid(sheetName: string, rows: string[][], options: ImportOptions): ParsedSheet {
+  const grid = options.range ? sliceGridRange(rows, options.range) : rows;
+  const layout = applyImportOptions(grid, options);
+
+  return {
+    sheetName,
+    ...layout,
+    // Header cells stay as text, data cells are typed like Excel would type them
+    rows: layout.rows.map(row => row.map(coerceDelimitedValue)),
+  };
+}
+
+function parseDelimitedFile(filePath: string, originalName: string, options?: UploadOptions): ParsedSheet[] {
+  const { rows } = parseDelimitedBuffer(fs.readFileSync(filePath), delimiterForFile(originalName));
+
+  const sheetName = baseSheetName(originalName);
+  return [parseTextGrid(sheetName, rows, resolveSheetOptions(options, sheetName))];
+}
+
+function parseJsonFile(filePath: string, originalName: string, mimeType: string): ParsedSheet[] {
+  const newlineDelimited = isNewlineDelimitedJson(originalName, mimeType);
+  return parseJsonBuffer(fs.readFileSync(filePath), baseSheetName(originalName), newlineDelimited);
+}
+
+function readSheets(
+  filePath: string,
+  originalName: string,
+  mimeType: string,
+  options?: UploadOptions,
+): ParsedSheet[] {
+  const format = detectUploadFormat(originalName, mimeType);
+
+  switch (format) {
+    case 'spreadsheet':
+      return parseSpreadsheetFile(filePath, options);
+    case 'delimited':
+      return parseDelimitedFile(filePath, originalName, options);
+    case 'json':
+      return parseJsonFile(filePath, originalName, mimeType);
+    default:
+      throw new Error(`Unsupported file type: ${originalName}`);
+  }
+}
+
+// Row values are stored by column name, so names must be unique and non-empty
+function withNormalizedHeaders(sheet: ParsedSheet): ParsedSheet {
+  const { headers, renamedColumns } = normalizeHeaders(sheet.headers);
+  return {
+    ...sheet,
+    headers,
+    importReport: { renamedColumns },
+  };
+}
+
+export function parseUploadedFile(
+  filePath: string,
+  originalName: string,
+  mimeType: string,
+  options?: UploadOptions,
+): ParsedSheet[] {
+  return readSheets(filePath, originalName, mimeType, options).map(withNormalizedHeaders);
+}
+
+// Cells pasted from the clipboard are read like the cells of a tab separated file
+export function parsePastedRows(sheetName: string, rows: string[][], options?: ImportOptions): ParsedSheet {
+  return withNormalizedHeaders(parseTextGrid(sheetName, rows, options ?? importOptionsSchema.parse({})));
+}
@@ -1,9 +1,12 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { storage } from "./storage";
 import { setupVite, serveStatic, log } from "./vite";
+import { MAX_PASTE_BYTES } from "@shared/schema";
 
 const app = express();
-app.use(express.json());
+// Raised from the 100kb default so a large range pasted from the clipboard fits in one request
+app.use(express.json({ limit: MAX_PASTE_BYTES }));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -37,6 +40,8 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Apply pending database migrations before any request can reach storage
+  await storage.initialize();
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -0,0 +1,52 @@
+// Invites for workspace members and file shares added by email. Such entries only match users by
+// a verified email (see verifiedEmail in server/storage.ts); anyone else opens the entry's invite
+// link while signed in to accept it, which binds the entry to their user id. The link's token
+// is signed like share links (see server/sharing.ts) and names the entry, so it stops working once
+// accepted or when the member or share is removed, and at the latest INVITE_DAYS after the entry
+// was added; the entry is then added again for a new invite.
+import { SignJWT, errors as joseErrors, jwtVerify } from "jose";
+import type { FileShare, FileShareWithInvite, WorkspaceMember, WorkspaceMemberWithInvite } from "@shared/schema";
+import { shareLinkSecret } from "./sharing";
+
+export type InviteKind = 'member' | 'share';
+
+const INVITE_AUDIENCE = 'invite';
+export const INVITE_DAYS = 7;
+
+// Helper function to sign the invite of an entry. The claims only come from the entry, so the
+// same token is shown each time the entry is listed.
+async function signInvite(kind: InviteKind, entry: WorkspaceMember | FileShare) {
+  const inviteExpiresAt = new Date(entry.createdAt.getTime() + INVITE_DAYS * 24 * 60 * 60 * 1000);
+  const inviteToken = await new SignJWT({ kind })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setSubject(entry.id)
+    .setAudience(INVITE_AUDIENCE)
+    .setIssuedAt(Math.floor(entry.createdAt.getTime() / 1000))
+    .setExpirationTime(Math.floor(inviteExpiresAt.getTime() / 1000))
+    .sign(shareLinkSecret());
+  return { inviteToken, inviteExpiresAt };
+}
+
+// Add the invite to a member that no user accepted yet
+export async function withMemberInvite(member: WorkspaceMember): Promise<WorkspaceMemberWithInvite> {
+  return member.userId ? member : { ...member, ...await signInvite('member', member) };
+}
+
+// Add the invite to a share that no user accepted yet
+export async function withShareInvite(share: FileShare): Promise<FileShareWithInvite> {
+  return share.userId ? share : { ...share, ...await signInvite('share', share) };
+}
+
+// Read which entry an invite token names, or undefined when the token is not a valid invite or
+// expired
+export async function verifyInviteToken(token: string): Promise<{ kind: InviteKind; id: string } | undefined> {
+  try {
+    const { payload } = await jwtVerify(token, shareLinkSecret(), { audience: INVITE_AUDIENCE, algorithms: ['HS256'] });
+    const kind = payload.kind;
+    if ((kind !== 'member' && kind !== 'share') || !payload.sub) return undefined;
+    return { kind, id: payload.sub };
+  } catch (error) {
+    if (error instanceof joseErrors.JOSEError) return undefined;
+    throw error;
+  }
+}
@@ -0,0 +1,127 @@
+// Parser for JSON arrays and newline-delimited JSON (NDJSON) record sets
+import fs from "fs";
+import readline from "readline";
+import { decodeText } from "./delimited";
+import type { ParsedSheet } from "./importer";
+
+type JsonRecord = Record<string, unknown>;
+
+function isPlainObject(value: unknown): value is JsonRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Flatten nested objects into dotted column names: { a: { b: 1 } } -> { "a.b": 1 }
+export function flattenRecord(record: JsonRecord, prefix = '', target: JsonRecord = {}): JsonRecord {
+  Object.keys(record).forEach(key => {
+    const value = record[key];
+    const column = prefix ? `${prefix}.${key}` : key;
+
+    if (isPlainObject(value) && Object.keys(value).length > 0) {
+      flattenRecord(value, column, target);
+    } else if (Array.isArray(value)) {
+      // Arrays do not map onto a single cell, keep them readable as JSON text
+      target[column] = JSON.stringify(value);
+    } else {
+      target[column] = isPlainObject(value) ? null : value;
+    }
+  });
+
+  return target;
+}
+
+function recordsToSheet(sheetName: string, records: unknown[]): ParsedSheet {
+  const flattened = records.map(record =>
+    isPlainObject(record) ? flattenRecord(record) : { value: record }
+  );
+
+  // Union of all keys in the order they are first seen
+  const headers: string[] = [];
+  const seen = new Set<string>();
+  flattened.forEach(record => {
+    Object.keys(record).forEach(key => {
+      if (!seen.has(key)) {
+        seen.add(key);
+        headers.push(key);
+      }
+    });
+  });
+
+  return {
+    sheetName,
+    headers,
+    rows: flattened.map(record => headers.map(header => record[header])),
+  };
+}
+
+function parseNdjson(text: string): unknown[] {
+  return text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+    .map((line, index) => {
+      try {
+        return JSON.parse(line);
+      } catch {
+        throw new Error(`Invalid JSON on line ${index + 1}`);
+      }
+    });
+}
+
+export function parseJsonBuffer(buffer: Buffer, sheetName: string, newlineDelimited = false): ParsedSheet[] {
+  const { text } = decodeText(buffer);
+
+  if (newlineDelimited) {
+    return [recordsToSheet(sheetName, parseNdjson(text))];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    // Files saved with a .json extension are often NDJSON exports
+    return [recordsToSheet(sheetName, parseNdjson(text))];
+  }
+
+  if (Array.isArray(parsed)) {
+    return [recordsToSheet(sheetName, parsed)];
+  }
+
+  if (isPlainObject(parsed)) {
+    // An object of record arrays ({ "orders": [...], "customers": [...] }) becomes one sheet per array
+    const collections = Object.keys(parsed).filter(key =>
+      Array.isArray(parsed[key]) && (parsed[key] as unknown[]).some(isPlainObject)
+    );
+
+    if (collections.length > 0) {
+      return collections.map(key => recordsToSheet(key, parsed[key] as unknown[]));
+    }
+
+    return [recordsToSheet(sheetName, [parsed])];
+  }
+
+  throw new Error('JSON file must contain an array of records or an object');
+}
+
+// Read an NDJSON file line by line, yielding each record already flattened
+export async function* streamNdjsonRecords(filePath: string): AsyncGenerator<JsonRecord> {
+  const lines = readline.createInterface({
+    input: fs.createReadStream(filePath, { encoding: 'utf-8' }),
+    crlfDelay: Infinity,
+  });
+
+  let lineNumber = 0;
+  for await (const line of lines) {
+    lineNumber++;
+    // Strip a UTF-8 byte order mark from the first line
+    const trimmed = (lineNumber === 1 ? line.replace(/^\uFEFF/, '') : line).trim();
+    if (!trimmed) continue;
+
+    let record: unknown;
+    try {
+      record = JSON.parse(trimmed);
+    } catch {
+      throw new Error(`Invalid JSON on line ${lineNumber}`);
+    }
+    yield isPlainObject(record) ? flattenRecord(record) : { value: record };
+  }
+}
@@ -0,0 +1,162 @@
+// Local accounts for installs without Supabase (AUTH_MODE=local). Users sign up with an email and
+// password, stored as a salted scrypt hash in the users table, and stay signed in through a session
+// cookie. Sessions are kept in memory, so users sign in again after the server restarts.
+import type { Express, NextFunction, Request, Response } from "express";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { signInSchema, signUpSchema, type PublicUser, type User } from "@shared/schema";
+import type { IStorage } from "./storage";
+import type { AuthUser } from "./auth";
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+const HASH_SCHEME = 'scrypt';
+const HASH_KEY_LENGTH = 64;
+const SESSION_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Stored as "scrypt:<salt>:<hash>" in hex, so the scheme can change without breaking older hashes
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, HASH_KEY_LENGTH);
+  return `${HASH_SCHEME}:${salt.toString('hex')}:${hash.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split(':');
+  if (scheme !== HASH_SCHEME || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'hex'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+// Helper function to read the secret signing session cookies. Without SESSION_SECRET a random one
+// is used, which signs everyone out when the server restarts, as the memory store does anyway.
+function sessionSecret(): string {
+  const configured = process.env.SESSION_SECRET;
+  if (!configured) {
+    console.warn('SESSION_SECRET is not set; using a random secret for session cookies');
+  }
+  return configured || randomBytes(32).toString('hex');
+}
+
+// Helper function to turn an account into the user routes see as req.user. Signing up sends no
+// confirmation email, so the email is unverified.
+function sessionUser(user: User): AuthUser {
+  return { id: user.id, email: user.email, role: 'authenticated', emailVerified: false };
+}
+
+// Helper function to strip the password hash from an account before it is sent to the browser
+function publicUser({ passwordHash, ...user }: User): PublicUser {
+  return user;
+}
+
+// Helper function to start a session for the user; passport regenerates the session id first
+function startSession(req: Request, user: User): Promise<void> {
+  return new Promise((resolve, reject) => req.login(sessionUser(user), error => error ? reject(error) : resolve()));
+}
+
+// Install the session middleware and the sign-in routes under /api/auth. Must run before the
+// API's authentication middleware, which then only checks that the session has a user.
+export function setupLocalAuth(app: Express, store: IStorage) {
+  const MemoryStore = createMemoryStore(session);
+  app.use("/api", session({
+    secret: sessionSecret(),
+    resave: false,
+    saveUninitialized: false,
+    store: new MemoryStore({ checkPeriod: SESSION_MAX_AGE_MS }),
+    cookie: { httpOnly: true, sameSite: 'lax', secure: 'auto', maxAge: SESSION_MAX_AGE_MS },
+  }));
+
+  passport.use(new LocalStrategy({ usernameField: 'email' }, async (email, password, done) => {
+    try {
+      const user = await store.getUserByEmail(email);
+      const valid = user ? await verifyPassword(password, user.passwordHash) : false;
+      done(null, valid ? user : false);
+    } catch (error) {
+      done(error);
+    }
+  }));
+  // The session only keeps the user's id; the account is read again on every request, so a
+  // deleted account is signed out at once
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await store.getUser(id);
+      done(null, user ? sessionUser(user) : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+  app.use("/api", passport.initialize(), passport.session());
+
+  app.post("/api/auth/signup", async (req, res) => {
+    try {
+      const parsed = signUpSchema.safeParse(req.body);
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        return res.status(400).json({ message: `${issue.path.join('.') || 'request'}: ${issue.message}` });
+      }
+
+      const { email, password, fullName } = parsed.data;
+      if (await store.getUserByEmail(email)) {
+        return res.status(409).json({ message: "An account with this email already exists" });
+      }
+
+      const user = await store.createUser({ email, fullName, passwordHash: await hashPassword(password) });
+      await startSession(req, user);
+      res.status(201).json({ user: publicUser(user) });
+    } catch (error) {
+      console.error('Error signing up:', error);
+      res.status(500).json({ message: "Error creating account" });
+    }
+  });
+
+  app.post("/api/auth/signin", (req: Request, res: Response, next: NextFunction) => {
+    const parsed = signInSchema.safeParse(req.body);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return res.status(400).json({ message: `${issue.path.join('.') || 'request'}: ${issue.message}` });
+    }
+    // The strategy reads the normalized email from the body
+    req.body = parsed.data;
+
+    passport.authenticate('local', async (error: unknown, user: User | false) => {
+      try {
+        if (error) throw error;
+        if (!user) {
+          return res.status(401).json({ message: "Invalid email or password" });
+        }
+        await startSession(req, user);
+        res.json({ user: publicUser(user) });
+      } catch (error) {
+        console.error('Error signing in:', error);
+        res.status(500).json({ message: "Error signing in" });
+      }
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/signout", (req, res) => {
+    req.logout(error => {
+      if (error) {
+        console.error('Error signing out:', error);
+        return res.status(500).json({ message: "Error signing out" });
+      }
+      res.json({ message: "Signed out successfully" });
+    });
+  });
+
+  // The signed-in account, or null; answers without a session too, so the browser can ask
+  app.get("/api/auth/session", async (req, res) => {
+    try {
+      const user = req.user && await store.getUser(req.user.id);
+      res.json({ user: user ? publicUser(user) : null });
+    } catch (error) {
+      console.error('Error reading session:', error);
+      res.status(500).json({ message: "Error reading session" });
+    }
+  });
+}
@@ -0,0 +1,89 @@
+// Pivot tables over the rows of a dataset. One pass over the rows fills a group for every
+// combination of row field and column field prefixes, which gives the leaf cells, the subtotals
+// and the grand totals without rolling up measures such as medians that cannot be combined.
+import { GroupedMeasures, TOO_MANY_GROUPS_MESSAGE, aggregateColumns, groupValue } from "./aggregate";
+import { compareSortValues, validateRowQuery } from "./row-query";
+import { MAX_PIVOT_COLUMNS, MAX_PIVOT_ROWS, type ExcelRow, type PivotCell, type PivotRequest, type PivotResult } from "@shared/schema";
+
+// Check the request against the dataset's columns. Returns an error message, or undefined when it can be run.
+export function validatePivotRequest(request: PivotRequest, headers: string[]): string | undefined {
+  const fields = [...request.rows, ...request.columns];
+  const unknown = [...fields, ...request.values.flatMap(value => value.column ?? [])].find(column => !headers.includes(column));
+  if (unknown !== undefined) return `Unknown column: ${unknown}`;
+
+  const repeated = fields.find((field, index) => fields.indexOf(field) !== index);
+  if (repeated !== undefined) return `${repeated} can only be used once in rows and columns`;
+
+  const invalidFilter = validateRowQuery({ filters: request.filters, sort: [] }, headers);
+  if (invalidFilter) return invalidFilter;
+
+  const names = aggregateColumns({ groupBy: [], measures: request.values }).map(column => column.name);
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+  if (duplicate !== undefined) return `Value ${duplicate} appears more than once`;
+
+  return undefined;
+}
+
+function compareKeys(a: any[], b: any[]): number {
+  for (let index = 0; index < a.length; index++) {
+    const order = compareSortValues(a[index], b[index], 'asc');
+    if (order !== 0) return order;
+  }
+  return 0;
+}
+
+export async function pivotRows(
+  dataId: string,
+  rows: AsyncIterable<ExcelRow>,
+  request: PivotRequest,
+): Promise<{ success: true; data: PivotResult } | { success: false; message: string }> {
+  // levels[r][c] groups by the first r row fields and the first c column fields
+  const levels = Array.from({ length: request.rows.length + 1 }, () =>
+    Array.from({ length: request.columns.length + 1 }, () => new GroupedMeasures(request.values)),
+  );
+  // Grand totals exist even when no row matches the filters
+  levels[0][0].ensure([]);
+
+  for await (const row of rows) {
+    const values = row.data as Record<string, any>;
+    const rowKey = request.rows.map(field => groupValue(values, field));
+    const columnKey = request.columns.map(field => groupValue(values, field));
+
+    for (let r = 0; r <= rowKey.length; r++) {
+      for (let c = 0; c <= columnKey.length; c++) {
+        if (!levels[r][c].add([...rowKey.slice(0, r), ...columnKey.slice(0, c)], values)) {
+          return { success: false, message: TOO_MANY_GROUPS_MESSAGE };
+        }
+      }
+    }
+  }
+
+  const rowLeaves = levels[request.rows.length][0];
+  const columnLeaves = levels[0][request.columns.length];
+  if (rowLeaves.size > MAX_PIVOT_ROWS) {
+    return { success: false, message: `${request.rows.join(', ')} have ${rowLeaves.size} combinations, more than the ${MAX_PIVOT_ROWS} a pivot can show; add a filter` };
+  }
+  if (columnLeaves.size > MAX_PIVOT_COLUMNS) {
+    return { success: false, message: `${request.columns.join(', ')} have ${columnLeaves.size} combinations, more than the ${MAX_PIVOT_COLUMNS} pivot columns allowed; add a filter or move a field to rows` };
+  }
+
+  const cells: PivotCell[] = [];
+  levels.forEach((byColumn, r) => byColumn.forEach(groups => {
+    for (const { keys, values } of Array.from(groups.results())) {
+      cells.push({ row: keys.slice(0, r), column: keys.slice(r), values });
+    }
+  }));
+
+  return {
+    success: true,
+    data: {
+      dataId,
+      rows: request.rows,
+      columns: request.columns,
+      values: aggregateColumns({ groupBy: [], measures: request.values }),
+      rowKeys: Array.from(rowLeaves.results(), group => group.keys).sort(compareKeys),
+      columnKeys: Array.from(columnLeaves.results(), group => group.keys).sort(compareKeys),
+      cells,
+    },
+  };
+}
@@ -1,11 +1,93 @@
-import type { Express, Request } from "express";
+import express, { type Express, type Request } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { insertExcelFileSchema, insertExcelDataSchema } from "@shared/schema";
+import { scanExcelDataRows, storage } from "./storage";
+import {
+  insertExcelFileSchema,
+  insertExcelDataSchema,
+  uploadOptionsSchema,
+  MAX_UPLOAD_BYTES,
+  MAX_BATCH_FILES,
+  STREAMING_THRESHOLD_BYTES,
+  UPLOAD_CHUNK_BYTES,
+  uploadInitSchema,
+  pasteDataSchema,
+  importCommitSchema,
+  rowQuerySchema,
+  aggregateRequestSchema,
+  pivotRequestSchema,
+  sqlQueryRequestSchema,
+  insertSavedQuerySchema,
+  insertWorkspaceSchema,
+  insertFileShareSchema,
+  shareLinkRequestSchema,
+  acceptInviteSchema,
+  insertWorkspaceMemberSchema,
+  workspaceMemberUpdateSchema,
+  type AcceptedInvite,
+  type BatchImportItem,
+  type CellDetail,
+  type ExcelData,
+  type ExcelDataWithRows,
+  type ImportCommit,
+  type RowPage,
+  type RowQuery,
+  type UploadOptions,
+} from "@shared/schema";
 import multer from "multer";
-import XLSX from "xlsx";
+import { detectUploadFormat, ImportOptionsError, parsePastedRows, parseUploadedFile, type ParsedSheet } from "./importer";
+import { canStreamImport, streamImportFile } from "./stream-import";
+import { extractArchive, isZipArchive } from "./archive-import";
+import { applyColumnOverrides, isSheetIncluded } from "./column-types";
+import {
+  createImportPreview,
+  discardImportPreview,
+  getImportPreview,
+  takeStagedImport,
+  validateImportCommit,
+  type StoredUpload,
+  type UploadScope,
+} from "./import-preview";
+import {
+  cancelImportJob,
+  getImportJob,
+  importReportWarnings,
+  startImportJob,
+  subscribeToImportJob,
+  type ImportProgress,
+} from "./import-jobs";
+import {
+  assembleUpload,
+  chunkChecksum,
+  createUploadSession,
+  discardUploadSession,
+  expectedChunkSize,
+  getUploadSession,
+  writeUploadChunk,
+} from "./chunked-upload";
+import { calculateColumnStatistics, summarizeColumnStatistics } from "./statistics";
+import { validateRowQuery } from "./row-query";
+import { aggregateRows, validateAggregateRequest } from "./aggregate";
+import { pivotRows, validatePivotRequest } from "./pivot";
+import { listSqlTables, runSqlQuery } from "./sql-query";
+import { authModeFromEnv, createAuthMiddleware } from "./auth";
+import { setupLocalAuth } from "./local-auth";
+import { verifyInviteToken, withMemberInvite, withShareInvite } from "./invites";
+import {
+  allowShareLinks,
+  requireFileAccess,
+  requireSignedIn,
+  validateNewShare,
+  withShareToken,
+} from "./sharing";
+import {
+  requireWorkspaceRole,
+  userWorkspaces,
+  validateMemberChange,
+  validateNewMember,
+} from "./workspaces";
 import path from "path";
 import fs from "fs";
+import { randomUUID } from "crypto";
 
 // Ensure uploads directory exists
 const uploadsDir = path.join(process.cwd(), 'uploads');
@@ -13,215 +95,657 @@ if (!fs.existsSync(uploadsDir)) {
   fs.mkdirSync(uploadsDir, { recursive: true });
 }
 
+const UNSUPPORTED_FILE_MESSAGE = 'Only spreadsheet (.xlsx, .xls, .ods), delimited text (.csv, .tsv), JSON (.json, .ndjson) and .zip files are allowed';
+const BATCH_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
 // Extended Request interface for multer
 interface MulterRequest extends Request {
-  file?: Express.Multer.File;
+  files?: { [fieldname: string]: Express.Multer.File[] };
+  rejectedFiles?: string[]; // Names of files skipped by the file filter
 }
 
-// Configure multer for file uploads
+// Configure multer for file uploads. Unsupported files are skipped rather than failing
+// the whole request, so the other files of a batch are still imported.
 const upload = multer({
   dest: 'uploads/',
   limits: {
-    fileSize: 10 * 1024 * 1024, // 10MB limit
+    fileSize: MAX_UPLOAD_BYTES,
   },
   fileFilter: (req: any, file: any, cb: any) => {
-    const allowedTypes = [
-      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', // .xlsx
-      'application/vnd.ms-excel', // .xls
-    ];
-    
-    if (allowedTypes.includes(file.mimetype)) {
+    if (detectUploadFormat(file.originalname, file.mimetype) || isZipArchive(file.originalname, file.mimetype)) {
       cb(null, true);
     } else {
-      cb(new Error('Only Excel files (.xlsx, .xls) are allowed'));
+      req.rejectedFiles = [...(req.rejectedFiles ?? []), file.originalname];
+      cb(null, false);
     }
   },
 });
 
-// Helper function to calculate statistics for a column
-function calculateColumnStatistics(values: any[], columnName: string) {
-  const nonNullValues = values.filter(v => v !== null && v !== undefined && v !== '');
-  const numericValues = nonNullValues
-    .map(v => typeof v === 'string' ? parseFloat(v) : v)
-    .filter(v => !isNaN(v));
-
-  const stats: any = {
-    count: values.length,
-    nullCount: values.length - nonNullValues.length,
-    uniqueCount: new Set(nonNullValues).size,
-  };
-
-  if (numericValues.length > 0) {
-    // Numeric statistics
-    const sorted = [...numericValues].sort((a, b) => a - b);
-    const sum = numericValues.reduce((acc, val) => acc + val, 0);
-    
-    stats.mean = sum / numericValues.length;
-    stats.min = sorted[0];
-    stats.max = sorted[sorted.length - 1];
-    stats.range = stats.max - stats.min;
-    
-    // Median
-    const mid = Math.floor(sorted.length / 2);
-    stats.median = sorted.length % 2 === 0 
-      ? (sorted[mid - 1] + sorted[mid]) / 2 
-      : sorted[mid];
-    
-    // Standard deviation
-    const variance = numericValues.reduce((acc, val) => acc + Math.pow(val - stats.mean, 2), 0) / numericValues.length;
-    stats.variance = variance;
-    stats.standardDeviation = Math.sqrt(variance);
-  } else if (nonNullValues.length > 0) {
-    // Text statistics
-    const counts = nonNullValues.reduce((acc, val) => {
-      acc[val] = (acc[val] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
-    
-    const maxCount = Math.max(...Object.values(counts));
-    stats.mode = Object.keys(counts).find(key => counts[key] === maxCount);
+// Helper function to validate the import options of an upload, sent either as JSON text or as an object
+function parseUploadOptions(raw: unknown):
+  | { success: true; data: UploadOptions }
+  | { success: false; message: string } {
+  let json: unknown = raw;
+  if (typeof raw === 'string') {
+    try {
+      json = JSON.parse(raw);
+    } catch {
+      return { success: false, message: "Import options must be valid JSON" };
+    }
   }
 
-  return stats;
+  const result = uploadOptionsSchema.safeParse(json);
+  if (!result.success) {
+    return { success: false, message: result.error.errors[0]?.message || "Invalid import options" };
+  }
+  return { success: true, data: result.data };
 }
 
-// Helper function to calculate summary statistics
-function calculateSummaryStats(headers: string[], data: any[]) {
-  const totalRecords = data.length;
-  const totalColumns = headers.length;
-  
-  let numericColumns = 0;
-  let textColumns = 0;
-  let totalMissingValues = 0;
+// Helper function to turn a parsed sheet into an excelData entry with statistics
+function buildExcelDataEntry(fileId: string, sheet: ParsedSheet) {
+  const { headers, rows } = sheet;
+  if (headers.length === 0) return null;
 
+  // Convert rows to objects, keeping falsy values such as 0, false and ''
+  const data = rows.map((row: any) => {
+    const obj: any = {};
+    headers.forEach((header, index) => {
+      obj[header] = (row as any[])[index] ?? null;
+    });
+    return obj;
+  });
+
+  // Formatted cell text, only for cells where it differs from the raw value
+  const formattedData = sheet.cellText?.map(rowText => {
+    const obj: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      if (rowText[index] !== undefined) obj[header] = rowText[index]!;
+    });
+    return obj;
+  });
+
+  // Number format of each column, e.g. "$#,##0.00" or "0%"
+  const columnFormats: Record<string, string> = {};
+  sheet.columnFormats?.forEach((format, index) => {
+    if (format && headers[index] !== undefined) columnFormats[headers[index]] = format;
+  });
+
+  // Calculate statistics for each column
+  const columnStats: Record<string, any> = {};
   headers.forEach(header => {
     const columnValues = data.map(row => row[header]);
-    const nonNullValues = columnValues.filter(v => v !== null && v !== undefined && v !== '');
-    const numericValues = nonNullValues
-      .map(v => typeof v === 'string' ? parseFloat(v) : v)
-      .filter(v => !isNaN(v));
+    columnStats[header] = calculateColumnStatistics(columnValues, header);
+  });
+
+  // Calculate summary statistics
+  const summaryStats = summarizeColumnStatistics(headers, columnStats, data.length);
+
+  // Formulas, hyperlinks and comments addressed by column name
+  const cellDetails = sheet.cellDetails
+    ?.filter(detail => headers[detail.column] !== undefined)
+    .map(({ column, ...detail }) => ({ ...detail, column: headers[column] }));
+
+  return {
+    fileId,
+    sheetName: sheet.sheetName,
+    sourceType: sheet.sourceType ?? "sheet",
+    sourceRef: sheet.sourceRef ?? null,
+    headers,
+    data,
+    rowCount: data.length,
+    columnCount: headers.length,
+    statistics: {
+      columns: columnStats,
+      summary: summaryStats,
+    },
+    importOptions: sheet.importOptions ?? null,
+    importReport: sheet.importReport ?? null,
+    formattedData: formattedData ?? null,
+    columnFormats: Object.keys(columnFormats).length > 0 ? columnFormats : null,
+    cellDetails: cellDetails ?? null,
+  };
+}
+
+// Helper function to validate a row query from the query string, where sort and filters are JSON arrays
+function parseRowQuery(query: Request['query']):
+  | { success: true; data: RowQuery }
+  | { success: false; message: string } {
+  const raw: Record<string, unknown> = { ...query };
+  for (const key of ['sort', 'filters']) {
+    if (typeof raw[key] !== 'string') continue;
+    try {
+      raw[key] = JSON.parse(raw[key] as string);
+    } catch {
+      return { success: false, message: `${key} must be a JSON array` };
+    }
+  }
+
+  const result = rowQuerySchema.safeParse(raw);
+  if (!result.success) {
+    const issue = result.error.errors[0];
+    return { success: false, message: issue ? `${issue.path.join('.') || 'query'}: ${issue.message}` : "Invalid row query" };
+  }
+  return { success: true, data: { ...result.data, search: result.data.search || undefined } };
+}
+
+// Helper function to attach all rows of a dataset, for clients that read a sheet in one request
+async function withExcelDataRows(data: ExcelData): Promise<ExcelDataWithRows> {
+  const rows = await storage.getExcelDataRows(data.workspaceId, data.id);
+  const hasFormattedText = rows.some(row => row.formatted !== null);
+  return {
+    ...data,
+    data: rows.map(row => row.data as Record<string, any>),
+    formattedData: hasFormattedText ? rows.map(row => (row.formatted as Record<string, string> | null) ?? {}) : null,
+  };
+}
+
+// Helper function to register an uploaded file and import its sheets, streaming large files.
+// A failed or cancelled import removes whatever was already stored for the file.
+async function importStoredFile(
+  upload: StoredUpload,
+  options: UploadOptions | undefined,
+  progress: ImportProgress,
+  selection?: ImportCommit,
+) {
+  // Validate file data
+  const validatedFile = insertExcelFileSchema.parse({
+    filename: upload.filename,
+    originalName: upload.originalName,
+    size: upload.size,
+    mimeType: upload.mimeType,
+    batchId: upload.batchId,
+  });
+  const excelFile = await storage.createExcelFile(upload.workspaceId, validatedFile);
 
-    if (numericValues.length > nonNullValues.length * 0.5) {
-      numericColumns++;
+  try {
+    let results;
+    if (upload.size >= STREAMING_THRESHOLD_BYTES && canStreamImport(upload.originalName, upload.mimeType)) {
+      results = await streamImportFile(excelFile, upload.path, upload.originalName, upload.mimeType, options, progress, selection);
     } else {
-      textColumns++;
+      // Parse the uploaded file into sheets of raw rows, keeping the sheets chosen in the preview
+      const sheets = parseUploadedFile(upload.path, upload.originalName, upload.mimeType, options)
+        .filter(sheet => isSheetIncluded(selection?.sheets, sheet.sheetName))
+        .map(sheet => applyColumnOverrides(sheet, selection?.sheets[sheet.sheetName]));
+      results = [];
+
+      for (const sheet of sheets) {
+        progress.signal.throwIfAborted();
+        progress.sheetStarted(sheet.sheetName);
+        // Give the progress stream a chance to send the update
+        await new Promise(resolve => setImmediate(resolve));
+
+        const excelDataEntry = buildExcelDataEntry(excelFile.id, sheet);
+        if (!excelDataEntry) {
+          progress.sheetFinished(sheet.sheetName, 0, ['No columns found']);
+          continue;
+        }
+
+        const validatedData = insertExcelDataSchema.parse(excelDataEntry);
+        const savedData = await storage.createExcelData(upload.workspaceId, validatedData);
+        progress.sheetFinished(sheet.sheetName, savedData.rowCount, importReportWarnings(sheet.importReport));
+        results.push(savedData);
+      }
     }
 
-    totalMissingValues += columnValues.length - nonNullValues.length;
+    // The rows are fetched separately, the job result only describes what was imported
+    return { file: excelFile, data: results };
+  } catch (error) {
+    await storage.deleteExcelFile(upload.workspaceId, excelFile.id);
+    throw error;
+  }
+}
+
+// Helper function to give uploads and previews the user and workspace of the request, so only
+// that user can commit them and the import lands in the workspace the upload started in
+function uploadScope(req: Request): UploadScope {
+  return { ownerId: req.user!.id, workspaceId: req.workspace!.id };
+}
+
+// Helper function to import a stored upload as a background job that removes the file when it ends
+function startFileImport(upload: StoredUpload, options?: UploadOptions, selection?: ImportCommit) {
+  return startImportJob(upload.ownerId, upload.originalName, async progress => {
+    try {
+      return await importStoredFile(upload, options, progress, selection);
+    } finally {
+      fs.promises.unlink(upload.path).catch(cleanupError => {
+        console.error('Error cleaning up file:', cleanupError);
+      });
+    }
   });
+}
 
-  const dataQuality = totalRecords > 0 ? 
-    Math.round(((totalRecords * totalColumns - totalMissingValues) / (totalRecords * totalColumns)) * 100) : 
-    100;
+// Helper function to start the imports for one uploaded file. A .zip archive is unpacked and
+// every supported file inside it gets its own job; the archive itself is removed afterwards.
+async function startUploadImports(upload: StoredUpload, options?: UploadOptions): Promise<BatchImportItem[]> {
+  if (!isZipArchive(upload.originalName, upload.mimeType)) {
+    const job = startFileImport(upload, options);
+    return [{ fileName: upload.originalName, jobId: job.id }];
+  }
 
-  return {
-    totalRecords,
-    totalColumns,
-    numericColumns,
-    textColumns,
-    missingValues: totalMissingValues,
-    dataQuality,
-  };
+  try {
+    const { files, skipped } = await extractArchive(upload.path, uploadsDir);
+    const started = files.map(file => {
+      const job = startFileImport({ ...file, ownerId: upload.ownerId, workspaceId: upload.workspaceId, mimeType: '', batchId: upload.batchId }, options);
+      return { fileName: file.originalName, jobId: job.id };
+    });
+    return [...started, ...skipped.map(({ fileName, error }) => ({ fileName, error }))];
+  } catch (error) {
+    return [{ fileName: upload.originalName, error: error instanceof Error ? error.message : 'Could not read archive' }];
+  } finally {
+    fs.promises.unlink(upload.path).catch(cleanupError => {
+      console.error('Error cleaning up file:', cleanupError);
+    });
+  }
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  // Upload Excel file
-  app.post("/api/upload", upload.single('file'), async (req: MulterRequest, res) => {
+  // Local accounts sign in through routes of their own, registered ahead of the authentication below
+  if (authModeFromEnv() === 'local') {
+    setupLocalAuth(app, storage);
+  }
+
+  // Every API route needs a signed-in user (see server/auth.ts) or, for the routes reading a
+  // single file, a share link to that file (see server/sharing.ts)
+  app.use("/api", allowShareLinks(storage, createAuthMiddleware()));
+
+  // Role checks for routes working in a workspace, see server/workspaces.ts
+  const viewer = requireWorkspaceRole(storage, 'viewer');
+  const editor = requireWorkspaceRole(storage, 'editor');
+  const admin = requireWorkspaceRole(storage, 'admin');
+  // Routes reading one file also let through the users it is shared with and holders of a link to
+  // it. Deleting a file and managing its shares and links stay with the workspace's editors.
+  const viewFile = requireFileAccess(storage, 'viewer');
+
+  // Upload one or more spreadsheet, delimited text, JSON or .zip files as one import batch.
+  // Every file is imported by its own background job, see /api/import-jobs/:jobId/events.
+  app.post(
+    "/api/upload",
+    editor,
+    upload.fields([{ name: 'file', maxCount: 1 }, { name: 'files', maxCount: MAX_BATCH_FILES }]),
+    async (req: MulterRequest, res) => {
+      const files = [...(req.files?.file ?? []), ...(req.files?.files ?? [])];
+      const removeFiles = () => files.forEach(file => {
+        try {
+          fs.unlinkSync(file.path);
+        } catch (cleanupError) {
+          console.error('Error cleaning up file:', cleanupError);
+        }
+      });
+
+      try {
+        if (files.length === 0 && !req.rejectedFiles?.length) {
+          return res.status(400).json({ message: "No file uploaded" });
+        }
+
+        // Parse options sent alongside the files as a JSON form field
+        let options: UploadOptions | undefined;
+        if (req.body?.options) {
+          const parsedOptions = parseUploadOptions(req.body.options);
+          if (!parsedOptions.success) {
+            removeFiles();
+            return res.status(400).json({ message: parsedOptions.message });
+          }
+          options = parsedOptions.data;
+        }
+
+        const batchId = randomUUID();
+        const imports: BatchImportItem[] = [];
+        for (const file of files) {
+          imports.push(...await startUploadImports({
+            ...uploadScope(req),
+            path: file.path,
+            filename: file.filename,
+            originalName: file.originalname,
+            size: file.size,
+            mimeType: file.mimetype,
+            batchId,
+          }, options));
+        }
+        (req.rejectedFiles ?? []).forEach(fileName => imports.push({ fileName, error: UNSUPPORTED_FILE_MESSAGE }));
+
+        res.status(202).json({ batchId, imports });
+      } catch (error) {
+        removeFiles();
+        console.error('Upload error:', error);
+        res.status(500).json({
+          message: error instanceof Error ? error.message : "Error processing file"
+        });
+      }
+    },
+  );
+
+  // Import a table pasted from the clipboard. The client splits the clipboard content into cells,
+  // the rows then go through the same header detection and statistics as an uploaded file.
+  app.post("/api/paste", editor, async (req, res) => {
     try {
-      if (!req.file) {
-        return res.status(400).json({ message: "No file uploaded" });
+      const paste = pasteDataSchema.safeParse(req.body);
+      if (!paste.success) {
+        return res.status(400).json({ message: paste.error.errors[0]?.message || "Invalid pasted data" });
       }
 
-      // Validate file data
-      const fileData = {
-        filename: req.file.filename,
-        originalName: req.file.originalname,
-        size: req.file.size,
-        mimeType: req.file.mimetype,
-      };
+      const { name, rows, options } = paste.data;
+      const sheet = parsePastedRows(name, rows, options);
+      if (sheet.headers.length === 0) {
+        return res.status(400).json({ message: "No columns found in the pasted data" });
+      }
 
-      const validatedFile = insertExcelFileSchema.parse(fileData);
-      const excelFile = await storage.createExcelFile(validatedFile);
-
-      // Parse Excel file
-      const workbook = XLSX.readFile(req.file.path);
-      const results = [];
-
-      for (const sheetName of workbook.SheetNames) {
-        const worksheet = workbook.Sheets[sheetName];
-        const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
-        
-        if (jsonData.length === 0) continue;
-
-        const headers = jsonData[0] as string[];
-        const rows = jsonData.slice(1);
-        
-        // Convert rows to objects
-        const data = rows.map((row: any) => {
-          const obj: any = {};
-          headers.forEach((header, index) => {
-            obj[header] = (row as any[])[index] || null;
-          });
-          return obj;
-        });
+      const workspaceId = req.workspace!.id;
+      const excelFile = await storage.createExcelFile(workspaceId, insertExcelFileSchema.parse({
+        filename: `${randomUUID()}.paste`,
+        originalName: name,
+        // Size of the data as tab separated text, which is what was copied
+        size: Buffer.byteLength(rows.map(row => row.join('\t')).join('\n')),
+        mimeType: 'text/tab-separated-values',
+      }));
 
-        // Calculate statistics for each column
-        const columnStats: Record<string, any> = {};
-        headers.forEach(header => {
-          const columnValues = data.map(row => row[header]);
-          columnStats[header] = calculateColumnStatistics(columnValues, header);
-        });
+      try {
+        const validatedData = insertExcelDataSchema.parse(buildExcelDataEntry(excelFile.id, sheet));
+        const savedData = await storage.createExcelData(workspaceId, validatedData);
+        res.status(201).json({ file: excelFile, data: [savedData] });
+      } catch (error) {
+        await storage.deleteExcelFile(workspaceId, excelFile.id);
+        throw error;
+      }
+    } catch (error) {
+      console.error('Paste import error:', error);
+      res.status(500).json({ message: "Error importing pasted data" });
+    }
+  });
 
-        // Calculate summary statistics
-        const summaryStats = calculateSummaryStats(headers, data);
-
-        const excelDataEntry = {
-          fileId: excelFile.id,
-          sheetName,
-          headers,
-          data,
-          rowCount: data.length,
-          columnCount: headers.length,
-          statistics: {
-            columns: columnStats,
-            summary: summaryStats,
-          },
-        };
+  // Start a chunked upload; the client then sends every chunk and completes the upload
+  app.post("/api/uploads", editor, async (req, res) => {
+    try {
+      const init = uploadInitSchema.safeParse(req.body);
+      if (!init.success) {
+        return res.status(400).json({ message: init.error.errors[0]?.message || "Invalid upload" });
+      }
+      if (!detectUploadFormat(init.data.fileName, init.data.mimeType) && !isZipArchive(init.data.fileName, init.data.mimeType)) {
+        return res.status(400).json({ message: UNSUPPORTED_FILE_MESSAGE });
+      }
 
-        const validatedData = insertExcelDataSchema.parse(excelDataEntry);
-        const savedData = await storage.createExcelData(validatedData);
-        results.push(savedData);
+      const session = await createUploadSession(req.user!.id, init.data);
+      res.status(201).json(session);
+    } catch (error) {
+      console.error('Error starting upload:', error);
+      res.status(500).json({ message: "Error starting upload" });
+    }
+  });
+
+  // Progress of a chunked upload, used to resume it
+  app.get("/api/uploads/:uploadId", requireSignedIn, async (req, res) => {
+    try {
+      const session = await getUploadSession(req.params.uploadId, req.user!.id);
+      if (!session) {
+        return res.status(404).json({ message: "Upload not found" });
       }
+      res.json(session);
+    } catch (error) {
+      console.error('Error getting upload:', error);
+      res.status(500).json({ message: "Error retrieving upload" });
+    }
+  });
+
+  // Store one chunk; the X-Chunk-Checksum header carries its SHA-256 hex digest
+  app.put(
+    "/api/uploads/:uploadId/chunks/:index",
+    requireSignedIn,
+    express.raw({ type: 'application/octet-stream', limit: UPLOAD_CHUNK_BYTES }),
+    async (req, res) => {
+      try {
+        const session = await getUploadSession(req.params.uploadId, req.user!.id);
+        if (!session) {
+          return res.status(404).json({ message: "Upload not found" });
+        }
 
-      // Clean up uploaded file
-      fs.unlinkSync(req.file.path);
+        const index = parseInt(req.params.index, 10);
+        if (isNaN(index) || index < 0 || index >= session.totalChunks) {
+          return res.status(400).json({ message: "Chunk index out of range" });
+        }
 
-      res.json({
-        file: excelFile,
-        data: results,
-      });
+        const data: Buffer = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+        if (data.length !== expectedChunkSize(session, index)) {
+          return res.status(400).json({ message: `Chunk ${index} must be ${expectedChunkSize(session, index)} bytes` });
+        }
+        if (req.get('X-Chunk-Checksum') !== chunkChecksum(data)) {
+          return res.status(400).json({ message: `Checksum mismatch for chunk ${index}` });
+        }
+
+        await writeUploadChunk(session, index, data);
+        res.json({ index, received: true });
+      } catch (error) {
+        console.error('Error storing chunk:', error);
+        res.status(500).json({ message: "Error storing chunk" });
+      }
+    },
+  );
+
+  // Join the chunks and import the file exactly like a direct upload. Pass the batchId returned
+  // for the first file of a batch to add further files to the same batch.
+  app.post("/api/uploads/:uploadId/complete", editor, async (req, res) => {
+    let assembledPath: string | undefined;
+    try {
+      const session = await getUploadSession(req.params.uploadId, req.user!.id);
+      if (!session) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+
+      const missing = session.totalChunks - session.receivedChunks.length;
+      if (missing > 0) {
+        return res.status(400).json({ message: `Upload is missing ${missing} chunks` });
+      }
+
+      let options: UploadOptions | undefined;
+      if (req.body?.options) {
+        const parsedOptions = parseUploadOptions(req.body.options);
+        if (!parsedOptions.success) {
+          return res.status(400).json({ message: parsedOptions.message });
+        }
+        options = parsedOptions.data;
+      }
+
+      const requestedBatchId = req.body?.batchId;
+      if (requestedBatchId !== undefined && (typeof requestedBatchId !== 'string' || !BATCH_ID_PATTERN.test(requestedBatchId))) {
+        return res.status(400).json({ message: "Invalid batch id" });
+      }
+      const batchId: string = requestedBatchId ?? randomUUID();
+
+      assembledPath = await assembleUpload(session);
+      const imports = await startUploadImports({
+        ...uploadScope(req),
+        path: assembledPath,
+        filename: path.basename(assembledPath),
+        originalName: session.fileName,
+        size: session.size,
+        mimeType: session.mimeType,
+        batchId,
+      }, options);
+
+      res.status(202).json({ batchId, imports });
     } catch (error) {
-      // Clean up file if there was an error
-      if (req.file) {
+      if (assembledPath) {
         try {
-          fs.unlinkSync(req.file.path);
+          fs.unlinkSync(assembledPath);
         } catch (cleanupError) {
           console.error('Error cleaning up file:', cleanupError);
         }
       }
-      
+
       console.error('Upload error:', error);
-      res.status(500).json({ 
-        message: error instanceof Error ? error.message : "Error processing file" 
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Error processing file"
+      });
+    }
+  });
+
+  // Join the chunks and parse the file for a preview instead of importing it. Nothing is stored
+  // until the preview is committed; archives cannot be previewed and use /complete instead.
+  app.post("/api/uploads/:uploadId/preview", editor, async (req, res) => {
+    let assembledPath: string | undefined;
+    try {
+      const session = await getUploadSession(req.params.uploadId, req.user!.id);
+      if (!session) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+
+      const missing = session.totalChunks - session.receivedChunks.length;
+      if (missing > 0) {
+        return res.status(400).json({ message: `Upload is missing ${missing} chunks` });
+      }
+      if (isZipArchive(session.fileName, session.mimeType)) {
+        return res.status(400).json({ message: "Archives are imported without a preview" });
+      }
+
+      let options: UploadOptions | undefined;
+      if (req.body?.options) {
+        const parsedOptions = parseUploadOptions(req.body.options);
+        if (!parsedOptions.success) {
+          return res.status(400).json({ message: parsedOptions.message });
+        }
+        options = parsedOptions.data;
+      }
+
+      assembledPath = await assembleUpload(session);
+      const preview = await createImportPreview({
+        ...uploadScope(req),
+        path: assembledPath,
+        filename: path.basename(assembledPath),
+        originalName: session.fileName,
+        size: session.size,
+        mimeType: session.mimeType,
+        batchId: randomUUID(),
+      }, options);
+
+      res.status(201).json(preview);
+    } catch (error) {
+      if (assembledPath) {
+        try {
+          fs.unlinkSync(assembledPath);
+        } catch (cleanupError) {
+          console.error('Error cleaning up file:', cleanupError);
+        }
+      }
+
+      console.error('Preview error:', error);
+      res.status(error instanceof ImportOptionsError ? 400 : 500).json({
+        message: error instanceof Error ? error.message : "Error processing file"
+      });
+    }
+  });
+
+  // Abandon a chunked upload
+  app.delete("/api/uploads/:uploadId", requireSignedIn, async (req, res) => {
+    try {
+      const session = await getUploadSession(req.params.uploadId, req.user!.id);
+      if (session) await discardUploadSession(session.id);
+      res.json({ message: "Upload discarded" });
+    } catch (error) {
+      console.error('Error discarding upload:', error);
+      res.status(500).json({ message: "Error discarding upload" });
+    }
+  });
+
+  // A preview that has not been committed or discarded yet
+  app.get("/api/import-previews/:previewId", editor, (req, res) => {
+    const preview = getImportPreview(req.params.previewId, uploadScope(req));
+    if (!preview) {
+      return res.status(404).json({ message: "Import preview not found" });
+    }
+    res.json(preview);
+  });
+
+  // Import a previewed file with the sheets, column names and types chosen by the user.
+  // Answers like an upload, with the batch and the job importing the file.
+  app.post("/api/import-previews/:previewId/commit", editor, (req, res) => {
+    try {
+      const preview = getImportPreview(req.params.previewId, uploadScope(req));
+      if (!preview) {
+        return res.status(404).json({ message: "Import preview not found" });
+      }
+
+      const commit = importCommitSchema.safeParse(req.body ?? {});
+      if (!commit.success) {
+        return res.status(400).json({ message: commit.error.errors[0]?.message || "Invalid import selection" });
+      }
+      const invalid = validateImportCommit(preview, commit.data);
+      if (invalid) {
+        return res.status(400).json({ message: invalid });
+      }
+
+      const { upload, options } = takeStagedImport(preview.id, uploadScope(req))!;
+      const job = startFileImport(upload, options, commit.data);
+      res.status(202).json({
+        batchId: upload.batchId,
+        imports: [{ fileName: upload.originalName, jobId: job.id }],
       });
+    } catch (error) {
+      console.error('Error committing import:', error);
+      res.status(500).json({ message: "Error committing import" });
     }
   });
 
-  // Get all uploaded files
-  app.get("/api/files", async (req, res) => {
+  // Drop a preview without importing the file
+  app.delete("/api/import-previews/:previewId", editor, (req, res) => {
+    if (!discardImportPreview(req.params.previewId, uploadScope(req))) {
+      return res.status(404).json({ message: "Import preview not found" });
+    }
+    res.json({ message: "Import preview discarded" });
+  });
+
+  // Current state of an import job
+  app.get("/api/import-jobs/:jobId", requireSignedIn, (req, res) => {
+    const job = getImportJob(req.params.jobId, req.user!.id);
+    if (!job) {
+      return res.status(404).json({ message: "Import job not found" });
+    }
+    res.json(job);
+  });
+
+  // Server-Sent Events with the job state: "progress" while running, then one of
+  // "completed" (with the imported file and sheets), "failed" or "cancelled"
+  app.get("/api/import-jobs/:jobId/events", requireSignedIn, (req, res) => {
+    if (!getImportJob(req.params.jobId, req.user!.id)) {
+      return res.status(404).json({ message: "Import job not found" });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    });
+
+    // Comments keep proxies from closing a quiet connection while a large sheet is parsed
+    const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), 15000);
+
+    const unsubscribe = subscribeToImportJob(req.params.jobId, req.user!.id, (job, result) => {
+      const event = job.status === 'running' ? 'progress' : job.status;
+      res.write(`event: ${event}\ndata: ${JSON.stringify({ job, result })}\n\n`);
+      if (job.status !== 'running') {
+        clearInterval(heartbeat);
+        res.end();
+      }
+    });
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
+
+  // Stop a running import; sheets stored so far are removed
+  app.post("/api/import-jobs/:jobId/cancel", requireSignedIn, (req, res) => {
+    const job = cancelImportJob(req.params.jobId, req.user!.id);
+    if (!job) {
+      return res.status(404).json({ message: "Import job not found" });
+    }
+    res.json(job);
+  });
+
+  // Get all uploaded files, optionally only those of one import batch (?batchId=)
+  app.get("/api/files", viewer, async (req, res) => {
     try {
-      const files = await storage.getAllExcelFiles();
-      res.json(files);
+      const files = await storage.getAllExcelFiles(req.workspace!.id);
+      const { batchId } = req.query;
+      res.json(typeof batchId === 'string' ? files.filter(file => file.batchId === batchId) : files);
     } catch (error) {
       console.error('Error getting files:', error);
       res.status(500).json({ message: "Error retrieving files" });
@@ -229,10 +753,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get file data
-  app.get("/api/files/:fileId/data", async (req, res) => {
+  app.get("/api/files/:fileId/data", viewFile, async (req, res) => {
     try {
       const { fileId } = req.params;
-      const data = await storage.getExcelData(fileId);
+      const file = await storage.getExcelFile(req.workspace!.id, fileId);
+
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      const data = await storage.getExcelData(file.workspaceId, fileId);
       res.json(data);
     } catch (error) {
       console.error('Error getting file data:', error);
@@ -241,27 +771,159 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get specific sheet data
-  app.get("/api/data/:dataId", async (req, res) => {
+  app.get("/api/data/:dataId", viewFile, async (req, res) => {
     try {
       const { dataId } = req.params;
-      const data = await storage.getExcelDataById(dataId);
+      const data = await storage.getExcelDataById(req.workspace!.id, dataId);
       
       if (!data) {
         return res.status(404).json({ message: "Data not found" });
       }
 
-      res.json(data);
+      res.json(await withExcelDataRows(data));
     } catch (error) {
       console.error('Error getting sheet data:', error);
       res.status(500).json({ message: "Error retrieving sheet data" });
     }
   });
 
+  // Get a page of a dataset's rows, sorted and filtered by the server
+  app.get("/api/data/:dataId/rows", viewFile, async (req, res) => {
+    try {
+      const { dataId } = req.params;
+      const data = await storage.getExcelDataById(req.workspace!.id, dataId);
+
+      if (!data) {
+        return res.status(404).json({ message: "Data not found" });
+      }
+
+      const parsed = parseRowQuery(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.message });
+      }
+      const query = parsed.data;
+      const invalid = validateRowQuery(query, data.headers as string[]);
+      if (invalid) {
+        return res.status(400).json({ message: invalid });
+      }
+
+      const [rows, total] = await Promise.all([
+        storage.queryExcelDataRows(data.workspaceId, dataId, query),
+        storage.countExcelDataRows(data.workspaceId, dataId, query),
+      ]);
+
+      const page: RowPage = {
+        dataId,
+        offset: query.offset,
+        limit: query.limit,
+        total,
+        rows: rows.map(row => ({
+          index: row.rowIndex,
+          values: row.data as Record<string, any>,
+          formatted: row.formatted as Record<string, string> | null,
+        })),
+      };
+      res.json(page);
+    } catch (error) {
+      console.error('Error querying rows:', error);
+      res.status(500).json({ message: "Error retrieving rows" });
+    }
+  });
+
+  // Group a dataset's rows and compute measures per group
+  app.post("/api/data/:dataId/aggregate", viewFile, async (req, res) => {
+    try {
+      const { dataId } = req.params;
+      const data = await storage.getExcelDataById(req.workspace!.id, dataId);
+
+      if (!data) {
+        return res.status(404).json({ message: "Data not found" });
+      }
+
+      const parsed = aggregateRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        const issue = parsed.error.errors[0];
+        return res.status(400).json({ message: issue ? `${issue.path.join('.') || 'request'}: ${issue.message}` : "Invalid aggregation" });
+      }
+      const request = { ...parsed.data, search: parsed.data.search || undefined };
+      const invalid = validateAggregateRequest(request, data.headers as string[]);
+      if (invalid) {
+        return res.status(400).json({ message: invalid });
+      }
+
+      const result = await aggregateRows(dataId, scanExcelDataRows(storage, data.workspaceId, dataId, request), request);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
+      }
+      res.json(result.data);
+    } catch (error) {
+      console.error('Error aggregating data:', error);
+      res.status(500).json({ message: "Error aggregating data" });
+    }
+  });
+
+  // Compute a pivot table with subtotals and grand totals
+  app.post("/api/data/:dataId/pivot", viewFile, async (req, res) => {
+    try {
+      const { dataId } = req.params;
+      const data = await storage.getExcelDataById(req.workspace!.id, dataId);
+
+      if (!data) {
+        return res.status(404).json({ message: "Data not found" });
+      }
+
+      const parsed = pivotRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        const issue = parsed.error.errors[0];
+        return res.status(400).json({ message: issue ? `${issue.path.join('.') || 'request'}: ${issue.message}` : "Invalid pivot" });
+      }
+      const request = parsed.data;
+      const invalid = validatePivotRequest(request, data.headers as string[]);
+      if (invalid) {
+        return res.status(400).json({ message: invalid });
+      }
+
+      const result = await pivotRows(dataId, scanExcelDataRows(storage, data.workspaceId, dataId, request), request);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
+      }
+      res.json(result.data);
+    } catch (error) {
+      console.error('Error computing pivot:', error);
+      res.status(500).json({ message: "Error computing pivot" });
+    }
+  });
+
+  // Get formulas, hyperlinks and comments kept by a rich import
+  app.get("/api/data/:dataId/cells", viewFile, async (req, res) => {
+    try {
+      const { dataId } = req.params;
+      const data = await storage.getExcelDataById(req.workspace!.id, dataId);
+
+      if (!data) {
+        return res.status(404).json({ message: "Data not found" });
+      }
+
+      const { column } = req.query;
+      const cells = ((data.cellDetails as CellDetail[] | null) ?? [])
+        .filter(cell => typeof column !== 'string' || cell.column === column);
+
+      res.json({
+        dataId,
+        richImport: data.cellDetails !== null,
+        cells,
+      });
+    } catch (error) {
+      console.error('Error getting cell details:', error);
+      res.status(500).json({ message: "Error retrieving cell details" });
+    }
+  });
+
   // Delete file and associated data
-  app.delete("/api/files/:fileId", async (req, res) => {
+  app.delete("/api/files/:fileId", editor, async (req, res) => {
     try {
       const { fileId } = req.params;
-      const deleted = await storage.deleteExcelFile(fileId);
+      const deleted = await storage.deleteExcelFile(req.workspace!.id, fileId);
       
       if (!deleted) {
         return res.status(404).json({ message: "File not found" });
@@ -275,20 +937,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Generate chart data
-  app.post("/api/chart-data", async (req, res) => {
+  app.post("/api/chart-data", viewFile, async (req, res) => {
     try {
       const { dataId, chartType, xColumn, yColumn } = req.body;
       
-      const data = await storage.getExcelDataById(dataId);
+      const data = await storage.getExcelDataById(req.workspace!.id, dataId);
       if (!data) {
         return res.status(404).json({ message: "Data not found" });
       }
 
-      const chartData = (data.data as any[]).map((row: any) => ({
-        x: row[xColumn],
-        y: row[yColumn],
-        label: row[xColumn],
-      }));
+      const chartData = [];
+      for await (const { data: row } of scanExcelDataRows(storage, data.workspaceId, data.id)) {
+        const values = row as Record<string, any>;
+        chartData.push({
+          x: values[xColumn],
+          y: values[yColumn],
+          label: values[xColumn],
+        });
+      }
 
       res.json({
         type: chartType,
@@ -302,6 +968,381 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // List the datasets as the tables available to SQL queries
+  app.get("/api/sql/tables", viewer, async (req, res) => {
+    try {
+      res.json(await listSqlTables(storage, req.workspace!.id));
+    } catch (error) {
+      console.error('Error listing SQL tables:', error);
+      res.status(500).json({ message: "Error listing tables" });
+    }
+  });
+
+  // Run a read-only SQL query over the datasets
+  app.post("/api/sql/query", viewer, async (req, res) => {
+    try {
+      const parsed = sqlQueryRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        const issue = parsed.error.errors[0];
+        return res.status(400).json({ message: issue ? `${issue.path.join('.') || 'request'}: ${issue.message}` : "Invalid query" });
+      }
+
+      const result = await runSqlQuery(storage, req.workspace!.id, parsed.data);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
+      }
+      res.json(result.data);
+    } catch (error) {
+      console.error('Error running SQL query:', error);
+      res.status(500).json({ message: "Error running query" });
+    }
+  });
+
+  // Saved SQL console queries
+  app.get("/api/saved-queries", viewer, async (req, res) => {
+    try {
+      res.json(await storage.getSavedQueries(req.workspace!.id));
+    } catch (error) {
+      console.error('Error getting saved queries:', error);
+      res.status(500).json({ message: "Error retrieving saved queries" });
+    }
+  });
+
+  app.post("/api/saved-queries", editor, async (req, res) => {
+    try {
+      const parsed = insertSavedQuerySchema.safeParse(req.body);
+      if (!parsed.success) {
+        const issue = parsed.error.errors[0];
+        return res.status(400).json({ message: issue ? `${issue.path.join('.') || 'request'}: ${issue.message}` : "Invalid saved query" });
+      }
+      res.status(201).json(await storage.createSavedQuery(req.workspace!.id, parsed.data));
+    } catch (error) {
+      console.error('Error saving query:', error);
+      res.status(500).json({ message: "Error saving query" });
+    }
+  });
+
+  app.patch("/api/saved-queries/:queryId", editor, async (req, res) => {
+    try {
+      const parsed = insertSavedQuerySchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        const issue = parsed.error.errors[0];
+        return res.status(400).json({ message: issue ? `${issue.path.join('.') || 'request'}: ${issue.message}` : "Invalid saved query" });
+      }
+
+      const query = await storage.updateSavedQuery(req.workspace!.id, req.params.queryId, parsed.data);
+      if (!query) {
+        return res.status(404).json({ message: "Saved query not found" });
+      }
+      res.json(query);
+    } catch (error) {
+      console.error('Error updating saved query:', error);
+      res.status(500).json({ message: "Error updating saved query" });
+    }
+  });
+
+  app.delete("/api/saved-queries/:queryId", editor, async (req, res) => {
+    try {
+      const deleted = await storage.deleteSavedQuery(req.workspace!.id, req.params.queryId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Saved query not found" });
+      }
+      res.json({ message: "Saved query deleted successfully" });
+    } catch (error) {
+      console.error('Error deleting saved query:', error);
+      res.status(500).json({ message: "Error deleting saved query" });
+    }
+  });
+
+  // Workspaces of the signed-in user, each with the user's role there
+  app.get("/api/workspaces", requireSignedIn, async (req, res) => {
+    try {
+      res.json(await userWorkspaces(storage, req.user!));
+    } catch (error) {
+      console.error('Error getting workspaces:', error);
+      res.status(500).json({ message: "Error retrieving workspaces" });
+    }
+  });
+
+  // Any user can create a workspace and becomes its admin
+  app.post("/api/workspaces", requireSignedIn, async (req, res) => {
+    try {
+      const parsed = insertWorkspaceSchema.safeParse(req.body);
+      if (!parsed.success) {
+        const issue = parsed.error.errors[0];
+        return res.status(400).json({ message: issue ? `${issue.path.join('.') || 'request'}: ${issue.message}` : "Invalid workspace" });
+      }
+      const workspace = await storage.createWorkspace(parsed.data, req.user!);
+      res.status(201).json({ ...workspace, role: 'admin' });
+    } catch (error) {
+      console.error('Error creating workspace:', error);
+      res.status(500).json({ message: "Error creating workspace" });
+    }
+  });
+
+  app.patch("/api/workspaces/:workspaceId", admin, async (req, res) => {
+    try {
+      const parsed = insertWorkspaceSchema.safeParse(req.body);
+      if (!parsed.success) {
+        const issue = parsed.error.errors[0];
+        return res.status(400).json({ message: issue ? `${issue.path.join('.') || 'request'}: ${issue.message}` : "Invalid workspace" });
+      }
+
+      const workspace = await storage.updateWorkspace(req.workspace!.id, parsed.data);
+      if (!workspace) {
+        return res.status(404).json({ message: "Workspace not found" });
+      }
+      res.json({ ...workspace, role: req.workspace!.role });
+    } catch (error) {
+      console.error('Error updating workspace:', error);
+      res.status(500).json({ message: "Error updating workspace" });
+    }
+  });
+
+  // Deleting a workspace deletes its files, datasets and saved queries
+  app.delete("/api/workspaces/:workspaceId", admin, async (req, res) => {
+    try {
+      const deleted = await storage.deleteWorkspace(req.workspace!.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Workspace not found" });
+      }
+      res.json({ message: "Workspace deleted successfully" });
+    } catch (error) {
+      console.error('Error deleting workspace:', error);
+      res.status(500).json({ message: "Error deleting workspace" });
+    }
+  });
+
+  app.get("/api/workspaces/:workspaceId/members", viewer, async (req, res) => {
+    try {
+      const members = await storage.getWorkspaceMembers(req.workspace!.id);
+      // Only admins see invites, as accepting one gives its role
+      res.json(req.workspace!.role === 'admin' ? await Promise.all(members.map(withMemberInvite)) : members);
+    } catch (error) {
+      console.error('Error getting workspace members:', error);
+      res.status(500).json({ message: "Error retrieving workspace members" });
+    }
+  });
+
+  // Members are added by email, so people can be invited before they first sign in. The answer
+  // carries the member's invite, for users whose email is not verified (see server/invites.ts).
+  app.post("/api/workspaces/:workspaceId/members", admin, async (req, res) => {
+    try {
+      const parsed = insertWorkspaceMemberSchema.safeParse(req.body);
+      if (!parsed.success) {
+        const issue = parsed.error.errors[0];
+        return res.status(400).json({ message: issue ? `${issue.path.join('.') || 'request'}: ${issue.message}` : "Invalid member" });
+      }
+
+      const members = await storage.getWorkspaceMembers(req.workspace!.id);
+      const memberError = validateNewMember(members, parsed.data);
+      if (memberError) {
+        return res.status(409).json({ message: memberError });
+      }
+      res.status(201).json(await withMemberInvite(await storage.addWorkspaceMember(req.workspace!.id, parsed.data)));
+    } catch (error) {
+      console.error('Error adding workspace member:', error);
+      res.status(500).json({ message: "Error adding workspace member" });
+    }
+  });
+
+  app.patch("/api/workspaces/:workspaceId/members/:memberId", admin, async (req, res) => {
+    try {
+      const parsed = workspaceMemberUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        const issue = parsed.error.errors[0];
+        return res.status(400).json({ message: issue ? `${issue.path.join('.') || 'request'}: ${issue.message}` : "Invalid member" });
+      }
+
+      const members = await storage.getWorkspaceMembers(req.workspace!.id);
+      if (!members.some(member => member.id === req.params.memberId)) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      const memberError = validateMemberChange(members, req.params.memberId, parsed.data.role);
+      if (memberError) {
+        return res.status(400).json({ message: memberError });
+      }
+
+      const member = await storage.updateWorkspaceMember(req.workspace!.id, req.params.memberId, parsed.data.role);
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      res.json(member);
+    } catch (error) {
+      console.error('Error updating workspace member:', error);
+      res.status(500).json({ message: "Error updating workspace member" });
+    }
+  });
+
+  app.delete("/api/workspaces/:workspaceId/members/:memberId", admin, async (req, res) => {
+    try {
+      const members = await storage.getWorkspaceMembers(req.workspace!.id);
+      if (!members.some(member => member.id === req.params.memberId)) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      const memberError = validateMemberChange(members, req.params.memberId);
+      if (memberError) {
+        return res.status(400).json({ message: memberError });
+      }
+
+      await storage.removeWorkspaceMember(req.workspace!.id, req.params.memberId);
+      res.json({ message: "Member removed successfully" });
+    } catch (error) {
+      console.error('Error removing workspace member:', error);
+      res.status(500).json({ message: "Error removing workspace member" });
+    }
+  });
+
+  // Files of other workspaces shared with the signed-in user
+  app.get("/api/shared-files", requireSignedIn, async (req, res) => {
+    try {
+      res.json(await storage.getFilesSharedWith(req.user!));
+    } catch (error) {
+      console.error('Error getting shared files:', error);
+      res.status(500).json({ message: "Error retrieving shared files" });
+    }
+  });
+
+  // Accepting an invite binds the member or share it names to the signed-in user
+  app.post("/api/invites/accept", requireSignedIn, async (req, res) => {
+    try {
+      const parsed = acceptInviteSchema.safeParse(req.body);
+      if (!parsed.success) {
+        const issue = parsed.error.errors[0];
+        return res.status(400).json({ message: issue ? `${issue.path.join('.') || 'request'}: ${issue.message}` : "Invalid invite" });
+      }
+
+      const invite = await verifyInviteToken(parsed.data.token);
+      let accepted: AcceptedInvite | undefined;
+      if (invite?.kind === 'member') {
+        const member = await storage.acceptWorkspaceInvite(invite.id, req.user!.id);
+        accepted = member && { workspaceId: member.workspaceId };
+      } else if (invite?.kind === 'share') {
+        const share = await storage.acceptFileShareInvite(invite.id, req.user!.id);
+        accepted = share && { workspaceId: share.workspaceId, fileId: share.fileId };
+      }
+      if (!accepted) {
+        return res.status(404).json({ message: "This invite has expired, was accepted already or is no longer valid" });
+      }
+      res.json(accepted);
+    } catch (error) {
+      console.error('Error accepting invite:', error);
+      res.status(500).json({ message: "Error accepting invite" });
+    }
+  });
+
+  // The file a share link opens, for requests made with the link's token
+  app.get("/api/shared-link", async (req, res) => {
+    try {
+      const link = req.shareLink;
+      const file = link && await storage.getExcelFile(link.workspaceId, link.fileId);
+      if (!link || !file) {
+        return res.status(404).json({ message: "Share link not found" });
+      }
+      res.json({ file, expiresAt: link.expiresAt });
+    } catch (error) {
+      console.error('Error getting share link:', error);
+      res.status(500).json({ message: "Error retrieving share link" });
+    }
+  });
+
+  // Users a file is shared with
+  app.get("/api/files/:fileId/shares", editor, async (req, res) => {
+    try {
+      const shares = await storage.getFileShares(req.workspace!.id, req.params.fileId);
+      res.json(await Promise.all(shares.map(withShareInvite)));
+    } catch (error) {
+      console.error('Error getting file shares:', error);
+      res.status(500).json({ message: "Error retrieving file shares" });
+    }
+  });
+
+  app.post("/api/files/:fileId/shares", editor, async (req, res) => {
+    try {
+      const parsed = insertFileShareSchema.safeParse(req.body);
+      if (!parsed.success) {
+        const issue = parsed.error.errors[0];
+        return res.status(400).json({ message: issue ? `${issue.path.join('.') || 'request'}: ${issue.message}` : "Invalid share" });
+      }
+
+      const file = await storage.getExcelFile(req.workspace!.id, req.params.fileId);
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      const shareError = validateNewShare(await storage.getFileShares(file.workspaceId, file.id), parsed.data);
+      if (shareError) {
+        return res.status(409).json({ message: shareError });
+      }
+      res.status(201).json(await withShareInvite(await storage.addFileShare(file.workspaceId, file.id, parsed.data, req.user!.id)));
+    } catch (error) {
+      console.error('Error sharing file:', error);
+      res.status(500).json({ message: "Error sharing file" });
+    }
+  });
+
+  app.delete("/api/files/:fileId/shares/:shareId", editor, async (req, res) => {
+    try {
+      const shares = await storage.getFileShares(req.workspace!.id, req.params.fileId);
+      if (!shares.some(share => share.id === req.params.shareId)) {
+        return res.status(404).json({ message: "Share not found" });
+      }
+      await storage.removeFileShare(req.workspace!.id, req.params.shareId);
+      res.json({ message: "Share removed successfully" });
+    } catch (error) {
+      console.error('Error removing file share:', error);
+      res.status(500).json({ message: "Error removing file share" });
+    }
+  });
+
+  // Read-only share links of a file, with the token that goes in each link's URL
+  app.get("/api/files/:fileId/share-links", editor, async (req, res) => {
+    try {
+      const links = await storage.getShareLinks(req.workspace!.id, req.params.fileId);
+      res.json(await Promise.all(links.map(withShareToken)));
+    } catch (error) {
+      console.error('Error getting share links:', error);
+      res.status(500).json({ message: "Error retrieving share links" });
+    }
+  });
+
+  app.post("/api/files/:fileId/share-links", editor, async (req, res) => {
+    try {
+      const parsed = shareLinkRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        const issue = parsed.error.errors[0];
+        return res.status(400).json({ message: issue ? `${issue.path.join('.') || 'request'}: ${issue.message}` : "Invalid share link" });
+      }
+
+      const file = await storage.getExcelFile(req.workspace!.id, req.params.fileId);
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      const expiresAt = new Date(Date.now() + parsed.data.expiresInDays * 24 * 60 * 60 * 1000);
+      const link = await storage.createShareLink(file.workspaceId, file.id, expiresAt, req.user!.id);
+      res.status(201).json(await withShareToken(link));
+    } catch (error) {
+      console.error('Error creating share link:', error);
+      res.status(500).json({ message: "Error creating share link" });
+    }
+  });
+
+  // Revoked links are kept, so the list shows when each one stopped working
+  app.delete("/api/files/:fileId/share-links/:linkId", editor, async (req, res) => {
+    try {
+      const links = await storage.getShareLinks(req.workspace!.id, req.params.fileId);
+      if (!links.some(link => link.id === req.params.linkId)) {
+        return res.status(404).json({ message: "Share link not found" });
+      }
+      const link = await storage.revokeShareLink(req.workspace!.id, req.params.linkId);
+      res.json(await withShareToken(link!));
+    } catch (error) {
+      console.error('Error revoking share link:', error);
+      res.status(500).json({ message: "Error revoking share link" });
+    }
+  });
+
   const httpServer = createServer(app);
+  // Uploading and streaming a file of several hundred MB can take longer than Node's 5 minute default
+  httpServer.requestTimeout = 30 * 60 * 1000;
   return httpServer;
 }
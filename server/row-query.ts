@@ -0,0 +1,107 @@
+// Filtering and sorting rules for the rows of a dataset. MemStorage evaluates row queries with
+// these functions; DbStorage and SqliteStorage translate the same rules to SQL, so every backend
+// returns the same rows in the same order.
+import { isMissingValue } from "./statistics";
+import type { CellValue, ExcelRow, RowFilter, RowQuery, RowSort } from "@shared/schema";
+
+// The part of a row query that decides which rows match, used to count them
+export type RowConditions = Pick<RowQuery, 'filters' | 'search'>;
+
+// Values of different types sort numbers first, then text, booleans and anything else; missing values always sort last
+type SortableType = 'number' | 'string' | 'boolean' | 'other';
+const TYPE_RANK: Record<SortableType, number> = { number: 0, string: 1, boolean: 2, other: 3 };
+
+// Check that a query only refers to columns of the dataset.
+// Returns an error message, or undefined when the query can be run.
+export function validateRowQuery(query: Pick<RowQuery, 'filters' | 'sort'>, headers: string[]): string | undefined {
+  const columns = [...query.filters.map(filter => filter.column), ...query.sort.map(key => key.column)];
+  const unknown = columns.find(column => !headers.includes(column));
+  return unknown === undefined ? undefined : `Unknown column: ${unknown}`;
+}
+
+// Helper function to escape text for a LIKE pattern matching it anywhere, with \ as the escape character
+export function containsPattern(text: string): string {
+  return `%${text.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+}
+
+function sortableType(value: unknown): SortableType | null {
+  if (isMissingValue(value)) return null;
+  const type = typeof value;
+  return type === 'number' || type === 'string' || type === 'boolean' ? type : 'other';
+}
+
+// Text search only looks at text and numbers, compared without regard to case
+function containsText(value: unknown, lowerText: string): boolean {
+  if (typeof value !== 'string' && typeof value !== 'number') return false;
+  return String(value).toLowerCase().includes(lowerText);
+}
+
+function inRange(value: unknown, min: CellValue | undefined, max: CellValue | undefined): boolean {
+  const bound = min ?? max;
+  if (typeof value !== typeof bound || isMissingValue(value)) return false;
+  if (min !== undefined && (value as any) < min) return false;
+  if (max !== undefined && (value as any) > max) return false;
+  return true;
+}
+
+export function matchesFilter(values: Record<string, any>, filter: RowFilter): boolean {
+  const value = values[filter.column];
+  switch (filter.op) {
+    case 'equals':
+      return value === filter.value;
+    case 'contains':
+      return containsText(value, filter.value.toLowerCase());
+    case 'range':
+      return inRange(value, filter.min, filter.max);
+    case 'in':
+      return filter.values.includes(value);
+    case 'isNull':
+      return isMissingValue(value);
+    case 'notNull':
+      return !isMissingValue(value);
+  }
+}
+
+export function matchesRowConditions(values: Record<string, any>, conditions: RowConditions): boolean {
+  if (!conditions.filters.every(filter => matchesFilter(values, filter))) return false;
+  if (!conditions.search) return true;
+
+  const lowerSearch = conditions.search.toLowerCase();
+  return Object.values(values).some(value => containsText(value, lowerSearch));
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  const aType = sortableType(a);
+  const bType = sortableType(b);
+  if (aType !== bType) return TYPE_RANK[aType!] - TYPE_RANK[bType!];
+  if (aType === 'number') return (a as number) - (b as number);
+  if (aType === 'other') return 0;
+
+  // Text and booleans compare by their lower-case text
+  const aText = String(a).toLowerCase();
+  const bText = String(b).toLowerCase();
+  return aText < bText ? -1 : aText > bText ? 1 : 0;
+}
+
+// Compare two values for a sort key; missing values sort last in either direction
+export function compareSortValues(a: unknown, b: unknown, direction: RowSort['direction']): number {
+  const aMissing = sortableType(a) === null;
+  const bMissing = sortableType(b) === null;
+  if (aMissing || bMissing) {
+    return aMissing === bMissing ? 0 : aMissing ? 1 : -1;
+  }
+
+  const order = compareValues(a, b);
+  return direction === 'asc' ? order : -order;
+}
+
+// Order rows by the sort keys, then by their position in the dataset
+export function compareRows(sort: RowSort[]): (a: ExcelRow, b: ExcelRow) => number {
+  return (a, b) => {
+    for (const { column, direction } of sort) {
+      const order = compareSortValues((a.data as Record<string, any>)[column], (b.data as Record<string, any>)[column], direction);
+      if (order !== 0) return order;
+    }
+    return a.rowIndex - b.rowIndex;
+  };
+}
@@ -0,0 +1,165 @@
+// Sharing single files outside their workspace: with a user, who then reaches the file's dashboard
+// and data through the usual routes, or with anyone holding a read-only link. A link's token is
+// signed with SHARE_LINK_SECRET and names the link, which is looked up on every request, so
+// revoking a link takes effect at once.
+import type { NextFunction, Request, RequestHandler, Response } from "express";
+import { randomBytes } from "crypto";
+import { SignJWT, errors as joseErrors, jwtVerify } from "jose";
+import type {
+  FileShare,
+  InsertFileShare,
+  ShareAccess,
+  ShareLink,
+  ShareLinkWithToken,
+  WorkspaceRole,
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+import { hasWorkspaceRole, userWorkspaces, WORKSPACE_HEADER } from "./workspaces";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // The share link a request was made with, instead of a signed-in user
+      shareLink?: ShareLink;
+    }
+  }
+}
+
+export const SHARE_TOKEN_HEADER = 'X-Share-Token';
+const SHARE_LINK_AUDIENCE = 'share-link';
+
+// A share gives its user the rights of this workspace role, on the shared file only
+const SHARE_ROLES: Record<ShareAccess, WorkspaceRole> = {
+  view: 'viewer',
+};
+
+let linkSecret: Uint8Array | undefined;
+
+// Helper function to read the secret signing link tokens, and invites (see server/invites.ts).
+// Without SHARE_LINK_SECRET a random one is used, and links stop working when the server restarts.
+export function shareLinkSecret(): Uint8Array {
+  if (!linkSecret) {
+    const configured = process.env.SHARE_LINK_SECRET;
+    if (!configured) {
+      console.warn('SHARE_LINK_SECRET is not set; share links will stop working when the server restarts');
+    }
+    linkSecret = configured ? new TextEncoder().encode(configured) : new Uint8Array(randomBytes(32));
+  }
+  return linkSecret;
+}
+
+// Helper function to sign a link's token. The claims only come from the link, so the same token is
+// shown each time the link is listed.
+export async function withShareToken(link: ShareLink): Promise<ShareLinkWithToken> {
+  const token = await new SignJWT({})
+    .setProtectedHeader({ alg: 'HS256' })
+    .setSubject(link.id)
+    .setAudience(SHARE_LINK_AUDIENCE)
+    .setIssuedAt(Math.floor(link.createdAt.getTime() / 1000))
+    .setExpirationTime(Math.floor(link.expiresAt.getTime() / 1000))
+    .sign(shareLinkSecret());
+  return { ...link, token };
+}
+
+// Helper function to find the link a token names, unless the link expired or was revoked
+async function verifyShareToken(store: IStorage, token: string): Promise<ShareLink | undefined> {
+  try {
+    const { payload } = await jwtVerify(token, shareLinkSecret(), { audience: SHARE_LINK_AUDIENCE, algorithms: ['HS256'] });
+    const link = payload.sub ? await store.getShareLink(payload.sub) : undefined;
+    return link && !link.revokedAt && link.expiresAt > new Date() ? link : undefined;
+  } catch (error) {
+    if (error instanceof joseErrors.JOSEError) return undefined;
+    throw error;
+  }
+}
+
+// Middleware accepting a share link's token in the X-Share-Token header in place of a signed-in
+// user, and authenticating every other request as usual
+export function allowShareLinks(store: IStorage, authenticate: RequestHandler): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const token = req.get(SHARE_TOKEN_HEADER);
+    if (!token) return authenticate(req, res, next);
+
+    try {
+      const link = await verifyShareToken(store, token);
+      if (!link) {
+        return res.status(401).json({ message: "This share link has expired or was revoked" });
+      }
+      req.shareLink = link;
+      next();
+    } catch (error) {
+      console.error('Error checking share link:', error);
+      res.status(500).json({ message: "Error checking share link" });
+    }
+  };
+}
+
+// Middleware for routes that need a signed-in user and are not open to share links
+export function requireSignedIn(req: Request, res: Response, next: NextFunction) {
+  if (!req.user) {
+    return res.status(401).json({ message: "Authentication required" });
+  }
+  next();
+}
+
+// Helper function to find the file a route works on: its :fileId, or the file of the dataset
+// given as :dataId or as dataId in the body
+async function requestedFileId(store: IStorage, workspaceId: string, req: Request): Promise<string | undefined> {
+  if (req.params.fileId) return req.params.fileId;
+  const dataId = req.params.dataId ?? req.body?.dataId;
+  if (typeof dataId !== 'string') return undefined;
+  return (await store.getExcelDataById(workspaceId, dataId))?.fileId;
+}
+
+// Middleware for routes on a single file or dataset. Besides the workspace's members, it lets
+// through users the file is shared with and, for reading, holders of a link to the file. As with
+// workspaces, files a user cannot reach answer 404.
+export function requireFileAccess(store: IStorage, required: WorkspaceRole): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const link = req.shareLink;
+      if (link) {
+        if (await requestedFileId(store, link.workspaceId, req) !== link.fileId) {
+          return res.status(404).json({ message: "Data not found" });
+        }
+        if (!hasWorkspaceRole('viewer', required)) {
+          return res.status(403).json({ message: "Share links are read-only" });
+        }
+        req.workspace = { id: link.workspaceId, role: 'viewer' };
+        return next();
+      }
+
+      const workspaceId = req.get(WORKSPACE_HEADER) ?? (await userWorkspaces(store, req.user!))[0].id;
+      const memberRole = await store.getWorkspaceRole(workspaceId, req.user!);
+      if (memberRole && hasWorkspaceRole(memberRole, required)) {
+        req.workspace = { id: workspaceId, role: memberRole };
+        return next();
+      }
+
+      const fileId = await requestedFileId(store, workspaceId, req);
+      const shared = fileId ? await store.getFileShareAccess(workspaceId, fileId, req.user!) : undefined;
+      const sharedRole = shared && SHARE_ROLES[shared];
+      if (sharedRole && hasWorkspaceRole(sharedRole, required)) {
+        req.workspace = { id: workspaceId, role: sharedRole };
+        return next();
+      }
+
+      if (!memberRole && !sharedRole) {
+        return res.status(404).json({ message: "Data not found" });
+      }
+      res.status(403).json({ message: `This needs the ${required} role in the workspace` });
+    } catch (error) {
+      console.error('Error checking file access:', error);
+      res.status(500).json({ message: "Error checking file access" });
+    }
+  };
+}
+
+// Check that the file is not shared with the user already.
+// Returns an error message, or undefined when the share can be added.
+export function validateNewShare(shares: FileShare[], share: InsertFileShare): string | undefined {
+  const exists = shares.some(existing =>
+    (share.userId !== undefined && existing.userId === share.userId) ||
+    (share.email !== undefined && existing.email === share.email));
+  return exists ? "The file is already shared with this user" : undefined;
+}
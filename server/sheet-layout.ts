@@ -0,0 +1,160 @@
+// Locates the header inside a raw grid of cells and applies the user's import options
+import XLSX from "xlsx";
+import type { ImportOptions, AppliedImportOptions, ColumnRename } from "@shared/schema";
+
+const HEADER_SCAN_LIMIT = 20;
+const WIDTH_SAMPLE_ROWS = 50;
+
+export interface SheetLayout {
+  headers: string[];
+  rows: any[][];
+  rowIndices: number[]; // Position of each data row in the grid that was passed in
+  importOptions: AppliedImportOptions;
+}
+
+function isEmptyCell(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+}
+
+function filledCount(row: any[] | undefined): number {
+  if (!row) return 0;
+  let count = 0;
+  for (let i = 0; i < row.length; i++) {
+    if (!isEmptyCell(row[i])) count++;
+  }
+  return count;
+}
+
+export function isBlankRow(row: any[] | undefined): boolean {
+  return filledCount(row) === 0;
+}
+
+function isLabelCell(value: unknown): boolean {
+  return typeof value === 'string' && isNaN(parseFloat(value));
+}
+
+// A header is the first row that spans most of the table and consists mostly of text labels.
+// Title banners (one filled cell) and blank leading rows are skipped over.
+export function detectHeaderRow(rows: any[][]): number {
+  const sampleWidth = Math.max(0, ...rows.slice(0, WIDTH_SAMPLE_ROWS).map(filledCount));
+  if (sampleWidth === 0) return 0;
+
+  const scanLimit = Math.min(rows.length, HEADER_SCAN_LIMIT);
+  let firstFilledRow = -1;
+
+  for (let i = 0; i < scanLimit; i++) {
+    const row = rows[i];
+    const filled = filledCount(row);
+    if (filled === 0) continue;
+    if (firstFilledRow === -1) firstFilledRow = i;
+
+    const labels = row.filter(isLabelCell).length;
+    if (filled >= Math.ceil(sampleWidth * 0.5) && labels / filled >= 0.5) {
+      return i;
+    }
+  }
+
+  return firstFilledRow === -1 ? 0 : firstFilledRow;
+}
+
+// Cut a grid read from a text file down to an A1-style range such as B3:K500
+export function sliceGridRange(rows: any[][], range: string): any[][] {
+  const { s, e } = XLSX.utils.decode_range(range.toUpperCase());
+  return rows.slice(s.r, e.r + 1).map(row => row.slice(s.c, e.c + 1));
+}
+
+function headerLabel(value: unknown): string {
+  if (isEmptyCell(value)) return '';
+  return String(value).trim();
+}
+
+// Join several header rows column by column, e.g. "2024" over "Q1" becomes "2024 Q1"
+function joinHeaderRows(headerRows: any[][], separator: string): string[] {
+  const width = Math.max(0, ...headerRows.map(row => row.length));
+
+  return Array.from({ length: width }, (_, column) => {
+    const parts: string[] = [];
+    headerRows.forEach(row => {
+      const label = headerLabel(row[column]);
+      // Merged cells repeat the same label on every header row, only keep it once
+      if (label && parts[parts.length - 1] !== label) parts.push(label);
+    });
+    return parts.join(separator);
+  });
+}
+
+function trimTrailingBlanks(headers: string[]): string[] {
+  let end = headers.length;
+  while (end > 0 && headers[end - 1] === '') end--;
+  return headers.slice(0, end);
+}
+
+export function applyImportOptions(grid: any[][], options: ImportOptions): SheetLayout {
+  const rows = grid.slice(options.skipRows);
+  const headerDetected = options.headerRow === undefined;
+  const headerRow = options.headerRow ?? detectHeaderRow(rows);
+  const headerRowCount = options.headerRowCount;
+
+  const headers = trimTrailingBlanks(
+    joinHeaderRows(rows.slice(headerRow, headerRow + headerRowCount), options.headerSeparator)
+  );
+
+  const firstDataRow = options.skipRows + headerRow + headerRowCount;
+  const rowIndices: number[] = [];
+  for (let i = firstDataRow; i < grid.length; i++) {
+    if (filledCount(grid[i]) > 0) rowIndices.push(i);
+  }
+
+  return {
+    headers,
+    rows: rowIndices.map(i => grid[i]),
+    rowIndices,
+    importOptions: {
+      ...options,
+      headerRow,
+      headerDetected,
+    },
+  };
+}
+
+// Give every column a unique, non-empty name. Blank headers become Column_<n> (1-based position)
+// and repeated headers get a numeric suffix: Amount, Amount_2, Amount_3.
+export function normalizeHeaders(headers: string[]): { headers: string[]; renamedColumns: ColumnRename[] } {
+  const renamedColumns: ColumnRename[] = [];
+  const taken = new Set(headers.filter(header => header !== ''));
+  const used = new Set<string>();
+  const nextSuffix: Record<string, number> = {};
+
+  const uniqueName = (base: string) => {
+    let suffix = nextSuffix[base] ?? 2;
+    let candidate = `${base}_${suffix}`;
+    while (taken.has(candidate) || used.has(candidate)) {
+      suffix++;
+      candidate = `${base}_${suffix}`;
+    }
+    nextSuffix[base] = suffix + 1;
+    return candidate;
+  };
+
+  const normalized = headers.map((header, index) => {
+    if (header === '') {
+      const generated = `Column_${index + 1}`;
+      const name = taken.has(generated) || used.has(generated) ? uniqueName(generated) : generated;
+      used.add(name);
+      renamedColumns.push({ index, original: header, renamed: name, reason: 'blank' });
+      return name;
+    }
+
+    if (used.has(header)) {
+      const name = uniqueName(header);
+      used.add(name);
+      renamedColumns.push({ index, original: header, renamed: name, reason: 'duplicate' });
+      return name;
+    }
+
+    used.add(header);
+    return header;
+  });
+
+  return { headers: normalized, renamedColumns };
+}
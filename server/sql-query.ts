@@ -0,0 +1,275 @@
+// Read-only SQL over the uploaded datasets. Each query gets a fresh in-memory SQLite database
+// holding only the tables it mentions, so a query can neither change stored data nor see
+// anything but the datasets. The datasets are copied in with inserts that run on the event loop,
+// one page of rows at a time with a pause for other requests in between; the query itself is
+// started off the event loop by libsql's promise API, which lets a timer interrupt it. Copying
+// and querying share one deadline.
+import Database from "libsql/promise";
+import { scanExcelDataRows, type IStorage } from "./storage";
+import type { ExcelData, SqlQueryRequest, SqlResult, SqlTable, Statistics } from "@shared/schema";
+
+const QUERY_TIMEOUT_MS = Number(process.env.SQL_QUERY_TIMEOUT_MS ?? 10_000);
+// Rows copied into the query database across all tables of one query
+const MAX_SOURCE_ROWS = 1_000_000;
+// Rows inserted between two checks of the deadline
+const LOAD_PAGE_ROWS = 5000;
+
+// Helper function to turn a sheet name into a table name that needs no quoting, e.g. "Q1 Sales" -> "q1_sales"
+function tableSlug(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+  return /^[a-z_]/.test(slug) ? slug : `t_${slug}`;
+}
+
+function fileStem(name: string): string {
+  return name.replace(/\.[^.]+$/, '');
+}
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+// SQLite column names ignore case, so headers that only differ in case get a numbered suffix
+function sqlColumnNames(headers: string[]): string[] {
+  const used = new Set<string>();
+  return headers.map(header => {
+    let name = header;
+    for (let suffix = 2; used.has(name.toLowerCase()); suffix++) name = `${header}_${suffix}`;
+    used.add(name.toLowerCase());
+    return name;
+  });
+}
+
+// The workspace's datasets become tables named after their sheet. When several datasets share a sheet
+// name the file name is prepended, and any clash left after that is numbered in upload order.
+export async function listSqlTables(store: IStorage, workspaceId: string): Promise<SqlTable[]> {
+  const files = (await store.getAllExcelFiles(workspaceId)).slice().reverse();
+  const datasets: { data: ExcelData; fileName: string }[] = [];
+  for (const file of files) {
+    (await store.getExcelData(workspaceId, file.id)).forEach(data => datasets.push({ data, fileName: file.originalName }));
+  }
+
+  const sheetCounts = new Map<string, number>();
+  datasets.forEach(({ data }) => {
+    const slug = tableSlug(data.sheetName);
+    sheetCounts.set(slug, (sheetCounts.get(slug) ?? 0) + 1);
+  });
+
+  const used = new Set<string>();
+  return datasets.map(({ data, fileName }) => {
+    const slug = tableSlug(data.sheetName);
+    const base = sheetCounts.get(slug)! > 1 ? tableSlug(`${fileStem(fileName)}_${data.sheetName}`) : slug;
+    let name = base;
+    for (let suffix = 2; used.has(name); suffix++) name = `${base}_${suffix}`;
+    used.add(name);
+
+    const headers = data.headers as string[];
+    const statistics = (data.statistics as { columns?: Record<string, Statistics> } | null)?.columns ?? {};
+    return {
+      name,
+      dataId: data.id,
+      fileId: data.fileId,
+      fileName,
+      sheetName: data.sheetName,
+      rowCount: data.rowCount,
+      columns: sqlColumnNames(headers).map((column, index) => ({
+        name: column,
+        header: headers[index],
+        type: statistics[headers[index]]?.dataType,
+      })),
+    };
+  });
+}
+
+interface ScannedSql {
+  statements: number;
+  // Lower-cased words and quoted identifiers, to tell which tables the query mentions
+  identifiers: Set<string>;
+  firstKeyword: string | undefined;
+}
+
+// Walk the SQL skipping strings and comments; enough to count statements and find identifiers
+// without a full parser
+function scanSql(text: string): ScannedSql {
+  const identifiers = new Set<string>();
+  let statements = 0;
+  let pending = false;
+  let firstKeyword: string | undefined;
+
+  for (let i = 0; i < text.length;) {
+    const char = text[i];
+    const rest = text.slice(i, i + 2);
+    if (rest === '--') {
+      const end = text.indexOf('\n', i);
+      i = end === -1 ? text.length : end + 1;
+    } else if (rest === '/*') {
+      const end = text.indexOf('*/', i + 2);
+      i = end === -1 ? text.length : end + 2;
+    } else if (char === "'" || char === '"' || char === '`' || char === '[') {
+      const close = char === '[' ? ']' : char;
+      let end = i + 1;
+      let value = '';
+      while (end < text.length) {
+        if (text[end] === close && text[end + 1] === close && close !== ']') {
+          value += close;
+          end += 2;
+        } else if (text[end] === close) {
+          break;
+        } else {
+          value += text[end++];
+        }
+      }
+      if (char !== "'") identifiers.add(value.toLowerCase());
+      pending = true;
+      i = end + 1;
+    } else if (char === ';') {
+      if (pending) statements++;
+      pending = false;
+      i++;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const word = /^[A-Za-z_][A-Za-z0-9_$]*/.exec(text.slice(i))![0];
+      identifiers.add(word.toLowerCase());
+      firstKeyword ??= word.toLowerCase();
+      pending = true;
+      i += word.length;
+    } else {
+      if (!/\s/.test(char)) pending = true;
+      i++;
+    }
+  }
+  if (pending) statements++;
+
+  return { statements, identifiers, firstKeyword };
+}
+
+// Check that the text is a single query. Returns an error message, or undefined when it can be run.
+export function validateSqlQuery(text: string): string | undefined {
+  const { statements, firstKeyword } = scanSql(text);
+  if (statements === 0) return 'Enter a query';
+  if (statements > 1) return 'Run one statement at a time';
+  if (firstKeyword !== 'select' && firstKeyword !== 'with' && firstKeyword !== 'values') {
+    return 'Only SELECT queries can be run';
+  }
+  return undefined;
+}
+
+// Helper function to convert a cell value into something SQLite can bind
+function sqlValue(value: any): number | string | null {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'number' || typeof value === 'string') return value;
+  if (value instanceof Date) return value.toISOString();
+  return JSON.stringify(value);
+}
+
+// Helper function to convert a result value into JSON
+function resultValue(value: unknown): number | string | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number' || typeof value === 'string') return value;
+  if (typeof value === 'bigint') return Number(value);
+  if (value instanceof Uint8Array) return Buffer.from(value).toString('base64');
+  return String(value);
+}
+
+// Copy a dataset into the query database. Returns false when the deadline passed first.
+async function loadTable(db: Database, store: IStorage, workspaceId: string, table: SqlTable, deadline: number): Promise<boolean> {
+  // SQLite has no tables without columns; such a dataset has no rows either
+  if (table.columns.length === 0) return true;
+  // Columns have no declared type, so SQLite keeps numbers as numbers and text as text
+  const columns = table.columns.map(column => quoteIdentifier(column.name));
+  await db.exec(`CREATE TABLE ${quoteIdentifier(table.name)} (${columns.join(', ')})`);
+
+  const insert = await db.prepare(
+    `INSERT INTO ${quoteIdentifier(table.name)} VALUES (${table.columns.map(() => '?').join(', ')})`,
+  );
+  await db.exec('BEGIN');
+  let loaded = 0;
+  for await (const row of scanExcelDataRows(store, workspaceId, table.dataId, undefined, LOAD_PAGE_ROWS)) {
+    const values = row.data as Record<string, any>;
+    insert.run(table.columns.map(column => sqlValue(values[column.header])));
+    if (++loaded % LOAD_PAGE_ROWS === 0) {
+      if (Date.now() > deadline) return false;
+      await new Promise(resolve => setImmediate(resolve));
+    }
+  }
+  await db.exec('COMMIT');
+  return true;
+}
+
+function timeoutMessage(): string {
+  return `The query ran for more than ${QUERY_TIMEOUT_MS / 1000} seconds and was stopped`;
+}
+
+// Errors from SQLite explain what is wrong with the query and are shown to the user as they are
+function isSqliteError(error: unknown): error is Error {
+  const code = (error as { code?: unknown } | null)?.code;
+  return error instanceof Error && typeof code === 'string' && code.startsWith('SQLITE_');
+}
+
+export async function runSqlQuery(
+  store: IStorage,
+  workspaceId: string,
+  request: SqlQueryRequest,
+): Promise<{ success: true; data: SqlResult } | { success: false; message: string }> {
+  const invalid = validateSqlQuery(request.sql);
+  if (invalid) return { success: false, message: invalid };
+
+  const { identifiers } = scanSql(request.sql);
+  const tables = (await listSqlTables(store, workspaceId)).filter(table => identifiers.has(table.name));
+  const sourceRows = tables.reduce((sum, table) => sum + table.rowCount, 0);
+  if (sourceRows > MAX_SOURCE_ROWS) {
+    return { success: false, message: `The tables in this query hold ${sourceRows} rows, more than the ${MAX_SOURCE_ROWS} a query can read` };
+  }
+
+  const started = Date.now();
+  const deadline = started + QUERY_TIMEOUT_MS;
+  const db = new Database(':memory:', {});
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    for (const table of tables) {
+      if (!await loadTable(db, store, workspaceId, table, deadline)) return { success: false, message: timeoutMessage() };
+    }
+    // Refuse writes even if a statement gets past the checks below
+    await db.exec('PRAGMA query_only = 1');
+
+    // The timer interrupts a statement while SQLite works on it; rows are then read in batches on
+    // the event loop, where the deadline is checked instead
+    let timedOut = false;
+    timer = setTimeout(() => {
+      timedOut = true;
+      db.interrupt();
+    }, Math.max(deadline - Date.now(), 0));
+
+    try {
+      const statement = await db.prepare(request.sql);
+      if (!statement.reader) return { success: false, message: 'Only SELECT queries can be run' };
+
+      const columns = (statement.columns() as { name: string }[]).map(column => column.name);
+      const rows: (number | string | null)[][] = [];
+      let truncated = false;
+      for (const row of await statement.raw().iterate()) {
+        if (rows.length === request.limit) {
+          truncated = true;
+          break;
+        }
+        if (Date.now() > deadline) {
+          timedOut = true;
+          break;
+        }
+        rows.push((row as unknown[]).map(resultValue));
+      }
+      if (timedOut) return { success: false, message: timeoutMessage() };
+
+      return {
+        success: true,
+        data: { columns, rows, truncated, tables: tables.map(table => table.name), durationMs: Date.now() - started },
+      };
+    } catch (error) {
+      if (timedOut) return { success: false, message: timeoutMessage() };
+      if (isSqliteError(error)) return { success: false, message: error.message };
+      throw error;
+    }
+  } finally {
+    clearTimeout(timer);
+    db.close();
+  }
+}
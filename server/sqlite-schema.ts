@@ -0,0 +1,101 @@
+// SQLite versions of the tables in shared/schema.ts, used by SqliteStorage. Columns keep the same
+// names and shapes so rows read from either database have the ExcelFile and ExcelData types.
+import { sqliteTable, text, integer, primaryKey, index, uniqueIndex } from "drizzle-orm/sqlite-core";
+import { randomUUID } from "crypto";
+import type { ShareAccess, WorkspaceRole } from "@shared/schema";
+
+export const users = sqliteTable("users", {
+  id: text("id").primaryKey().$defaultFn(() => randomUUID()),
+  email: text("email").notNull(),
+  fullName: text("full_name"),
+  passwordHash: text("password_hash").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date()),
+}, (table) => [uniqueIndex("users_email_idx").on(table.email)]);
+
+export const workspaces = sqliteTable("workspaces", {
+  id: text("id").primaryKey().$defaultFn(() => randomUUID()),
+  name: text("name").notNull(),
+  createdBy: text("created_by").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date()),
+});
+
+export const workspaceMembers = sqliteTable("workspace_members", {
+  id: text("id").primaryKey().$defaultFn(() => randomUUID()),
+  workspaceId: text("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  userId: text("user_id"),
+  email: text("email"),
+  role: text("role").$type<WorkspaceRole>().notNull(),
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date()),
+}, (table) => [
+  uniqueIndex("workspace_members_user_idx").on(table.workspaceId, table.userId),
+  uniqueIndex("workspace_members_email_idx").on(table.workspaceId, table.email),
+]);
+
+export const excelFiles = sqliteTable("excel_files", {
+  id: text("id").primaryKey().$defaultFn(() => randomUUID()),
+  workspaceId: text("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  filename: text("filename").notNull(),
+  originalName: text("original_name").notNull(),
+  size: integer("size").notNull(),
+  mimeType: text("mime_type").notNull(),
+  batchId: text("batch_id"),
+  uploadedAt: integer("uploaded_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date()),
+}, (table) => [index("excel_files_workspace_id_idx").on(table.workspaceId)]);
+
+export const excelData = sqliteTable("excel_data", {
+  id: text("id").primaryKey().$defaultFn(() => randomUUID()),
+  workspaceId: text("workspace_id").notNull(),
+  fileId: text("file_id").notNull().references(() => excelFiles.id, { onDelete: "cascade" }),
+  sheetName: text("sheet_name").notNull(),
+  sourceType: text("source_type").notNull().default("sheet"),
+  sourceRef: text("source_ref"),
+  headers: text("headers", { mode: "json" }).notNull(),
+  rowCount: integer("row_count").notNull(),
+  columnCount: integer("column_count").notNull(),
+  statistics: text("statistics", { mode: "json" }),
+  importOptions: text("import_options", { mode: "json" }),
+  importReport: text("import_report", { mode: "json" }),
+  columnFormats: text("column_formats", { mode: "json" }),
+  cellDetails: text("cell_details", { mode: "json" }),
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date()),
+});
+
+export const excelRows = sqliteTable("excel_rows", {
+  dataId: text("data_id").notNull().references(() => excelData.id, { onDelete: "cascade" }),
+  rowIndex: integer("row_index").notNull(),
+  data: text("data", { mode: "json" }).notNull(),
+  formatted: text("formatted", { mode: "json" }),
+}, (table) => [primaryKey({ columns: [table.dataId, table.rowIndex] })]);
+
+export const savedQueries = sqliteTable("saved_queries", {
+  id: text("id").primaryKey().$defaultFn(() => randomUUID()),
+  workspaceId: text("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  sql: text("sql").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date()),
+  updatedAt: integer("updated_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date()),
+}, (table) => [index("saved_queries_workspace_id_idx").on(table.workspaceId)]);
+
+export const fileShares = sqliteTable("file_shares", {
+  id: text("id").primaryKey().$defaultFn(() => randomUUID()),
+  fileId: text("file_id").notNull().references(() => excelFiles.id, { onDelete: "cascade" }),
+  workspaceId: text("workspace_id").notNull(),
+  userId: text("user_id"),
+  email: text("email"),
+  access: text("access").$type<ShareAccess>().notNull(),
+  createdBy: text("created_by").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date()),
+}, (table) => [
+  uniqueIndex("file_shares_user_idx").on(table.fileId, table.userId),
+  uniqueIndex("file_shares_email_idx").on(table.fileId, table.email),
+]);
+
+export const shareLinks = sqliteTable("share_links", {
+  id: text("id").primaryKey().$defaultFn(() => randomUUID()),
+  fileId: text("file_id").notNull().references(() => excelFiles.id, { onDelete: "cascade" }),
+  workspaceId: text("workspace_id").notNull(),
+  createdBy: text("created_by").notNull(),
+  expiresAt: integer("expires_at", { mode: "timestamp_ms" }).notNull(),
+  revokedAt: integer("revoked_at", { mode: "timestamp_ms" }),
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date()),
+}, (table) => [index("share_links_file_id_idx").on(table.fileId)]);
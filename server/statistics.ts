@@ -0,0 +1,204 @@
+// Column and sheet level statistics computed when a dataset is imported
+import type { ColumnDataType } from "@shared/schema";
+
+// Dates are stored as ISO strings, e.g. 2024-03-01 or 2024-03-01T08:30:00
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/;
+
+export function isMissingValue(value: unknown): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+export function isIsoDateString(value: unknown): value is string {
+  return typeof value === 'string' && ISO_DATE_PATTERN.test(value);
+}
+
+// Numbers and numeric text count as numbers; booleans and dates never do
+export function toNumericValue(value: unknown): number | null {
+  if (typeof value === 'number') return isNaN(value) ? null : value;
+  if (typeof value === 'string' && !isIsoDateString(value)) {
+    const parsed = parseFloat(value);
+    return isNaN(parsed) ? null : parsed;
+  }
+  return null;
+}
+
+// Above these sizes the median is estimated from a random sample and distinct values stop being tracked
+const MEDIAN_SAMPLE_SIZE = 100_000;
+const DISTINCT_VALUE_LIMIT = 100_000;
+
+// Computes column statistics in a single pass so large sheets never need all values in memory
+export class ColumnStatsAccumulator {
+  private count = 0;
+  private nullCount = 0;
+  private numbers = 0;
+  private dates = 0;
+  private booleans = 0;
+
+  // Running mean and variance (Welford's algorithm)
+  private numericCount = 0;
+  private mean = 0;
+  private m2 = 0;
+  private min = Infinity;
+  private max = -Infinity;
+  private sample: number[] = [];
+
+  private minDate: string | undefined;
+  private maxDate: string | undefined;
+
+  private valueCounts = new Map<string, number>();
+  private truncated = false;
+
+  // Rows that were read before this column first appeared count as missing values
+  addMissing(rows: number) {
+    this.count += rows;
+    this.nullCount += rows;
+  }
+
+  add(value: unknown) {
+    this.count++;
+    if (isMissingValue(value)) {
+      this.nullCount++;
+      return;
+    }
+
+    if (typeof value === 'boolean') this.booleans++;
+
+    if (isIsoDateString(value)) {
+      this.dates++;
+      if (this.minDate === undefined || value < this.minDate) this.minDate = value;
+      if (this.maxDate === undefined || value > this.maxDate) this.maxDate = value;
+    } else {
+      const numeric = toNumericValue(value);
+      if (numeric !== null) {
+        this.numbers++;
+        this.addNumber(numeric);
+      }
+    }
+
+    const key = String(value);
+    const seen = this.valueCounts.get(key);
+    if (seen !== undefined || this.valueCounts.size < DISTINCT_VALUE_LIMIT) {
+      this.valueCounts.set(key, (seen || 0) + 1);
+    } else {
+      this.truncated = true;
+    }
+  }
+
+  private addNumber(value: number) {
+    this.numericCount++;
+    const delta = value - this.mean;
+    this.mean += delta / this.numericCount;
+    this.m2 += delta * (value - this.mean);
+    if (value < this.min) this.min = value;
+    if (value > this.max) this.max = value;
+
+    // Reservoir sampling keeps a uniform sample once the column outgrows the sample size
+    if (this.sample.length < MEDIAN_SAMPLE_SIZE) {
+      this.sample.push(value);
+    } else {
+      const slot = Math.floor(Math.random() * this.numericCount);
+      if (slot < MEDIAN_SAMPLE_SIZE) this.sample[slot] = value;
+      this.truncated = true;
+    }
+  }
+
+  private dataType(): ColumnDataType {
+    const nonNull = this.count - this.nullCount;
+    if (nonNull === 0) return 'text';
+
+    const half = nonNull * 0.5;
+    if (this.numbers > half) return 'number';
+    if (this.dates > half) return 'date';
+    if (this.booleans > half) return 'boolean';
+    return 'text';
+  }
+
+  result() {
+    const stats: any = {
+      count: this.count,
+      nullCount: this.nullCount,
+      uniqueCount: this.valueCounts.size,
+      dataType: this.dataType(),
+    };
+
+    if (this.numericCount > 0) {
+      // Numeric statistics
+      const sorted = [...this.sample].sort((a, b) => a - b);
+
+      stats.mean = this.mean;
+      stats.min = this.min;
+      stats.max = this.max;
+      stats.range = this.max - this.min;
+
+      // Median
+      const mid = Math.floor(sorted.length / 2);
+      stats.median = sorted.length % 2 === 0
+        ? (sorted[mid - 1] + sorted[mid]) / 2
+        : sorted[mid];
+
+      // Standard deviation
+      stats.variance = this.m2 / this.numericCount;
+      stats.standardDeviation = Math.sqrt(stats.variance);
+    } else if (this.count > this.nullCount) {
+      if (stats.dataType === 'date') {
+        stats.min = this.minDate;
+        stats.max = this.maxDate;
+      }
+
+      // Text statistics
+      let maxCount = 0;
+      this.valueCounts.forEach((count, key) => {
+        if (count > maxCount) {
+          maxCount = count;
+          stats.mode = key;
+        }
+      });
+    }
+
+    if (this.truncated) {
+      // Median, unique count and mode are estimates for very large columns
+      stats.approximate = true;
+    }
+
+    return stats;
+  }
+}
+
+// Helper function to calculate statistics for a column
+export function calculateColumnStatistics(values: any[], columnName: string) {
+  const accumulator = new ColumnStatsAccumulator();
+  values.forEach(value => accumulator.add(value));
+  return accumulator.result();
+}
+
+// Helper function to derive summary statistics from already computed column statistics
+export function summarizeColumnStatistics(headers: string[], columnStats: Record<string, any>, totalRecords: number) {
+  const totalColumns = headers.length;
+
+  let numericColumns = 0;
+  let textColumns = 0;
+  let totalMissingValues = 0;
+
+  headers.forEach(header => {
+    const stats = columnStats[header];
+    if (stats?.dataType === 'number') {
+      numericColumns++;
+    } else {
+      textColumns++;
+    }
+    totalMissingValues += stats?.nullCount ?? totalRecords;
+  });
+
+  const dataQuality = totalRecords > 0 ?
+    Math.round(((totalRecords * totalColumns - totalMissingValues) / (totalRecords * totalColumns)) * 100) :
+    100;
+
+  return {
+    totalRecords,
+    totalColumns,
+    numericColumns,
+    textColumns,
+    missingValues: totalMissingValues,
+    dataQuality,
+  };
+}
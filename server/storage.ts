@@ -1,97 +1,578 @@
-import { type ExcelFile, type ExcelData, type InsertExcelFile, type InsertExcelData } from "@shared/schema";
+import {
+  type ExcelFile,
+  type ExcelData,
+  type ExcelDataUpdate,
+  type ExcelRow,
+  type FileShare,
+  type InsertExcelFile,
+  type InsertExcelData,
+  type InsertFileShare,
+  type InsertUser,
+  type InsertSavedQuery,
+  type InsertWorkspace,
+  type InsertWorkspaceMember,
+  type RowQuery,
+  type SavedQuery,
+  type ShareAccess,
+  type SharedFile,
+  type ShareLink,
+  type User,
+  type Workspace,
+  type WorkspaceMember,
+  type WorkspaceRole,
+  type WorkspaceWithRole,
+  shareAccessLevels,
+  workspaceRoles,
+} from "@shared/schema";
 import { randomUUID } from "crypto";
+import { compareRows, matchesRowConditions, type RowConditions } from "./row-query";
+import type { AuthUser } from "./auth";
+import { createDatabase } from "./db";
+import { DbStorage } from "./db-storage";
+import { SqliteStorage } from "./sqlite-storage";
 
+// Files, datasets and saved queries belong to a workspace, given as workspaceId to every method that
+// reads or changes them. Those of other workspaces are treated as if they did not exist, so routes
+// answer 404 rather than 403 for them. Which workspaces a user may work in, and with which role,
+// comes from the workspace members (see server/workspaces.ts).
 export interface IStorage {
+  // Prepare the store before the server starts, e.g. apply database migrations
+  initialize(): Promise<void>;
+
+  // Accounts of the local sign-in mode (see server/local-auth.ts), looked up by id or lower case email
+  createUser(user: InsertUser): Promise<User>;
+  getUser(id: string): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
+
+  // Workspaces; the user creating one becomes its admin. Members match a user by id, or by
+  // email when they were added by email and the user's email is verified (see verifiedEmail);
+  // with several matches the strongest role counts.
+  createWorkspace(workspace: InsertWorkspace, creator: AuthUser): Promise<Workspace>;
+  getWorkspacesForUser(user: AuthUser): Promise<WorkspaceWithRole[]>;
+  getWorkspaceRole(workspaceId: string, user: AuthUser): Promise<WorkspaceRole | undefined>;
+  updateWorkspace(id: string, updates: InsertWorkspace): Promise<Workspace | undefined>;
+  // Removes the workspace with its members, files and saved queries
+  deleteWorkspace(id: string): Promise<boolean>;
+
+  // Workspace members, listed in the order they were added
+  getWorkspaceMembers(workspaceId: string): Promise<WorkspaceMember[]>;
+  addWorkspaceMember(workspaceId: string, member: InsertWorkspaceMember): Promise<WorkspaceMember>;
+  updateWorkspaceMember(workspaceId: string, id: string, role: WorkspaceRole): Promise<WorkspaceMember | undefined>;
+  removeWorkspaceMember(workspaceId: string, id: string): Promise<boolean>;
+  // Bind a member added by email to the user who opened its invite (see server/invites.ts); undefined
+  // when the member was removed or its invite was accepted already
+  acceptWorkspaceInvite(id: string, userId: string): Promise<WorkspaceMember | undefined>;
+
   // Excel files
-  createExcelFile(file: InsertExcelFile): Promise<ExcelFile>;
-  getExcelFile(id: string): Promise<ExcelFile | undefined>;
-  getAllExcelFiles(): Promise<ExcelFile[]>;
-  deleteExcelFile(id: string): Promise<boolean>;
-
-  // Excel data
-  createExcelData(data: InsertExcelData): Promise<ExcelData>;
-  getExcelData(fileId: string): Promise<ExcelData[]>;
-  getExcelDataById(id: string): Promise<ExcelData | undefined>;
-  deleteExcelData(fileId: string): Promise<boolean>;
-  updateExcelDataStatistics(id: string, statistics: any): Promise<ExcelData | undefined>;
+  createExcelFile(workspaceId: string, file: InsertExcelFile): Promise<ExcelFile>;
+  getExcelFile(workspaceId: string, id: string): Promise<ExcelFile | undefined>;
+  getAllExcelFiles(workspaceId: string): Promise<ExcelFile[]>;
+  deleteExcelFile(workspaceId: string, id: string): Promise<boolean>;
+
+  // Excel data; a dataset can only be added to a file of the same workspace
+  createExcelData(workspaceId: string, data: InsertExcelData): Promise<ExcelData>;
+  getExcelData(workspaceId: string, fileId: string): Promise<ExcelData[]>;
+  getExcelDataById(workspaceId: string, id: string): Promise<ExcelData | undefined>;
+  deleteExcelData(workspaceId: string, fileId: string): Promise<boolean>;
+  updateExcelDataStatistics(workspaceId: string, id: string, statistics: any): Promise<ExcelData | undefined>;
+  updateExcelData(workspaceId: string, id: string, updates: ExcelDataUpdate): Promise<ExcelData | undefined>;
+
+  // Rows of a dataset, addressed by their 0-based index
+  appendExcelDataRows(workspaceId: string, id: string, rows: Record<string, any>[], formatted?: (Record<string, string> | null)[]): Promise<void>;
+  getExcelDataRows(workspaceId: string, id: string, offset?: number, limit?: number): Promise<ExcelRow[]>;
+  // A page of the rows matching the filters and search, in sort order (see server/row-query.ts)
+  queryExcelDataRows(workspaceId: string, id: string, query: RowQuery): Promise<ExcelRow[]>;
+  countExcelDataRows(workspaceId: string, id: string, conditions: RowConditions): Promise<number>;
+
+  // Saved SQL console queries, listed by name
+  createSavedQuery(workspaceId: string, query: InsertSavedQuery): Promise<SavedQuery>;
+  getSavedQueries(workspaceId: string): Promise<SavedQuery[]>;
+  getSavedQuery(workspaceId: string, id: string): Promise<SavedQuery | undefined>;
+  updateSavedQuery(workspaceId: string, id: string, updates: Partial<InsertSavedQuery>): Promise<SavedQuery | undefined>;
+  deleteSavedQuery(workspaceId: string, id: string): Promise<boolean>;
+
+  // Files shared with single users, listed in the order they were shared. A share matches a user
+  // by id or by email like a member does; with several matches the strongest access counts.
+  getFileShares(workspaceId: string, fileId: string): Promise<FileShare[]>;
+  addFileShare(workspaceId: string, fileId: string, share: InsertFileShare, createdBy: string): Promise<FileShare>;
+  removeFileShare(workspaceId: string, id: string): Promise<boolean>;
+  getFileShareAccess(workspaceId: string, fileId: string, user: AuthUser): Promise<ShareAccess | undefined>;
+  // Bind a share made by email to the user who opened its invite, like acceptWorkspaceInvite
+  acceptFileShareInvite(id: string, userId: string): Promise<FileShare | undefined>;
+  // Files of any workspace shared with the user, newest first
+  getFilesSharedWith(user: AuthUser): Promise<SharedFile[]>;
+
+  // Read-only share links of a file, newest first. getShareLink looks a link up by id alone, as
+  // the link's token names no workspace.
+  createShareLink(workspaceId: string, fileId: string, expiresAt: Date, createdBy: string): Promise<ShareLink>;
+  getShareLinks(workspaceId: string, fileId: string): Promise<ShareLink[]>;
+  getShareLink(id: string): Promise<ShareLink | undefined>;
+  revokeShareLink(workspaceId: string, id: string): Promise<ShareLink | undefined>;
+}
+
+// Read the rows of a dataset page by page, so a whole sheet is never held in memory at once.
+// With conditions only the matching rows are read, still in their original order.
+export async function* scanExcelDataRows(store: IStorage, workspaceId: string, id: string, conditions?: RowConditions, pageSize = 5000): AsyncGenerator<ExcelRow> {
+  const filtered = conditions !== undefined && (conditions.filters.length > 0 || !!conditions.search);
+  for (let offset = 0; ; offset += pageSize) {
+    const rows = filtered
+      ? await store.queryExcelDataRows(workspaceId, id, { ...conditions, offset, limit: pageSize, sort: [] })
+      : await store.getExcelDataRows(workspaceId, id, offset, pageSize);
+    for (const row of rows) yield row;
+    if (rows.length < pageSize) return;
+  }
+}
+
+// Helper function to pick the strongest of the roles a user holds in a workspace
+export function strongestRole(roles: WorkspaceRole[]): WorkspaceRole | undefined {
+  return roles.reduce<WorkspaceRole | undefined>(
+    (strongest, role) => strongest === undefined || workspaceRoles.indexOf(role) > workspaceRoles.indexOf(strongest) ? role : strongest,
+    undefined,
+  );
+}
+
+// Helper function to pick the strongest of the accesses a user was given to a file
+export function strongestAccess(accesses: ShareAccess[]): ShareAccess | undefined {
+  return accesses.reduce<ShareAccess | undefined>(
+    (strongest, access) => strongest === undefined || shareAccessLevels.indexOf(access) > shareAccessLevels.indexOf(strongest) ? access : strongest,
+    undefined,
+  );
+}
+
+// Helper function to list each file shared with a user once, with the strongest access
+export function filesWithAccess(shares: { file: ExcelFile; access: ShareAccess }[]): SharedFile[] {
+  const byId = new Map<string, SharedFile>();
+  for (const { file, access } of shares) {
+    const listed = byId.get(file.id);
+    byId.set(file.id, { ...file, access: listed ? strongestAccess([listed.access, access])! : access });
+  }
+  return Array.from(byId.values());
+}
+
+// Helper function to list each workspace of a user's memberships once, with the strongest role
+export function workspacesWithRoles(memberships: { workspace: Workspace; role: WorkspaceRole }[]): WorkspaceWithRole[] {
+  const byId = new Map<string, WorkspaceWithRole>();
+  for (const { workspace, role } of memberships) {
+    const listed = byId.get(workspace.id);
+    byId.set(workspace.id, { ...workspace, role: listed ? strongestRole([listed.role, role])! : role });
+  }
+  return Array.from(byId.values());
+}
+
+// Helper function to read the lower case email members and shares added by email match the user
+// by. An unverified email could be anyone's, such as that of a local account: those users only
+// reach entries added by email through an invite, which binds the entry to their id.
+export function verifiedEmail(user: AuthUser): string | undefined {
+  return user.emailVerified === true ? user.email?.toLowerCase() : undefined;
+}
+
+// Helper function to build the member entry of a workspace's creator
+export function creatorMember(creator: AuthUser): InsertWorkspaceMember {
+  return { userId: creator.id, email: creator.email?.toLowerCase(), role: 'admin' };
+}
+
+// Helper function to turn the rows given to createExcelData into stored rows
+export function toExcelRows(dataId: string, firstIndex: number, rows: Record<string, any>[], formatted?: (Record<string, string> | null)[] | null): ExcelRow[] {
+  return rows.map((data, index) => ({
+    dataId,
+    rowIndex: firstIndex + index,
+    data,
+    formatted: formatted?.[index] ?? null,
+  }));
 }
 
 export class MemStorage implements IStorage {
   private excelFiles: Map<string, ExcelFile>;
   private excelData: Map<string, ExcelData>;
+  private excelRows: Map<string, ExcelRow[]>;
+  private savedQueries: Map<string, SavedQuery>;
+  private workspaces: Map<string, Workspace>;
+  private workspaceMembers: Map<string, WorkspaceMember>;
+  private fileShares: Map<string, FileShare>;
+  private shareLinks: Map<string, ShareLink>;
+  private users: Map<string, User>;
 
   constructor() {
+    this.users = new Map();
+    this.workspaces = new Map();
+    this.workspaceMembers = new Map();
+    this.fileShares = new Map();
+    this.shareLinks = new Map();
     this.excelFiles = new Map();
     this.excelData = new Map();
+    this.excelRows = new Map();
+    this.savedQueries = new Map();
+  }
+
+  async initialize(): Promise<void> {}
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const user: User = { ...insertUser, id: randomUUID(), createdAt: new Date() };
+    this.users.set(user.id, user);
+    return user;
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.email === email);
+  }
+
+  async createWorkspace(insertWorkspace: InsertWorkspace, creator: AuthUser): Promise<Workspace> {
+    const workspace: Workspace = { ...insertWorkspace, id: randomUUID(), createdBy: creator.id, createdAt: new Date() };
+    this.workspaces.set(workspace.id, workspace);
+    await this.addWorkspaceMember(workspace.id, creatorMember(creator));
+    return workspace;
+  }
+
+  // Helper function to find the members matching a user
+  private membershipsOf(user: AuthUser): WorkspaceMember[] {
+    const email = verifiedEmail(user);
+    return Array.from(this.workspaceMembers.values())
+      .filter(member => member.userId === user.id || (email !== undefined && member.email === email));
+  }
+
+  async getWorkspacesForUser(user: AuthUser): Promise<WorkspaceWithRole[]> {
+    const memberships = this.membershipsOf(user)
+      .map(member => ({ workspace: this.workspaces.get(member.workspaceId)!, role: member.role }))
+      .sort((a, b) => a.workspace.createdAt.getTime() - b.workspace.createdAt.getTime());
+    return workspacesWithRoles(memberships);
+  }
+
+  async getWorkspaceRole(workspaceId: string, user: AuthUser): Promise<WorkspaceRole | undefined> {
+    return strongestRole(this.membershipsOf(user).filter(member => member.workspaceId === workspaceId).map(member => member.role));
+  }
+
+  async updateWorkspace(id: string, updates: InsertWorkspace): Promise<Workspace | undefined> {
+    const workspace = this.workspaces.get(id);
+    if (workspace) {
+      const updated = { ...workspace, ...updates };
+      this.workspaces.set(id, updated);
+      return updated;
+    }
+    return undefined;
+  }
+
+  async deleteWorkspace(id: string): Promise<boolean> {
+    if (!this.workspaces.has(id)) return false;
+    for (const file of await this.getAllExcelFiles(id)) await this.deleteExcelFile(id, file.id);
+    for (const query of await this.getSavedQueries(id)) this.savedQueries.delete(query.id);
+    for (const member of await this.getWorkspaceMembers(id)) this.workspaceMembers.delete(member.id);
+    return this.workspaces.delete(id);
+  }
+
+  async getWorkspaceMembers(workspaceId: string): Promise<WorkspaceMember[]> {
+    return Array.from(this.workspaceMembers.values()).filter(member => member.workspaceId === workspaceId);
+  }
+
+  async addWorkspaceMember(workspaceId: string, insertMember: InsertWorkspaceMember): Promise<WorkspaceMember> {
+    const member: WorkspaceMember = {
+      id: randomUUID(),
+      workspaceId,
+      userId: insertMember.userId ?? null,
+      email: insertMember.email ?? null,
+      role: insertMember.role,
+      createdAt: new Date(),
+    };
+    this.workspaceMembers.set(member.id, member);
+    return member;
+  }
+
+  async updateWorkspaceMember(workspaceId: string, id: string, role: WorkspaceRole): Promise<WorkspaceMember | undefined> {
+    const member = this.inWorkspace(this.workspaceMembers, workspaceId, id);
+    if (member) {
+      const updated = { ...member, role };
+      this.workspaceMembers.set(id, updated);
+      return updated;
+    }
+    return undefined;
+  }
+
+  async removeWorkspaceMember(workspaceId: string, id: string): Promise<boolean> {
+    return !!this.inWorkspace(this.workspaceMembers, workspaceId, id) && this.workspaceMembers.delete(id);
+  }
+
+  async acceptWorkspaceInvite(id: string, userId: string): Promise<WorkspaceMember | undefined> {
+    const member = this.workspaceMembers.get(id);
+    if (!member || member.userId !== null) return undefined;
+    const accepted = { ...member, userId };
+    this.workspaceMembers.set(id, accepted);
+    return accepted;
+  }
+
+  // Helper function to look up an entry only when it belongs to the workspace
+  private inWorkspace<T extends { workspaceId: string }>(entries: Map<string, T>, workspaceId: string, id: string): T | undefined {
+    const entry = entries.get(id);
+    return entry?.workspaceId === workspaceId ? entry : undefined;
   }
 
-  async createExcelFile(insertFile: InsertExcelFile): Promise<ExcelFile> {
+  async createExcelFile(workspaceId: string, insertFile: InsertExcelFile): Promise<ExcelFile> {
     const id = randomUUID();
     const file: ExcelFile = {
       ...insertFile,
+      batchId: insertFile.batchId ?? null,
       id,
+      workspaceId,
       uploadedAt: new Date(),
     };
     this.excelFiles.set(id, file);
     return file;
   }
 
-  async getExcelFile(id: string): Promise<ExcelFile | undefined> {
-    return this.excelFiles.get(id);
+  async getExcelFile(workspaceId: string, id: string): Promise<ExcelFile | undefined> {
+    return this.inWorkspace(this.excelFiles, workspaceId, id);
   }
 
-  async getAllExcelFiles(): Promise<ExcelFile[]> {
-    return Array.from(this.excelFiles.values()).sort(
-      (a, b) => b.uploadedAt.getTime() - a.uploadedAt.getTime()
-    );
+  async getAllExcelFiles(workspaceId: string): Promise<ExcelFile[]> {
+    return Array.from(this.excelFiles.values())
+      .filter(file => file.workspaceId === workspaceId)
+      .sort((a, b) => b.uploadedAt.getTime() - a.uploadedAt.getTime());
   }
 
-  async deleteExcelFile(id: string): Promise<boolean> {
-    // Also delete associated data
-    const dataEntries = Array.from(this.excelData.values()).filter(d => d.fileId === id);
-    dataEntries.forEach(d => this.excelData.delete(d.id));
-    
+  async deleteExcelFile(workspaceId: string, id: string): Promise<boolean> {
+    if (!this.inWorkspace(this.excelFiles, workspaceId, id)) return false;
+    // Also delete associated data, shares and links
+    await this.deleteExcelData(workspaceId, id);
+    for (const share of await this.getFileShares(workspaceId, id)) this.fileShares.delete(share.id);
+    for (const link of await this.getShareLinks(workspaceId, id)) this.shareLinks.delete(link.id);
     return this.excelFiles.delete(id);
   }
 
-  async createExcelData(insertData: InsertExcelData): Promise<ExcelData> {
+  async createExcelData(workspaceId: string, { data: rows = [], formattedData, ...insertData }: InsertExcelData): Promise<ExcelData> {
+    if (!this.inWorkspace(this.excelFiles, workspaceId, insertData.fileId)) {
+      throw new Error(`Excel file ${insertData.fileId} not found`);
+    }
+
     const id = randomUUID();
     const data: ExcelData = {
       ...insertData,
+      sourceType: insertData.sourceType ?? "sheet",
+      sourceRef: insertData.sourceRef ?? null,
+      statistics: insertData.statistics ?? null,
+      importOptions: insertData.importOptions ?? null,
+      importReport: insertData.importReport ?? null,
+      columnFormats: insertData.columnFormats ?? null,
+      cellDetails: insertData.cellDetails ?? null,
       id,
+      workspaceId,
       createdAt: new Date(),
     };
     this.excelData.set(id, data);
+    this.excelRows.set(id, toExcelRows(id, 0, rows, formattedData));
     return data;
   }
 
-  async getExcelData(fileId: string): Promise<ExcelData[]> {
-    return Array.from(this.excelData.values()).filter(d => d.fileId === fileId);
+  async getExcelData(workspaceId: string, fileId: string): Promise<ExcelData[]> {
+    return Array.from(this.excelData.values()).filter(d => d.fileId === fileId && d.workspaceId === workspaceId);
   }
 
-  async getExcelDataById(id: string): Promise<ExcelData | undefined> {
-    return this.excelData.get(id);
+  async getExcelDataById(workspaceId: string, id: string): Promise<ExcelData | undefined> {
+    return this.inWorkspace(this.excelData, workspaceId, id);
   }
 
-  async deleteExcelData(fileId: string): Promise<boolean> {
-    const dataEntries = Array.from(this.excelData.values()).filter(d => d.fileId === fileId);
+  async deleteExcelData(workspaceId: string, fileId: string): Promise<boolean> {
+    const dataEntries = await this.getExcelData(workspaceId, fileId);
     let deleted = false;
     dataEntries.forEach(d => {
       this.excelData.delete(d.id);
+      this.excelRows.delete(d.id);
       deleted = true;
     });
     return deleted;
   }
 
-  async updateExcelDataStatistics(id: string, statistics: any): Promise<ExcelData | undefined> {
-    const data = this.excelData.get(id);
+  async updateExcelDataStatistics(workspaceId: string, id: string, statistics: any): Promise<ExcelData | undefined> {
+    return this.updateExcelData(workspaceId, id, { statistics });
+  }
+
+  async updateExcelData(workspaceId: string, id: string, updates: ExcelDataUpdate): Promise<ExcelData | undefined> {
+    const data = this.inWorkspace(this.excelData, workspaceId, id);
     if (data) {
-      const updated = { ...data, statistics };
+      const updated = { ...data, ...updates };
       this.excelData.set(id, updated);
       return updated;
     }
     return undefined;
   }
+
+  // Helper function to get the rows of a dataset of the workspace, or none
+  private workspaceRows(workspaceId: string, id: string): ExcelRow[] {
+    return this.inWorkspace(this.excelData, workspaceId, id) ? this.excelRows.get(id) ?? [] : [];
+  }
+
+  async appendExcelDataRows(workspaceId: string, id: string, rows: Record<string, any>[], formatted?: (Record<string, string> | null)[]): Promise<void> {
+    const existing = this.inWorkspace(this.excelData, workspaceId, id) && this.excelRows.get(id);
+    if (!existing) {
+      throw new Error(`Excel data ${id} not found`);
+    }
+    toExcelRows(id, existing.length, rows, formatted).forEach(row => existing.push(row));
+  }
+
+  async getExcelDataRows(workspaceId: string, id: string, offset = 0, limit?: number): Promise<ExcelRow[]> {
+    const rows = this.workspaceRows(workspaceId, id);
+    return rows.slice(offset, limit === undefined ? undefined : offset + limit);
+  }
+
+  async queryExcelDataRows(workspaceId: string, id: string, query: RowQuery): Promise<ExcelRow[]> {
+    const matching = this.workspaceRows(workspaceId, id).filter(row => matchesRowConditions(row.data as Record<string, any>, query));
+    if (query.sort.length > 0) matching.sort(compareRows(query.sort));
+    return matching.slice(query.offset, query.offset + query.limit);
+  }
+
+  async countExcelDataRows(workspaceId: string, id: string, conditions: RowConditions): Promise<number> {
+    const rows = this.workspaceRows(workspaceId, id);
+    if (conditions.filters.length === 0 && !conditions.search) return rows.length;
+    return rows.filter(row => matchesRowConditions(row.data as Record<string, any>, conditions)).length;
+  }
+
+  async createSavedQuery(workspaceId: string, insertQuery: InsertSavedQuery): Promise<SavedQuery> {
+    const now = new Date();
+    const query: SavedQuery = { ...insertQuery, id: randomUUID(), workspaceId, createdAt: now, updatedAt: now };
+    this.savedQueries.set(query.id, query);
+    return query;
+  }
+
+  async getSavedQueries(workspaceId: string): Promise<SavedQuery[]> {
+    return Array.from(this.savedQueries.values())
+      .filter(query => query.workspaceId === workspaceId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getSavedQuery(workspaceId: string, id: string): Promise<SavedQuery | undefined> {
+    return this.inWorkspace(this.savedQueries, workspaceId, id);
+  }
+
+  async updateSavedQuery(workspaceId: string, id: string, updates: Partial<InsertSavedQuery>): Promise<SavedQuery | undefined> {
+    const query = this.inWorkspace(this.savedQueries, workspaceId, id);
+    if (query) {
+      const updated = { ...query, ...updates, updatedAt: new Date() };
+      this.savedQueries.set(id, updated);
+      return updated;
+    }
+    return undefined;
+  }
+
+  async deleteSavedQuery(workspaceId: string, id: string): Promise<boolean> {
+    return !!this.inWorkspace(this.savedQueries, workspaceId, id) && this.savedQueries.delete(id);
+  }
+
+  async getFileShares(workspaceId: string, fileId: string): Promise<FileShare[]> {
+    return Array.from(this.fileShares.values())
+      .filter(share => share.workspaceId === workspaceId && share.fileId === fileId);
+  }
+
+  async addFileShare(workspaceId: string, fileId: string, insertShare: InsertFileShare, createdBy: string): Promise<FileShare> {
+    if (!this.inWorkspace(this.excelFiles, workspaceId, fileId)) {
+      throw new Error(`Excel file ${fileId} not found`);
+    }
+
+    const share: FileShare = {
+      id: randomUUID(),
+      fileId,
+      workspaceId,
+      userId: insertShare.userId ?? null,
+      email: insertShare.email ?? null,
+      access: insertShare.access,
+      createdBy,
+      createdAt: new Date(),
+    };
+    this.fileShares.set(share.id, share);
+    return share;
+  }
+
+  async removeFileShare(workspaceId: string, id: string): Promise<boolean> {
+    return !!this.inWorkspace(this.fileShares, workspaceId, id) && this.fileShares.delete(id);
+  }
+
+  // Helper function to find the shares matching a user
+  private sharesOf(user: AuthUser): FileShare[] {
+    const email = verifiedEmail(user);
+    return Array.from(this.fileShares.values())
+      .filter(share => share.userId === user.id || (email !== undefined && share.email === email));
+  }
+
+  async getFileShareAccess(workspaceId: string, fileId: string, user: AuthUser): Promise<ShareAccess | undefined> {
+    return strongestAccess(this.sharesOf(user)
+      .filter(share => share.workspaceId === workspaceId && share.fileId === fileId)
+      .map(share => share.access));
+  }
+
+  async acceptFileShareInvite(id: string, userId: string): Promise<FileShare | undefined> {
+    const share = this.fileShares.get(id);
+    if (!share || share.userId !== null) return undefined;
+    const accepted = { ...share, userId };
+    this.fileShares.set(id, accepted);
+    return accepted;
+  }
+
+  async getFilesSharedWith(user: AuthUser): Promise<SharedFile[]> {
+    const shares = this.sharesOf(user)
+      .map(share => ({ file: this.excelFiles.get(share.fileId)!, access: share.access }))
+      .sort((a, b) => b.file.uploadedAt.getTime() - a.file.uploadedAt.getTime());
+    return filesWithAccess(shares);
+  }
+
+  async createShareLink(workspaceId: string, fileId: string, expiresAt: Date, createdBy: string): Promise<ShareLink> {
+    if (!this.inWorkspace(this.excelFiles, workspaceId, fileId)) {
+      throw new Error(`Excel file ${fileId} not found`);
+    }
+
+    const link: ShareLink = { id: randomUUID(), fileId, workspaceId, createdBy, expiresAt, revokedAt: null, createdAt: new Date() };
+    this.shareLinks.set(link.id, link);
+    return link;
+  }
+
+  async getShareLinks(workspaceId: string, fileId: string): Promise<ShareLink[]> {
+    return Array.from(this.shareLinks.values())
+      .filter(link => link.workspaceId === workspaceId && link.fileId === fileId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getShareLink(id: string): Promise<ShareLink | undefined> {
+    return this.shareLinks.get(id);
+  }
+
+  async revokeShareLink(workspaceId: string, id: string): Promise<ShareLink | undefined> {
+    const link = this.inWorkspace(this.shareLinks, workspaceId, id);
+    if (link) {
+      const revoked = { ...link, revokedAt: link.revokedAt ?? new Date() };
+      this.shareLinks.set(id, revoked);
+      return revoked;
+    }
+    return undefined;
+  }
+}
+
+export type StorageDriver = 'memory' | 'postgres' | 'sqlite';
+
+const DEFAULT_SQLITE_PATH = 'data/excel-analysis.db';
+
+// STORAGE selects the driver; without it Postgres is used whenever DATABASE_URL is set,
+// then SQLite when SQLITE_PATH is set, and memory otherwise
+function defaultDriver(): StorageDriver {
+  if (process.env.DATABASE_URL) return 'postgres';
+  if (process.env.SQLITE_PATH) return 'sqlite';
+  return 'memory';
+}
+
+function createStorage(): IStorage {
+  const driver = (process.env.STORAGE ?? defaultDriver()) as StorageDriver;
+
+  switch (driver) {
+    case 'memory':
+      return new MemStorage();
+    case 'postgres':
+      if (!process.env.DATABASE_URL) {
+        throw new Error("STORAGE=postgres requires DATABASE_URL");
+      }
+      return new DbStorage(createDatabase(process.env.DATABASE_URL));
+    case 'sqlite':
+      return new SqliteStorage(process.env.SQLITE_PATH ?? DEFAULT_SQLITE_PATH);
+    default:
+      throw new Error(`Unknown STORAGE driver: ${driver}`);
+  }
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
@@ -0,0 +1,448 @@
+// Imports very large files as a stream: rows are written to storage in batches while
+// column statistics are accumulated in a single pass, so memory use stays flat
+import path from "path";
+import { storage } from "./storage";
+import { streamDelimitedRows, coerceDelimitedValue } from "./delimited";
+import { streamNdjsonRecords } from "./json-import";
+import { applyImportOptions, isBlankRow, normalizeHeaders } from "./sheet-layout";
+import { XlsxStreamReader, type StreamedRow, type StreamedWorksheet } from "./xlsx-stream";
+import { ColumnStatsAccumulator, summarizeColumnStatistics } from "./statistics";
+import { importReportWarnings, type ImportProgress } from "./import-jobs";
+import { ColumnOverrides, isSheetIncluded } from "./column-types";
+import {
+  baseSheetName,
+  delimiterForFile,
+  detectUploadFormat,
+  isNewlineDelimitedJson,
+  resolveSheetOptions,
+  type ParsedSheet,
+} from "./importer";
+import {
+  insertExcelDataSchema,
+  PREVIEW_ROW_COUNT,
+  type AppliedImportOptions,
+  type ExcelData,
+  type ExcelFile,
+  type ImportCommit,
+  type ImportOptions,
+  type ImportReport,
+  type UploadOptions,
+} from "@shared/schema";
+
+const ROW_BATCH_SIZE = 1000;
+// Rows read ahead of the header so it can be detected the same way as for small files
+const HEADER_LOOKAHEAD_ROWS = 50;
+
+// Only formats that can be read incrementally are streamed; .xls and .ods always load in memory
+export function canStreamImport(originalName: string, mimeType: string): boolean {
+  switch (detectUploadFormat(originalName, mimeType)) {
+    case 'delimited':
+      return true;
+    case 'json':
+      return isNewlineDelimitedJson(originalName, mimeType);
+    case 'spreadsheet':
+      return path.extname(originalName).toLowerCase() === '.xlsx';
+    default:
+      return false;
+  }
+}
+
+// Let other requests run between batches
+function yieldToEventLoop(): Promise<void> {
+  return new Promise(resolve => setImmediate(resolve));
+}
+
+// Builds one excelData entry incrementally
+class StreamingDatasetWriter {
+  private dataId: string | undefined;
+  private headers: string[] = [];
+  private accumulators = new Map<string, ColumnStatsAccumulator>();
+  private formatCounts = new Map<string, Map<string, number>>();
+  private batch: Record<string, any>[] = [];
+  private rowCount = 0;
+
+  constructor(private file: ExcelFile, private sheetName: string, private progress?: ImportProgress) {}
+
+  async start(headers: string[]) {
+    this.progress?.sheetStarted(this.sheetName);
+    headers.forEach(header => this.addColumn(header));
+
+    const entry = insertExcelDataSchema.parse({
+      fileId: this.file.id,
+      sheetName: this.sheetName,
+      headers: this.headers,
+      data: [],
+      rowCount: 0,
+      columnCount: this.headers.length,
+    });
+    this.dataId = (await storage.createExcelData(this.file.workspaceId, entry)).id;
+  }
+
+  hasColumn(header: string): boolean {
+    return this.accumulators.has(header);
+  }
+
+  // Columns that first appear after some rows were written count those rows as missing
+  addColumn(header: string) {
+    const accumulator = new ColumnStatsAccumulator();
+    accumulator.addMissing(this.rowCount);
+    this.accumulators.set(header, accumulator);
+    this.headers.push(header);
+  }
+
+  async addRow(record: Record<string, any>, formats?: Record<string, string | undefined>) {
+    this.headers.forEach(header => this.accumulators.get(header)!.add(record[header]));
+
+    if (formats) {
+      Object.keys(formats).forEach(header => {
+        const format = formats[header];
+        if (!format) return;
+        const counts = this.formatCounts.get(header) ?? new Map<string, number>();
+        counts.set(format, (counts.get(format) || 0) + 1);
+        this.formatCounts.set(header, counts);
+      });
+    }
+
+    this.batch.push(record);
+    this.rowCount++;
+    if (this.batch.length >= ROW_BATCH_SIZE) await this.flush();
+  }
+
+  private async flush() {
+    if (!this.dataId || this.batch.length === 0) return;
+    await storage.appendExcelDataRows(this.file.workspaceId, this.dataId, this.batch);
+    this.batch = [];
+    this.progress?.rowsProcessed(this.sheetName, this.rowCount);
+    await yieldToEventLoop();
+    this.progress?.signal.throwIfAborted();
+  }
+
+  async finish(importOptions: AppliedImportOptions | null, importReport: ImportReport | null): Promise<ExcelData | undefined> {
+    await this.flush();
+    if (!this.dataId) return undefined;
+
+    const columnStats: Record<string, any> = {};
+    this.headers.forEach(header => {
+      columnStats[header] = this.accumulators.get(header)!.result();
+    });
+
+    // Most common number format per column, e.g. "$#,##0.00" or "0%"
+    const columnFormats: Record<string, string> = {};
+    this.formatCounts.forEach((counts, header) => {
+      let best: string | undefined;
+      counts.forEach((count, format) => {
+        if (best === undefined || count > counts.get(best)!) best = format;
+      });
+      if (best) columnFormats[header] = best;
+    });
+
+    this.progress?.sheetFinished(this.sheetName, this.rowCount, importReportWarnings(importReport));
+    return storage.updateExcelData(this.file.workspaceId, this.dataId, {
+      headers: this.headers,
+      rowCount: this.rowCount,
+      columnCount: this.headers.length,
+      statistics: {
+        columns: columnStats,
+        summary: summarizeColumnStatistics(this.headers, columnStats, this.rowCount),
+      },
+      importOptions,
+      importReport,
+      columnFormats: Object.keys(columnFormats).length > 0 ? columnFormats : null,
+    });
+  }
+}
+
+// Options that need the whole sheet in memory are not applied to streamed imports
+function unsupportedOptionWarnings(options: ImportOptions): string[] {
+  const warnings: string[] = [];
+  if (options.range) warnings.push(`Cell range ${options.range} was not applied because the file was streamed`);
+  if (options.ignoreHidden) warnings.push('Hidden rows and columns were kept because the file was streamed');
+  if (options.richImport) warnings.push('Formulas, hyperlinks and comments were not kept because the file was streamed');
+  return warnings;
+}
+
+// Parts of a workbook the in-memory importer reads and the streaming reader leaves out. Merged
+// areas follow the rows in the sheet, so they are only known once the sheet was read to its end.
+function skippedWorkbookWarnings(reader: XlsxStreamReader, sheet: StreamedWorksheet): string[] {
+  const warnings: string[] = [];
+  if (sheet.tableCount > 0) warnings.push('Excel tables were imported as plain rows of the sheet because the file was streamed');
+  if (sheet.namedRanges.length > 0) warnings.push(`Named ranges ${sheet.namedRanges.join(', ')} were not imported because the file was streamed`);
+  if (reader.mergedCellCount(sheet)) warnings.push('Merged cells were not filled in because the file was streamed');
+  return warnings;
+}
+
+// Resolve the header from the first rows. The rows read so far are returned along with the
+// iterator, which continues after them.
+async function readGridHeader(rows: AsyncIterable<StreamedRow>, options: ImportOptions) {
+  const iterator = rows[Symbol.asyncIterator]();
+  const lookahead: StreamedRow[] = [];
+  const lookaheadLimit = options.skipRows + (options.headerRow ?? 0) + options.headerRowCount + HEADER_LOOKAHEAD_ROWS;
+
+  while (lookahead.length < lookaheadLimit) {
+    const next = await iterator.next();
+    if (next.done) break;
+    lookahead.push(next.value);
+  }
+
+  const layout = applyImportOptions(lookahead.map(row => row.values), options);
+  const { headers, renamedColumns } = normalizeHeaders(layout.headers);
+
+  // Data rows in file order: those already read, then every following non-blank row
+  async function* dataRows(): AsyncGenerator<StreamedRow> {
+    try {
+      for (const index of layout.rowIndices) yield lookahead[index];
+      while (true) {
+        const next = await iterator.next();
+        if (next.done) return;
+        if (!isBlankRow(next.value.values)) yield next.value;
+      }
+    } finally {
+      // Close the underlying file when a preview stops reading early
+      await iterator.return?.();
+    }
+  }
+
+  return { layout, headers, renamedColumns, dataRows: dataRows() };
+}
+
+// Helper function to read a cell of a streamed row. Rows shorter than the header, such as ragged
+// CSV lines, have no value for their last columns, which the coercion never sees.
+function streamedCell(row: StreamedRow, index: number, coerce: (value: any) => any): any {
+  const value = row.values[index];
+  return value === undefined ? null : coerce(value);
+}
+
+// Resolve the header from the first rows, then write every following non-blank row
+async function importGridRows(
+  file: ExcelFile,
+  sheetName: string,
+  rows: AsyncIterable<StreamedRow>,
+  options: ImportOptions,
+  progress?: ImportProgress,
+  coerce: (value: any) => any = value => value,
+  overrides = new ColumnOverrides(),
+  sourceWarnings: () => string[] = () => [],
+): Promise<ExcelData | undefined> {
+  const { layout, headers, renamedColumns, dataRows } = await readGridHeader(rows, options);
+  if (headers.length === 0) return undefined;
+
+  const columnNames = headers.map(header => overrides.header(header));
+  const writer = new StreamingDatasetWriter(file, sheetName, progress);
+  await writer.start(columnNames);
+
+  for await (const row of dataRows) {
+    const record: Record<string, any> = {};
+    const formats: Record<string, string | undefined> = {};
+    headers.forEach((header, index) => {
+      record[columnNames[index]] = overrides.value(header, streamedCell(row, index, coerce)) ?? null;
+      formats[columnNames[index]] = row.formats[index];
+    });
+    await writer.addRow(record, formats);
+  }
+
+  const warnings = [...unsupportedOptionWarnings(options), ...sourceWarnings(), ...overrides.warnings()];
+  return writer.finish(layout.importOptions, {
+    renamedColumns,
+    ...(warnings.length > 0 ? { warnings } : {}),
+  });
+}
+
+// Read only as far as needed for the import preview
+async function previewGridRows(
+  sheetName: string,
+  rows: AsyncIterable<StreamedRow>,
+  options: ImportOptions,
+  coerce: (value: any) => any = value => value,
+  sourceWarnings: () => string[] = () => [],
+): Promise<ParsedSheet> {
+  const { layout, headers, renamedColumns, dataRows } = await readGridHeader(rows, options);
+  const previewRows: any[][] = [];
+
+  for await (const row of dataRows) {
+    if (previewRows.length >= PREVIEW_ROW_COUNT) break;
+    previewRows.push(headers.map((_, index) => streamedCell(row, index, coerce)));
+  }
+
+  const warnings = [...unsupportedOptionWarnings(options), ...sourceWarnings()];
+  return {
+    sheetName,
+    headers,
+    rows: previewRows,
+    importOptions: layout.importOptions,
+    importReport: {
+      renamedColumns,
+      ...(warnings.length > 0 ? { warnings } : {}),
+    },
+  };
+}
+
+async function* delimitedGridRows(filePath: string, delimiter?: string): AsyncGenerator<StreamedRow> {
+  for await (const values of streamDelimitedRows(filePath, delimiter)) {
+    yield { values, formats: [] };
+  }
+}
+
+async function streamDelimitedFile(
+  file: ExcelFile,
+  filePath: string,
+  originalName: string,
+  options?: UploadOptions,
+  progress?: ImportProgress,
+  selection?: ImportCommit,
+) {
+  const sheetName = baseSheetName(originalName);
+  if (!isSheetIncluded(selection?.sheets, sheetName)) return [];
+
+  const entry = await importGridRows(
+    file,
+    sheetName,
+    delimitedGridRows(filePath, delimiterForFile(originalName)),
+    resolveSheetOptions(options, sheetName),
+    progress,
+    coerceDelimitedValue,
+    ColumnOverrides.forSheet(selection?.sheets[sheetName]),
+  );
+  return entry ? [entry] : [];
+}
+
+async function streamSpreadsheetFile(
+  file: ExcelFile,
+  filePath: string,
+  options?: UploadOptions,
+  progress?: ImportProgress,
+  selection?: ImportCommit,
+) {
+  const reader = await XlsxStreamReader.open(filePath);
+  const results: ExcelData[] = [];
+
+  for (const sheet of await reader.worksheets()) {
+    if (!isSheetIncluded(selection?.sheets, sheet.name)) continue;
+
+    const entry = await importGridRows(
+      file,
+      sheet.name,
+      reader.rows(sheet),
+      resolveSheetOptions(options, sheet.name),
+      progress,
+      undefined,
+      ColumnOverrides.forSheet(selection?.sheets[sheet.name], reader.date1904),
+      () => skippedWorkbookWarnings(reader, sheet),
+    );
+    if (entry) results.push(entry);
+  }
+
+  return results;
+}
+
+// NDJSON records can introduce new keys at any line, so columns are added as they appear
+async function streamNdjsonFile(
+  file: ExcelFile,
+  filePath: string,
+  originalName: string,
+  progress?: ImportProgress,
+  selection?: ImportCommit,
+) {
+  const sheetName = baseSheetName(originalName);
+  if (!isSheetIncluded(selection?.sheets, sheetName)) return [];
+
+  const overrides = ColumnOverrides.forSheet(selection?.sheets[sheetName]);
+  const writer = new StreamingDatasetWriter(file, sheetName, progress);
+  let started = false;
+
+  for await (const source of streamNdjsonRecords(filePath)) {
+    const record: Record<string, any> = {};
+    Object.keys(source).forEach(key => {
+      record[overrides.header(key)] = overrides.value(key, source[key]);
+    });
+
+    if (!started) {
+      await writer.start(Object.keys(record));
+      started = true;
+    } else {
+      Object.keys(record).forEach(key => {
+        if (!writer.hasColumn(key)) writer.addColumn(key);
+      });
+    }
+    await writer.addRow(record);
+  }
+
+  const warnings = overrides.warnings();
+  const entry = await writer.finish(null, warnings.length > 0 ? { renamedColumns: [], warnings } : null);
+  return entry ? [entry] : [];
+}
+
+export async function streamImportFile(
+  file: ExcelFile,
+  filePath: string,
+  originalName: string,
+  mimeType: string,
+  options?: UploadOptions,
+  progress?: ImportProgress,
+  selection?: ImportCommit,
+): Promise<ExcelData[]> {
+  switch (detectUploadFormat(originalName, mimeType)) {
+    case 'spreadsheet':
+      return streamSpreadsheetFile(file, filePath, options, progress, selection);
+    case 'delimited':
+      return streamDelimitedFile(file, filePath, originalName, options, progress, selection);
+    case 'json':
+      return streamNdjsonFile(file, filePath, originalName, progress, selection);
+    default:
+      throw new Error(`Unsupported file type: ${originalName}`);
+  }
+}
+
+async function previewNdjsonFile(filePath: string, originalName: string): Promise<ParsedSheet> {
+  const records: Record<string, any>[] = [];
+  const headers = new Set<string>();
+
+  for await (const record of streamNdjsonRecords(filePath)) {
+    if (records.length >= PREVIEW_ROW_COUNT) break;
+    Object.keys(record).forEach(key => headers.add(key));
+    records.push(record);
+  }
+
+  return {
+    sheetName: baseSheetName(originalName),
+    headers: Array.from(headers),
+    rows: records.map(record => Array.from(headers, header => record[header])),
+  };
+}
+
+// Parse only the first rows of each sheet of a large file, for the import preview
+export async function streamPreviewFile(
+  filePath: string,
+  originalName: string,
+  mimeType: string,
+  options?: UploadOptions,
+): Promise<ParsedSheet[]> {
+  switch (detectUploadFormat(originalName, mimeType)) {
+    case 'spreadsheet': {
+      const reader = await XlsxStreamReader.open(filePath);
+      const sheets: ParsedSheet[] = [];
+      for (const sheet of await reader.worksheets()) {
+        sheets.push(await previewGridRows(
+          sheet.name,
+          reader.rows(sheet),
+          resolveSheetOptions(options, sheet.name),
+          undefined,
+          () => skippedWorkbookWarnings(reader, sheet),
+        ));
+      }
+      return sheets;
+    }
+    case 'delimited': {
+      const sheetName = baseSheetName(originalName);
+      return [await previewGridRows(
+        sheetName,
+        delimitedGridRows(filePath, delimiterForFile(originalName)),
+        resolveSheetOptions(options, sheetName),
+        coerceDelimitedValue,
+      )];
+    }
+    case 'json':
+      return [await previewNdjsonFile(filePath, originalName)];
+    default:
+      throw new Error(`Unsupported file type: ${originalName}`);
+  }
+}
@@ -0,0 +1,115 @@
+// Finds Excel defined tables (ListObjects) and named ranges so each can be imported as its own dataset
+import XLSX from "xlsx";
+import path from "path";
+import { xmlAttribute } from "./xml";
+
+export interface TableDefinition {
+  name: string;
+  sheetName: string;
+  ref: string; // A1-style range including header and totals rows
+  headerRowCount: number;
+  totalsRowCount: number;
+}
+
+export interface NamedRangeDefinition {
+  name: string;
+  sheetName: string;
+  ref: string;
+}
+
+function readZipEntry(archive: any, entryPath: string): string | null {
+  const entry = XLSX.CFB.find(archive, `/${entryPath}`);
+  if (!entry || !entry.content) return null;
+  return Buffer.from(entry.content).toString('utf-8');
+}
+
+// Map relationship ids to their targets, resolved against the folder of the part that owns them
+export function readRelationships(archive: any, partPath: string): Record<string, string> {
+  const relsPath = path.posix.join(path.posix.dirname(partPath), '_rels', `${path.posix.basename(partPath)}.rels`);
+  const xml = readZipEntry(archive, relsPath);
+  const relationships: Record<string, string> = {};
+  if (!xml) return relationships;
+
+  (xml.match(/<Relationship\b[^>]*>/g) ?? []).forEach(element => {
+    const id = xmlAttribute(element, 'Id');
+    const target = xmlAttribute(element, 'Target');
+    if (!id || !target) return;
+    relationships[id] = target.startsWith('/')
+      ? target.slice(1)
+      : path.posix.normalize(path.posix.join(path.posix.dirname(partPath), target));
+  });
+
+  return relationships;
+}
+
+// Tables live in separate xl/tables/tableN.xml parts linked from their worksheet; only .xlsx files have them
+export function readTableDefinitions(fileBuffer: Buffer): TableDefinition[] {
+  let archive: any;
+  try {
+    archive = XLSX.CFB.read(fileBuffer, { type: 'buffer' });
+  } catch {
+    return [];
+  }
+
+  const workbookXml = readZipEntry(archive, 'xl/workbook.xml');
+  if (!workbookXml) return [];
+
+  const workbookRels = readRelationships(archive, 'xl/workbook.xml');
+  const tables: TableDefinition[] = [];
+
+  (workbookXml.match(/<sheet\b[^>]*>/g) ?? []).forEach(sheetElement => {
+    const sheetName = xmlAttribute(sheetElement, 'name');
+    const relationshipId = xmlAttribute(sheetElement, 'r:id');
+    const sheetPath = relationshipId ? workbookRels[relationshipId] : undefined;
+    if (!sheetName || !sheetPath) return;
+
+    const sheetRels = readRelationships(archive, sheetPath);
+    Object.keys(sheetRels)
+      .map(id => sheetRels[id])
+      .filter(target => /tables\/[^/]+\.xml$/.test(target))
+      .forEach(tablePath => {
+        const tableXml = readZipEntry(archive, tablePath);
+        const tableElement = tableXml?.match(/<table\b[^>]*>/)?.[0];
+        if (!tableElement) return;
+
+        const ref = xmlAttribute(tableElement, 'ref');
+        const name = xmlAttribute(tableElement, 'displayName') ?? xmlAttribute(tableElement, 'name');
+        if (!ref || !name) return;
+
+        tables.push({
+          name,
+          sheetName,
+          ref,
+          headerRowCount: parseInt(xmlAttribute(tableElement, 'headerRowCount') ?? '1', 10),
+          totalsRowCount: parseInt(xmlAttribute(tableElement, 'totalsRowCount') ?? '0', 10),
+        });
+      });
+  });
+
+  return tables;
+}
+
+// A defined name that points at one rectangular range, e.g. Budget = 'Plan 2024'!$B$3:$F$20.
+// Built-in names such as _xlnm.Print_Area and names of formulas or constants are not ranges.
+export function parseNamedRange(name: string, formula: string): NamedRangeDefinition | undefined {
+  if (name.startsWith('_xlnm.')) return undefined;
+
+  const match = formula.match(/^(?:'((?:[^']|'')+)'|([^!'"]+))!\$?([A-Z]{1,3})\$?(\d+):\$?([A-Z]{1,3})\$?(\d+)$/);
+  if (!match) return undefined;
+
+  return {
+    name,
+    sheetName: (match[1] ?? match[2]).replace(/''/g, "'"),
+    ref: `${match[3]}${match[4]}:${match[5]}${match[6]}`,
+  };
+}
+
+// Workbook-level names that point at one rectangular range of an existing sheet
+export function readNamedRanges(workbook: XLSX.WorkBook): NamedRangeDefinition[] {
+  const names = workbook.Workbook?.Names ?? [];
+
+  return names.flatMap(definedName => {
+    const namedRange = parseNamedRange(definedName.Name, definedName.Ref);
+    return namedRange && workbook.Sheets[namedRange.sheetName] ? [namedRange] : [];
+  });
+}
@@ -0,0 +1,104 @@
+// Workspaces and role checks for the API. A request works in the workspace named by the route's
+// :workspaceId or the X-Workspace-Id header; without either, the user's first workspace is used.
+// A user who belongs to no workspace yet gets a personal one, so a first sign-in just works.
+import type { NextFunction, Request, RequestHandler, Response } from "express";
+import {
+  workspaceRoles,
+  type InsertWorkspaceMember,
+  type WorkspaceMember,
+  type WorkspaceRole,
+  type WorkspaceWithRole,
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+import type { AuthUser } from "./auth";
+
+// The workspace a request works in and the user's role there, available to routes as req.workspace
+export interface WorkspaceAccess {
+  id: string;
+  role: WorkspaceRole;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      workspace?: WorkspaceAccess;
+    }
+  }
+}
+
+export const WORKSPACE_HEADER = 'X-Workspace-Id';
+const PERSONAL_WORKSPACE_NAME = 'Personal workspace';
+
+// Personal workspaces being created, so parallel first requests of a user create only one
+const pendingPersonalWorkspaces = new Map<string, Promise<WorkspaceWithRole[]>>();
+
+// Viewers read; editors also upload, delete files and save queries; admins also manage the workspace
+export function hasWorkspaceRole(role: WorkspaceRole, required: WorkspaceRole): boolean {
+  return workspaceRoles.indexOf(role) >= workspaceRoles.indexOf(required);
+}
+
+// Helper function to list the user's workspaces, creating a personal one for a user without any
+export async function userWorkspaces(store: IStorage, user: AuthUser): Promise<WorkspaceWithRole[]> {
+  const workspaces = await store.getWorkspacesForUser(user);
+  if (workspaces.length > 0) return workspaces;
+
+  let pending = pendingPersonalWorkspaces.get(user.id);
+  if (!pending) {
+    pending = store.createWorkspace({ name: PERSONAL_WORKSPACE_NAME }, user)
+      .then(workspace => [{ ...workspace, role: 'admin' as const }])
+      .finally(() => pendingPersonalWorkspaces.delete(user.id));
+    pendingPersonalWorkspaces.set(user.id, pending);
+  }
+  return pending;
+}
+
+// Middleware resolving the workspace of the request and rejecting users without the required role.
+// Workspaces the user does not belong to answer 404 as if they did not exist.
+export function requireWorkspaceRole(store: IStorage, required: WorkspaceRole): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    // Share links only reach single files, see requireFileAccess in server/sharing.ts
+    if (!req.user) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    try {
+      const requested = req.params.workspaceId ?? req.get(WORKSPACE_HEADER);
+      let access: WorkspaceAccess | undefined;
+      if (requested) {
+        const role = await store.getWorkspaceRole(requested, req.user!);
+        access = role ? { id: requested, role } : undefined;
+      } else {
+        const [workspace] = await userWorkspaces(store, req.user!);
+        access = { id: workspace.id, role: workspace.role };
+      }
+
+      if (!access) {
+        return res.status(404).json({ message: "Workspace not found" });
+      }
+      if (!hasWorkspaceRole(access.role, required)) {
+        return res.status(403).json({ message: `This needs the ${required} role in the workspace` });
+      }
+      req.workspace = access;
+      next();
+    } catch (error) {
+      console.error('Error checking workspace access:', error);
+      res.status(500).json({ message: "Error checking workspace access" });
+    }
+  };
+}
+
+// Check that a new member is not in the workspace already.
+// Returns an error message, or undefined when the member can be added.
+export function validateNewMember(members: WorkspaceMember[], member: InsertWorkspaceMember): string | undefined {
+  const exists = members.some(existing =>
+    (member.userId !== undefined && existing.userId === member.userId) ||
+    (member.email !== undefined && existing.email === member.email));
+  return exists ? "Already a member of this workspace" : undefined;
+}
+
+// Check that changing a member's role, or removing them when role is undefined, leaves an admin.
+// Returns an error message, or undefined when the change can be made.
+export function validateMemberChange(members: WorkspaceMember[], memberId: string, role?: WorkspaceRole): string | undefined {
+  const admins = members.filter(member => (member.id === memberId ? role : member.role) === 'admin');
+  return admins.length === 0 ? "A workspace needs at least one admin" : undefined;
+}
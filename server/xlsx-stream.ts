@@ -0,0 +1,272 @@
+// Reads .xlsx worksheets row by row straight from the zip archive, so a workbook
+// never has to be fully loaded into memory the way XLSX.readFile does
+import XLSX from "xlsx";
+import path from "path";
+import { StringDecoder } from "string_decoder";
+import type { Readable } from "stream";
+import { excelSerialToIso } from "./importer";
+import { decodeXmlEntities, xmlAttribute, xmlTextRuns } from "./xml";
+import { parseNamedRange } from "./workbook-tables";
+import { ZipArchive } from "./zip";
+
+export interface StreamedWorksheet {
+  name: string;
+  path: string;
+  // Excel tables on the sheet and named ranges pointing into it, which streamed imports leave out
+  tableCount: number;
+  namedRanges: string[];
+}
+
+export interface StreamedRow {
+  values: any[];
+  formats: (string | undefined)[];
+}
+
+export class XlsxStreamReader {
+  private sharedStrings: string[] = [];
+  private styleFormats: (string | undefined)[] = [];
+  // Merged areas of each worksheet read to its end; they follow the rows in the sheet's XML
+  private mergedCells = new Map<string, number>();
+  // Whether the workbook's date serials count from 1904, read when the reader opens
+  date1904 = false;
+
+  private constructor(private archive: ZipArchive) {}
+
+  static async open(filePath: string): Promise<XlsxStreamReader> {
+    let archive: ZipArchive;
+    try {
+      archive = await ZipArchive.open(filePath);
+    } catch {
+      throw new Error('File is not a valid .xlsx workbook');
+    }
+
+    const reader = new XlsxStreamReader(archive);
+    await reader.loadSharedStrings();
+    await reader.loadStyles();
+    return reader;
+  }
+
+  private async loadSharedStrings() {
+    const stream = await this.archive.openEntry('xl/sharedStrings.xml');
+    if (!stream) return;
+
+    for await (const element of streamXmlElements(stream, ['si'])) {
+      this.sharedStrings.push(xmlTextRuns(element));
+    }
+  }
+
+  // Resolve each cell style index to its number format so dates and percentages can be recognised
+  private async loadStyles() {
+    const xml = await this.archive.readEntryText('xl/styles.xml');
+    if (!xml) return;
+
+    const builtInFormats = XLSX.SSF.get_table() as Record<number, string>;
+    const customFormats: Record<string, string> = {};
+    (xml.match(/<numFmt\b[^>]*>/g) ?? []).forEach(element => {
+      const id = xmlAttribute(element, 'numFmtId');
+      const code = xmlAttribute(element, 'formatCode');
+      if (id !== undefined && code !== undefined) customFormats[id] = code;
+    });
+
+    const cellXfs = xml.match(/<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/)?.[1] ?? '';
+    this.styleFormats = (cellXfs.match(/<xf\b[^>]*>/g) ?? []).map(element => {
+      const id = xmlAttribute(element, 'numFmtId') ?? '0';
+      return customFormats[id] ?? builtInFormats[parseInt(id, 10)];
+    });
+  }
+
+  // Worksheets in workbook order; chart sheets and dialog sheets are skipped
+  async worksheets(): Promise<StreamedWorksheet[]> {
+    const workbookXml = await this.archive.readEntryText('xl/workbook.xml');
+    if (!workbookXml) throw new Error('File is not a valid .xlsx workbook');
+
+    this.date1904 = /<workbookPr\b[^>]*\sdate1904="(1|true)"/.test(workbookXml);
+
+    const relsXml = await this.archive.readEntryText('xl/_rels/workbook.xml.rels') ?? '';
+    const targets: Record<string, string> = {};
+    (relsXml.match(/<Relationship\b[^>]*>/g) ?? []).forEach(element => {
+      const id = xmlAttribute(element, 'Id');
+      const target = xmlAttribute(element, 'Target');
+      if (!id || !target) return;
+      targets[id] = target.startsWith('/') ? target.slice(1) : path.posix.normalize(path.posix.join('xl', target));
+    });
+
+    const namedRanges = (workbookXml.match(/<definedName\b[^>]*>[\s\S]*?<\/definedName>/g) ?? []).flatMap(element => {
+      const formula = decodeXmlEntities(element.replace(/^<definedName\b[^>]*>/, '').replace(/<\/definedName>$/, ''));
+      const namedRange = parseNamedRange(xmlAttribute(element, 'name') ?? '', formula);
+      return namedRange ? [namedRange] : [];
+    });
+
+    const worksheets: StreamedWorksheet[] = [];
+    for (const element of workbookXml.match(/<sheet\b[^>]*>/g) ?? []) {
+      const name = xmlAttribute(element, 'name');
+      const target = targets[xmlAttribute(element, 'r:id') ?? ''];
+      if (!name || !target || !/worksheets\//.test(target)) continue;
+      worksheets.push({
+        name,
+        path: target,
+        tableCount: await this.tableCount(target),
+        namedRanges: namedRanges.filter(namedRange => namedRange.sheetName === name).map(namedRange => namedRange.name),
+      });
+    }
+    return worksheets;
+  }
+
+  // Tables are parts of their own, linked from the worksheet's relationships
+  private async tableCount(sheetPath: string): Promise<number> {
+    const relsPath = path.posix.join(path.posix.dirname(sheetPath), '_rels', `${path.posix.basename(sheetPath)}.rels`);
+    const relsXml = await this.archive.readEntryText(relsPath) ?? '';
+    return (relsXml.match(/<Relationship\b[^>]*>/g) ?? [])
+      .filter(element => /tables\/[^/]+\.xml$/.test(xmlAttribute(element, 'Target') ?? ''))
+      .length;
+  }
+
+  // Merged areas of a worksheet, known once its rows were read to the end
+  mergedCellCount(sheet: StreamedWorksheet): number | undefined {
+    return this.mergedCells.get(sheet.path);
+  }
+
+  // Yield every row of a worksheet, including blank rows between filled ones so row positions
+  // match what the in-memory importer sees
+  async *rows(sheet: StreamedWorksheet): AsyncGenerator<StreamedRow> {
+    const stream = await this.archive.openEntry(sheet.path);
+    if (!stream) return;
+
+    let firstColumn = 0;
+    let nextRow: number | undefined;
+    let merges = 0;
+
+    for await (const element of streamXmlElements(stream, ['dimension', 'row', 'mergeCell'])) {
+      if (element.startsWith('<dimension')) {
+        const ref = xmlAttribute(element, 'ref');
+        if (ref) firstColumn = XLSX.utils.decode_range(ref).s.c;
+        continue;
+      }
+      if (element.startsWith('<mergeCell')) {
+        merges++;
+        continue;
+      }
+
+      const rowNumber = parseInt(xmlAttribute(element.slice(0, element.indexOf('>') + 1), 'r') ?? '', 10);
+      const rowIndex = isNaN(rowNumber) ? nextRow ?? 0 : rowNumber - 1;
+      if (nextRow !== undefined) {
+        for (let blank = nextRow; blank < rowIndex; blank++) yield { values: [], formats: [] };
+      }
+      nextRow = rowIndex + 1;
+
+      yield this.parseRow(element, firstColumn);
+    }
+    this.mergedCells.set(sheet.path, merges);
+  }
+
+  private parseRow(element: string, firstColumn: number): StreamedRow {
+    const values: any[] = [];
+    const formats: (string | undefined)[] = [];
+    const cellPattern = /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g;
+    let column = firstColumn;
+    let match: RegExpExecArray | null;
+
+    while ((match = cellPattern.exec(element)) !== null) {
+      const attributes = match[1];
+      const content = match[2] ?? '';
+      const ref = xmlAttribute(attributes, 'r');
+      if (ref) column = XLSX.utils.decode_col(ref.replace(/\d+$/, ''));
+
+      const format = this.styleFormats[parseInt(xmlAttribute(attributes, 's') ?? '0', 10)];
+      const index = column - firstColumn;
+      if (index >= 0) {
+        values[index] = this.cellValue(xmlAttribute(attributes, 't') ?? 'n', content, format);
+        if (format && format !== 'General') formats[index] = format;
+      }
+      column++;
+    }
+
+    return { values, formats };
+  }
+
+  // Same typing as the in-memory importer: numbers, booleans, text, and dates as ISO strings
+  private cellValue(type: string, content: string, format: string | undefined): any {
+    if (type === 'inlineStr') return xmlTextRuns(content);
+
+    const raw = content.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+    if (raw === undefined) return undefined;
+    const text = decodeXmlEntities(raw);
+
+    switch (type) {
+      case 's':
+        return this.sharedStrings[parseInt(text, 10)];
+      case 'b':
+        return text === '1';
+      case 'str':
+      case 'e':
+        return text;
+      case 'd':
+        return text;
+      default: {
+        const value = parseFloat(text);
+        if (isNaN(value)) return undefined;
+        return format && XLSX.SSF.is_date(format) ? excelSerialToIso(value, this.date1904) : value;
+      }
+    }
+  }
+}
+
+// Find the index where the next <tag ...> element starts, ignoring tags that merely share a prefix (row vs rowBreaks)
+function findElementStart(buffer: string, tags: string[], from: number): number {
+  let best = -1;
+  tags.forEach(tag => {
+    let index = buffer.indexOf(`<${tag}`, from);
+    while (index !== -1) {
+      const next = buffer[index + tag.length + 1];
+      if (next === undefined || next === ' ' || next === '>' || next === '/' || next === '\n' || next === '\r' || next === '\t') break;
+      index = buffer.indexOf(`<${tag}`, index + 1);
+    }
+    if (index !== -1 && (best === -1 || index < best)) best = index;
+  });
+  return best;
+}
+
+// Yield complete <tag>...</tag> (or self-closing) elements from an XML stream, holding at most one element in memory
+export async function* streamXmlElements(stream: Readable, tags: string[]): AsyncGenerator<string> {
+  const decoder = new StringDecoder('utf8');
+  let buffer = '';
+
+  for await (const chunk of stream) {
+    buffer += decoder.write(chunk as Buffer);
+
+    let consumed = 0;
+    while (true) {
+      const start = findElementStart(buffer, tags, consumed);
+      if (start === -1) {
+        // Keep a short tail in case a start tag is split across chunks
+        consumed = Math.max(consumed, buffer.length - 16);
+        break;
+      }
+
+      const openEnd = buffer.indexOf('>', start);
+      if (openEnd === -1) {
+        consumed = start;
+        break;
+      }
+
+      if (buffer[openEnd - 1] === '/') {
+        yield buffer.slice(start, openEnd + 1);
+        consumed = openEnd + 1;
+        continue;
+      }
+
+      const tag = tags.find(name => buffer.startsWith(`<${name}`, start) && /[\s>\/]/.test(buffer[start + name.length + 1])) as string;
+      const close = buffer.indexOf(`</${tag}>`, openEnd);
+      if (close === -1) {
+        consumed = start;
+        break;
+      }
+
+      const end = close + tag.length + 3;
+      yield buffer.slice(start, end);
+      consumed = end;
+    }
+
+    buffer = buffer.slice(consumed);
+  }
+}
@@ -0,0 +1,32 @@
+// Minimal helpers for reading the XML parts of Office Open XML packages
+
+const NAMED_ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  amp: '&',
+};
+
+export function decodeXmlEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-z]+);/g, (entity, code: string) => {
+    if (code[0] === '#') {
+      const codePoint = code[1] === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return String.fromCodePoint(codePoint);
+    }
+    return NAMED_ENTITIES[code] ?? entity;
+  });
+}
+
+export function xmlAttribute(element: string, attribute: string): string | undefined {
+  const match = element.match(new RegExp(`\\s${attribute}="([^"]*)"`));
+  return match ? decodeXmlEntities(match[1]) : undefined;
+}
+
+// Concatenated text of all <t> runs inside an element, e.g. a shared or inline rich text string
+export function xmlTextRuns(element: string): string {
+  const runs = element.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '').match(/<t\b[^>]*>[\s\S]*?<\/t>|<t\b[^>]*\/>/g) ?? [];
+  return runs
+    .map(run => decodeXmlEntities(run.replace(/^<t\b[^>]*>/, '').replace(/<\/t>$/, '').replace(/^<t\b[^>]*\/>$/, '')))
+    .join('');
+}
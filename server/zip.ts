@@ -0,0 +1,123 @@
+// Minimal reader for zip archives (.xlsx packages and uploaded .zip batches) that streams
+// entries straight from disk instead of loading the whole archive into memory
+import fs from "fs";
+import zlib from "zlib";
+import type { Readable } from "stream";
+
+export interface ZipEntry {
+  name: string;
+  method: number; // 0 = stored, 8 = deflated
+  encrypted: boolean;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const MAX_ZIP_COMMENT = 0xffff;
+
+async function readBytes(handle: fs.promises.FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+}
+
+// List the entries of a zip archive from its central directory at the end of the file
+async function readZipDirectory(filePath: string): Promise<Map<string, ZipEntry>> {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    const { size } = await handle.stat();
+    const tailLength = Math.min(size, 22 + MAX_ZIP_COMMENT);
+    const tail = await readBytes(handle, size - tailLength, tailLength);
+
+    let eocd = -1;
+    for (let i = tail.length - 22; i >= 0; i--) {
+      if (tail.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+        eocd = i;
+        break;
+      }
+    }
+    if (eocd === -1) throw new Error('File is not a valid zip archive');
+
+    const directorySize = tail.readUInt32LE(eocd + 12);
+    const directoryOffset = tail.readUInt32LE(eocd + 16);
+    if (directoryOffset === 0xffffffff) throw new Error('ZIP64 archives are not supported');
+
+    const directory = await readBytes(handle, directoryOffset, directorySize);
+    const entries = new Map<string, ZipEntry>();
+
+    let offset = 0;
+    while (offset + 46 <= directory.length && directory.readUInt32LE(offset) === CENTRAL_DIRECTORY_HEADER) {
+      const nameLength = directory.readUInt16LE(offset + 28);
+      const extraLength = directory.readUInt16LE(offset + 30);
+      const commentLength = directory.readUInt16LE(offset + 32);
+      const name = directory.toString('utf-8', offset + 46, offset + 46 + nameLength);
+
+      entries.set(name, {
+        name,
+        method: directory.readUInt16LE(offset + 10),
+        encrypted: (directory.readUInt16LE(offset + 8) & 0x1) === 1,
+        compressedSize: directory.readUInt32LE(offset + 20),
+        uncompressedSize: directory.readUInt32LE(offset + 24),
+        localHeaderOffset: directory.readUInt32LE(offset + 42),
+      });
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return entries;
+  } finally {
+    await handle.close();
+  }
+}
+
+export class ZipArchive {
+  private constructor(private filePath: string, private entryMap: Map<string, ZipEntry>) {}
+
+  static async open(filePath: string): Promise<ZipArchive> {
+    return new ZipArchive(filePath, await readZipDirectory(filePath));
+  }
+
+  entries(): ZipEntry[] {
+    return Array.from(this.entryMap.values());
+  }
+
+  has(entryPath: string): boolean {
+    return this.entryMap.has(entryPath);
+  }
+
+  async openEntry(entryPath: string): Promise<Readable | null> {
+    const entry = this.entryMap.get(entryPath);
+    if (!entry) return null;
+    if (entry.encrypted) throw new Error(`${entryPath} is password protected`);
+
+    // The local header repeats the name and has its own extra field, so its length must be read
+    const handle = await fs.promises.open(this.filePath, 'r');
+    let header: Buffer;
+    try {
+      header = await readBytes(handle, entry.localHeaderOffset, 30);
+    } finally {
+      await handle.close();
+    }
+
+    const dataStart = entry.localHeaderOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+    if (entry.compressedSize === 0) return null;
+
+    const raw = fs.createReadStream(this.filePath, { start: dataStart, end: dataStart + entry.compressedSize - 1 });
+    if (entry.method === 0) return raw;
+    if (entry.method !== 8) throw new Error(`Unsupported compression in ${entryPath}`);
+
+    const inflate = zlib.createInflateRaw();
+    raw.on('error', error => inflate.destroy(error));
+    return raw.pipe(inflate);
+  }
+
+  async readEntryText(entryPath: string): Promise<string | null> {
+    const stream = await this.openEntry(entryPath);
+    if (!stream) return null;
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) chunks.push(chunk as Buffer);
+    return Buffer.concat(chunks).toString('utf-8');
+  }
+}
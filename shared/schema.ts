@@ -1,43 +1,507 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, jsonb, timestamp, integer } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, jsonb, timestamp, integer, primaryKey, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Accounts of the local sign-in mode (AUTH_MODE=local). With Supabase, users live in Supabase
+// and this table stays empty.
+export const users = pgTable("users", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  email: text("email").notNull(), // Lower case
+  fullName: text("full_name"),
+  passwordHash: text("password_hash").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [uniqueIndex("users_email_idx").on(table.email)]);
+
+// A team's space for files and saved queries, shared with its members
+export const workspaces = pgTable("workspaces", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  createdBy: varchar("created_by").notNull(), // Id of the user who created the workspace
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// A member is added by user id, or by email for someone who may not have signed in yet
+export const workspaceMembers = pgTable("workspace_members", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  userId: varchar("user_id"),
+  email: text("email"), // Lower case
+  role: text("role").$type<WorkspaceRole>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("workspace_members_user_idx").on(table.workspaceId, table.userId),
+  uniqueIndex("workspace_members_email_idx").on(table.workspaceId, table.email),
+]);
+
 export const excelFiles = pgTable("excel_files", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
   filename: text("filename").notNull(),
   originalName: text("original_name").notNull(),
   size: integer("size").notNull(),
   mimeType: text("mime_type").notNull(),
+  batchId: varchar("batch_id"), // Files uploaded together (several files or one .zip) share a batch id
   uploadedAt: timestamp("uploaded_at").defaultNow().notNull(),
-});
+}, (table) => [index("excel_files_workspace_id_idx").on(table.workspaceId)]);
 
 export const excelData = pgTable("excel_data", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull(), // Same as the workspace of the file
   fileId: varchar("file_id").notNull().references(() => excelFiles.id, { onDelete: "cascade" }),
-  sheetName: text("sheet_name").notNull(),
+  sheetName: text("sheet_name").notNull(), // Sheet, table or named range name
+  sourceType: text("source_type").notNull().default("sheet"), // See DataSourceType
+  sourceRef: text("source_ref"), // Location in the workbook, e.g. "Sheet1!A1:F40"
   headers: jsonb("headers").notNull(), // Array of column names
-  data: jsonb("data").notNull(), // Array of row objects
   rowCount: integer("row_count").notNull(),
   columnCount: integer("column_count").notNull(),
   statistics: jsonb("statistics"), // Statistical analysis results
+  importOptions: jsonb("import_options"), // Parse options used for this sheet, see ImportOptions
+  importReport: jsonb("import_report"), // What the importer changed while reading this sheet, see ImportReport
+  columnFormats: jsonb("column_formats"), // Original number format per column, e.g. { "Price": "$#,##0.00" }
+  cellDetails: jsonb("cell_details"), // Formulas, hyperlinks and comments from a rich import, see CellDetail
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// One row of a dataset, stored apart from the dataset so rows can be paged without loading the whole sheet
+export const excelRows = pgTable("excel_rows", {
+  dataId: varchar("data_id").notNull().references(() => excelData.id, { onDelete: "cascade" }),
+  rowIndex: integer("row_index").notNull(), // 0-based position in the dataset
+  data: jsonb("data").notNull(), // Row object keyed by column name
+  formatted: jsonb("formatted"), // Displayed text of the cells whose text differs from their value
+}, (table) => [primaryKey({ columns: [table.dataId, table.rowIndex] })]);
+
+// A query saved from the SQL console
+export const savedQueries = pgTable("saved_queries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  sql: text("sql").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [index("saved_queries_workspace_id_idx").on(table.workspaceId)]);
+
+// A file shared with one user outside its workspace, by user id or by email like a member
+export const fileShares = pgTable("file_shares", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  fileId: varchar("file_id").notNull().references(() => excelFiles.id, { onDelete: "cascade" }),
+  workspaceId: varchar("workspace_id").notNull(), // The file's workspace
+  userId: varchar("user_id"),
+  email: text("email"), // Lower case
+  access: text("access").$type<ShareAccess>().notNull(),
+  createdBy: varchar("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("file_shares_user_idx").on(table.fileId, table.userId),
+  uniqueIndex("file_shares_email_idx").on(table.fileId, table.email),
+]);
+
+// A read-only link to a file. The link's token is signed by the server and names the link, so a
+// link stops working once it expires or is revoked here.
+export const shareLinks = pgTable("share_links", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  fileId: varchar("file_id").notNull().references(() => excelFiles.id, { onDelete: "cascade" }),
+  workspaceId: varchar("workspace_id").notNull(), // The file's workspace
+  createdBy: varchar("created_by").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [index("share_links_file_id_idx").on(table.fileId)]);
+
+// The workspace is set by the storage from the one the request works in, never from the body
 export const insertExcelFileSchema = createInsertSchema(excelFiles).omit({
   id: true,
+  workspaceId: true,
   uploadedAt: true,
 });
 
+// A dataset is created together with its first rows, which the storage moves to excelRows
 export const insertExcelDataSchema = createInsertSchema(excelData).omit({
   id: true,
+  workspaceId: true,
   createdAt: true,
+}).extend({
+  data: z.array(z.record(z.any())).default([]), // Row objects keyed by column name
+  formattedData: z.array(z.record(z.string())).nullish(), // Per row, the displayed text of cells whose text differs from their value
 });
 
 export type InsertExcelFile = z.infer<typeof insertExcelFileSchema>;
 export type InsertExcelData = z.infer<typeof insertExcelDataSchema>;
 export type ExcelFile = typeof excelFiles.$inferSelect;
 export type ExcelData = typeof excelData.$inferSelect;
+export type ExcelRow = typeof excelRows.$inferSelect;
+export type ExcelDataUpdate = Partial<Omit<InsertExcelData, "fileId" | "data" | "formattedData">>;
+// A dataset with all of its rows, as returned by /api/data/:dataId
+export type ExcelDataWithRows = ExcelData & {
+  data: Record<string, any>[];
+  formattedData: Record<string, string>[] | null;
+};
+
+// Where in a workbook a dataset was read from
+export const dataSourceTypes = ["sheet", "table", "namedRange"] as const;
+export type DataSourceType = typeof dataSourceTypes[number];
+
+// Upload size limits, shared so the client can reject oversized files before sending them
+export const MAX_UPLOAD_BYTES = 500 * 1024 * 1024;
+// Larger files are parsed as a stream instead of being loaded into memory at once
+export const STREAMING_THRESHOLD_BYTES = 25 * 1024 * 1024;
+// Most files accepted in one batch, counting the files inside a .zip archive
+export const MAX_BATCH_FILES = 50;
+// Size of each part of a chunked upload; only the last chunk may be smaller
+export const UPLOAD_CHUNK_BYTES = 5 * 1024 * 1024;
+// Largest JSON request body, which also bounds how much data can be pasted from the clipboard
+export const MAX_PASTE_BYTES = 10 * 1024 * 1024;
+
+// Chunked upload types
+export const uploadInitSchema = z.object({
+  fileName: z.string().min(1),
+  size: z.number().int().min(1).max(MAX_UPLOAD_BYTES),
+  mimeType: z.string().default(""),
+});
+
+export const uploadSessionSchema = z.object({
+  id: z.string(),
+  fileName: z.string(),
+  size: z.number(),
+  mimeType: z.string(),
+  chunkSize: z.number(),
+  totalChunks: z.number(),
+  receivedChunks: z.array(z.number()), // Indexes of the chunks stored so far
+  createdAt: z.string(),
+});
+
+export type UploadInit = z.infer<typeof uploadInitSchema>;
+export type UploadSession = z.infer<typeof uploadSessionSchema>;
+
+// Outcome of one file of a batch upload: the job importing it, or why it was rejected
+export const batchImportItemSchema = z.object({
+  fileName: z.string(),
+  jobId: z.string().optional(),
+  error: z.string().optional(),
+});
+
+export type BatchImportItem = z.infer<typeof batchImportItemSchema>;
+
+// Import preview types. A single uploaded file is parsed for a preview first and only
+// stored once the user commits it, optionally leaving out sheets or changing columns.
+export const PREVIEW_ROW_COUNT = 50;
+
+export const columnDataTypes = ["number", "text", "date", "boolean"] as const;
+
+export const columnPreviewSchema = z.object({
+  name: z.string(),
+  inferredType: z.enum(columnDataTypes),
+});
+
+export const sheetPreviewSchema = z.object({
+  sheetName: z.string(),
+  sourceType: z.enum(dataSourceTypes),
+  columns: z.array(columnPreviewSchema),
+  rows: z.array(z.array(z.any())), // The first PREVIEW_ROW_COUNT data rows
+  rowCount: z.number().optional(), // Unknown for large files, which are only read as far as the preview
+  headerRow: z.number().optional(), // 0-based, as applied by the import options
+  headerDetected: z.boolean().optional(),
+  warnings: z.array(z.string()),
+});
+
+export const importPreviewSchema = z.object({
+  id: z.string(),
+  fileName: z.string(),
+  size: z.number(),
+  sheets: z.array(sheetPreviewSchema),
+  expiresAt: z.string(), // The uploaded file is discarded if the preview is not committed by then
+});
+
+export const columnOverrideSchema = z.object({
+  name: z.string().trim().min(1, "Column names cannot be empty").max(255).optional(),
+  type: z.enum(columnDataTypes).optional(), // Values are converted to this type instead of being kept as read
+});
+
+export const sheetSelectionSchema = z.object({
+  include: z.boolean().default(true),
+  columns: z.record(columnOverrideSchema).default({}), // Keyed by the column name shown in the preview
+});
+
+// Sheets that are not listed are imported as previewed
+export const importCommitSchema = z.object({
+  sheets: z.record(sheetSelectionSchema).default({}),
+});
+
+export type ColumnDataType = typeof columnDataTypes[number];
+export type ColumnPreview = z.infer<typeof columnPreviewSchema>;
+export type SheetPreview = z.infer<typeof sheetPreviewSchema>;
+export type ImportPreview = z.infer<typeof importPreviewSchema>;
+export type ColumnOverride = z.infer<typeof columnOverrideSchema>;
+export type SheetSelection = z.infer<typeof sheetSelectionSchema>;
+export type ImportCommit = z.infer<typeof importCommitSchema>;
+
+// Import job types, streamed to the client while an upload is parsed
+export const importJobStatuses = ["running", "completed", "failed", "cancelled"] as const;
+
+export const sheetProgressSchema = z.object({
+  sheetName: z.string(),
+  status: z.enum(["parsing", "done"]),
+  rowsProcessed: z.number(),
+  warnings: z.array(z.string()),
+});
+
+export const importJobSchema = z.object({
+  id: z.string(),
+  fileName: z.string(),
+  status: z.enum(importJobStatuses),
+  sheets: z.array(sheetProgressSchema), // Sheets appear here once parsing reaches them
+  error: z.string().optional(),
+  createdAt: z.string(),
+});
+
+export type ImportJobStatus = typeof importJobStatuses[number];
+export type SheetProgress = z.infer<typeof sheetProgressSchema>;
+export type ImportJob = z.infer<typeof importJobSchema>;
+
+// Import options types
+const cellRangePattern = /^[A-Za-z]{1,3}[0-9]+:[A-Za-z]{1,3}[0-9]+$/;
+
+export const importOptionsSchema = z.object({
+  headerRow: z.number().int().min(0).optional(), // 0-based row within the range, detected automatically when omitted
+  skipRows: z.number().int().min(0).default(0), // Rows dropped before the header is located
+  headerRowCount: z.number().int().min(1).max(5).default(1), // Rows joined into one header for multi-row headers
+  headerSeparator: z.string().max(5).default(" "),
+  range: z.string().regex(cellRangePattern, "Range must look like B3:K500").optional(),
+  ignoreHidden: z.boolean().default(false),
+  richImport: z.boolean().default(false), // Also keep formulas, hyperlinks and comments of each cell
+});
+
+// Options sent with an upload: defaults for every sheet plus per-sheet overrides
+export const uploadOptionsSchema = importOptionsSchema.extend({
+  sheets: z.record(importOptionsSchema.partial()).optional(),
+});
+
+// Tabular data pasted from the clipboard, already split into cells by the client
+export const pasteDataSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(255),
+  rows: z.array(z.array(z.string())).min(1, "No data was pasted"),
+  options: importOptionsSchema.optional(),
+});
+
+// Options as stored on an excelData entry once the header row has been resolved
+export const appliedImportOptionsSchema = importOptionsSchema.extend({
+  headerRow: z.number().int().min(0),
+  headerDetected: z.boolean(),
+});
+
+export const columnRenameSchema = z.object({
+  index: z.number().int().min(0), // 0-based column position
+  original: z.string(),
+  renamed: z.string(),
+  reason: z.enum(["duplicate", "blank"]),
+});
+
+export const importReportSchema = z.object({
+  renamedColumns: z.array(columnRenameSchema),
+  warnings: z.array(z.string()).optional(), // e.g. options that were ignored by a streamed import
+});
+
+// Extra cell information kept by a rich import
+export const cellDetailSchema = z.object({
+  row: z.number().int().min(0), // Index into the sheet's data rows
+  column: z.string(),
+  formula: z.string().optional(),
+  hyperlink: z.string().optional(),
+  comment: z.string().optional(),
+});
+
+export type ImportOptions = z.infer<typeof importOptionsSchema>;
+export type UploadOptions = z.infer<typeof uploadOptionsSchema>;
+export type PasteData = z.infer<typeof pasteDataSchema>;
+export type AppliedImportOptions = z.infer<typeof appliedImportOptionsSchema>;
+export type ColumnRename = z.infer<typeof columnRenameSchema>;
+export type ImportReport = z.infer<typeof importReportSchema>;
+export type CellDetail = z.infer<typeof cellDetailSchema>;
+
+// Row query types, for paging through a dataset with sorting and filters applied by the server
+export const MAX_ROW_PAGE_SIZE = 1000;
+
+export const cellValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+const filterColumnSchema = z.string().min(1, "Filter column is required");
+// A missing value is null, absent or empty text; isNull matches those, contains, range and in never do
+export const rowFilterSchema = z.discriminatedUnion("op", [
+  z.object({ column: filterColumnSchema, op: z.literal("equals"), value: cellValueSchema }),
+  z.object({ column: filterColumnSchema, op: z.literal("contains"), value: z.string().min(1) }),
+  z.object({
+    column: filterColumnSchema,
+    op: z.literal("range"),
+    // Number bounds match numbers, text bounds match text such as ISO dates; both ends are inclusive
+    min: z.union([z.number(), z.string()]).optional(),
+    max: z.union([z.number(), z.string()]).optional(),
+  }),
+  z.object({ column: filterColumnSchema, op: z.literal("in"), values: z.array(cellValueSchema).min(1).max(1000) }),
+  z.object({ column: filterColumnSchema, op: z.literal("isNull") }),
+  z.object({ column: filterColumnSchema, op: z.literal("notNull") }),
+]).refine(
+  filter => filter.op !== "range" || filter.min !== undefined || filter.max !== undefined,
+  "A range filter needs a minimum or a maximum",
+);
+
+export const rowSortSchema = z.object({
+  column: z.string().min(1),
+  direction: z.enum(["asc", "desc"]).default("asc"),
+});
+
+export const rowQuerySchema = z.object({
+  offset: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(MAX_ROW_PAGE_SIZE).default(100),
+  // Later sort keys break ties of earlier ones; rows that still tie keep their original order
+  sort: z.array(rowSortSchema).max(5).default([]),
+  filters: z.array(rowFilterSchema).max(20).default([]),
+  // Text searched for in every column
+  search: z.string().trim().max(200).optional(),
+});
+
+export const rowPageSchema = z.object({
+  dataId: z.string(),
+  offset: z.number(),
+  limit: z.number(),
+  total: z.number(), // Rows matching the filters
+  rows: z.array(z.object({
+    index: z.number(), // Position of the row in the dataset, as used by cell details
+    values: z.record(z.any()),
+    formatted: z.record(z.string()).nullable(),
+  })),
+});
+
+export type CellValue = z.infer<typeof cellValueSchema>;
+export type RowFilter = z.infer<typeof rowFilterSchema>;
+export type RowSort = z.infer<typeof rowSortSchema>;
+export type RowQuery = z.infer<typeof rowQuerySchema>;
+export type RowPage = z.infer<typeof rowPageSchema>;
+
+// Aggregation types: rows grouped by some columns with measures computed per group
+export const MAX_AGGREGATE_GROUPS = 10000;
+
+export const aggregateFunctions = ["count", "sum", "avg", "min", "max", "countDistinct", "median", "percentile"] as const;
+
+export const aggregateMeasureSchema = z.object({
+  fn: z.enum(aggregateFunctions),
+  // Count without a column counts rows; every other function needs one
+  column: z.string().min(1).optional(),
+  // Percentile between 0 and 100, only used by the percentile function
+  percentile: z.number().min(0).max(100).optional(),
+  // Name of the measure in the result, e.g. "Total revenue"
+  as: z.string().trim().min(1).max(255).optional(),
+}).refine(measure => measure.fn === "count" || measure.column !== undefined, "This measure needs a column")
+  .refine(measure => measure.fn !== "percentile" || measure.percentile !== undefined, "A percentile measure needs a percentile");
+
+export const aggregateRequestSchema = z.object({
+  groupBy: z.array(z.string().min(1)).max(5).default([]),
+  measures: z.array(aggregateMeasureSchema).min(1, "At least one measure is required").max(20),
+  filters: z.array(rowFilterSchema).max(20).default([]),
+  search: z.string().trim().max(200).optional(),
+  // Sort keys name result columns; groups are ordered by the group-by columns otherwise
+  sort: z.array(rowSortSchema).max(5).default([]),
+  limit: z.number().int().min(1).max(MAX_AGGREGATE_GROUPS).default(1000),
+});
+
+export const aggregateColumnSchema = z.object({
+  name: z.string(),
+  role: z.enum(["dimension", "measure"]),
+  fn: z.enum(aggregateFunctions).optional(),
+  column: z.string().optional(), // Source column of the dimension or measure
+});
+
+// One row per group, keyed by the result column names
+export const aggregateResultSchema = z.object({
+  dataId: z.string(),
+  columns: z.array(aggregateColumnSchema),
+  rows: z.array(z.record(z.any())),
+  groupCount: z.number(), // Groups found before the limit was applied
+  truncated: z.boolean(),
+});
+
+export type AggregateFunction = typeof aggregateFunctions[number];
+export type AggregateMeasure = z.infer<typeof aggregateMeasureSchema>;
+export type AggregateRequest = z.infer<typeof aggregateRequestSchema>;
+export type AggregateColumn = z.infer<typeof aggregateColumnSchema>;
+export type AggregateResult = z.infer<typeof aggregateResultSchema>;
+
+// Pivot table types. The server computes every level of the row and column fields, so the
+// client can show subtotals and grand totals and expand or collapse groups without asking again.
+export const MAX_PIVOT_ROWS = 5000;
+export const MAX_PIVOT_COLUMNS = 200;
+
+export const pivotRequestSchema = z.object({
+  rows: z.array(z.string().min(1)).max(4).default([]),
+  columns: z.array(z.string().min(1)).max(3).default([]),
+  values: z.array(aggregateMeasureSchema).min(1, "Add at least one value field").max(10),
+  filters: z.array(rowFilterSchema).max(20).default([]),
+});
+
+// Measures of the rows whose row fields start with `row` and column fields start with `column`;
+// shorter keys are subtotals and empty keys the grand totals
+export const pivotCellSchema = z.object({
+  row: z.array(z.any()),
+  column: z.array(z.any()),
+  values: z.array(z.union([z.number(), z.string(), z.null()])),
+});
+
+export const pivotResultSchema = z.object({
+  dataId: z.string(),
+  rows: z.array(z.string()),
+  columns: z.array(z.string()),
+  values: z.array(aggregateColumnSchema),
+  // Distinct values of all row and column fields, sorted like the rows endpoint sorts
+  rowKeys: z.array(z.array(z.any())),
+  columnKeys: z.array(z.array(z.any())),
+  cells: z.array(pivotCellSchema),
+});
+
+export type PivotRequest = z.infer<typeof pivotRequestSchema>;
+export type PivotCell = z.infer<typeof pivotCellSchema>;
+export type PivotResult = z.infer<typeof pivotResultSchema>;
+
+// SQL console types. Every dataset is a table named after its sheet, see server/sql-query.ts.
+export const MAX_SQL_LENGTH = 20000;
+export const MAX_SQL_RESULT_ROWS = 10000;
+
+export const sqlQueryRequestSchema = z.object({
+  sql: z.string().trim().min(1, "Enter a query").max(MAX_SQL_LENGTH),
+  limit: z.number().int().min(1).max(MAX_SQL_RESULT_ROWS).default(1000),
+});
+
+export const sqlTableSchema = z.object({
+  name: z.string(), // Table name to use in queries
+  dataId: z.string(),
+  fileId: z.string(),
+  fileName: z.string(),
+  sheetName: z.string(),
+  rowCount: z.number(),
+  // Column names in SQL, which differ from the headers only when headers clash without regard to case
+  columns: z.array(z.object({ name: z.string(), header: z.string(), type: z.enum(columnDataTypes).optional() })),
+});
+
+export const sqlResultSchema = z.object({
+  columns: z.array(z.string()),
+  rows: z.array(z.array(z.union([z.number(), z.string(), z.null()]))),
+  truncated: z.boolean(), // More rows than the limit were returned; only the first ones are included
+  tables: z.array(z.string()), // Tables the query read
+  durationMs: z.number(),
+});
+
+export const insertSavedQuerySchema = createInsertSchema(savedQueries).omit({
+  id: true,
+  workspaceId: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Name is required").max(200),
+  sql: z.string().trim().min(1, "Enter a query").max(MAX_SQL_LENGTH),
+});
+
+export type SqlQueryRequest = z.infer<typeof sqlQueryRequestSchema>;
+export type SqlTable = z.infer<typeof sqlTableSchema>;
+export type SqlResult = z.infer<typeof sqlResultSchema>;
+export type InsertSavedQuery = z.infer<typeof insertSavedQuerySchema>;
+export type SavedQuery = typeof savedQueries.$inferSelect;
 
 // Chart data types
 export const chartConfigSchema = z.object({
@@ -62,6 +526,8 @@ export const statisticsSchema = z.object({
   count: z.number(),
   nullCount: z.number(),
   uniqueCount: z.number(),
+  dataType: z.enum(columnDataTypes).optional(),
+  approximate: z.boolean().optional(), // Median, unique count and mode were estimated
 });
 
 export type Statistics = z.infer<typeof statisticsSchema>;
@@ -77,3 +543,87 @@ export const summaryStatsSchema = z.object({
 });
 
 export type SummaryStats = z.infer<typeof summaryStatsSchema>;
+
+// Workspace types. Roles are ordered: viewers read, editors also upload, delete files and save
+// queries, admins also manage the workspace and its members.
+export const workspaceRoles = ["viewer", "editor", "admin"] as const;
+export type WorkspaceRole = typeof workspaceRoles[number];
+
+export const insertWorkspaceSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+});
+
+// Exactly one of email and userId identifies the new member
+export const insertWorkspaceMemberSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Enter a valid email").optional(),
+  userId: z.string().trim().min(1).max(255).optional(),
+  role: z.enum(workspaceRoles),
+}).refine(member => !member.email !== !member.userId, { message: "Give either an email or a user id" });
+
+export const workspaceMemberUpdateSchema = z.object({
+  role: z.enum(workspaceRoles),
+});
+
+export type InsertWorkspace = z.infer<typeof insertWorkspaceSchema>;
+export type InsertWorkspaceMember = z.infer<typeof insertWorkspaceMemberSchema>;
+export type Workspace = typeof workspaces.$inferSelect;
+export type WorkspaceMember = typeof workspaceMembers.$inferSelect;
+// A workspace as listed for one of its members, with that member's role
+export type WorkspaceWithRole = Workspace & { role: WorkspaceRole };
+
+// Sharing types. Shares are read-only: view access reads a file's dashboard and data, while deleting
+// the file and managing its shares stay with the editors of its workspace.
+export const shareAccessLevels = ["view"] as const;
+export type ShareAccess = typeof shareAccessLevels[number];
+
+// Exactly one of email and userId identifies the user, as for workspace members
+export const insertFileShareSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Enter a valid email").optional(),
+  userId: z.string().trim().min(1).max(255).optional(),
+  access: z.enum(shareAccessLevels).default("view"),
+}).refine(share => !share.email !== !share.userId, { message: "Give either an email or a user id" });
+
+export const MAX_SHARE_LINK_DAYS = 90;
+
+export const shareLinkRequestSchema = z.object({
+  expiresInDays: z.number().int().min(1).max(MAX_SHARE_LINK_DAYS),
+});
+
+export const acceptInviteSchema = z.object({
+  token: z.string().min(1),
+});
+
+export type InsertFileShare = z.infer<typeof insertFileShareSchema>;
+export type ShareLinkRequest = z.infer<typeof shareLinkRequestSchema>;
+export type FileShare = typeof fileShares.$inferSelect;
+export type ShareLink = typeof shareLinks.$inferSelect;
+// A share link with its signed token, which is what goes in the link's URL
+export type ShareLinkWithToken = ShareLink & { token: string };
+// Members and shares added by email, with the token of their invite link until someone accepts it
+type PendingInvite = { inviteToken?: string; inviteExpiresAt?: Date };
+export type WorkspaceMemberWithInvite = WorkspaceMember & PendingInvite;
+export type FileShareWithInvite = FileShare & PendingInvite;
+// Where an accepted invite leads: the workspace, or the file when it was shared on its own
+export type AcceptedInvite = { workspaceId: string; fileId?: string };
+// A file as listed for a user it is shared with
+export type SharedFile = ExcelFile & { access: ShareAccess };
+
+// Local account types. The password hash never leaves the server; routes answer with a PublicUser.
+export const MIN_PASSWORD_LENGTH = 8;
+
+export const signUpSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Enter a valid email"),
+  password: z.string().min(MIN_PASSWORD_LENGTH, `Use at least ${MIN_PASSWORD_LENGTH} characters`).max(200),
+  fullName: z.string().trim().min(1, "Full name is required").max(100),
+});
+
+export const signInSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Enter a valid email"),
+  password: z.string().min(1, "Password is required").max(200),
+});
+
+export type SignUp = z.infer<typeof signUpSchema>;
+export type SignIn = z.infer<typeof signInSchema>;
+export type User = typeof users.$inferSelect;
+export type InsertUser = Pick<User, "email" | "fullName" | "passwordHash">;
+export type PublicUser = Omit<User, "passwordHash">;